@@ -0,0 +1,18 @@
+-- AI Law Impact Analysis System - Revert Initial Schema
+-- Migration: 0001_initial_schema.down.sql
+-- Extensions are left installed; other database objects may use them
+
+DROP TRIGGER IF EXISTS update_local_regulations_updated_at ON local_regulations;
+DROP TRIGGER IF EXISTS update_laws_updated_at ON laws;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+
+DROP TABLE IF EXISTS review_history;
+DROP TABLE IF EXISTS notifications;
+DROP TABLE IF EXISTS impact_analyses;
+DROP TABLE IF EXISTS users;
+DROP TABLE IF EXISTS law_regulation_links;
+DROP TABLE IF EXISTS regulation_articles;
+DROP TABLE IF EXISTS local_regulations;
+DROP TABLE IF EXISTS articles;
+DROP TABLE IF EXISTS law_revisions;
+DROP TABLE IF EXISTS laws;
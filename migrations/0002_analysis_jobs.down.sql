@@ -0,0 +1,4 @@
+-- AI Law Impact Analysis System - Revert Analysis Job Tracking
+-- Migration: 0002_analysis_jobs.down.sql
+
+DROP TABLE IF EXISTS analysis_jobs;
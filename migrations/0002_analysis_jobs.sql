@@ -0,0 +1,29 @@
+-- AI Law Impact Analysis System - Analysis Job Tracking
+-- Migration: 0002_analysis_jobs.sql
+
+-- ============================================================
+-- 11. Analysis Jobs Table (영향 분석 작업)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  job_id VARCHAR(100) PRIMARY KEY,
+  revision_id VARCHAR(100) NOT NULL REFERENCES law_revisions(revision_id) ON DELETE CASCADE,
+  target_local_gov VARCHAR(200),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  processed_items INTEGER NOT NULL DEFAULT 0,
+  created_analyses INTEGER NOT NULL DEFAULT 0,
+  skipped_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_by VARCHAR(100) REFERENCES users(user_id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_analysis_jobs_revision_id ON analysis_jobs(revision_id);
+CREATE INDEX idx_analysis_jobs_status ON analysis_jobs(status);
+CREATE INDEX idx_analysis_jobs_created_at ON analysis_jobs(created_at DESC);
+
+COMMENT ON TABLE analysis_jobs IS '영향 분석 작업 테이블';
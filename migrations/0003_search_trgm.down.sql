@@ -0,0 +1,7 @@
+-- AI Law Impact Analysis System - Revert Lexical Search Indexes
+-- Migration: 0003_search_trgm.down.sql
+
+DROP INDEX IF EXISTS idx_reg_articles_content_trgm;
+DROP INDEX IF EXISTS idx_articles_content_trgm;
+DROP INDEX IF EXISTS idx_regulations_name_trgm;
+DROP INDEX IF EXISTS idx_laws_name_trgm;
@@ -0,0 +1,13 @@
+-- AI Law Impact Analysis System - Lexical Search Indexes
+-- Migration: 0003_search_trgm.sql
+
+-- Enable trigram matching for Korean name/content search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================================
+-- Trigram indexes (법령명, 자치법규명, 조문 내용)
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_laws_name_trgm ON laws USING gin (law_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_regulations_name_trgm ON local_regulations USING gin (regulation_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_articles_content_trgm ON articles USING gin (article_content gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_reg_articles_content_trgm ON regulation_articles USING gin (article_content gin_trgm_ops);
@@ -0,0 +1,6 @@
+-- AI Law Impact Analysis System - Revert Review Workflow
+-- Migration: 0004_review_workflow.down.sql
+
+DROP FUNCTION IF EXISTS apply_review_transition(VARCHAR, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, VARCHAR, VARCHAR, TEXT);
+DROP INDEX IF EXISTS idx_analyses_review_status;
+ALTER TABLE impact_analyses DROP COLUMN IF EXISTS review_status;
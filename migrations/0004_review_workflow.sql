@@ -0,0 +1,64 @@
+-- AI Law Impact Analysis System - Review Workflow
+-- Migration: 0004_review_workflow.sql
+
+-- ============================================================
+-- Review status on impact analyses (검토 상태)
+-- pending → in_review → commented → approved | rejected | on_hold
+-- ============================================================
+ALTER TABLE impact_analyses
+  ADD COLUMN IF NOT EXISTS review_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+  CHECK (review_status IN ('pending', 'in_review', 'commented', 'on_hold', 'approved', 'rejected'));
+
+-- Backfill from the latest review history entry
+UPDATE impact_analyses ia
+SET review_status = CASE h.action
+    WHEN '검토시작' THEN 'in_review'
+    WHEN '의견입력' THEN 'commented'
+    WHEN '보류' THEN 'on_hold'
+    WHEN '개정결정' THEN 'approved'
+    WHEN '개정불요' THEN 'rejected'
+  END
+FROM (
+  SELECT DISTINCT ON (analysis_id) analysis_id, action
+  FROM review_history
+  ORDER BY analysis_id, created_at DESC
+) h
+WHERE ia.analysis_id = h.analysis_id;
+
+CREATE INDEX IF NOT EXISTS idx_analyses_review_status ON impact_analyses(review_status);
+
+-- ============================================================
+-- Atomic review transition
+-- Compare-and-set on review_status plus the review_history row.
+-- Raises 'review_conflict' when the analysis moved to another status.
+-- ============================================================
+CREATE OR REPLACE FUNCTION apply_review_transition(
+  p_analysis_id VARCHAR,
+  p_from_status VARCHAR,
+  p_to_status VARCHAR,
+  p_complete BOOLEAN,
+  p_history_id VARCHAR,
+  p_user_id VARCHAR,
+  p_action VARCHAR,
+  p_comment TEXT
+)
+RETURNS SETOF review_history AS $$
+BEGIN
+  UPDATE impact_analyses
+  SET review_status = p_to_status,
+      reviewed = p_complete,
+      reviewer_id = CASE WHEN p_complete THEN p_user_id ELSE reviewer_id END,
+      reviewed_at = CASE WHEN p_complete THEN CURRENT_TIMESTAMP ELSE reviewed_at END
+  WHERE analysis_id = p_analysis_id
+    AND review_status = p_from_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'review_conflict: analysis % is no longer %', p_analysis_id, p_from_status;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO review_history (history_id, analysis_id, user_id, action, comment)
+  VALUES (p_history_id, p_analysis_id, p_user_id, p_action, p_comment)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
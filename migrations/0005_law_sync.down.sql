@@ -0,0 +1,4 @@
+-- AI Law Impact Analysis System - Revert Law Synchronisation
+-- Migration: 0005_law_sync.down.sql
+
+DROP TABLE IF EXISTS law_sync_runs;
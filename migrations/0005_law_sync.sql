@@ -0,0 +1,29 @@
+-- AI Law Impact Analysis System - Law Synchronisation
+-- Migration: 0005_law_sync.sql
+
+-- ============================================================
+-- 12. Law Sync Runs Table (법령 동기화 실행 이력)
+-- law_ids is the work list fetched at the start of a run and
+-- cursor the index of the next law to process, so a failed run
+-- can resume where it stopped.
+-- ============================================================
+CREATE TABLE IF NOT EXISTS law_sync_runs (
+  run_id VARCHAR(100) PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  from_date DATE NOT NULL,
+  law_ids JSONB NOT NULL DEFAULT '[]',
+  cursor INTEGER NOT NULL DEFAULT 0,
+  new_laws INTEGER NOT NULL DEFAULT 0,
+  updated_laws INTEGER NOT NULL DEFAULT 0,
+  new_revisions INTEGER NOT NULL DEFAULT 0,
+  new_articles INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_law_sync_runs_status ON law_sync_runs(status, started_at DESC);
+
+COMMENT ON TABLE law_sync_runs IS '법령 동기화 실행 이력 및 체크포인트 테이블';
@@ -0,0 +1,4 @@
+-- AI Law Impact Analysis System - Revert Scheduled Job Runs
+-- Migration: 0006_job_runs.down.sql
+
+DROP TABLE IF EXISTS job_runs;
@@ -0,0 +1,23 @@
+-- AI Law Impact Analysis System - Scheduled Job Runs
+-- Migration: 0006_job_runs.sql
+
+-- ============================================================
+-- 13. Job Runs Table (예약 작업 실행 이력)
+-- One row per execution of a registered job (cron or manual)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS job_runs (
+  run_id VARCHAR(100) PRIMARY KEY,
+  job_name VARCHAR(50) NOT NULL,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('cron', 'manual')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  result JSONB,
+  error_message TEXT,
+  triggered_by VARCHAR(100) REFERENCES users(user_id),
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_job_runs_job_name ON job_runs(job_name, started_at DESC);
+CREATE INDEX idx_job_runs_status ON job_runs(status);
+
+COMMENT ON TABLE job_runs IS '예약 작업 실행 이력 테이블';
@@ -0,0 +1,5 @@
+-- AI Law Impact Analysis System - Revert Amendment Drafts
+-- Migration: 0007_amendment_drafts.down.sql
+
+DROP TABLE IF EXISTS amendment_draft_versions;
+DROP TABLE IF EXISTS amendment_drafts;
@@ -0,0 +1,44 @@
+-- AI Law Impact Analysis System - Amendment Drafts
+-- Migration: 0007_amendment_drafts.sql
+
+-- ============================================================
+-- 14. Amendment Drafts Table (조례 개정안 초안)
+-- One draft per impact analysis; the text lives in its versions
+-- ============================================================
+CREATE TABLE IF NOT EXISTS amendment_drafts (
+  draft_id VARCHAR(100) PRIMARY KEY,
+  analysis_id VARCHAR(100) NOT NULL UNIQUE REFERENCES impact_analyses(analysis_id) ON DELETE CASCADE,
+  reg_article_id VARCHAR(100) NOT NULL REFERENCES regulation_articles(reg_article_id),
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved')),
+  current_version INTEGER NOT NULL DEFAULT 1,
+  approved_version INTEGER,
+  created_by VARCHAR(100) NOT NULL REFERENCES users(user_id),
+  approved_by VARCHAR(100) REFERENCES users(user_id),
+  approved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_amendment_drafts_status ON amendment_drafts(status);
+
+COMMENT ON TABLE amendment_drafts IS '조례 개정안 초안 테이블';
+
+-- ============================================================
+-- 15. Amendment Draft Versions Table (개정안 초안 버전)
+-- Every generation or manual edit appends a version
+-- ============================================================
+CREATE TABLE IF NOT EXISTS amendment_draft_versions (
+  draft_id VARCHAR(100) NOT NULL REFERENCES amendment_drafts(draft_id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  source VARCHAR(20) NOT NULL CHECK (source IN ('ai', 'manual')),
+  provider VARCHAR(50),
+  old_content TEXT NOT NULL,
+  new_content TEXT NOT NULL,
+  amendment_text TEXT NOT NULL,
+  rationale TEXT,
+  created_by VARCHAR(100) NOT NULL REFERENCES users(user_id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (draft_id, version)
+);
+
+COMMENT ON TABLE amendment_draft_versions IS '개정안 초안 버전 이력 테이블';
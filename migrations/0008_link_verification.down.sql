@@ -0,0 +1,7 @@
+-- AI Law Impact Analysis System - Revert Link Verification
+-- Migration: 0008_link_verification.down.sql
+
+DROP FUNCTION IF EXISTS apply_link_verification(VARCHAR, VARCHAR, VARCHAR, VARCHAR, VARCHAR, VARCHAR, VARCHAR, VARCHAR, TEXT);
+DROP TABLE IF EXISTS link_verification_history;
+DROP INDEX IF EXISTS idx_links_verification_status;
+ALTER TABLE law_regulation_links DROP COLUMN IF EXISTS verification_status;
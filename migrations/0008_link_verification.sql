@@ -0,0 +1,80 @@
+-- AI Law Impact Analysis System - Link Verification
+-- Migration: 0008_link_verification.sql
+
+-- ============================================================
+-- Verification status on law-regulation links (연계 검증 상태)
+-- pending → confirmed | rejected; verified marks any officer decision
+-- Rejected links are kept so the linker does not recreate them
+-- ============================================================
+ALTER TABLE law_regulation_links
+  ADD COLUMN IF NOT EXISTS verification_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+  CHECK (verification_status IN ('pending', 'confirmed', 'rejected'));
+
+UPDATE law_regulation_links SET verification_status = 'confirmed' WHERE verified = true;
+
+CREATE INDEX IF NOT EXISTS idx_links_verification_status ON law_regulation_links(verification_status, confidence_score DESC);
+
+-- ============================================================
+-- 16. Link Verification History Table (연계 검증 이력)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS link_verification_history (
+  history_id VARCHAR(100) PRIMARY KEY,
+  link_id VARCHAR(100) NOT NULL REFERENCES law_regulation_links(link_id) ON DELETE CASCADE,
+  user_id VARCHAR(100) NOT NULL REFERENCES users(user_id),
+  action VARCHAR(20) NOT NULL CHECK (action IN ('확인', '거부', '유형변경')),
+  from_status VARCHAR(20) NOT NULL,
+  to_status VARCHAR(20) NOT NULL,
+  from_link_type VARCHAR(20) NOT NULL,
+  to_link_type VARCHAR(20) NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_link_verification_history_link_id ON link_verification_history(link_id, created_at);
+
+COMMENT ON TABLE link_verification_history IS '연계 검증 이력 테이블';
+
+-- ============================================================
+-- Atomic link verification
+-- Compare-and-set on verification_status and link_type plus the history row.
+-- Raises 'link_conflict' when another officer changed the link first.
+-- ============================================================
+CREATE OR REPLACE FUNCTION apply_link_verification(
+  p_link_id VARCHAR,
+  p_from_status VARCHAR,
+  p_from_link_type VARCHAR,
+  p_to_status VARCHAR,
+  p_to_link_type VARCHAR,
+  p_history_id VARCHAR,
+  p_user_id VARCHAR,
+  p_action VARCHAR,
+  p_comment TEXT
+)
+RETURNS SETOF link_verification_history AS $$
+BEGIN
+  UPDATE law_regulation_links
+  SET verification_status = p_to_status,
+      link_type = p_to_link_type,
+      verified = TRUE,
+      verified_by = p_user_id,
+      verified_at = CURRENT_TIMESTAMP
+  WHERE link_id = p_link_id
+    AND verification_status = p_from_status
+    AND link_type = p_from_link_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'link_conflict: link % is no longer % / %', p_link_id, p_from_status, p_from_link_type;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO link_verification_history (
+    history_id, link_id, user_id, action, from_status, to_status,
+    from_link_type, to_link_type, comment
+  )
+  VALUES (
+    p_history_id, p_link_id, p_user_id, p_action, p_from_status, p_to_status,
+    p_from_link_type, p_to_link_type, p_comment
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,5 @@
+-- AI Law Impact Analysis System - Revert Enforcement Reminders
+-- Migration: 0009_enforcement_reminders.down.sql
+
+DROP INDEX IF EXISTS idx_revisions_enforcement_date;
+DROP TABLE IF EXISTS enforcement_reminders;
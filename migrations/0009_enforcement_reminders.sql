@@ -0,0 +1,19 @@
+-- AI Law Impact Analysis System - Enforcement Reminders
+-- Migration: 0009_enforcement_reminders.sql
+
+-- ============================================================
+-- 17. Enforcement Reminders Table (시행일 임박 알림 발송 기록)
+-- One row per revision, user and warning (D-30, D-7) so that the
+-- daily reminder job never warns twice
+-- ============================================================
+CREATE TABLE IF NOT EXISTS enforcement_reminders (
+  revision_id VARCHAR(100) NOT NULL REFERENCES law_revisions(revision_id) ON DELETE CASCADE,
+  user_id VARCHAR(100) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  days_before SMALLINT NOT NULL CHECK (days_before IN (30, 7)),
+  sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (revision_id, user_id, days_before)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_enforcement_date ON law_revisions(enforcement_date);
+
+COMMENT ON TABLE enforcement_reminders IS '시행일 임박 알림 발송 기록 테이블';
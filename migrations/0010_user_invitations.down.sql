@@ -0,0 +1,7 @@
+-- AI Law Impact Analysis System - Revert User Invitations
+-- Migration: 0010_user_invitations.down.sql
+
+DROP TABLE IF EXISTS user_invitations;
+DROP INDEX IF EXISTS idx_users_local_gov_status;
+ALTER TABLE users DROP COLUMN IF EXISTS suspended_at;
+ALTER TABLE users DROP COLUMN IF EXISTS status;
@@ -0,0 +1,40 @@
+-- AI Law Impact Analysis System - User Invitations
+-- Migration: 0010_user_invitations.sql
+
+-- ============================================================
+-- Account status (계정 상태)
+-- Suspended users cannot log in
+-- ============================================================
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'suspended'));
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_users_local_gov_status ON users(local_gov, status);
+
+-- ============================================================
+-- 18. User Invitations Table (사용자 초대)
+-- Accounts are created only through an invitation issued by an admin,
+-- which fixes the local government, department and role.
+-- Only the SHA-256 hash of the token is stored.
+-- ============================================================
+CREATE TABLE IF NOT EXISTS user_invitations (
+  invitation_id VARCHAR(100) PRIMARY KEY,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  local_gov VARCHAR(200) NOT NULL,
+  department VARCHAR(200),
+  role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'law_officer', 'dept_officer', 'viewer')),
+  invited_by VARCHAR(100) REFERENCES users(user_id) ON DELETE SET NULL,
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  accepted_user_id VARCHAR(100),
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_user_invitations_local_gov ON user_invitations(local_gov, created_at DESC);
+CREATE INDEX idx_user_invitations_email ON user_invitations(email);
+
+COMMENT ON TABLE user_invitations IS '사용자 초대 테이블';
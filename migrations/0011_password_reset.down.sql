@@ -0,0 +1,6 @@
+-- AI Law Impact Analysis System - Revert Password Reset
+-- Migration: 0011_password_reset.down.sql
+
+DROP TABLE IF EXISTS password_reset_requests;
+DROP TABLE IF EXISTS password_reset_tokens;
+ALTER TABLE users DROP COLUMN IF EXISTS password_changed_at;
@@ -0,0 +1,40 @@
+-- AI Law Impact Analysis System - Password Reset
+-- Migration: 0011_password_reset.sql
+
+-- ============================================================
+-- Tokens issued before a password change are no longer accepted
+-- ============================================================
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;
+
+-- ============================================================
+-- 19. Password Reset Tokens Table (비밀번호 재설정 토큰)
+-- Single use, expiring; only the SHA-256 hash of the token is stored
+-- ============================================================
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  token_hash VARCHAR(64) PRIMARY KEY,
+  user_id VARCHAR(100) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  requested_ip VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+
+COMMENT ON TABLE password_reset_tokens IS '비밀번호 재설정 토큰 테이블';
+
+-- ============================================================
+-- 20. Password Reset Requests Table (비밀번호 재설정 요청 기록)
+-- Every request, including unknown emails, for rate limiting
+-- ============================================================
+CREATE TABLE IF NOT EXISTS password_reset_requests (
+  request_id BIGSERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  ip_address VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_password_reset_requests_email ON password_reset_requests(email, created_at);
+CREATE INDEX idx_password_reset_requests_ip ON password_reset_requests(ip_address, created_at);
+
+COMMENT ON TABLE password_reset_requests IS '비밀번호 재설정 요청 기록 테이블';
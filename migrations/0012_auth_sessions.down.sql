@@ -0,0 +1,5 @@
+-- AI Law Impact Analysis System - Revert Auth Sessions
+-- Migration: 0012_auth_sessions.down.sql
+
+DROP TABLE IF EXISTS refresh_tokens;
+DROP TABLE IF EXISTS auth_sessions;
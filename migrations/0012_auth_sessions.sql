@@ -0,0 +1,38 @@
+-- AI Law Impact Analysis System - Auth Sessions
+-- Migration: 0012_auth_sessions.sql
+
+-- ============================================================
+-- 21. Auth Sessions Table (로그인 세션)
+-- One row per login; access tokens carry the session_id and are
+-- rejected once the session is revoked (logout, password reset)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  session_id VARCHAR(100) PRIMARY KEY,
+  user_id VARCHAR(100) NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  user_agent TEXT,
+  ip_address VARCHAR(64),
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_auth_sessions_user_id ON auth_sessions(user_id, revoked_at);
+
+COMMENT ON TABLE auth_sessions IS '로그인 세션 테이블';
+
+-- ============================================================
+-- 22. Refresh Tokens Table (리프레시 토큰)
+-- Rotated on every use; presenting a used token revokes its session.
+-- Only the SHA-256 hash of the token is stored
+-- ============================================================
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  token_hash VARCHAR(64) PRIMARY KEY,
+  session_id VARCHAR(100) NOT NULL REFERENCES auth_sessions(session_id) ON DELETE CASCADE,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_refresh_tokens_session_id ON refresh_tokens(session_id);
+
+COMMENT ON TABLE refresh_tokens IS '리프레시 토큰 테이블';
@@ -0,0 +1,16 @@
+-- AI Law Impact Analysis System - Revert Province Role
+-- Migration: 0013_province_role.down.sql
+
+DROP INDEX IF EXISTS idx_regulations_local_gov_name;
+
+-- Province officers lose access rather than blocking the rollback
+UPDATE users SET role = 'viewer' WHERE role = 'province_officer';
+DELETE FROM user_invitations WHERE role = 'province_officer';
+
+ALTER TABLE user_invitations DROP CONSTRAINT IF EXISTS user_invitations_role_check;
+ALTER TABLE user_invitations ADD CONSTRAINT user_invitations_role_check
+  CHECK (role IN ('admin', 'law_officer', 'dept_officer', 'viewer'));
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('admin', 'law_officer', 'dept_officer', 'viewer'));
@@ -0,0 +1,18 @@
+-- AI Law Impact Analysis System - Province Role
+-- Migration: 0013_province_role.sql
+
+-- ============================================================
+-- 광역 (province) officers read the data of their 기초 municipalities
+-- Municipality names start with the province name, e.g. '경기도 수원시'
+-- ============================================================
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check
+  CHECK (role IN ('admin', 'province_officer', 'law_officer', 'dept_officer', 'viewer'));
+
+ALTER TABLE user_invitations DROP CONSTRAINT IF EXISTS user_invitations_role_check;
+ALTER TABLE user_invitations ADD CONSTRAINT user_invitations_role_check
+  CHECK (role IN ('admin', 'province_officer', 'law_officer', 'dept_officer', 'viewer'));
+
+-- Prefix matches of a province scope (local_gov LIKE '경기도 %')
+CREATE INDEX IF NOT EXISTS idx_regulations_local_gov_name
+  ON local_regulations(local_gov text_pattern_ops);
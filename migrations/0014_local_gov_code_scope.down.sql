@@ -0,0 +1,10 @@
+-- AI Law Impact Analysis System - Revert Tenant Scope by Local Government Code
+-- Migration: 0014_local_gov_code_scope.down.sql
+
+DROP INDEX IF EXISTS idx_regulations_local_gov_code_prefix;
+CREATE INDEX IF NOT EXISTS idx_regulations_local_gov_name
+  ON local_regulations(local_gov text_pattern_ops);
+
+ALTER TABLE analysis_jobs DROP COLUMN IF EXISTS target_local_gov_code;
+ALTER TABLE user_invitations DROP COLUMN IF EXISTS local_gov_code;
+ALTER TABLE users DROP COLUMN IF EXISTS local_gov_code;
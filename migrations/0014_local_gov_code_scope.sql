@@ -0,0 +1,31 @@
+-- AI Law Impact Analysis System - Tenant Scope by Local Government Code
+-- Migration: 0014_local_gov_code_scope.sql
+
+-- ============================================================
+-- Tenants are identified by local_gov_code (행정구역코드) instead of
+-- the local government name. A 광역 (province) officer sees the
+-- municipalities whose code starts with the province's 시도 code,
+-- e.g. 41 (경기도) covers 4111000000 (수원시).
+-- ============================================================
+ALTER TABLE users ADD COLUMN IF NOT EXISTS local_gov_code VARCHAR(20);
+ALTER TABLE user_invitations ADD COLUMN IF NOT EXISTS local_gov_code VARCHAR(20);
+ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS target_local_gov_code VARCHAR(20);
+
+-- Existing rows take the code their local government's regulations carry;
+-- users left without one see no tenant data until it is set
+UPDATE users u SET local_gov_code = (
+  SELECT r.local_gov_code FROM local_regulations r WHERE r.local_gov = u.local_gov LIMIT 1
+) WHERE u.local_gov_code IS NULL;
+
+UPDATE user_invitations i SET local_gov_code = (
+  SELECT r.local_gov_code FROM local_regulations r WHERE r.local_gov = i.local_gov LIMIT 1
+) WHERE i.local_gov_code IS NULL;
+
+UPDATE analysis_jobs j SET target_local_gov_code = (
+  SELECT r.local_gov_code FROM local_regulations r WHERE r.local_gov = j.target_local_gov LIMIT 1
+) WHERE j.target_local_gov IS NOT NULL AND j.target_local_gov_code IS NULL;
+
+-- Prefix matches of a province scope (local_gov_code LIKE '41%')
+DROP INDEX IF EXISTS idx_regulations_local_gov_name;
+CREATE INDEX IF NOT EXISTS idx_regulations_local_gov_code_prefix
+  ON local_regulations(local_gov_code text_pattern_ops);
@@ -0,0 +1,4 @@
+-- AI Law Impact Analysis System - Revert Calendar Feed Tokens
+-- Migration: 0015_calendar_feed_tokens.down.sql
+
+DROP TABLE IF EXISTS calendar_feed_tokens;
@@ -0,0 +1,17 @@
+-- AI Law Impact Analysis System - Calendar Feed Tokens
+-- Migration: 0015_calendar_feed_tokens.sql
+
+-- ============================================================
+-- 23. Calendar Feed Tokens Table (시행일 캘린더 구독 토큰)
+-- One subscription URL per user; issuing a new one replaces it, and
+-- logging out everywhere or resetting the password revokes it.
+-- Only the SHA-256 hash of the token is stored
+-- ============================================================
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id VARCHAR(100) PRIMARY KEY REFERENCES users(user_id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE calendar_feed_tokens IS '시행일 캘린더 구독 토큰 테이블';
@@ -0,0 +1,4 @@
+-- AI Law Impact Analysis System - Revert Drop Password Changed At
+-- Migration: 0016_drop_password_changed_at.down.sql
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;
@@ -0,0 +1,6 @@
+-- AI Law Impact Analysis System - Drop Password Changed At
+-- Migration: 0016_drop_password_changed_at.sql
+
+-- Resetting the password revokes every session instead (auth_sessions),
+-- so the time of the change is not used
+ALTER TABLE users DROP COLUMN IF EXISTS password_changed_at;
@@ -0,0 +1,8 @@
+-- AI Law Impact Analysis System - Revert Local Governments
+-- Migration: 0017_local_governments.down.sql
+
+-- Codes moved from 11680 to 3220000 are kept
+CREATE INDEX IF NOT EXISTS idx_regulations_local_gov_code_prefix
+  ON local_regulations(local_gov_code text_pattern_ops);
+
+DROP TABLE IF EXISTS local_governments;
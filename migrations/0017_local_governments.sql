@@ -0,0 +1,60 @@
+-- AI Law Impact Analysis System - Local Governments
+-- Migration: 0017_local_governments.sql
+
+-- ============================================================
+-- 24. Local Governments Table (지자체)
+-- Codes are law.go.kr 지자체기관코드, as stored by the crawler. A province
+-- (광역) scope covers the municipalities (기초) whose parent_code is the
+-- province's code; 기관코드 carry no hierarchy of their own
+-- (경기도 6410000, 수원시 3740000).
+-- ============================================================
+CREATE TABLE IF NOT EXISTS local_governments (
+  local_gov_code VARCHAR(20) PRIMARY KEY,
+  name VARCHAR(200) NOT NULL,
+  parent_code VARCHAR(20) REFERENCES local_governments(local_gov_code),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_local_governments_parent_code ON local_governments(parent_code);
+
+COMMENT ON TABLE local_governments IS '지자체 테이블 (광역-기초 관계)';
+
+INSERT INTO local_governments (local_gov_code, name) VALUES
+  ('6110000', '서울특별시'),
+  ('6260000', '부산광역시'),
+  ('6270000', '대구광역시'),
+  ('6280000', '인천광역시'),
+  ('6290000', '광주광역시'),
+  ('6300000', '대전광역시'),
+  ('6310000', '울산광역시'),
+  ('5690000', '세종특별자치시'),
+  ('6410000', '경기도'),
+  ('6530000', '강원특별자치도'),
+  ('6430000', '충청북도'),
+  ('6440000', '충청남도'),
+  ('6540000', '전북특별자치도'),
+  ('6460000', '전라남도'),
+  ('6470000', '경상북도'),
+  ('6480000', '경상남도'),
+  ('6500000', '제주특별자치도')
+ON CONFLICT (local_gov_code) DO NOTHING;
+
+-- The import scripts stored 강남구 by its 행정구역코드; use its 기관코드
+UPDATE local_regulations SET local_gov_code = '3220000' WHERE local_gov_code = '11680';
+UPDATE users SET local_gov_code = '3220000' WHERE local_gov_code = '11680';
+UPDATE user_invitations SET local_gov_code = '3220000' WHERE local_gov_code = '11680';
+UPDATE analysis_jobs SET target_local_gov_code = '3220000' WHERE target_local_gov_code = '11680';
+
+-- Municipalities of regulations crawled so far, under the province their
+-- 지자체기관명 starts with; later crawls record the parent the API lists
+-- them under (see crawlAllLocalGovRegulations)
+INSERT INTO local_governments (local_gov_code, name, parent_code)
+SELECT DISTINCT ON (r.local_gov_code) r.local_gov_code, r.local_gov, p.local_gov_code
+FROM local_regulations r
+JOIN local_governments p ON p.parent_code IS NULL AND r.local_gov LIKE p.name || ' %'
+ORDER BY r.local_gov_code
+ON CONFLICT (local_gov_code) DO NOTHING;
+
+-- Scopes are lists of codes now; idx_regulations_local_gov covers them
+DROP INDEX IF EXISTS idx_regulations_local_gov_code_prefix;
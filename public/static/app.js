@@ -25,10 +25,102 @@ function formatConfidence(score) {
   return (parseFloat(score) * 100).toFixed(1) + '%';
 }
 
+// Authentication
+// Tokens come from POST /api/v1/auth/login; the access token lives 15 minutes
+// and is renewed with the refresh token shortly before it expires.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+function saveSession(session) {
+  localStorage.setItem('access_token', session.token);
+  localStorage.setItem('refresh_token', session.refresh_token);
+  localStorage.setItem('access_token_expires_at', String(Date.now() + session.expires_in * 1000));
+}
+
+function clearSession() {
+  localStorage.removeItem('access_token');
+  localStorage.removeItem('refresh_token');
+  localStorage.removeItem('access_token_expires_at');
+}
+
+function redirectToLogin() {
+  const next = window.location.pathname + window.location.search;
+  window.location.href = `/login?next=${encodeURIComponent(next)}`;
+}
+
+async function login(email, password) {
+  const response = await fetch(`${API_BASE}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password })
+  });
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || '로그인 실패');
+  }
+  saveSession(data.data);
+  return data.data.user;
+}
+
+async function logout() {
+  try {
+    await fetch(`${API_BASE}/auth/logout`, { method: 'POST', headers: await authHeaders() });
+  } finally {
+    clearSession();
+    window.location.href = '/login';
+  }
+}
+
+// One refresh at a time: the refresh token is single-use
+let refreshing = null;
+
+function refreshAccessToken() {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshToken = localStorage.getItem('refresh_token');
+      if (!refreshToken) {
+        return false;
+      }
+      const response = await fetch(`${API_BASE}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: refreshToken })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        clearSession();
+        return false;
+      }
+      saveSession(data.data);
+      return true;
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+async function authHeaders() {
+  const expiresAt = Number(localStorage.getItem('access_token_expires_at') || 0);
+  if (expiresAt && Date.now() > expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+    await refreshAccessToken();
+  }
+  const token = localStorage.getItem('access_token');
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 // API Calls
+// Retries once with a refreshed token; without a session it goes to /login
 async function fetchAPI(endpoint) {
   try {
-    const response = await fetch(`${API_BASE}${endpoint}`);
+    let response = await fetch(`${API_BASE}${endpoint}`, { headers: await authHeaders() });
+    if (response.status === 401 && await refreshAccessToken()) {
+      response = await fetch(`${API_BASE}${endpoint}`, { headers: await authHeaders() });
+    }
+    if (response.status === 401) {
+      clearSession();
+      redirectToLogin();
+      throw new Error('로그인이 필요합니다');
+    }
     const data = await response.json();
     if (!data.success) {
       throw new Error(data.error || 'API 요청 실패');
@@ -360,7 +452,7 @@ document.addEventListener('DOMContentLoaded', () => {
   // Check current page and load appropriate data
   const path = window.location.pathname;
   
-  if (path === '/' || path === '/index.html') {
+  if (path === '/index.html') {
     loadDashboard();
   } else if (path === '/regulations.html') {
     loadRegulations();
@@ -23,6 +23,13 @@ async function importBatch() {
   const workbook = XLSX.readFile('/home/user/uploaded_files/자치법규목록 (1).xls');
   const data = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
   
+  // 강남구 belongs to 서울특별시 (6110000) in the tenant scopes
+  await sql`
+    INSERT INTO local_governments (local_gov_code, name, parent_code)
+    VALUES ('3220000', '서울특별시 강남구', '6110000')
+    ON CONFLICT (local_gov_code) DO NOTHING
+  `;
+  
   // Check existing count
   const existing = await sql`SELECT COUNT(*) as count FROM local_regulations`;
   console.log(`📊 Existing regulations: ${existing[0].count}`);
@@ -51,7 +58,7 @@ async function importBatch() {
         const regulation_id = `reg_gangnam_${i + idx + 1}_${Date.now()}_${idx}`;
         const regulation_name = row['법령명'];
         const local_gov = '서울특별시 강남구';
-        const local_gov_code = '11680';
+        const local_gov_code = '3220000'; // 강남구 지자체기관코드 (law.go.kr)
         const regulation_type = mapRegulationType(row['법령종류']);
         const enactment_date = parseKoreanDate(row['공포일자']);
         const current_version = row['공포번호'] || 'v1.0';
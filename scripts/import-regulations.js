@@ -54,6 +54,13 @@ async function importRegulations() {
   
   console.log(`📊 Total records to import: ${data.length}\n`);
   
+  // 강남구 belongs to 서울특별시 (6110000) in the tenant scopes
+  await sql`
+    INSERT INTO local_governments (local_gov_code, name, parent_code)
+    VALUES ('3220000', '서울특별시 강남구', '6110000')
+    ON CONFLICT (local_gov_code) DO NOTHING
+  `;
+  
   let imported = 0;
   let skipped = 0;
   let errors = 0;
@@ -65,7 +72,7 @@ async function importRegulations() {
       const regulation_id = `reg_gangnam_${i + 1}_${Date.now()}`;
       const regulation_name = row['법령명'];
       const local_gov = row['지역명'] || '서울특별시 강남구';
-      const local_gov_code = '11680'; // 강남구 행정구역코드
+      const local_gov_code = '3220000'; // 강남구 지자체기관코드 (law.go.kr)
       const regulation_type = mapRegulationType(row['법령종류']);
       const enactment_date = parseKoreanDate(row['공포일자']);
       const current_version = row['공포번호'] || 'v1.0';
@@ -1,4 +1,5 @@
 // Link local regulations to superior law articles using vector similarity
+// Similarity matches are stored as 참조 links; explicit citations are linked by the regulation_link job
 import { neon } from '@neondatabase/serverless';
 
 const DATABASE_URL = process.env.DATABASE_URL;
@@ -56,7 +57,7 @@ async function saveLawRegulationLink(regulationId, articleId, lawId, similarity,
         ${regulationId},
         ${articleId},
         ${similarity},
-        '근거법령',
+        '참조',
         false,
         NOW()
       )
@@ -0,0 +1,175 @@
+/// <reference types="node" />
+/**
+ * Database Migration CLI
+ *
+ *   npm run db:migrate -- status
+ *   npm run db:migrate -- up [--to 0008] [--dry-run]
+ *   npm run db:migrate -- down [--steps 1 | --to 0006] [--dry-run]
+ *   npm run db:migrate -- baseline 0008
+ *   npm run db:migrate -- unlock
+ *
+ * baseline records existing migrations as applied without running them,
+ * for databases set up before schema_migrations existed.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import { getDb } from '../src/utils/db';
+import {
+  MigrationError,
+  acquireMigrationLock,
+  baselineMigrations,
+  ensureMigrationTables,
+  forceReleaseMigrationLock,
+  getMigrationStatus,
+  loadMigrations,
+  planDown,
+  planUp,
+  releaseMigrationLock,
+  runMigrationSteps,
+  type MigrationStep
+} from '../src/services/migrationRunner';
+
+// npm scripts run from the project root
+const MIGRATIONS_DIR = join(process.cwd(), 'migrations');
+
+const USAGE = `Usage: npm run db:migrate -- <status|up|down|baseline|unlock> [options]
+  up        [--to VERSION] [--dry-run]
+  down      [--steps N | --to VERSION] [--dry-run]
+  baseline  VERSION
+  unlock`;
+
+interface CliOptions {
+  command: string;
+  version?: string;
+  to?: string;
+  steps?: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { command: argv[0] || 'status', dryRun: false };
+
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--to') {
+      options.to = parseVersion(argv[++i]);
+    } else if (arg === '--steps') {
+      options.steps = parseInt(argv[++i]);
+      if (!(options.steps > 0)) {
+        throw new MigrationError('--steps must be a positive number');
+      }
+    } else if (!arg.startsWith('--') && !options.version) {
+      options.version = parseVersion(arg);
+    } else {
+      throw new MigrationError(`Unknown option ${arg}\n${USAGE}`);
+    }
+  }
+
+  return options;
+}
+
+function parseVersion(value: string | undefined): string {
+  if (!value || !/^\d{1,4}$/.test(value)) {
+    throw new MigrationError(`Invalid migration version "${value}"`);
+  }
+  return value.padStart(4, '0');
+}
+
+function readMigrationFiles(): Array<{ filename: string; content: string }> {
+  return readdirSync(MIGRATIONS_DIR)
+    .filter(filename => filename.endsWith('.sql'))
+    .map(filename => ({ filename, content: readFileSync(join(MIGRATIONS_DIR, filename), 'utf-8') }));
+}
+
+function printPlan(steps: MigrationStep[], showStatements: boolean): void {
+  if (steps.length === 0) {
+    console.log('Nothing to do');
+    return;
+  }
+
+  for (const step of steps) {
+    console.log(`${step.direction.padEnd(4)} ${step.migration.version}_${step.migration.name} (${step.statements.length} statements)`);
+
+    if (showStatements) {
+      step.statements.forEach(statement => console.log(`${statement};\n`));
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const db = getDb({ DATABASE_URL: process.env.DATABASE_URL || '' });
+  const migrations = await loadMigrations(readMigrationFiles());
+
+  switch (options.command) {
+    case 'status': {
+      const status = await getMigrationStatus(db, migrations);
+      for (const s of status) {
+        const appliedAt = s.applied_at ? new Date(s.applied_at).toISOString() : '';
+        console.log(`${s.version}_${s.name.padEnd(28)} ${s.state.padEnd(8)} ${appliedAt}`);
+      }
+      return;
+    }
+
+    case 'up':
+    case 'down': {
+      const plan = async () => {
+        const status = await getMigrationStatus(db, migrations);
+        return options.command === 'up'
+          ? planUp(status, migrations, options.to)
+          : planDown(status, migrations, { steps: options.steps, target: options.to });
+      };
+
+      if (options.dryRun) {
+        printPlan(await plan(), true);
+        return;
+      }
+
+      await ensureMigrationTables(db);
+
+      const owner = `${hostname()}:${process.pid}`;
+      await acquireMigrationLock(db, owner);
+
+      try {
+        // Plan under the lock so a concurrent runner's work is seen
+        const steps = await plan();
+        printPlan(steps, false);
+        await runMigrationSteps(db, steps);
+      } finally {
+        await releaseMigrationLock(db, owner);
+      }
+      return;
+    }
+
+    case 'baseline': {
+      if (!options.version) {
+        throw new MigrationError(`baseline needs a version\n${USAGE}`);
+      }
+
+      await ensureMigrationTables(db);
+      const baseline = await baselineMigrations(db, migrations, options.version);
+      console.log(`Recorded ${baseline.length} migrations up to ${options.version} as applied`);
+      return;
+    }
+
+    case 'unlock': {
+      await ensureMigrationTables(db);
+      const released = await forceReleaseMigrationLock(db);
+      console.log(released ? 'Lock released' : 'Database was not locked');
+      return;
+    }
+
+    default:
+      throw new MigrationError(`Unknown command ${options.command}\n${USAGE}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof MigrationError ? `❌ ${error.message}` : error);
+  process.exit(1);
+});
@@ -7,6 +7,9 @@ import { serveStatic } from 'hono/cloudflare-workers';
 import type { HonoEnv } from './types/bindings';
 import { cors } from './middleware/cors';
 import { logger } from './middleware/logger';
+import { getJwtSecret } from './middleware/auth';
+import { getPermissionPolicy } from './services/permissions';
+import { handleScheduled, type ScheduledEvent, type ScheduledContext } from './services/scheduler';
 
 // Initialize Hono app
 const app = new Hono<HonoEnv>();
@@ -15,6 +18,24 @@ const app = new Hono<HonoEnv>();
 // Global Middleware
 // ============================================================
 app.use('*', logger());
+
+// Workers have no startup hook, so a missing JWT_SECRET or an invalid
+// PERMISSION_POLICY fails every request (including the health check)
+// instead of falling back to a known secret or the default policy
+app.use('*', async (c, next) => {
+  try {
+    getJwtSecret(c.env);
+    getPermissionPolicy(c.env);
+  } catch (err) {
+    console.error('[Config]', err instanceof Error ? err.message : err);
+    return c.json({
+      success: false,
+      error: 'Server is not configured'
+    }, 500);
+  }
+  await next();
+});
+
 app.use('/api/*', cors());
 
 // ============================================================
@@ -46,6 +67,9 @@ import regulationsRoutes from './routes/regulations';
 import notificationsRoutes from './routes/notifications';
 import searchRoutes from './routes/search';
 import statsRoutes from './routes/stats';
+import adminRoutes from './routes/admin';
+import linksRoutes from './routes/links';
+import calendarRoutes from './routes/calendar';
 
 // API v1 Routes
 const apiV1 = new Hono<HonoEnv>();
@@ -58,6 +82,9 @@ apiV1.route('/regulations', regulationsRoutes);
 apiV1.route('/notifications', notificationsRoutes);
 apiV1.route('/search', searchRoutes);
 apiV1.route('/stats', statsRoutes);
+apiV1.route('/admin', adminRoutes);
+apiV1.route('/links', linksRoutes);
+apiV1.route('/calendar', calendarRoutes);
 
 // Mount API v1
 app.route('/api/v1', apiV1);
@@ -71,6 +98,8 @@ import regulationsHTML from '../public/regulations.html?raw';
 import lawsHTML from '../public/laws.html?raw';
 import regulationHTML from '../public/regulation.html?raw';
 import lawHTML from '../public/law.html?raw';
+import resetPasswordHTML from '../public/reset-password.html?raw';
+import loginHTML from '../public/login.html?raw';
 
 app.get('/regulations', (c) => {
   return c.html(regulationsHTML);
@@ -88,6 +117,14 @@ app.get('/law', (c) => {
   return c.html(lawHTML);
 });
 
+app.get('/reset-password', (c) => {
+  return c.html(resetPasswordHTML);
+});
+
+app.get('/login', (c) => {
+  return c.html(loginHTML);
+});
+
 app.get('/', (c) => {
   return c.html(`
     <!DOCTYPE html>
@@ -128,6 +165,9 @@ app.get('/', (c) => {
                         <a href="/" class="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg">
                             <i class="fas fa-home mr-2"></i>대시보드
                         </a>
+                        <button onclick="logout()" class="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg">
+                            <i class="fas fa-sign-out-alt mr-2"></i>로그아웃
+                        </button>
                     </div>
                 </div>
             </div>
@@ -306,13 +346,12 @@ app.get('/', (c) => {
             </div>
         </footer>
 
-        <script src="https://cdn.jsdelivr.net/npm/axios@1.6.0/dist/axios.min.js"></script>
+        <script src="/static/app.js"></script>
         <script>
-            // Load dashboard stats
+            // Load dashboard stats (fetchAPI sends the access token, see app.js)
             window.addEventListener('DOMContentLoaded', async () => {
                 try {
-                    const response = await axios.get('/api/v1/stats/dashboard');
-                    const data = response.data.data;
+                    const data = await fetchAPI('/stats/dashboard');
                     
                     // Update stats
                     document.getElementById('stat-regulations').textContent = data.overview.total_regulations || '-';
@@ -350,4 +389,14 @@ app.onError((err, c) => {
   }, 500);
 });
 
-export default app;
+// ============================================================
+// Workers Entry Point
+// ============================================================
+export default {
+  fetch: app.fetch,
+
+  // Cron Triggers (see JOB_REGISTRY in services/scheduler)
+  scheduled(event: ScheduledEvent, env: HonoEnv['Bindings'], ctx: ScheduledContext) {
+    ctx.waitUntil(handleScheduled(event, env, ctx));
+  }
+};
@@ -4,8 +4,10 @@
 
 import { Context, Next } from 'hono';
 import { jwt } from 'hono/jwt';
-import type { HonoEnv } from '../types/bindings';
+import type { CloudflareBindings, HonoEnv } from '../types/bindings';
+import type { Permission } from '../types/database';
 import { unauthorized } from '../utils/response';
+import { getPermissionPolicy, hasPermission } from '../services/permissions';
 
 // JWT payload interface
 export interface JWTPayload {
@@ -13,16 +15,58 @@ export interface JWTPayload {
   email: string;
   role: string;
   local_gov: string;
+  local_gov_code: string | null;
   department: string;
+  sid: string; // auth_sessions.session_id
+}
+
+// Only used when ENVIRONMENT=development
+const DEV_JWT_SECRET = 'dev-secret-key-change-in-production';
+
+/**
+ * Secret for signing and verifying tokens
+ * Throws outside development when JWT_SECRET is not configured.
+ */
+export function getJwtSecret(env: CloudflareBindings): string {
+  if (env.JWT_SECRET) {
+    return env.JWT_SECRET;
+  }
+  if (env.ENVIRONMENT === 'development') {
+    return DEV_JWT_SECRET;
+  }
+  throw new Error('JWT_SECRET is not configured');
 }
 
 // Create JWT middleware
-export const authMiddleware = (c: Context<HonoEnv>, next: Next) => {
-  const jwtSecret = c.env.JWT_SECRET || 'dev-secret-key-change-in-production';
-  
-  return jwt({
-    secret: jwtSecret,
-  })(c, next);
+// Besides the signature, the token's session must not be revoked (logout,
+// password reset) and the user must still be active.
+export const authMiddleware = async (c: Context<HonoEnv>, next: Next) => {
+  await jwt({
+    secret: getJwtSecret(c.env),
+  })(c, async () => {});
+
+  const payload = c.get('jwtPayload') as JWTPayload;
+
+  if (!payload.sid) {
+    return unauthorized(c, 'Session has ended, please log in again');
+  }
+
+  const { withDb } = await import('../utils/db');
+  const { createDatabaseService } = await import('../services/databaseImpl');
+
+  const state = await withDb(c.env, (db) =>
+    createDatabaseService(db).getSessionState(payload.user_id, payload.sid)
+  );
+
+  if (!state || state.status !== 'active') {
+    return unauthorized(c, 'Account is not active');
+  }
+
+  if (!state.session_active) {
+    return unauthorized(c, 'Session has ended, please log in again');
+  }
+
+  await next();
 };
 
 // Role-based authorization middleware
@@ -48,6 +92,28 @@ export const requireRole = (...allowedRoles: string[]) => {
   };
 };
 
+// Permission-based authorization middleware; every listed permission is
+// required, as granted by the role policy (services/permissions.ts)
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (c: Context<HonoEnv>, next: Next) => {
+    const payload = c.get('jwtPayload') as JWTPayload;
+
+    if (!payload) {
+      return unauthorized(c, 'Authentication required');
+    }
+
+    const policy = getPermissionPolicy(c.env);
+    if (!permissions.every(p => hasPermission(policy, payload.role, p))) {
+      return c.json({
+        success: false,
+        error: 'Insufficient permissions'
+      }, 403);
+    }
+
+    await next();
+  };
+};
+
 // Extract user from JWT
 export const getUser = (c: Context): JWTPayload | null => {
   return c.get('jwtPayload') as JWTPayload || null;
@@ -0,0 +1,83 @@
+/**
+ * Tenant (local government) isolation middleware
+ * Routes take the caller's scope from getTenantScope and pass it to the
+ * database queries instead of reading user.local_gov_code themselves.
+ */
+
+import { Context, Next } from 'hono';
+import type { HonoEnv } from '../types/bindings';
+import type { TenantScope } from '../types/database';
+import type { TenantResource } from '../services/databaseImpl';
+import { resolveTenantScope, isInScope } from '../services/tenantScope';
+import { getPermissionPolicy, departmentScopeOf } from '../services/permissions';
+import { getUser } from './auth';
+import { unauthorized, forbidden, notFound } from '../utils/response';
+
+// Resolve the caller's scope; must run after authMiddleware
+// ?local_gov_code= narrows it to one local government inside the scope.
+export const tenantMiddleware = async (c: Context<HonoEnv>, next: Next) => {
+  const user = getUser(c);
+  if (!user) {
+    return unauthorized(c, 'Authentication required');
+  }
+
+  const { withDb } = await import('../utils/db');
+  const { createDatabaseService } = await import('../services/databaseImpl');
+
+  const scope = await withDb(c.env, (db) => resolveTenantScope(createDatabaseService(db), user));
+  const requested = c.req.query('local_gov_code');
+
+  if (requested) {
+    if (!isInScope(scope, requested)) {
+      return forbidden(c, `No access to data of ${requested}`);
+    }
+    c.set('tenantScope', { local_gov_codes: [requested] });
+  } else {
+    c.set('tenantScope', scope);
+  }
+
+  await next();
+};
+
+// Scope of the request; fails closed if tenantMiddleware did not run
+export const getTenantScope = (c: Context<HonoEnv>): TenantScope | null => {
+  const scope = c.get('tenantScope');
+  if (scope === undefined) {
+    throw new Error('tenantMiddleware is not applied to this route');
+  }
+  return scope;
+};
+
+// Answer 404 for a resource of another local government, as if it did not
+// exist; missing resources are left to the route. With departmentOnly,
+// users of a department_only role get 403 for another department's resource.
+export const requireTenantOf = (
+  resource: TenantResource,
+  param: string,
+  label: string,
+  options: { departmentOnly?: boolean } = {}
+) => {
+  return async (c: Context<HonoEnv>, next: Next) => {
+    const id = c.req.param(param);
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const owner = (await withDb(c.env, (db) =>
+      createDatabaseService(db).getResourceOwners(resource, [id])
+    )).get(id);
+
+    if (owner && !isInScope(getTenantScope(c), owner.local_gov_code)) {
+      return notFound(c, label);
+    }
+
+    if (owner && options.departmentOnly) {
+      const department = departmentScopeOf(getPermissionPolicy(c.env), getUser(c)!);
+      if (department !== null && owner.department !== department) {
+        return forbidden(c, `${label} belongs to another department`);
+      }
+    }
+
+    await next();
+  };
+};
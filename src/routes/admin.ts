@@ -0,0 +1,394 @@
+/**
+ * Admin API Routes
+ */
+
+import { Hono, type Context } from 'hono';
+import type { HonoEnv } from '../types/bindings';
+import { success, error, notFound, forbidden, paginated } from '../utils/response';
+import { authMiddleware, requirePermission, getUser } from '../middleware/auth';
+import { Permission, type UserRole, type UserStatus } from '../types/database';
+
+const admin = new Hono<HonoEnv>();
+
+// Jobs need job:run, users and invitations user:manage (admins by default)
+admin.use('*', authMiddleware);
+admin.use('/jobs/*', requirePermission(Permission.JOB_RUN));
+admin.use('/users/*', requirePermission(Permission.USER_MANAGE));
+admin.use('/invitations/*', requirePermission(Permission.USER_MANAGE));
+
+/**
+ * GET /api/admin/jobs
+ * List registered background jobs
+ */
+admin.get('/jobs', async (c) => {
+  try {
+    const { JOB_REGISTRY } = await import('../services/scheduler');
+
+    return success(c, Object.values(JOB_REGISTRY).map(job => ({
+      name: job.name,
+      description: job.description,
+      cron: job.cron
+    })));
+  } catch (err) {
+    console.error('[Admin API] Error listing jobs:', err);
+    return error(c, 'Failed to list jobs', 500);
+  }
+});
+
+/**
+ * GET /api/admin/jobs/runs
+ * Recent job runs, optionally for one job
+ */
+admin.get('/jobs/runs', async (c) => {
+  try {
+    const query = c.req.query();
+    const limit = Math.min(parseInt(query.limit || '50') || 50, 200);
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const runs = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getJobRuns({ job_name: query.job, limit });
+    });
+
+    return success(c, runs);
+  } catch (err) {
+    console.error('[Admin API] Error listing job runs:', err);
+    return error(c, 'Failed to fetch job runs', 500);
+  }
+});
+
+/**
+ * GET /api/admin/jobs/runs/:runId
+ * Get status and result of a job run
+ */
+admin.get('/jobs/runs/:runId', async (c) => {
+  try {
+    const runId = c.req.param('runId');
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const run = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getJobRunById(runId);
+    });
+
+    if (!run) {
+      return notFound(c, 'Job run');
+    }
+
+    return success(c, run);
+  } catch (err) {
+    console.error('[Admin API] Error fetching job run:', err);
+    return error(c, 'Failed to fetch job run', 500);
+  }
+});
+
+/**
+ * POST /api/admin/jobs/:jobName/run
+ * Trigger a registered job manually
+ */
+admin.post('/jobs/:jobName/run', async (c) => {
+  try {
+    const user = getUser(c);
+    const jobName = c.req.param('jobName');
+
+    const { isJobName, createJobRun, executeJobRun } = await import('../services/scheduler');
+
+    if (!isJobName(jobName)) {
+      return notFound(c, 'Job');
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const run = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return createJobRun(dbService, jobName, 'manual', user!.user_id);
+    });
+
+    // Run the job after the response is sent
+    const execution = withDb(c.env, (db) =>
+      executeJobRun(run, c.env, createDatabaseService(db))
+    );
+
+    try {
+      c.executionCtx.waitUntil(execution);
+    } catch {
+      // No execution context outside the Workers runtime; the promise keeps running
+    }
+
+    return success(c, {
+      run_id: run.run_id,
+      job_name: run.job_name,
+      status: run.status
+    }, 'Job started', 202);
+  } catch (err) {
+    console.error('[Admin API] Error triggering job:', err);
+    return error(c, 'Failed to trigger job', 500);
+  }
+});
+
+/**
+ * GET /api/admin/users
+ * Users of the admin's local government
+ * Query: ?role=&status=active|suspended&search=&page=1&limit=20
+ */
+admin.get('/users', async (c) => {
+  try {
+    const user = getUser(c);
+    const query = c.req.query();
+    const page = parseInt(query.page || '1');
+    const limit = parseInt(query.limit || '20');
+    const offset = (page - 1) * limit;
+
+    const { isUserRole, isUserStatus, toPublicUser } = await import('../services/userAdmin');
+
+    if (query.role && !isUserRole(query.role)) {
+      return error(c, 'Invalid role', 400);
+    }
+    if (query.status && !isUserStatus(query.status)) {
+      return error(c, 'Invalid status', 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getUsers({
+        local_gov_code: user!.local_gov_code,
+        role: query.role as UserRole | undefined,
+        status: query.status as UserStatus | undefined,
+        search: query.search,
+        limit,
+        offset
+      });
+    });
+
+    return paginated(c, result.users.map(toPublicUser), result.total, page, limit);
+  } catch (err) {
+    console.error('[Admin API] Error listing users:', err);
+    return error(c, 'Failed to fetch users', 500);
+  }
+});
+
+/**
+ * PUT /api/admin/users/:userId/role
+ * Change a user's role
+ */
+admin.put('/users/:userId/role', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = c.req.param('userId');
+    const { role } = await c.req.json();
+
+    const { changeUserRole, toPublicUser, UserAdminError } = await import('../services/userAdmin');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    try {
+      const updated = await withDb(c.env, (db) =>
+        changeUserRole(createDatabaseService(db), user!, userId, role)
+      );
+
+      if (!updated) {
+        return notFound(c, 'User');
+      }
+
+      return success(c, toPublicUser(updated), 'Role updated');
+    } catch (err) {
+      if (err instanceof UserAdminError) {
+        return userAdminError(c, err);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Admin API] Error changing role:', err);
+    return error(c, 'Failed to change role', 500);
+  }
+});
+
+/**
+ * PUT /api/admin/users/:userId/status
+ * Suspend or reactivate a user
+ * Body: { "status": "suspended" | "active" }
+ */
+admin.put('/users/:userId/status', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = c.req.param('userId');
+    const { status } = await c.req.json();
+
+    const { setUserStatus, toPublicUser, UserAdminError } = await import('../services/userAdmin');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    try {
+      const updated = await withDb(c.env, (db) =>
+        setUserStatus(createDatabaseService(db), user!, userId, status)
+      );
+
+      if (!updated) {
+        return notFound(c, 'User');
+      }
+
+      return success(c, toPublicUser(updated), status === 'suspended' ? 'User suspended' : 'User reactivated');
+    } catch (err) {
+      if (err instanceof UserAdminError) {
+        return userAdminError(c, err);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Admin API] Error changing user status:', err);
+    return error(c, 'Failed to change user status', 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/users/:userId
+ * Delete a user without review history
+ */
+admin.delete('/users/:userId', async (c) => {
+  try {
+    const user = getUser(c);
+    const userId = c.req.param('userId');
+
+    const { deleteUser, UserAdminError } = await import('../services/userAdmin');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    try {
+      const deleted = await withDb(c.env, (db) =>
+        deleteUser(createDatabaseService(db), user!, userId)
+      );
+
+      if (!deleted) {
+        return notFound(c, 'User');
+      }
+
+      return success(c, { user_id: userId }, 'User deleted');
+    } catch (err) {
+      if (err instanceof UserAdminError) {
+        return userAdminError(c, err);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Admin API] Error deleting user:', err);
+    return error(c, 'Failed to delete user', 500);
+  }
+});
+
+/**
+ * GET /api/admin/invitations
+ * Invitations of the admin's local government
+ * Query: ?pending=true&page=1&limit=20
+ */
+admin.get('/invitations', async (c) => {
+  try {
+    const user = getUser(c);
+    const query = c.req.query();
+    const page = parseInt(query.page || '1');
+    const limit = parseInt(query.limit || '20');
+    const offset = (page - 1) * limit;
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getInvitations({
+        local_gov_code: user!.local_gov_code,
+        pending: query.pending === 'true',
+        limit,
+        offset
+      });
+    });
+
+    return paginated(c, result.invitations, result.total, page, limit);
+  } catch (err) {
+    console.error('[Admin API] Error listing invitations:', err);
+    return error(c, 'Failed to fetch invitations', 500);
+  }
+});
+
+/**
+ * POST /api/admin/invitations
+ * Invite a user with a pre-assigned role
+ * Body: { "email": "...", "role": "law_officer", "department": "법무과" }
+ * The token is returned only in this response.
+ */
+admin.post('/invitations', async (c) => {
+  try {
+    const user = getUser(c);
+    const body = await c.req.json();
+
+    const { inviteUser, UserAdminError } = await import('../services/userAdmin');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    try {
+      const { invitation, token } = await withDb(c.env, (db) =>
+        inviteUser(createDatabaseService(db), user!, body)
+      );
+
+      return success(c, { invitation, token }, 'Invitation created', 201);
+    } catch (err) {
+      if (err instanceof UserAdminError) {
+        return userAdminError(c, err);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Admin API] Error creating invitation:', err);
+    return error(c, 'Failed to create invitation', 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/invitations/:invitationId
+ * Revoke an invitation that has not been accepted
+ */
+admin.delete('/invitations/:invitationId', async (c) => {
+  try {
+    const user = getUser(c);
+    const invitationId = c.req.param('invitationId');
+
+    const { revokeInvitation, UserAdminError } = await import('../services/userAdmin');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    try {
+      const invitation = await withDb(c.env, (db) =>
+        revokeInvitation(createDatabaseService(db), user!, invitationId)
+      );
+
+      if (!invitation) {
+        return notFound(c, 'Invitation');
+      }
+
+      return success(c, invitation, 'Invitation revoked');
+    } catch (err) {
+      if (err instanceof UserAdminError) {
+        return userAdminError(c, err);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Admin API] Error revoking invitation:', err);
+    return error(c, 'Failed to revoke invitation', 500);
+  }
+});
+
+function userAdminError(c: Context<HonoEnv>, err: { message: string; reason: string }) {
+  if (err.reason === 'forbidden') {
+    return forbidden(c, err.message);
+  }
+  return error(c, err.message, err.reason === 'conflict' ? 409 : 400);
+}
+
+export default admin;
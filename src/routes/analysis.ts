@@ -5,10 +5,24 @@
 import { Hono } from 'hono';
 import type { HonoEnv } from '../types/bindings';
 import { success, error, paginated, notFound } from '../utils/response';
-import { authMiddleware, requireRole, getUser } from '../middleware/auth';
+import { authMiddleware, requirePermission, getUser } from '../middleware/auth';
+import { tenantMiddleware, getTenantScope, requireTenantOf } from '../middleware/tenant';
+import { isInScope } from '../services/tenantScope';
+import { Permission, ReviewAction } from '../types/database';
+import type { StatsGroupBy } from '../services/databaseImpl';
 
 const analysis = new Hono<HonoEnv>();
 
+// All routes require authentication; analyses are those of regulations in
+// the caller's tenant scope
+analysis.use('*', authMiddleware, tenantMiddleware);
+
+// Analyses of other local governments are answered as not found
+const scopedAnalysis = requireTenantOf('analysis', 'analysisId', 'Analysis');
+
+// Users of department_only roles review, and draft for, their department's analyses only
+const reviewableAnalysis = requireTenantOf('analysis', 'analysisId', 'Analysis', { departmentOnly: true });
+
 // ============================================================
 // Public Routes (require authentication)
 // ============================================================
@@ -17,19 +31,15 @@ const analysis = new Hono<HonoEnv>();
  * GET /api/analysis
  * List impact analyses with filtering
  */
-analysis.get('/', authMiddleware, async (c) => {
+analysis.get('/', async (c) => {
   try {
-    const user = getUser(c);
     const query = c.req.query();
 
     const page = parseInt(query.page || '1');
     const limit = parseInt(query.limit || '20');
     const status = query.status; // pending, reviewed
     const level = query.level; // HIGH, MEDIUM, LOW
-    const localGov = query.local_gov;
-
-    // Filter by user's local government if not admin
-    const effectiveLocalGov = user?.role === 'admin' ? localGov : user?.local_gov;
+    const tenant = getTenantScope(c); // ?local_gov_code= is applied by tenantMiddleware
 
     // TODO: Implement actual database query with filters
     
@@ -40,11 +50,53 @@ analysis.get('/', authMiddleware, async (c) => {
   }
 });
 
+/**
+ * GET /api/analysis/stats
+ * Get analysis statistics
+ * Registered before /:analysisId so "stats" is not matched as an id
+ */
+analysis.get('/stats', async (c) => {
+  try {
+    const query = c.req.query();
+
+    const from = query.from; // YYYY-MM-DD
+    const to = query.to;
+    const groupBy = query.group_by || 'month'; // day, week, month
+
+    if (!['day', 'week', 'month'].includes(groupBy)) {
+      return error(c, 'group_by must be one of day, week, month', 400);
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+      return error(c, 'from and to must be YYYY-MM-DD dates', 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const stats = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getAnalysisStats({
+        tenant: getTenantScope(c),
+        from,
+        to,
+        groupBy: groupBy as StatsGroupBy
+      });
+    });
+
+    return success(c, stats);
+  } catch (err) {
+    console.error('[Analysis API] Error fetching stats:', err);
+    return error(c, 'Failed to fetch statistics', 500);
+  }
+});
+
 /**
  * GET /api/analysis/:analysisId
  * Get detailed analysis by ID
  */
-analysis.get('/:analysisId', authMiddleware, async (c) => {
+analysis.get('/:analysisId', scopedAnalysis, async (c) => {
   try {
     const analysisId = c.req.param('analysisId');
 
@@ -66,26 +118,64 @@ analysis.get('/:analysisId', authMiddleware, async (c) => {
  * POST /api/analysis/trigger
  * Trigger impact analysis for a law revision
  */
-analysis.post('/trigger', authMiddleware, requireRole('admin', 'law_officer'), async (c) => {
+analysis.post('/trigger', requirePermission(Permission.ANALYSIS_TRIGGER), async (c) => {
   try {
+    const user = getUser(c);
     const body = await c.req.json();
-    const { revision_id, target_local_gov } = body;
+    const { revision_id, target_local_gov, target_local_gov_code } = body;
 
     if (!revision_id) {
       return error(c, 'revision_id is required', 400);
     }
 
-    // TODO: Implement analysis workflow
-    // 1. Get revision details
-    // 2. Find linked regulations
-    // 3. Compare articles
-    // 4. Run AI analysis
-    // 5. Create impact analysis records
-    // 6. Send notifications
+    // Non-admins can only analyze their own local government
+    const isAdmin = user?.role === 'admin';
+    const effectiveLocalGov = isAdmin ? target_local_gov : user?.local_gov;
+    const effectiveLocalGovCode = isAdmin ? target_local_gov_code : user?.local_gov_code;
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const { runAnalysisJob } = await import('../services/analysisPipeline');
+    const { createImpactAnalyzer } = await import('../services/impactAnalyzer');
+
+    const analyzer = createImpactAnalyzer(c.env);
+
+    const job = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+
+      const revision = await dbService.getRevisionById(revision_id);
+      if (!revision) {
+        return null;
+      }
+
+      return dbService.createAnalysisJob({
+        job_id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        revision_id,
+        target_local_gov: effectiveLocalGov,
+        target_local_gov_code: effectiveLocalGovCode,
+        created_by: user!.user_id
+      });
+    });
+
+    if (!job) {
+      return notFound(c, 'Revision');
+    }
+
+    // Run the pipeline after the response is sent
+    const pipeline = withDb(c.env, (db) =>
+      runAnalysisJob(job, createDatabaseService(db), analyzer)
+    );
+
+    try {
+      c.executionCtx.waitUntil(pipeline);
+    } catch {
+      // No execution context outside the Workers runtime; the promise keeps running
+    }
 
     return success(c, {
       message: 'Analysis triggered successfully',
-      job_id: 'job_' + Date.now()
+      job_id: job.job_id,
+      status: job.status
     }, 'Analysis started', 202);
   } catch (err) {
     console.error('[Analysis API] Error triggering analysis:', err);
@@ -93,11 +183,39 @@ analysis.post('/trigger', authMiddleware, requireRole('admin', 'law_officer'), a
   }
 });
 
+/**
+ * GET /api/analysis/jobs/:jobId
+ * Get status and progress of an analysis job
+ */
+analysis.get('/jobs/:jobId', async (c) => {
+  try {
+    const jobId = c.req.param('jobId');
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const job = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getAnalysisJobById(jobId);
+    });
+
+    // Jobs of every local government (no target) are visible to admins only
+    if (!job || !isInScope(getTenantScope(c), job.target_local_gov_code || null)) {
+      return notFound(c, 'Analysis job');
+    }
+
+    return success(c, job);
+  } catch (err) {
+    console.error('[Analysis API] Error fetching job:', err);
+    return error(c, 'Failed to fetch analysis job', 500);
+  }
+});
+
 /**
  * PUT /api/analysis/:analysisId/review
  * Submit review for an analysis
  */
-analysis.put('/:analysisId/review', authMiddleware, async (c) => {
+analysis.put('/:analysisId/review', requirePermission(Permission.ANALYSIS_REVIEW), reviewableAnalysis, async (c) => {
   try {
     const user = getUser(c);
     const analysisId = c.req.param('analysisId');
@@ -108,77 +226,318 @@ analysis.put('/:analysisId/review', authMiddleware, async (c) => {
       return error(c, 'action is required', 400);
     }
 
-    const validActions = ['검토시작', '의견입력', '개정결정', '개정불요', '보류'];
-    if (!validActions.includes(action)) {
+    const {
+      isReviewAction,
+      submitReview,
+      ReviewTransitionError
+    } = await import('../services/reviewWorkflow');
+
+    if (!isReviewAction(action)) {
       return error(c, 'Invalid action', 400);
     }
 
-    // TODO: Implement review submission
-    // 1. Update analysis status
-    // 2. Create review history record
-    // 3. If completed, mark as reviewed
-    
+    if (action === ReviewAction.COMMENT && !comment?.trim()) {
+      return error(c, 'comment is required for 의견입력', 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    try {
+      const result = await withDb(c.env, async (db) => {
+        const dbService = createDatabaseService(db);
+        return submitReview(dbService, analysisId, user!.user_id, action, comment);
+      });
+
+      if (!result) {
+        return notFound(c, 'Analysis');
+      }
+
+      return success(c, {
+        message: 'Review submitted successfully',
+        analysis_id: analysisId,
+        action,
+        review_status: result.analysis.review_status,
+        reviewed: result.analysis.reviewed,
+        history: result.history
+      });
+    } catch (err) {
+      if (err instanceof ReviewTransitionError) {
+        return error(c, err.message, 409);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Analysis API] Error submitting review:', err);
+    return error(c, 'Failed to submit review', 500);
+  }
+});
+
+/**
+ * GET /api/analysis/:analysisId/history
+ * Get review history for an analysis
+ */
+analysis.get('/:analysisId/history', scopedAnalysis, async (c) => {
+  try {
+    const analysisId = c.req.param('analysisId');
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+
+      const record = await dbService.getAnalysisById(analysisId);
+      if (!record) {
+        return null;
+      }
+
+      const history = await dbService.getReviewHistory(analysisId);
+      return { record, history };
+    });
+
+    if (!result) {
+      return notFound(c, 'Analysis');
+    }
+
     return success(c, {
-      message: 'Review submitted successfully',
       analysis_id: analysisId,
-      action
+      review_status: result.record.review_status,
+      history: result.history
     });
   } catch (err) {
-    console.error('[Analysis API] Error submitting review:', err);
-    return error(c, 'Failed to submit review', 500);
+    console.error('[Analysis API] Error fetching history:', err);
+    return error(c, 'Failed to fetch review history', 500);
   }
 });
 
 /**
- * GET /api/analysis/stats
- * Get analysis statistics
+ * GET /api/analysis/:analysisId/draft
+ * Get the amendment draft of an analysis with all of its versions
  */
-analysis.get('/stats', authMiddleware, async (c) => {
+analysis.get('/:analysisId/draft', scopedAnalysis, async (c) => {
   try {
-    const user = getUser(c);
-    const query = c.req.query();
+    const analysisId = c.req.param('analysisId');
 
-    const from = query.from; // YYYY-MM-DD
-    const to = query.to;
-    const groupBy = query.group_by || 'month'; // day, week, month
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
 
-    // Filter by user's local government if not admin
-    const localGov = user?.role === 'admin' ? query.local_gov : user?.local_gov;
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+
+      const draft = await dbService.getAmendmentDraftByAnalysisId(analysisId);
+      if (!draft) {
+        return null;
+      }
+
+      const versions = await dbService.getAmendmentDraftVersions(draft.draft_id);
+      return { draft, versions };
+    });
+
+    if (!result) {
+      return notFound(c, 'Amendment draft');
+    }
 
-    // TODO: Implement statistics query
-    
     return success(c, {
-      total_analyses: 0,
-      pending_reviews: 0,
-      completed_reviews: 0,
-      by_impact_level: {
-        high: 0,
-        medium: 0,
-        low: 0
-      },
-      by_local_gov: [],
-      timeline: []
+      ...result.draft,
+      current: result.versions.find(v => v.version === result.draft.current_version) || null,
+      versions: result.versions
     });
   } catch (err) {
-    console.error('[Analysis API] Error fetching stats:', err);
-    return error(c, 'Failed to fetch statistics', 500);
+    console.error('[Analysis API] Error fetching amendment draft:', err);
+    return error(c, 'Failed to fetch amendment draft', 500);
   }
 });
 
 /**
- * GET /api/analysis/:analysisId/history
- * Get review history for an analysis
+ * POST /api/analysis/:analysisId/draft
+ * Generate (or regenerate) the amendment draft with the AI drafter
  */
-analysis.get('/:analysisId/history', authMiddleware, async (c) => {
+analysis.post('/:analysisId/draft', requirePermission(Permission.DRAFT_EDIT), reviewableAnalysis, async (c) => {
   try {
+    const user = getUser(c);
     const analysisId = c.req.param('analysisId');
 
-    // TODO: Implement database query for review history
-    
-    return success(c, { history: [] });
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const { createAmendmentDrafter } = await import('../services/amendmentDrafter');
+    const { generateAmendmentDraft, AmendmentDraftError } = await import('../services/amendmentDraft');
+
+    const drafter = createAmendmentDrafter(c.env);
+
+    try {
+      const result = await withDb(c.env, async (db) =>
+        generateAmendmentDraft(createDatabaseService(db), drafter, analysisId, user!.user_id)
+      );
+
+      if (!result) {
+        return notFound(c, 'Analysis');
+      }
+
+      return success(c, result, 'Amendment draft generated', 201);
+    } catch (err) {
+      if (err instanceof AmendmentDraftError) {
+        return error(c, err.message, err.reason === 'not_draftable' ? 400 : 409);
+      }
+      throw err;
+    }
   } catch (err) {
-    console.error('[Analysis API] Error fetching history:', err);
-    return error(c, 'Failed to fetch review history', 500);
+    console.error('[Analysis API] Error generating amendment draft:', err);
+    return error(c, 'Failed to generate amendment draft', 500);
+  }
+});
+
+/**
+ * PUT /api/analysis/:analysisId/draft
+ * Save an edited amendment text as a new version
+ */
+analysis.put('/:analysisId/draft', requirePermission(Permission.DRAFT_EDIT), reviewableAnalysis, async (c) => {
+  try {
+    const user = getUser(c);
+    const analysisId = c.req.param('analysisId');
+    const body = await c.req.json();
+    const { new_content, rationale } = body;
+
+    if (typeof new_content !== 'string' || !new_content.trim()) {
+      return error(c, 'new_content is required', 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const { editAmendmentDraft, AmendmentDraftError } = await import('../services/amendmentDraft');
+
+    try {
+      const result = await withDb(c.env, async (db) =>
+        editAmendmentDraft(createDatabaseService(db), analysisId, user!.user_id, new_content, rationale)
+      );
+
+      if (!result) {
+        return notFound(c, 'Amendment draft');
+      }
+
+      return success(c, result, 'Amendment draft updated');
+    } catch (err) {
+      if (err instanceof AmendmentDraftError) {
+        return error(c, err.message, 409);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Analysis API] Error updating amendment draft:', err);
+    return error(c, 'Failed to update amendment draft', 500);
+  }
+});
+
+/**
+ * POST /api/analysis/:analysisId/draft/approve
+ * Approve the amendment draft (optionally pinned to a version)
+ */
+analysis.post('/:analysisId/draft/approve', requirePermission(Permission.DRAFT_APPROVE), reviewableAnalysis, async (c) => {
+  try {
+    const user = getUser(c);
+    const analysisId = c.req.param('analysisId');
+    const body = await c.req.json().catch(() => ({}));
+    const { version } = body;
+
+    if (version !== undefined && !Number.isInteger(version)) {
+      return error(c, 'version must be an integer', 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const { approveAmendmentDraft, AmendmentDraftError } = await import('../services/amendmentDraft');
+
+    try {
+      const draft = await withDb(c.env, async (db) =>
+        approveAmendmentDraft(createDatabaseService(db), analysisId, user!.user_id, version)
+      );
+
+      if (!draft) {
+        return notFound(c, 'Amendment draft');
+      }
+
+      return success(c, draft, 'Amendment draft approved');
+    } catch (err) {
+      if (err instanceof AmendmentDraftError) {
+        return error(c, err.message, 409);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Analysis API] Error approving amendment draft:', err);
+    return error(c, 'Failed to approve amendment draft', 500);
+  }
+});
+
+/**
+ * GET /api/analysis/:analysisId/draft/comparison
+ * 신구조문대비표 of the draft (?format=html|docx|xlsx, ?version=n)
+ */
+analysis.get('/:analysisId/draft/comparison', scopedAnalysis, async (c) => {
+  try {
+    const analysisId = c.req.param('analysisId');
+    const format = c.req.query('format') || 'html';
+    const requestedVersion = c.req.query('version');
+
+    const {
+      COMPARISON_FORMATS,
+      isComparisonFormat,
+      comparisonTitle,
+      renderComparisonHTML,
+      renderComparisonDOCX,
+      renderComparisonXLSX
+    } = await import('../services/comparisonTable');
+
+    if (!isComparisonFormat(format)) {
+      return error(c, `format must be one of: ${COMPARISON_FORMATS.join(', ')}`, 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const { buildDraftComparisonTable } = await import('../services/amendmentDraft');
+
+    const table = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+
+      const draft = await dbService.getAmendmentDraftByAnalysisId(analysisId);
+      if (!draft) {
+        return null;
+      }
+
+      const versionNumber = requestedVersion ? parseInt(requestedVersion) : draft.current_version;
+      const [version, regulationArticle] = await Promise.all([
+        dbService.getAmendmentDraftVersion(draft.draft_id, versionNumber),
+        dbService.getRegulationArticleById(draft.reg_article_id)
+      ]);
+      const regulation = regulationArticle && await dbService.getRegulationById(regulationArticle.regulation_id);
+
+      if (!version || !regulationArticle || !regulation) {
+        return null;
+      }
+
+      return buildDraftComparisonTable(draft, version, regulation, regulationArticle);
+    });
+
+    if (!table) {
+      return notFound(c, 'Amendment draft');
+    }
+
+    if (format === 'html') {
+      return c.html(renderComparisonHTML(table));
+    }
+
+    const filename = `${comparisonTitle(table)}_${table.revision_date}.${format}`;
+    const body = format === 'docx' ? renderComparisonDOCX(table) : renderComparisonXLSX(table);
+
+    return c.body(body, 200, {
+      'Content-Type': format === 'docx'
+        ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="comparison.${format}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+    });
+  } catch (err) {
+    console.error('[Analysis API] Error generating draft comparison table:', err);
+    return error(c, 'Failed to generate comparison table', 500);
   }
 });
 
@@ -186,11 +545,11 @@ analysis.get('/:analysisId/history', authMiddleware, async (c) => {
  * POST /api/analysis/batch-review
  * Batch review multiple analyses
  */
-analysis.post('/batch-review', authMiddleware, requireRole('admin', 'law_officer'), async (c) => {
+analysis.post('/batch-review', requirePermission(Permission.ANALYSIS_REVIEW), async (c) => {
   try {
     const user = getUser(c);
     const body = await c.req.json();
-    const { analysis_ids, action, comment } = body;
+    const { analysis_ids, action, comment, atomic } = body;
 
     if (!analysis_ids || !Array.isArray(analysis_ids) || analysis_ids.length === 0) {
       return error(c, 'analysis_ids array is required', 400);
@@ -200,13 +559,52 @@ analysis.post('/batch-review', authMiddleware, requireRole('admin', 'law_officer
       return error(c, 'action is required', 400);
     }
 
-    // TODO: Implement batch review
-    // Loop through analysis_ids and apply same action
-    
-    return success(c, {
-      message: `Batch review completed for ${analysis_ids.length} analyses`,
-      processed: analysis_ids.length
+    const {
+      isReviewAction,
+      submitBatchReview,
+      MAX_BATCH_REVIEW_SIZE
+    } = await import('../services/reviewWorkflow');
+
+    if (!isReviewAction(action)) {
+      return error(c, 'Invalid action', 400);
+    }
+
+    if (analysis_ids.length > MAX_BATCH_REVIEW_SIZE) {
+      return error(c, `At most ${MAX_BATCH_REVIEW_SIZE} analyses can be reviewed at once`, 400);
+    }
+
+    if (action === ReviewAction.COMMENT && !comment?.trim()) {
+      return error(c, 'comment is required for 의견입력', 400);
+    }
+
+    const { getPermissionPolicy, departmentScopeOf } = await import('../services/permissions');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return submitBatchReview(
+        dbService,
+        analysis_ids.map(String),
+        user!.user_id,
+        action,
+        comment,
+        atomic === true,
+        getTenantScope(c),
+        departmentScopeOf(getPermissionPolicy(c.env), user!)
+      );
     });
+
+    // Atomic batches are all-or-nothing: report the rollback as a conflict
+    if (!result.committed) {
+      return c.json({
+        success: false,
+        error: 'Batch review was not applied',
+        data: result
+      }, 409);
+    }
+
+    return success(c, result, `Batch review completed: ${result.succeeded} succeeded, ${result.failed} failed`);
   } catch (err) {
     console.error('[Analysis API] Error in batch review:', err);
     return error(c, 'Failed to perform batch review', 500);
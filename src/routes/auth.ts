@@ -3,82 +3,89 @@
  */
 
 import { Hono } from 'hono';
-import { sign } from 'hono/jwt';
 import type { HonoEnv } from '../types/bindings';
 import { success, error } from '../utils/response';
-import { authMiddleware, getUser } from '../middleware/auth';
+import { authMiddleware, getUser, getJwtSecret } from '../middleware/auth';
+import { UserStatus } from '../types/database';
 
 const auth = new Hono<HonoEnv>();
 
 /**
- * POST /api/auth/register
- * Register a new user
+ * GET /api/auth/invitations/:token
+ * Show what an invitation grants before registering
  */
-auth.post('/register', async (c) => {
+auth.get('/invitations/:token', async (c) => {
   try {
-    const body = await c.req.json();
-    const { username, email, password, local_gov, department, role } = body;
+    const token = c.req.param('token');
 
-    // Validate required fields
-    if (!username || !email || !password || !local_gov) {
-      return error(c, 'Missing required fields', 400);
-    }
+    const { hashToken } = await import('../services/userAdmin');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const invitation = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getOpenInvitationByTokenHash(await hashToken(token));
+    });
 
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return error(c, 'Invalid email format', 400);
+    if (!invitation) {
+      return error(c, 'Invitation is invalid or has expired', 404);
     }
 
-    // Validate password strength
-    if (password.length < 8) {
-      return error(c, 'Password must be at least 8 characters', 400);
+    return success(c, {
+      email: invitation.email,
+      local_gov: invitation.local_gov,
+      local_gov_code: invitation.local_gov_code,
+      department: invitation.department,
+      role: invitation.role,
+      expires_at: invitation.expires_at
+    });
+
+  } catch (err) {
+    console.error('[Auth API] Error fetching invitation:', err);
+    return error(c, 'Failed to fetch invitation', 500);
+  }
+});
+
+/**
+ * POST /api/auth/register
+ * Register with an invitation issued by an admin
+ * Email, local government, department and role come from the invitation.
+ */
+auth.post('/register', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { invitation_token, username, password } = body;
+
+    if (!invitation_token) {
+      return error(c, 'invitation_token is required', 400);
     }
 
+    const { acceptInvitation, UserAdminError } = await import('../services/userAdmin');
     const { withDb } = await import('../utils/db');
     const { createDatabaseService } = await import('../services/databaseImpl');
-    const bcrypt = await import('bcryptjs');
 
-    const user = await withDb(c.env, async (db) => {
-      const dbService = createDatabaseService(db);
-      
-      // Check if user already exists
-      const existing = await dbService.getUserByEmail(email);
-      if (existing) {
-        throw new Error('User already exists');
+    try {
+      const user = await withDb(c.env, (db) =>
+        acceptInvitation(createDatabaseService(db), invitation_token, { username, password })
+      );
+
+      if (!user) {
+        return error(c, 'Invitation is invalid or has expired', 400);
       }
 
-      // Hash password
-      const passwordHash = await bcrypt.hash(password, 10);
-
-      // Create user
-      return dbService.createUser({
-        user_id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        username,
-        email,
-        password_hash: passwordHash,
-        local_gov,
-        department: department || '',
-        role: role || 'dept_officer',
-        notification_settings: {
-          email_enabled: true,
-          push_enabled: true,
-          impact_levels: ['HIGH', 'MEDIUM'],
-          departments: []
-        }
-      });
-    });
-    
-    return success(c, {
-      message: 'User registered successfully',
-      user_id: user.user_id
-    }, 'Registration successful', 201);
+      return success(c, {
+        message: 'User registered successfully',
+        user_id: user.user_id
+      }, 'Registration successful', 201);
+    } catch (err) {
+      if (err instanceof UserAdminError) {
+        return error(c, err.message, err.reason === 'conflict' ? 409 : 400);
+      }
+      throw err;
+    }
 
   } catch (err) {
     console.error('[Auth API] Error registering user:', err);
-    if (err instanceof Error && err.message === 'User already exists') {
-      return error(c, 'User already exists', 409);
-    }
     return error(c, 'Failed to register user', 500);
   }
 });
@@ -98,7 +105,9 @@ auth.post('/login', async (c) => {
 
     const { withDb } = await import('../utils/db');
     const { createDatabaseService } = await import('../services/databaseImpl');
+    const { startSession } = await import('../services/authSession');
     const bcrypt = await import('bcryptjs');
+    const jwtSecret = getJwtSecret(c.env);
 
     const result = await withDb(c.env, async (db) => {
       const dbService = createDatabaseService(db);
@@ -115,33 +124,35 @@ auth.post('/login', async (c) => {
         throw new Error('Invalid credentials');
       }
 
+      if (user.status === UserStatus.SUSPENDED) {
+        throw new Error('Account suspended');
+      }
+
       // Update last login
       await dbService.updateLastLogin(user.user_id);
 
-      return user;
+      const session = await startSession(dbService, user, {
+        user_agent: c.req.header('User-Agent'),
+        ip_address: c.req.header('CF-Connecting-IP')
+      }, jwtSecret);
+
+      return { user, session };
     });
 
-    // Generate JWT token
-    const jwtSecret = c.env.JWT_SECRET || 'dev-secret-key-change-in-production';
-    
-    const token = await sign({
-      user_id: result.user_id,
-      email: result.email,
-      role: result.role,
-      local_gov: result.local_gov,
-      department: result.department,
-      exp: Math.floor(Date.now() / 1000) + (60 * 60 * 24 * 7) // 7 days
-    }, jwtSecret);
+    const { user, session } = result;
 
     return success(c, {
-      token,
+      token: session.token,
+      refresh_token: session.refresh_token,
+      expires_in: session.expires_in,
       user: {
-        user_id: result.user_id,
-        username: result.username,
-        email: result.email,
-        local_gov: result.local_gov,
-        department: result.department,
-        role: result.role
+        user_id: user.user_id,
+        username: user.username,
+        email: user.email,
+        local_gov: user.local_gov,
+        local_gov_code: user.local_gov_code,
+        department: user.department,
+        role: user.role
       }
     });
 
@@ -150,21 +161,82 @@ auth.post('/login', async (c) => {
     if (err instanceof Error && err.message === 'Invalid credentials') {
       return error(c, 'Invalid email or password', 401);
     }
+    if (err instanceof Error && err.message === 'Account suspended') {
+      return error(c, 'Account is suspended', 403);
+    }
     return error(c, 'Failed to login', 500);
   }
 });
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ * The old refresh token can no longer be used.
+ */
+auth.post('/refresh', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { refresh_token } = body;
+
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      return error(c, 'refresh_token is required', 400);
+    }
+
+    const { refreshSession, AuthSessionError } = await import('../services/authSession');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const jwtSecret = getJwtSecret(c.env);
+
+    try {
+      const session = await withDb(c.env, (db) =>
+        refreshSession(createDatabaseService(db), refresh_token, jwtSecret)
+      );
+
+      return success(c, {
+        token: session.token,
+        refresh_token: session.refresh_token,
+        expires_in: session.expires_in
+      });
+    } catch (err) {
+      if (err instanceof AuthSessionError) {
+        return error(c, err.message, 401);
+      }
+      throw err;
+    }
+
+  } catch (err) {
+    console.error('[Auth API] Error refreshing token:', err);
+    return error(c, 'Failed to refresh token', 500);
+  }
+});
+
 /**
  * POST /api/auth/logout
- * User logout (client-side token removal)
+ * Revoke the current session, or every session with { "all_devices": true }
  */
 auth.post('/logout', authMiddleware, async (c) => {
   try {
-    // In JWT-based auth, logout is typically handled client-side
-    // by removing the token. Server can maintain a blacklist if needed.
-    
+    const user = getUser(c);
+    if (!user) {
+      return error(c, 'User not found', 401);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const allDevices = body?.all_devices === true;
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const revoked = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return allDevices
+        ? dbService.revokeUserSessions(user.user_id)
+        : Number(await dbService.revokeSession(user.sid));
+    });
+
     return success(c, {
-      message: 'Logged out successfully'
+      message: 'Logged out successfully',
+      revoked_sessions: revoked
     });
 
   } catch (err) {
@@ -192,6 +264,7 @@ auth.get('/me', authMiddleware, async (c) => {
       username: user.email, // TODO: Get actual username from DB
       email: user.email,
       local_gov: user.local_gov,
+      local_gov_code: user.local_gov_code,
       department: user.department,
       role: user.role
     });
@@ -202,6 +275,40 @@ auth.get('/me', authMiddleware, async (c) => {
   }
 });
 
+/**
+ * GET /api/auth/me/permissions
+ * Permissions of the current user under the role policy, so the frontend
+ * can hide actions the user cannot take
+ */
+auth.get('/me/permissions', authMiddleware, async (c) => {
+  try {
+    const user = getUser(c);
+
+    if (!user) {
+      return error(c, 'User not found', 401);
+    }
+
+    const { getPermissionPolicy, policyOfRole, departmentScopeOf } = await import('../services/permissions');
+    const { resolveTenantScope } = await import('../services/tenantScope');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const policy = getPermissionPolicy(c.env);
+    const tenant = await withDb(c.env, (db) => resolveTenantScope(createDatabaseService(db), user));
+
+    return success(c, {
+      role: user.role,
+      permissions: policyOfRole(policy, user.role).permissions,
+      department: departmentScopeOf(policy, user), // null: every department
+      tenant // null: every local government
+    });
+
+  } catch (err) {
+    console.error('[Auth API] Error fetching permissions:', err);
+    return error(c, 'Failed to fetch permissions', 500);
+  }
+});
+
 /**
  * PUT /api/auth/me
  * Update current user info
@@ -284,14 +391,32 @@ auth.post('/forgot-password', async (c) => {
     const body = await c.req.json();
     const { email } = body;
 
-    if (!email) {
+    if (!email || typeof email !== 'string') {
       return error(c, 'Email is required', 400);
     }
 
-    // TODO: Generate reset token
-    // TODO: Send reset email
+    const { requestPasswordReset, PasswordResetError } = await import('../services/passwordReset');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const { getAppUrl } = await import('../utils/appUrl');
+    const origin = getAppUrl(c.env);
+
+    try {
+      await withDb(c.env, (db) =>
+        requestPasswordReset(createDatabaseService(db), email, {
+          ip: c.req.header('CF-Connecting-IP') || null,
+          origin,
+          sendGridApiKey: c.env.SENDGRID_API_KEY
+        })
+      );
+    } catch (err) {
+      if (err instanceof PasswordResetError) {
+        return error(c, err.message, 429);
+      }
+      throw err;
+    }
+
     // For security, always return success even if email doesn't exist
-    
     return success(c, {
       message: 'If the email exists, a password reset link has been sent'
     });
@@ -305,6 +430,7 @@ auth.post('/forgot-password', async (c) => {
 /**
  * POST /api/auth/reset-password
  * Reset password with token
+ * Every session of the user ends; log in again with the new password.
  */
 auth.post('/reset-password', async (c) => {
   try {
@@ -315,15 +441,24 @@ auth.post('/reset-password', async (c) => {
       return error(c, 'Token and new password are required', 400);
     }
 
-    // Validate new password strength
-    if (new_password.length < 8) {
-      return error(c, 'Password must be at least 8 characters', 400);
-    }
+    const { resetPassword, PasswordResetError } = await import('../services/passwordReset');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
 
-    // TODO: Verify reset token
-    // TODO: Hash new password
-    // TODO: Update password in database
-    // TODO: Invalidate reset token
+    try {
+      const reset = await withDb(c.env, (db) =>
+        resetPassword(createDatabaseService(db), token, new_password)
+      );
+
+      if (!reset) {
+        return error(c, 'Reset link is invalid or has expired', 400);
+      }
+    } catch (err) {
+      if (err instanceof PasswordResetError) {
+        return error(c, err.message, 400);
+      }
+      throw err;
+    }
 
     return success(c, {
       message: 'Password reset successfully'
@@ -0,0 +1,194 @@
+/**
+ * Enforcement Calendar API Routes (시행일 캘린더)
+ */
+
+import { Hono } from 'hono';
+import type { HonoEnv } from '../types/bindings';
+import { success, error, unauthorized, notFound } from '../utils/response';
+import { authMiddleware, getUser } from '../middleware/auth';
+import { tenantMiddleware, getTenantScope } from '../middleware/tenant';
+import { getAppUrl } from '../utils/appUrl';
+
+const calendar = new Hono<HonoEnv>();
+
+// Calendar apps cannot send an Authorization header, so the .ics feed takes
+// a random token of its own (calendar_feed_tokens). It only grants read
+// access to the feed, in the scope the owner has at the time of the request.
+
+// Default window of the JSON calendar and of the feed, in days from today
+const DEFAULT_DAYS_AHEAD = 90;
+const FEED_DAYS_BEHIND = 30;
+const FEED_DAYS_AHEAD = 365;
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+/**
+ * GET /api/calendar/enforcement
+ * Upcoming 시행일 of revisions affecting the user's tenant scope, with
+ * the number of unreviewed impact analyses each
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (default today to 90 days ahead)
+ * ?local_gov_code= narrows it to one local government of the scope
+ */
+calendar.get('/enforcement', authMiddleware, tenantMiddleware, async (c) => {
+  try {
+    const user = getUser(c);
+    if (!user) {
+      return error(c, 'User not found', 401);
+    }
+
+    const { todayKST, addDays } = await import('../services/enforcementCalendar');
+
+    const query = c.req.query();
+    const today = todayKST();
+    const from = query.from || today;
+    const to = query.to || addDays(from, DEFAULT_DAYS_AHEAD);
+
+    if (!isDate(from) || !isDate(to)) {
+      return error(c, 'from and to must be dates in YYYY-MM-DD format', 400);
+    }
+    if (to < from) {
+      return error(c, 'to must not be before from', 400);
+    }
+
+    const tenant = getTenantScope(c);
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const entries = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getEnforcementCalendar({ today, from, to, tenant });
+    });
+
+    return success(c, {
+      from,
+      to,
+      local_gov_codes: tenant?.local_gov_codes || null,
+      total: entries.length,
+      unresolved_analyses: entries.reduce((sum, e) => sum + e.unresolved_analyses, 0),
+      entries
+    });
+  } catch (err) {
+    console.error('[Calendar API] Error fetching enforcement calendar:', err);
+    return error(c, 'Failed to fetch enforcement calendar', 500);
+  }
+});
+
+/**
+ * POST /api/calendar/enforcement/feed
+ * Issue the user's .ics subscription URL; a previously issued URL stops working
+ */
+calendar.post('/enforcement/feed', authMiddleware, async (c) => {
+  try {
+    const user = getUser(c);
+    if (!user) {
+      return error(c, 'User not found', 401);
+    }
+
+    const { generateToken, hashToken } = await import('../services/userAdmin');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+    const origin = getAppUrl(c.env);
+
+    const token = generateToken();
+    await withDb(c.env, async (db) =>
+      createDatabaseService(db).replaceCalendarFeedToken(user.user_id, await hashToken(token))
+    );
+
+    const { pathname } = new URL(c.req.url);
+
+    return success(c, {
+      url: `${origin}${pathname.replace(/\/feed$/, '.ics')}?token=${token}`
+    }, 'Calendar feed URL issued', 201);
+  } catch (err) {
+    console.error('[Calendar API] Error creating feed URL:', err);
+    return error(c, 'Failed to create calendar feed URL', 500);
+  }
+});
+
+/**
+ * DELETE /api/calendar/enforcement/feed
+ * Revoke the user's .ics subscription URL
+ */
+calendar.delete('/enforcement/feed', authMiddleware, async (c) => {
+  try {
+    const user = getUser(c);
+    if (!user) {
+      return error(c, 'User not found', 401);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const revoked = await withDb(c.env, (db) =>
+      createDatabaseService(db).revokeCalendarFeedToken(user.user_id)
+    );
+
+    if (!revoked) {
+      return notFound(c, 'Calendar feed');
+    }
+
+    return success(c, { revoked }, 'Calendar feed URL revoked');
+  } catch (err) {
+    console.error('[Calendar API] Error revoking feed URL:', err);
+    return error(c, 'Failed to revoke calendar feed URL', 500);
+  }
+});
+
+/**
+ * GET /api/calendar/enforcement.ics?token=
+ * iCalendar feed for calendar apps, in the owner's current tenant scope
+ */
+calendar.get('/enforcement.ics', async (c) => {
+  const token = c.req.query('token');
+  if (!token) {
+    return unauthorized(c, 'Invalid calendar token');
+  }
+
+  try {
+    const { todayKST, addDays, renderEnforcementICS } = await import('../services/enforcementCalendar');
+    const { hashToken } = await import('../services/userAdmin');
+    const { resolveTenantScope } = await import('../services/tenantScope');
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const today = todayKST();
+    const feed = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+
+      const user = await dbService.getUserByCalendarFeedToken(await hashToken(token));
+      if (!user) {
+        return null;
+      }
+
+      const entries = await dbService.getEnforcementCalendar({
+        today,
+        from: addDays(today, -FEED_DAYS_BEHIND),
+        to: addDays(today, FEED_DAYS_AHEAD),
+        tenant: await resolveTenantScope(dbService, user)
+      });
+      return { user, entries };
+    });
+
+    if (!feed) {
+      return unauthorized(c, 'Invalid calendar token');
+    }
+
+    const ics = renderEnforcementICS(feed.entries, {
+      name: feed.user.role === 'admin' ? '법령 시행일' : `${feed.user.local_gov} 법령 시행일`,
+      url: getAppUrl(c.env)
+    });
+
+    return c.body(ics, 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="enforcement.ics"'
+    });
+  } catch (err) {
+    console.error('[Calendar API] Error rendering enforcement feed:', err);
+    return error(c, 'Failed to render calendar feed', 500);
+  }
+});
+
+export default calendar;
@@ -1,13 +1,39 @@
-import { Hono } from 'hono';
-import { createDbConnection } from '../utils/neonDb';
+import { Hono, type Context } from 'hono';
+import type { HonoEnv } from '../types/bindings';
+import { RevisionType } from '../types/database';
+import { authMiddleware } from '../middleware/auth';
+import { tenantMiddleware, getTenantScope } from '../middleware/tenant';
 
-const laws = new Hono();
+const laws = new Hono<HonoEnv>();
+
+// Laws are national; the regulations linked to them are the caller's tenant only
+laws.use('*', authMiddleware, tenantMiddleware);
+
+/**
+ * ?as_of=YYYY-MM-DD (시행일 기준 조회)
+ * Returns undefined when absent and null when not a valid date
+ */
+function parseAsOf(value: string | undefined): string | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : null;
+}
+
+function invalidAsOf(c: Context<HonoEnv>) {
+  return c.json({
+    success: false,
+    error: 'as_of must be a date in YYYY-MM-DD format'
+  }, 400);
+}
 
 // GET /api/v1/laws - 법령 목록 조회
 laws.get('/', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
-    
     // Query parameters
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '20');
@@ -15,55 +41,31 @@ laws.get('/', async (c) => {
     const search = c.req.query('search') || '';
     const type = c.req.query('type') || ''; // 법률, 대통령령, 부령 등
     const status = c.req.query('status') || '';
-    
-    // Build query conditions
-    let whereConditions = [];
-    if (search) {
-      whereConditions.push(`law_name ILIKE '%${search}%'`);
-    }
-    if (type) {
-      whereConditions.push(`law_type = '${type}'`);
-    }
-    if (status) {
-      whereConditions.push(`status = '${status}'`);
+    const asOf = parseAsOf(c.req.query('as_of')); // only laws in force on that date
+
+    if (asOf === null) {
+      return invalidAsOf(c);
     }
-    
-    const whereClause = whereConditions.length > 0 
-      ? 'WHERE ' + whereConditions.join(' AND ')
-      : '';
-    
-    // Get total count
-    const countResult = await sql`
-      SELECT COUNT(*) as count 
-      FROM laws
-      ${sql.unsafe(whereClause)}
-    `;
-    const total = parseInt(countResult[0].count);
-    
-    // Get paginated results
-    const results = await sql`
-      SELECT 
-        law_id,
-        law_name,
-        law_type,
-        law_number,
-        enactment_date,
-        current_version,
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const { laws: results, total } = await withDb(c.env, (db) =>
+      createDatabaseService(db).getLaws({
+        search,
+        law_type: type,
         status,
-        ministry,
-        category,
-        created_at
-      FROM laws
-      ${sql.unsafe(whereClause)}
-      ORDER BY law_name
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
+        as_of: asOf,
+        limit,
+        offset
+      })
+    );
     
     return c.json({
       success: true,
       data: {
         laws: results,
+        ...(asOf ? { as_of: asOf } : {}),
         pagination: {
           page,
           limit,
@@ -82,31 +84,29 @@ laws.get('/', async (c) => {
   }
 });
 
-// GET /api/v1/laws/:id - 법령 상세 조회
+// GET /api/v1/laws/:id - 법령 상세 조회 (?as_of=YYYY-MM-DD adds the revision in force then)
 laws.get('/:id', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
     const lawId = c.req.param('id');
+    const asOf = parseAsOf(c.req.query('as_of'));
+
+    if (asOf === null) {
+      return invalidAsOf(c);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      const law = await dbService.getLawById(lawId);
+      if (!law || !asOf) {
+        return law && { law };
+      }
+      return { law, revision: await dbService.getRevisionInForce(lawId, asOf) };
+    });
     
-    // Get law details
-    const results = await sql`
-      SELECT 
-        law_id,
-        law_type,
-        law_name,
-        law_number,
-        enactment_date,
-        current_version,
-        status,
-        ministry,
-        category,
-        created_at,
-        updated_at
-      FROM laws
-      WHERE law_id = ${lawId}
-    `;
-    
-    if (results.length === 0) {
+    if (!result) {
       return c.json({
         success: false,
         error: 'Law not found'
@@ -115,7 +115,14 @@ laws.get('/:id', async (c) => {
     
     return c.json({
       success: true,
-      data: results[0]
+      data: asOf
+        ? {
+            ...result.law,
+            as_of: asOf,
+            in_force: !!result.revision && result.revision.revision_type !== RevisionType.ABOLISH,
+            revision: result.revision
+          }
+        : result.law
     });
     
   } catch (error: any) {
@@ -127,46 +134,60 @@ laws.get('/:id', async (c) => {
   }
 });
 
-// GET /api/v1/laws/:id/articles - 법령 조문 목록 조회
+// GET /api/v1/laws/:id/articles - 법령 조문 목록 조회 (?as_of=YYYY-MM-DD for the articles in force then)
 laws.get('/:id/articles', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
     const lawId = c.req.param('id');
+    const asOf = parseAsOf(c.req.query('as_of'));
+
+    if (asOf === null) {
+      return invalidAsOf(c);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      
+      // Check if law exists
+      if (!await dbService.getLawById(lawId)) {
+        return null;
+      }
+
+      if (!asOf) {
+        return { articles: await dbService.getArticleSummariesByLawId(lawId) };
+      }
+
+      const revision = await dbService.getRevisionInForce(lawId, asOf);
+      if (!revision) {
+        return { revision };
+      }
+
+      return { revision, articles: await dbService.getArticleSummariesByLawId(lawId, revision.revision_id) };
+    });
     
-    // Check if law exists
-    const lawCheck = await sql`
-      SELECT law_id FROM laws WHERE law_id = ${lawId}
-    `;
-    
-    if (lawCheck.length === 0) {
+    if (!result) {
       return c.json({
         success: false,
         error: 'Law not found'
       }, 404);
     }
-    
-    // Get articles
-    const articles = await sql`
-      SELECT 
-        article_id,
-        article_number,
-        article_title,
-        article_content,
-        parent_article_id,
-        is_deleted,
-        vector_embedding IS NOT NULL as has_embedding,
-        created_at
-      FROM articles
-      WHERE law_id = ${lawId}
-      ORDER BY article_number
-    `;
+
+    if (!result.articles) {
+      return c.json({
+        success: false,
+        error: `Law was not in force on ${asOf}`
+      }, 404);
+    }
     
     return c.json({
       success: true,
       data: {
         law_id: lawId,
-        total_articles: articles.length,
-        articles: articles
+        ...(result.revision ? { as_of: asOf, revision: result.revision } : {}),
+        total_articles: result.articles.length,
+        articles: result.articles
       }
     });
     
@@ -182,57 +203,58 @@ laws.get('/:id/articles', async (c) => {
 // GET /api/v1/laws/:id/linked-regulations - 법령에 연계된 자치법규 조회
 laws.get('/:id/linked-regulations', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
     const lawId = c.req.param('id');
     
-    // Check if law exists
-    const lawCheck = await sql`
-      SELECT law_id FROM laws WHERE law_id = ${lawId}
-    `;
+    // Get query parameters
+    const page = parseInt(c.req.query('page') || '1');
+    const limit = parseInt(c.req.query('limit') || '20');
+    const offset = (page - 1) * limit;
+    const asOf = parseAsOf(c.req.query('as_of')); // links to articles that existed then
+
+    if (asOf === null) {
+      return invalidAsOf(c);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const tenant = getTenantScope(c);
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      
+      // Check if law exists
+      if (!await dbService.getLawById(lawId)) {
+        return null;
+      }
+
+      if (!asOf) {
+        // Linked regulations (grouped by regulation_id)
+        return dbService.getLinkedRegulationsByLawId(lawId, limit, offset, undefined, tenant);
+      }
+
+      const revision = await dbService.getRevisionInForce(lawId, asOf);
+      if (!revision) {
+        return { regulations: [], total: 0 };
+      }
+
+      return dbService.getLinkedRegulationsByLawId(lawId, limit, offset, revision.revision_id, tenant);
+    });
     
-    if (lawCheck.length === 0) {
+    if (!result) {
       return c.json({
         success: false,
         error: 'Law not found'
       }, 404);
     }
     
-    // Get query parameters
-    const page = parseInt(c.req.query('page') || '1');
-    const limit = parseInt(c.req.query('limit') || '20');
-    const offset = (page - 1) * limit;
-    
-    // Get linked regulations (grouped by regulation_id)
-    const links = await sql`
-      SELECT 
-        lr.regulation_id,
-        lr.regulation_name,
-        lr.regulation_type,
-        lr.local_gov,
-        lr.department,
-        COUNT(lrl.link_id) as link_count,
-        AVG(lrl.confidence_score) as avg_confidence
-      FROM law_regulation_links lrl
-      JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
-      WHERE lrl.law_id = ${lawId}
-      GROUP BY lr.regulation_id, lr.regulation_name, lr.regulation_type, lr.local_gov, lr.department
-      ORDER BY avg_confidence DESC
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
-    
-    // Get total count
-    const countResult = await sql`
-      SELECT COUNT(DISTINCT lrl.regulation_id) as count
-      FROM law_regulation_links lrl
-      WHERE lrl.law_id = ${lawId}
-    `;
-    const total = parseInt(countResult[0]?.count || 0);
+    const { regulations: links, total } = result;
     
     return c.json({
       success: true,
       data: {
         law_id: lawId,
+        ...(asOf ? { as_of: asOf } : {}),
         total_linked_regulations: total,
         regulations: links,
         pagination: {
@@ -253,46 +275,83 @@ laws.get('/:id/linked-regulations', async (c) => {
   }
 });
 
+// GET /api/v1/laws/:id/revisions/:revisionId/comparison - 신구조문대비표 (?format=html|docx|xlsx)
+laws.get('/:id/revisions/:revisionId/comparison', async (c) => {
+  try {
+    const lawId = c.req.param('id');
+    const revisionId = c.req.param('revisionId');
+    const format = c.req.query('format') || 'html';
+
+    const {
+      COMPARISON_FORMATS,
+      isComparisonFormat,
+      buildComparisonTable,
+      comparisonTitle,
+      renderComparisonHTML,
+      renderComparisonDOCX,
+      renderComparisonXLSX
+    } = await import('../services/comparisonTable');
+
+    if (!isComparisonFormat(format)) {
+      return c.json({
+        success: false,
+        error: `format must be one of: ${COMPARISON_FORMATS.join(', ')}`
+      }, 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const found = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      const revision = await dbService.getRevisionById(revisionId);
+      const law = revision?.law_id === lawId ? await dbService.getLawById(lawId) : null;
+      return law && revision ? { law, revision } : null;
+    });
+
+    if (!found) {
+      return c.json({
+        success: false,
+        error: 'Revision not found'
+      }, 404);
+    }
+
+    const table = buildComparisonTable(found.law, found.revision);
+
+    if (format === 'html') {
+      return c.html(renderComparisonHTML(table));
+    }
+
+    const filename = `${comparisonTitle(table)}_${table.revision_date}.${format}`;
+    const body = format === 'docx' ? renderComparisonDOCX(table) : renderComparisonXLSX(table);
+
+    return c.body(body, 200, {
+      'Content-Type': format === 'docx'
+        ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="comparison.${format}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+    });
+
+  } catch (error: any) {
+    console.error('Error generating comparison table:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to generate comparison table'
+    }, 500);
+  }
+});
+
 // GET /api/v1/laws/stats/summary - 법령 통계
 laws.get('/stats/summary', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
-    
-    // Total counts
-    const totalLaws = await sql`SELECT COUNT(*) as count FROM laws`;
-    const totalArticles = await sql`SELECT COUNT(*) as count FROM articles`;
-    const articlesWithEmbedding = await sql`SELECT COUNT(*) as count FROM articles WHERE vector_embedding IS NOT NULL`;
-    
-    // By type
-    const byType = await sql`
-      SELECT law_type, COUNT(*) as count
-      FROM laws
-      GROUP BY law_type
-      ORDER BY count DESC
-    `;
-    
-    // By status
-    const byStatus = await sql`
-      SELECT status, COUNT(*) as count
-      FROM laws
-      WHERE status IS NOT NULL
-      GROUP BY status
-      ORDER BY count DESC
-    `;
-    
-    // Total links
-    const totalLinks = await sql`SELECT COUNT(*) as count FROM law_regulation_links`;
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const summary = await withDb(c.env, (db) => createDatabaseService(db).getLawCatalogStats());
     
     return c.json({
       success: true,
-      data: {
-        total_laws: parseInt(totalLaws[0].count),
-        total_articles: parseInt(totalArticles[0].count),
-        articles_with_embedding: parseInt(articlesWithEmbedding[0].count),
-        total_links: parseInt(totalLinks[0].count),
-        by_type: byType,
-        by_status: byStatus
-      }
+      data: summary
     });
     
   } catch (error: any) {
@@ -0,0 +1,152 @@
+/**
+ * Law-Regulation Link Verification API Routes
+ */
+
+import { Hono } from 'hono';
+import type { HonoEnv } from '../types/bindings';
+import { success, error, paginated, notFound } from '../utils/response';
+import { authMiddleware, requirePermission, getUser } from '../middleware/auth';
+import { tenantMiddleware, getTenantScope, requireTenantOf } from '../middleware/tenant';
+import { Permission, type LinkType } from '../types/database';
+
+const links = new Hono<HonoEnv>();
+
+// All routes require authentication and are limited to the caller's tenant
+links.use('*', authMiddleware, tenantMiddleware);
+
+/**
+ * GET /api/links/unverified
+ * List pending links of the user's tenant scope, most confident first
+ * ?local_gov_code= narrows it to one local government of the scope
+ */
+links.get('/unverified', async (c) => {
+  try {
+    const user = getUser(c);
+    if (!user) {
+      return error(c, 'User not found', 401);
+    }
+
+    const query = c.req.query();
+    const page = parseInt(query.page || '1');
+    const limit = parseInt(query.limit || '20');
+    const offset = (page - 1) * limit;
+
+    const { isLinkType } = await import('../services/linkVerification');
+
+    if (query.link_type && !isLinkType(query.link_type)) {
+      return error(c, 'Invalid link_type', 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return dbService.getUnverifiedLinks({
+        tenant: getTenantScope(c),
+        link_type: query.link_type as LinkType | undefined,
+        limit,
+        offset
+      });
+    });
+
+    return paginated(c, result.links, result.total, page, limit);
+  } catch (err) {
+    console.error('[Links API] Error listing unverified links:', err);
+    return error(c, 'Failed to fetch unverified links', 500);
+  }
+});
+
+/**
+ * PUT /api/links/:linkId/verification
+ * Confirm, reject or retype a link
+ */
+links.put('/:linkId/verification', requirePermission(Permission.LINK_VERIFY), requireTenantOf('link', 'linkId', 'Link'), async (c) => {
+  try {
+    const user = getUser(c);
+    const linkId = c.req.param('linkId');
+    const body = await c.req.json();
+    const { action, link_type, comment } = body;
+
+    if (!action) {
+      return error(c, 'action is required', 400);
+    }
+
+    const {
+      isLinkVerificationAction,
+      submitLinkVerification,
+      LinkVerificationError
+    } = await import('../services/linkVerification');
+
+    if (!isLinkVerificationAction(action)) {
+      return error(c, 'Invalid action', 400);
+    }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    try {
+      const result = await withDb(c.env, async (db) => {
+        const dbService = createDatabaseService(db);
+        return submitLinkVerification(dbService, linkId, user!, action, link_type, comment);
+      });
+
+      if (!result) {
+        return notFound(c, 'Link');
+      }
+
+      return success(c, {
+        message: 'Link verification submitted successfully',
+        link: result.link,
+        history: result.history
+      });
+    } catch (err) {
+      if (err instanceof LinkVerificationError) {
+        return error(c, err.message, err.reason === 'conflict' ? 409 : 400);
+      }
+      throw err;
+    }
+  } catch (err) {
+    console.error('[Links API] Error submitting verification:', err);
+    return error(c, 'Failed to submit link verification', 500);
+  }
+});
+
+/**
+ * GET /api/links/:linkId/history
+ * Get verification history for a link
+ */
+links.get('/:linkId/history', requireTenantOf('link', 'linkId', 'Link'), async (c) => {
+  try {
+    const linkId = c.req.param('linkId');
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const result = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+
+      const link = await dbService.getLinkById(linkId);
+      if (!link) {
+        return null;
+      }
+
+      const history = await dbService.getLinkVerificationHistory(linkId);
+      return { link, history };
+    });
+
+    if (!result) {
+      return notFound(c, 'Link');
+    }
+
+    return success(c, {
+      link: result.link,
+      history: result.history
+    });
+  } catch (err) {
+    console.error('[Links API] Error fetching history:', err);
+    return error(c, 'Failed to fetch link history', 500);
+  }
+});
+
+export default links;
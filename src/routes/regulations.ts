@@ -1,13 +1,16 @@
 import { Hono } from 'hono';
-import { createDbConnection } from '../utils/neonDb';
+import type { HonoEnv } from '../types/bindings';
+import { authMiddleware } from '../middleware/auth';
+import { tenantMiddleware, getTenantScope, requireTenantOf } from '../middleware/tenant';
 
-const regulations = new Hono();
+const regulations = new Hono<HonoEnv>();
+
+// Regulations are read within the caller's local government (tenant)
+regulations.use('*', authMiddleware, tenantMiddleware);
 
 // GET /api/v1/regulations - 자치법규 목록 조회
 regulations.get('/', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
-    
     // Query parameters
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '20');
@@ -15,48 +18,20 @@ regulations.get('/', async (c) => {
     const search = c.req.query('search') || '';
     const type = c.req.query('type') || ''; // 조례 or 규칙
     const department = c.req.query('department') || '';
-    
-    // Build query conditions
-    let whereConditions = [];
-    if (search) {
-      whereConditions.push(`regulation_name ILIKE '%${search}%'`);
-    }
-    if (type) {
-      whereConditions.push(`regulation_type = '${type}'`);
-    }
-    if (department) {
-      whereConditions.push(`department ILIKE '%${department}%'`);
-    }
-    
-    const whereClause = whereConditions.length > 0 
-      ? 'WHERE ' + whereConditions.join(' AND ')
-      : '';
-    
-    // Get total count
-    const countResult = await sql`
-      SELECT COUNT(*) as count 
-      FROM local_regulations
-      ${sql.unsafe(whereClause)}
-    `;
-    const total = parseInt(countResult[0].count);
-    
-    // Get paginated results
-    const results = await sql`
-      SELECT 
-        regulation_id,
-        regulation_name,
-        regulation_type,
-        local_gov,
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const { regulations: results, total } = await withDb(c.env, (db) =>
+      createDatabaseService(db).getRegulations({
+        search,
+        regulation_type: type,
         department,
-        enactment_date,
-        status,
-        created_at
-      FROM local_regulations
-      ${sql.unsafe(whereClause)}
-      ORDER BY regulation_name
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `;
+        tenant: getTenantScope(c),
+        limit,
+        offset
+      })
+    );
     
     return c.json({
       success: true,
@@ -81,30 +56,16 @@ regulations.get('/', async (c) => {
 });
 
 // GET /api/v1/regulations/:id - 자치법규 상세 조회
-regulations.get('/:id', async (c) => {
+regulations.get('/:id', requireTenantOf('regulation', 'id', 'Regulation'), async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
     const regulationId = c.req.param('id');
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const regulation = await withDb(c.env, (db) => createDatabaseService(db).getRegulationDetail(regulationId));
     
-    // Get regulation details
-    const results = await sql`
-      SELECT 
-        regulation_id,
-        regulation_name,
-        regulation_type,
-        local_gov,
-        local_gov_code,
-        enactment_date,
-        current_version,
-        department,
-        status,
-        created_at,
-        updated_at
-      FROM local_regulations
-      WHERE regulation_id = ${regulationId}
-    `;
-    
-    if (results.length === 0) {
+    if (!regulation) {
       return c.json({
         success: false,
         error: 'Regulation not found'
@@ -113,7 +74,7 @@ regulations.get('/:id', async (c) => {
     
     return c.json({
       success: true,
-      data: results[0]
+      data: regulation
     });
     
   } catch (error: any) {
@@ -126,44 +87,31 @@ regulations.get('/:id', async (c) => {
 });
 
 // GET /api/v1/regulations/:id/links - 자치법규 연계 법령 조회
-regulations.get('/:id/links', async (c) => {
+regulations.get('/:id/links', requireTenantOf('regulation', 'id', 'Regulation'), async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
     const regulationId = c.req.param('id');
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const links = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      
+      // Check if regulation exists
+      if (!await dbService.getRegulationDetail(regulationId)) {
+        return null;
+      }
+      
+      return dbService.getLinkedLawArticlesByRegulationId(regulationId);
+    });
     
-    // Check if regulation exists
-    const regCheck = await sql`
-      SELECT regulation_id FROM local_regulations WHERE regulation_id = ${regulationId}
-    `;
-    
-    if (regCheck.length === 0) {
+    if (!links) {
       return c.json({
         success: false,
         error: 'Regulation not found'
       }, 404);
     }
     
-    // Get linked laws
-    const links = await sql`
-      SELECT 
-        lrl.link_id,
-        lrl.confidence_score,
-        lrl.link_type,
-        lrl.verified,
-        l.law_id,
-        l.law_name,
-        l.law_type,
-        a.article_id,
-        a.article_number,
-        a.article_title,
-        a.article_content
-      FROM law_regulation_links lrl
-      JOIN laws l ON lrl.law_id = l.law_id
-      JOIN articles a ON lrl.article_id = a.article_id
-      WHERE lrl.regulation_id = ${regulationId}
-      ORDER BY lrl.confidence_score DESC
-    `;
-    
     return c.json({
       success: true,
       data: {
@@ -185,7 +133,6 @@ regulations.get('/:id/links', async (c) => {
 // POST /api/v1/regulations/similar - 유사 자치법규 검색 (벡터 유사도)
 regulations.post('/similar', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
     const body = await c.req.json();
     const { regulation_id, limit = 10 } = body;
     
@@ -195,40 +142,32 @@ regulations.post('/similar', async (c) => {
         error: 'regulation_id is required'
       }, 400);
     }
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const { isInScope } = await import('../services/tenantScope');
+    const tenant = getTenantScope(c);
+
+    const similar = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+
+      // A regulation of another local government is treated as missing
+      const owner = (await dbService.getResourceOwners('regulation', [regulation_id])).get(regulation_id);
+      if (owner && !isInScope(tenant, owner.local_gov_code)) {
+        return null;
+      }
+
+      return dbService.findSimilarRegulations(regulation_id, limit, tenant);
+    });
     
-    // Get the regulation's embedding
-    const regResult = await sql`
-      SELECT vector_embedding 
-      FROM local_regulations 
-      WHERE regulation_id = ${regulation_id}
-        AND vector_embedding IS NOT NULL
-    `;
-    
-    if (regResult.length === 0) {
+    if (!similar) {
       return c.json({
         success: false,
         error: 'Regulation not found or no embedding available'
       }, 404);
     }
     
-    const embedding = regResult[0].vector_embedding;
-    
-    // Find similar regulations
-    const similar = await sql`
-      SELECT 
-        regulation_id,
-        regulation_name,
-        regulation_type,
-        local_gov,
-        department,
-        1 - (vector_embedding <=> ${embedding}::vector) as similarity
-      FROM local_regulations
-      WHERE vector_embedding IS NOT NULL
-        AND regulation_id != ${regulation_id}
-      ORDER BY vector_embedding <=> ${embedding}::vector
-      LIMIT ${limit}
-    `;
-    
     return c.json({
       success: true,
       data: {
@@ -249,45 +188,16 @@ regulations.post('/similar', async (c) => {
 // GET /api/v1/regulations/stats - 자치법규 통계
 regulations.get('/stats/summary', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
-    
-    // Total counts
-    const totalRegs = await sql`SELECT COUNT(*) as count FROM local_regulations`;
-    const totalWithEmbedding = await sql`SELECT COUNT(*) as count FROM local_regulations WHERE vector_embedding IS NOT NULL`;
-    
-    // By type
-    const byType = await sql`
-      SELECT regulation_type, COUNT(*) as count
-      FROM local_regulations
-      GROUP BY regulation_type
-      ORDER BY count DESC
-    `;
-    
-    // By department (top 10)
-    const byDepartment = await sql`
-      SELECT department, COUNT(*) as count
-      FROM local_regulations
-      WHERE department IS NOT NULL
-      GROUP BY department
-      ORDER BY count DESC
-      LIMIT 10
-    `;
-    
-    // Linked regulations
-    const linkedRegs = await sql`
-      SELECT COUNT(DISTINCT regulation_id) as count
-      FROM law_regulation_links
-    `;
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const summary = await withDb(c.env, (db) =>
+      createDatabaseService(db).getRegulationCatalogStats(getTenantScope(c))
+    );
     
     return c.json({
       success: true,
-      data: {
-        total_regulations: parseInt(totalRegs[0].count),
-        regulations_with_embedding: parseInt(totalWithEmbedding[0].count),
-        linked_regulations: parseInt(linkedRegs[0].count),
-        by_type: byType,
-        top_departments: byDepartment
-      }
+      data: summary
     });
     
   } catch (error: any) {
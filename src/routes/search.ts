@@ -3,39 +3,132 @@
  */
 
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import type { HonoEnv } from '../types/bindings';
 import { success, error } from '../utils/response';
 import { authMiddleware } from '../middleware/auth';
-import { generateEmbedding } from '../services/embedding';
+import { tenantMiddleware, getTenantScope } from '../middleware/tenant';
+import { embedQuery, semanticSearch } from '../services/semanticSearch';
+import { searchDocuments, searchArticles } from '../services/hybridSearch';
+import type { SearchMode, HybridSearchOptions } from '../services/hybridSearch';
+import type { SearchKind, SearchFilters } from '../services/databaseImpl';
 
 const search = new Hono<HonoEnv>();
 
-// All routes require authentication
-search.use('*', authMiddleware);
+// All routes require authentication; regulations of other tenants are never found
+search.use('*', authMiddleware, tenantMiddleware);
+
+const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Filter values bound by appendFilters; null and undefined are skipped
+function isFilterValue(value: unknown): boolean {
+  return value === null || value === undefined || typeof value === 'string' ||
+    (Array.isArray(value) && value.every(v => typeof v === 'string'));
+}
+
+/**
+ * Parse query/mode/limit/filters shared by the keyword and hybrid routes.
+ * Top-level fields in aliases (e.g. type → law_type) replace the filter of
+ * that name when given. Returns the 400 message for a malformed body.
+ * Falls back to keyword mode when the query embedding cannot be generated.
+ */
+async function resolveSearchOptions(
+  c: Context<HonoEnv>,
+  body: unknown,
+  aliases: Record<string, string> = {}
+): Promise<HybridSearchOptions | string> {
+  if (!isPlainObject(body)) {
+    return 'Request body must be a JSON object';
+  }
+
+  const { query, mode = 'keyword', limit = 20, filters = {} } = body;
+
+  if (typeof query !== 'string' || query.trim().length === 0) {
+    return 'Search query is required';
+  }
+
+  if (!SEARCH_MODES.includes(mode as SearchMode)) {
+    return `mode must be one of ${SEARCH_MODES.join(', ')}`;
+  }
+
+  if (!isPlainObject(filters)) {
+    return 'filters must be an object';
+  }
+
+  const searchFilters: Record<string, unknown> = { ...filters };
+
+  for (const [field, filter] of Object.entries(aliases)) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string') {
+      return `${field} must be a string`;
+    }
+    if (body[field]) {
+      searchFilters[filter] = body[field];
+    }
+  }
+
+  for (const [key, value] of Object.entries(searchFilters)) {
+    if (!isFilterValue(value)) {
+      return `filters.${key} must be a string or an array of strings`;
+    }
+  }
+
+  const options: HybridSearchOptions = {
+    query: query.trim(),
+    mode: mode as SearchMode,
+    filters: searchFilters as SearchFilters,
+    tenant: getTenantScope(c),
+    limit: Math.min(Math.max(parseInt(String(limit)) || 20, 1), 100)
+  };
+
+  if (mode !== 'keyword') {
+    const embeddingResult = await embedQuery(options.query, c.env);
+
+    if (embeddingResult.success && embeddingResult.embedding) {
+      options.embedding = embeddingResult.embedding;
+    } else {
+      console.warn('[Search API] Query embedding failed, using keyword mode:', embeddingResult.error);
+      options.mode = 'keyword';
+    }
+  }
+
+  return options;
+}
 
 /**
  * POST /api/search/laws
- * Search laws by keyword
+ * Search laws by name (keyword, semantic or hybrid)
  */
 search.post('/laws', async (c) => {
   try {
-    const body = await c.req.json();
-    const { query, type, filters } = body;
+    const body = await c.req.json().catch(() => null);
+    const options = await resolveSearchOptions(c, body, { type: 'law_type' });
 
-    if (!query || query.trim().length === 0) {
-      return error(c, 'Search query is required', 400);
+    if (typeof options === 'string') {
+      return error(c, options, 400);
     }
 
-    // TODO: Implement actual database search
-    // Should support:
-    // - Full-text search on law_name, law_number
-    // - Filter by law_type
-    // - Filter by status, category
-    
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const results = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return searchDocuments(dbService, 'law', options);
+    });
+
     return success(c, {
-      query,
-      results: [],
-      total: 0
+      query: options.query,
+      mode: options.mode,
+      results,
+      total: results.length
     });
   } catch (err) {
     console.error('[Search API] Error searching laws:', err);
@@ -45,27 +138,30 @@ search.post('/laws', async (c) => {
 
 /**
  * POST /api/search/regulations
- * Search regulations by keyword
+ * Search regulations by name (keyword, semantic or hybrid)
  */
 search.post('/regulations', async (c) => {
   try {
-    const body = await c.req.json();
-    const { query, local_gov, type, filters } = body;
+    const body = await c.req.json().catch(() => null);
+    const options = await resolveSearchOptions(c, body, { local_gov: 'local_gov', type: 'regulation_type' });
 
-    if (!query || query.trim().length === 0) {
-      return error(c, 'Search query is required', 400);
+    if (typeof options === 'string') {
+      return error(c, options, 400);
     }
 
-    // TODO: Implement actual database search
-    // Should support:
-    // - Full-text search on regulation_name
-    // - Filter by local_gov, department
-    // - Filter by regulation_type
-    
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const results = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return searchDocuments(dbService, 'regulation', options);
+    });
+
     return success(c, {
-      query,
-      results: [],
-      total: 0
+      query: options.query,
+      mode: options.mode,
+      results,
+      total: results.length
     });
   } catch (err) {
     console.error('[Search API] Error searching regulations:', err);
@@ -75,24 +171,47 @@ search.post('/regulations', async (c) => {
 
 /**
  * POST /api/search/articles
- * Search articles by content
+ * Search articles by content (keyword, semantic or hybrid)
+ * Law articles are those of the latest revision, or of the revision in
+ * force on as_of (YYYY-MM-DD) when given
  */
 search.post('/articles', async (c) => {
   try {
-    const body = await c.req.json();
-    const { query, source, filters } = body; // source: 'law' | 'regulation'
+    const body = await c.req.json().catch(() => null);
+    const { source = 'law', as_of } = body || {}; // source: 'law' | 'regulation' | 'all'
 
-    if (!query || query.trim().length === 0) {
-      return error(c, 'Search query is required', 400);
+    if (!['law', 'regulation', 'all'].includes(source)) {
+      return error(c, "source must be one of 'law', 'regulation', 'all'", 400);
     }
 
-    // TODO: Implement actual database search
-    // Should search article_content
-    
+    if (as_of !== undefined && !isDate(as_of)) {
+      return error(c, 'as_of must be a date in YYYY-MM-DD format', 400);
+    }
+
+    const options = await resolveSearchOptions(c, body);
+
+    if (typeof options === 'string') {
+      return error(c, options, 400);
+    }
+
+    options.as_of = as_of;
+
+    const kinds: SearchKind[] = source === 'all' ? ['law', 'regulation'] : [source];
+
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const results = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return searchArticles(dbService, kinds, options);
+    });
+
     return success(c, {
-      query,
-      results: [],
-      total: 0
+      query: options.query,
+      source,
+      mode: options.mode,
+      results,
+      total: results.length
     });
   } catch (err) {
     console.error('[Search API] Error searching articles:', err);
@@ -107,39 +226,51 @@ search.post('/articles', async (c) => {
 search.post('/semantic', async (c) => {
   try {
     const body = await c.req.json();
-    const { query, threshold = 0.8, limit = 10, source } = body; // source: 'law' | 'regulation' | 'all'
+    const { query, threshold = 0.8, limit = 10, source = 'all' } = body; // source: 'law' | 'regulation' | 'all'
 
     if (!query || query.trim().length === 0) {
       return error(c, 'Search query is required', 400);
     }
 
-    // Generate embedding for query
-    const apiKey = c.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      return error(c, 'OpenAI API key not configured', 500);
+    if (!['law', 'regulation', 'all'].includes(source)) {
+      return error(c, "source must be one of 'law', 'regulation', 'all'", 400);
+    }
+
+    const minSimilarity = Number(threshold);
+    if (isNaN(minSimilarity) || minSimilarity < 0 || minSimilarity > 1) {
+      return error(c, 'threshold must be between 0 and 1', 400);
     }
 
-    const embeddingResult = await generateEmbedding(query, apiKey);
+    const maxResults = Math.min(Math.max(parseInt(limit) || 10, 1), 100);
+
+    // Generate embedding for query
+    const embeddingResult = await embedQuery(query, c.env);
 
     if (!embeddingResult.success || !embeddingResult.embedding) {
       return error(c, 'Failed to generate query embedding', 500);
     }
 
-    // TODO: Implement vector similarity search
-    // Should use pgvector to find similar articles
-    // SELECT *, 1 - (vector_embedding <=> $1) as similarity
-    // FROM articles
-    // WHERE 1 - (vector_embedding <=> $1) > $2
-    // ORDER BY vector_embedding <=> $1
-    // LIMIT $3
-    
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const results = await withDb(c.env, async (db) => {
+      const dbService = createDatabaseService(db);
+      return semanticSearch(dbService, embeddingResult.embedding!, {
+        source,
+        threshold: minSimilarity,
+        limit: maxResults,
+        tenant: getTenantScope(c)
+      });
+    });
+
     return success(c, {
       query,
+      source,
       embedding_dimensions: embeddingResult.embedding.length,
-      results: [],
-      total: 0,
-      threshold,
-      limit
+      results,
+      total: results.length,
+      threshold: minSimilarity,
+      limit: maxResults
     });
   } catch (err) {
     console.error('[Search API] Error in semantic search:', err);
@@ -1,99 +1,53 @@
 import { Hono } from 'hono';
-import { createDbConnection } from '../utils/neonDb';
+import type { HonoEnv } from '../types/bindings';
+import { authMiddleware } from '../middleware/auth';
+import { tenantMiddleware, getTenantScope } from '../middleware/tenant';
 
-const stats = new Hono();
+const stats = new Hono<HonoEnv>();
+
+// Regulation and link figures cover the caller's local government (tenant)
+stats.use('*', authMiddleware, tenantMiddleware);
 
 // GET /api/v1/stats/dashboard - 전체 시스템 대시보드 통계
 stats.get('/dashboard', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
-    
-    // 1. Overview counts
-    const totalLaws = await sql`SELECT COUNT(*) as count FROM laws`;
-    const totalArticles = await sql`SELECT COUNT(*) as count FROM articles`;
-    const totalRegulations = await sql`SELECT COUNT(*) as count FROM local_regulations`;
-    const totalLinks = await sql`SELECT COUNT(*) as count FROM law_regulation_links`;
-    
-    // 2. Embedding coverage
-    const articlesWithEmbedding = await sql`SELECT COUNT(*) as count FROM articles WHERE vector_embedding IS NOT NULL`;
-    const regulationsWithEmbedding = await sql`SELECT COUNT(*) as count FROM local_regulations WHERE vector_embedding IS NOT NULL`;
-    
-    // 3. Linkage coverage
-    const linkedRegulations = await sql`SELECT COUNT(DISTINCT regulation_id) as count FROM law_regulation_links`;
-    
-    // 4. Top referenced laws
-    const topLaws = await sql`
-      SELECT 
-        l.law_name,
-        COUNT(DISTINCT lrl.regulation_id) as regulation_count,
-        AVG(lrl.confidence_score) as avg_confidence
-      FROM law_regulation_links lrl
-      JOIN laws l ON lrl.law_id = l.law_id
-      GROUP BY l.law_id, l.law_name
-      ORDER BY regulation_count DESC
-      LIMIT 5
-    `;
-    
-    // 5. Regulations by type
-    const regsByType = await sql`
-      SELECT regulation_type, COUNT(*) as count
-      FROM local_regulations
-      GROUP BY regulation_type
-      ORDER BY count DESC
-    `;
-    
-    // 6. Top departments
-    const topDepartments = await sql`
-      SELECT department, COUNT(*) as count
-      FROM local_regulations
-      WHERE department IS NOT NULL
-      GROUP BY department
-      ORDER BY count DESC
-      LIMIT 10
-    `;
-    
-    // 7. Recent regulations
-    const recentRegulations = await sql`
-      SELECT 
-        regulation_id,
-        regulation_name,
-        regulation_type,
-        department,
-        created_at
-      FROM local_regulations
-      ORDER BY created_at DESC
-      LIMIT 5
-    `;
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const dashboard = await withDb(c.env, (db) => createDatabaseService(db).getDashboardStats(getTenantScope(c)));
+    const totals = dashboard.totals;
     
     return c.json({
       success: true,
       data: {
         overview: {
-          total_laws: parseInt(totalLaws[0].count),
-          total_articles: parseInt(totalArticles[0].count),
-          total_regulations: parseInt(totalRegulations[0].count),
-          total_links: parseInt(totalLinks[0].count)
+          total_laws: totals.total_laws,
+          total_articles: totals.total_articles,
+          total_regulations: totals.total_regulations,
+          total_links: totals.total_links
         },
         coverage: {
-          articles_with_embedding: parseInt(articlesWithEmbedding[0].count),
-          regulations_with_embedding: parseInt(regulationsWithEmbedding[0].count),
-          linked_regulations: parseInt(linkedRegulations[0].count),
-          linkage_rate: (parseInt(linkedRegulations[0].count) / parseInt(totalRegulations[0].count) * 100).toFixed(2) + '%'
+          articles_with_embedding: totals.articles_with_embedding,
+          regulations_with_embedding: totals.regulations_with_embedding,
+          linked_regulations: totals.linked_regulations,
+          linkage_rate: (totals.total_regulations > 0
+            ? totals.linked_regulations / totals.total_regulations * 100
+            : 0).toFixed(2) + '%'
         },
-        top_laws: topLaws.map(law => ({
+        top_laws: dashboard.top_laws.map(law => ({
           law_name: law.law_name,
           regulation_count: parseInt(law.regulation_count),
           avg_confidence: parseFloat(law.avg_confidence).toFixed(3)
         })),
-        regulations_by_type: regsByType.map(item => ({
+        regulations_by_type: dashboard.regulations_by_type.map(item => ({
           type: item.regulation_type,
           count: parseInt(item.count)
         })),
-        top_departments: topDepartments.map(dept => ({
+        top_departments: dashboard.top_departments.map(dept => ({
           department: dept.department,
           count: parseInt(dept.count)
         })),
-        recent_regulations: recentRegulations
+        recent_regulations: dashboard.recent_regulations
       }
     });
     
@@ -109,83 +63,27 @@ stats.get('/dashboard', async (c) => {
 // GET /api/v1/stats/linkage - 연계 분석 통계
 stats.get('/linkage', async (c) => {
   try {
-    const { neon: sql } = createDbConnection(c);
-    
-    // 1. Link type distribution
-    const byLinkType = await sql`
-      SELECT link_type, COUNT(*) as count
-      FROM law_regulation_links
-      GROUP BY link_type
-      ORDER BY count DESC
-    `;
-    
-    // 2. Confidence score distribution
-    const confidenceDistribution = await sql`
-      SELECT 
-        CASE 
-          WHEN confidence_score >= 0.9 THEN '0.9-1.0'
-          WHEN confidence_score >= 0.8 THEN '0.8-0.9'
-          WHEN confidence_score >= 0.7 THEN '0.7-0.8'
-          WHEN confidence_score >= 0.6 THEN '0.6-0.7'
-          ELSE 'Below 0.6'
-        END as score_range,
-        COUNT(*) as count
-      FROM law_regulation_links
-      GROUP BY score_range
-      ORDER BY score_range DESC
-    `;
-    
-    // 3. Verified vs unverified links
-    const verificationStatus = await sql`
-      SELECT 
-        verified,
-        COUNT(*) as count
-      FROM law_regulation_links
-      GROUP BY verified
-    `;
-    
-    // 4. Laws with most links
-    const lawsWithMostLinks = await sql`
-      SELECT 
-        l.law_name,
-        COUNT(*) as link_count,
-        AVG(lrl.confidence_score) as avg_confidence
-      FROM law_regulation_links lrl
-      JOIN laws l ON lrl.law_id = l.law_id
-      GROUP BY l.law_id, l.law_name
-      ORDER BY link_count DESC
-      LIMIT 10
-    `;
-    
-    // 5. Regulations with most links
-    const regulationsWithMostLinks = await sql`
-      SELECT 
-        lr.regulation_name,
-        lr.regulation_type,
-        COUNT(*) as link_count,
-        AVG(lrl.confidence_score) as avg_confidence
-      FROM law_regulation_links lrl
-      JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
-      GROUP BY lr.regulation_id, lr.regulation_name, lr.regulation_type
-      ORDER BY link_count DESC
-      LIMIT 10
-    `;
+    const { withDb } = await import('../utils/db');
+    const { createDatabaseService } = await import('../services/databaseImpl');
+
+    const linkage = await withDb(c.env, (db) => createDatabaseService(db).getLinkageStats(getTenantScope(c)));
     
     return c.json({
       success: true,
       data: {
-        by_link_type: byLinkType,
-        confidence_distribution: confidenceDistribution,
-        verification_status: verificationStatus.map(v => ({
+        by_link_type: linkage.by_link_type,
+        confidence_distribution: linkage.confidence_distribution,
+        verification_status: linkage.verification_status.map(v => ({
           verified: v.verified,
+          status: v.verification_status,
           count: parseInt(v.count)
         })),
-        top_laws_by_links: lawsWithMostLinks.map(law => ({
+        top_laws_by_links: linkage.top_laws.map(law => ({
           law_name: law.law_name,
           link_count: parseInt(law.link_count),
           avg_confidence: parseFloat(law.avg_confidence).toFixed(3)
         })),
-        top_regulations_by_links: regulationsWithMostLinks.map(reg => ({
+        top_regulations_by_links: linkage.top_regulations.map(reg => ({
           regulation_name: reg.regulation_name,
           regulation_type: reg.regulation_type,
           link_count: parseInt(reg.link_count),
@@ -0,0 +1,440 @@
+/**
+ * Amendment Draft Service
+ * Versioned 조례 amendment drafts for impact analyses that call for an
+ * amendment (필수개정 / 권고개정)
+ *
+ * - 생성/재생성: the drafter rewrites the regulation article → new version
+ * - 수정: an officer edits the amended text → new version
+ * - 승인: the current version is approved; the draft is then read-only
+ *
+ * Every version carries the 개정문 derived from its text, e.g.
+ * 제5조제2항 중 "30일"을 "60일"로 한다.
+ */
+
+import type {
+  AmendmentDraft,
+  AmendmentDraftVersion,
+  ChangedArticle,
+  LocalRegulation,
+  RegulationArticle
+} from '../types/database';
+import { AmendmentDraftStatus, ImpactType } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+import type { AmendmentDrafter } from './amendmentDrafter';
+import type { ComparisonTable } from './comparisonTable';
+import { buildComparisonRow } from './comparisonTable';
+import { diffPhrases, diffText } from './lawDiff';
+
+// Impact types for which a draft can be generated
+export const DRAFTABLE_IMPACT_TYPES: ImpactType[] = [ImpactType.REQUIRED, ImpactType.RECOMMENDED];
+
+// More replaced phrases than this in one 항/호 and the whole article is restated
+const MAX_PHRASES_PER_UNIT = 3;
+
+const CIRCLED_NUMBERS = '①②③④⑤⑥⑦⑧⑨⑩⑪⑫⑬⑭⑮⑯⑰⑱⑲⑳';
+// Final consonant of the Korean reading of each digit: 영 일 이 삼 사 오 육 칠 팔 구
+const DIGIT_FINALS = ['ㅇ', 'ㄹ', '', 'ㅁ', '', '', 'ㄱ', 'ㄹ', 'ㄹ', ''];
+
+export interface AmendmentDraftDetail {
+  draft: AmendmentDraft;
+  version: AmendmentDraftVersion;
+}
+
+/**
+ * Raised when a draft cannot be created or changed in its current state
+ */
+export class AmendmentDraftError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'not_draftable' | 'approved' | 'stale_version'
+  ) {
+    super(message);
+    this.name = 'AmendmentDraftError';
+  }
+}
+
+/**
+ * Generate a new AI version of the draft for an analysis
+ * Returns null if the analysis does not exist
+ */
+export async function generateAmendmentDraft(
+  dbService: DatabaseService,
+  drafter: AmendmentDrafter,
+  analysisId: string,
+  userId: string
+): Promise<AmendmentDraftDetail | null> {
+  const analysis = await dbService.getAnalysisById(analysisId);
+  if (!analysis) {
+    return null;
+  }
+
+  if (!DRAFTABLE_IMPACT_TYPES.includes(analysis.impact_type)) {
+    throw new AmendmentDraftError(
+      `No amendment is drafted for an analysis marked '${analysis.impact_type}'`,
+      'not_draftable'
+    );
+  }
+
+  const existing = await dbService.getAmendmentDraftByAnalysisId(analysisId);
+  assertEditable(existing);
+
+  const [revision, newArticle, regulationArticle, regulation] = await Promise.all([
+    dbService.getRevisionById(analysis.revision_id),
+    dbService.getArticleById(analysis.article_id),
+    dbService.getRegulationArticleById(analysis.reg_article_id),
+    dbService.getRegulationById(analysis.regulation_id)
+  ]);
+
+  if (!revision || !newArticle || !regulationArticle || !regulation) {
+    throw new Error(`Source data of analysis ${analysisId} is incomplete`);
+  }
+
+  const law = await dbService.getLawById(revision.law_id);
+  const change = (revision.changed_articles || []).find(c => c.article_number === newArticle.article_number);
+
+  const result = await drafter.draft({
+    lawName: law?.law_name || revision.law_id,
+    revisionDate: new Date(revision.revision_date).toISOString().split('T')[0],
+    oldLawContent: change?.old_content || null,
+    newArticle,
+    regulationName: regulation.regulation_name,
+    regulationArticle,
+    analysis
+  });
+
+  if (!result) {
+    throw new Error(`Amendment drafter ${drafter.name} returned no result`);
+  }
+
+  return saveVersion(dbService, existing, analysisId, regulation, regulationArticle, {
+    source: 'ai',
+    provider: drafter.name,
+    old_content: regulationArticle.article_content,
+    new_content: result.amended_content,
+    rationale: result.rationale,
+    created_by: userId
+  });
+}
+
+/**
+ * Store an officer's edit of the amended text as a new version
+ * Returns null if the analysis has no draft yet
+ */
+export async function editAmendmentDraft(
+  dbService: DatabaseService,
+  analysisId: string,
+  userId: string,
+  newContent: string,
+  rationale?: string
+): Promise<AmendmentDraftDetail | null> {
+  const draft = await dbService.getAmendmentDraftByAnalysisId(analysisId);
+  if (!draft) {
+    return null;
+  }
+
+  assertEditable(draft);
+
+  const [current, regulationArticle] = await Promise.all([
+    dbService.getAmendmentDraftVersion(draft.draft_id, draft.current_version),
+    dbService.getRegulationArticleById(draft.reg_article_id)
+  ]);
+  const regulation = regulationArticle && await dbService.getRegulationById(regulationArticle.regulation_id);
+
+  if (!current || !regulationArticle || !regulation) {
+    throw new Error(`Draft ${draft.draft_id} is incomplete`);
+  }
+
+  return saveVersion(dbService, draft, analysisId, regulation, regulationArticle, {
+    source: 'manual',
+    provider: null,
+    old_content: current.old_content,
+    new_content: newContent.trim(),
+    rationale: rationale ?? current.rationale,
+    created_by: userId
+  });
+}
+
+/**
+ * Approve the draft at `version` (the current version when omitted)
+ * Returns null if the analysis has no draft
+ */
+export async function approveAmendmentDraft(
+  dbService: DatabaseService,
+  analysisId: string,
+  userId: string,
+  version?: number
+): Promise<AmendmentDraft | null> {
+  const draft = await dbService.getAmendmentDraftByAnalysisId(analysisId);
+  if (!draft) {
+    return null;
+  }
+
+  assertEditable(draft);
+
+  const expected = version ?? draft.current_version;
+  const approved = await dbService.approveAmendmentDraft(draft.draft_id, expected, userId);
+
+  if (!approved) {
+    // Someone approved or saved a new version between our read and write
+    throw new AmendmentDraftError(
+      `Draft is no longer at version ${expected}, please reload`,
+      'stale_version'
+    );
+  }
+
+  return approved;
+}
+
+/**
+ * 개정문 for one regulation article
+ *
+ * Small changes are written as phrase replacements per 항/호/목
+ * (제5조제2항 중 "30일"을 "60일"로 한다.); a changed heading as
+ * 제5조의 제목 중 ...; anything the lines cannot be matched for is
+ * restated in full (제5조를 다음과 같이 한다.).
+ */
+export function buildAmendmentText(
+  regulationName: string,
+  articleNumber: string,
+  oldText: string,
+  newText: string
+): string {
+  const article = articleLabel(articleNumber);
+  const header = `${regulationName} 일부를 다음과 같이 개정한다.`;
+  const oldContent = oldText.trim();
+  const newContent = newText.trim();
+
+  if (oldContent === newContent) {
+    return '';
+  }
+
+  if (!newContent || newContent === '삭제') {
+    return `${header}\n\n${article}${objectParticle(article)} 삭제한다.`;
+  }
+
+  const restated = `${header}\n\n${article}${objectParticle(article)} 다음과 같이 한다.\n${newContent}`;
+  const oldLines = oldContent.split('\n');
+  const newLines = newContent.split('\n');
+
+  if (oldLines.length !== newLines.length) {
+    return restated;
+  }
+
+  const clauses: string[] = [];
+  const units = lineUnits(article, oldLines);
+
+  for (let i = 0; i < oldLines.length; i++) {
+    let oldLine = oldLines[i].trim();
+    let newLine = newLines[i].trim();
+
+    if (i === 0) {
+      const oldHeading = splitHeading(oldLine);
+      const newHeading = splitHeading(newLine);
+
+      if (oldHeading.number !== newHeading.number) {
+        return restated;
+      }
+
+      if (oldHeading.title !== newHeading.title) {
+        const clause = replacementClause(`${article}의 제목`, oldHeading.title, newHeading.title);
+        if (!clause) return restated;
+        clauses.push(clause);
+      }
+
+      oldLine = oldHeading.body;
+      newLine = newHeading.body;
+    }
+
+    if (oldLine === newLine) continue;
+
+    const clause = replacementClause(units[i], oldLine, newLine);
+    if (!clause) return restated;
+    clauses.push(clause);
+  }
+
+  return `${header}\n\n${clauses.join('\n')}`;
+}
+
+/**
+ * 신구조문대비표 for one version of a draft
+ */
+export function buildDraftComparisonTable(
+  draft: AmendmentDraft,
+  version: AmendmentDraftVersion,
+  regulation: LocalRegulation,
+  regulationArticle: RegulationArticle
+): ComparisonTable {
+  const change: ChangedArticle = {
+    article_number: regulationArticle.article_number,
+    change_type: 'modified',
+    old_content: version.old_content,
+    new_content: version.new_content
+  };
+
+  return {
+    law_id: regulation.regulation_id,
+    law_name: regulation.regulation_name,
+    revision_id: `${draft.draft_id}_v${version.version}`,
+    revision_type: '일부개정안',
+    revision_date: new Date(version.created_at).toISOString().split('T')[0],
+    enforcement_date: '',
+    rows: version.old_content === version.new_content ? [] : [buildComparisonRow(change)]
+  };
+}
+
+function assertEditable(draft: AmendmentDraft | null): void {
+  if (draft?.status === AmendmentDraftStatus.APPROVED) {
+    throw new AmendmentDraftError(
+      `Draft was approved at version ${draft.approved_version}`,
+      'approved'
+    );
+  }
+}
+
+async function saveVersion(
+  dbService: DatabaseService,
+  existing: AmendmentDraft | null,
+  analysisId: string,
+  regulation: LocalRegulation,
+  regulationArticle: RegulationArticle,
+  version: Omit<AmendmentDraftVersion, 'draft_id' | 'version' | 'created_at' | 'amendment_text'>
+): Promise<AmendmentDraftDetail> {
+  const draftId = existing?.draft_id || `draft_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  const saved = await dbService.addAmendmentDraftVersion(
+    {
+      draft_id: draftId,
+      analysis_id: analysisId,
+      reg_article_id: regulationArticle.reg_article_id,
+      created_by: existing?.created_by || version.created_by
+    },
+    {
+      ...version,
+      amendment_text: buildAmendmentText(
+        regulation.regulation_name,
+        regulationArticle.article_number,
+        version.old_content,
+        version.new_content
+      )
+    }
+  );
+
+  if (!saved) {
+    throw new AmendmentDraftError('Draft was approved concurrently, please reload', 'approved');
+  }
+
+  const draft = await dbService.getAmendmentDraftByAnalysisId(analysisId);
+  return { draft: draft!, version: saved };
+}
+
+/**
+ * "제5조제2항 중 "A"를 "B"로 하고, "C"를 삭제한다."
+ * Returns null when the change is too large to express as replacements
+ */
+function replacementClause(unit: string, oldText: string, newText: string): string | null {
+  const phrases = diffPhrases(diffText(oldText, newText));
+
+  if (phrases.length === 0 || phrases.length > MAX_PHRASES_PER_UNIT) {
+    return null;
+  }
+
+  const parts = phrases.map(({ from, to }) => to
+    ? `"${from}"${objectParticle(from)} "${to}"${directionParticle(to)}`
+    : `"${from}"${objectParticle(from)} 삭제`);
+
+  const last = parts.pop()!;
+  const verb = phrases[phrases.length - 1].to ? `${last} 한다.` : `${last}한다.`;
+  const joined = parts.map((part, index) => phrases[index].to ? `${part} 하고` : `${part}하고`);
+
+  return `${unit} 중 ${[...joined, verb].join(', ')}`;
+}
+
+/**
+ * Citation of each line of an article: 제5조, 제5조제2항, 제5조제2항제3호, ...
+ */
+function lineUnits(article: string, lines: string[]): string[] {
+  let paragraph = '';
+  let item = '';
+
+  return lines.map((line, index) => {
+    const text = index === 0 ? splitHeading(line.trim()).body : line.trim();
+    const circled = CIRCLED_NUMBERS.indexOf(text[0]);
+    const itemMatch = text.match(/^(\d+)(?:의(\d+))?\./);
+    const subItemMatch = text.match(/^([가-하])\./);
+
+    if (circled >= 0) {
+      paragraph = `제${circled + 1}항`;
+      item = '';
+      return `${article}${paragraph}`;
+    }
+
+    if (itemMatch) {
+      item = `제${itemMatch[1]}호${itemMatch[2] ? `의${itemMatch[2]}` : ''}`;
+      return `${article}${paragraph}${item}`;
+    }
+
+    if (subItemMatch) {
+      return `${article}${paragraph}${item}${subItemMatch[1]}목`;
+    }
+
+    return `${article}${paragraph}${item}`;
+  });
+}
+
+/**
+ * Split "제5조(위원회) ① ..." into the article number, title and body
+ */
+function splitHeading(line: string): { number: string; title: string; body: string } {
+  const match = line.match(/^(제\d+조(?:의\d+)?|부칙)\s*(?:\(([^)]*)\))?\s*/);
+
+  if (!match) {
+    return { number: '', title: '', body: line };
+  }
+
+  return { number: match[1], title: match[2] || '', body: line.substring(match[0].length) };
+}
+
+/**
+ * "5" → "제5조", "5의2" → "제5조의2", "부칙1" → "부칙"
+ */
+function articleLabel(articleNumber: string): string {
+  if (articleNumber.startsWith('부칙')) {
+    return '부칙';
+  }
+
+  const [main, branch] = articleNumber.split('의');
+  return branch ? `제${main}조의${branch}` : `제${main}조`;
+}
+
+/**
+ * Final consonant (as a compatibility jamo) of the last pronounced character,
+ * '' for a vowel ending
+ */
+function finalConsonant(word: string): string {
+  const finals = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ',
+    'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+  // Closing brackets and punctuation are not pronounced
+  const last = word.replace(/[\s)\]}」』"'.,·]+$/, '').slice(-1);
+  const code = last.charCodeAt(0) - 0xac00;
+
+  if (code >= 0 && code < 11172) {
+    return finals[code % 28];
+  }
+
+  if (/\d/.test(last)) {
+    return DIGIT_FINALS[Number(last)];
+  }
+
+  return '';
+}
+
+// 을/를
+function objectParticle(word: string): string {
+  return finalConsonant(word) ? '을' : '를';
+}
+
+// 으로/로 (로 after ㄹ)
+function directionParticle(word: string): string {
+  const final = finalConsonant(word);
+  return final && final !== 'ㄹ' ? '으로' : '로';
+}
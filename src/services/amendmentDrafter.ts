@@ -0,0 +1,229 @@
+/**
+ * Amendment Drafter Providers
+ * Rewrites a regulation article so that it conforms to an amended law
+ * article, on top of the same LLM backends as the impact analyzer
+ */
+
+import type { Article, ImpactAnalysis, RegulationArticle } from '../types/database';
+import type { CloudflareBindings } from '../types/bindings';
+import type { AnalyzerProvider } from './impactAnalyzer';
+import { requestGeminiJSON, requestOpenAIJSON } from './impactAnalyzer';
+import { diffPhrases, diffText } from './lawDiff';
+
+export interface AmendmentDraftRequest {
+  lawName: string;
+  revisionDate: string;
+  oldLawContent: string | null; // null for a newly added law article
+  newArticle: Article;
+  regulationName: string;
+  regulationArticle: RegulationArticle;
+  analysis: ImpactAnalysis;
+}
+
+export interface AmendmentDraftResult {
+  amended_content: string;
+  rationale: string;
+}
+
+export interface AmendmentDrafter {
+  readonly name: string;
+  /**
+   * Returns null when the provider could not produce a usable draft
+   */
+  draft(request: AmendmentDraftRequest): Promise<AmendmentDraftResult | null>;
+}
+
+/**
+ * System prompt shared by all LLM providers
+ */
+export const DRAFT_SYSTEM_PROMPT = `당신은 지방자치단체 자치법규 입안 전문가입니다.
+상위법령 개정에 맞추어 조례·규칙 조문의 개정안을 작성하는 것이 당신의 역할입니다.
+
+작성 원칙:
+1. 상위법령 개정으로 불일치가 생긴 부분만 고치고, 나머지 문구는 그대로 둡니다.
+2. 조문 번호, 항 번호(①, ②), 호 번호(1., 2.)와 줄바꿈 구조를 유지합니다.
+3. 인용 조문 번호, 용어, 금액, 기한은 개정된 상위법령과 일치시킵니다.
+4. 자치법규 입안 관행에 맞는 문체(~한다, ~할 수 있다)를 사용합니다.
+
+다음 JSON 형식으로 응답하세요:
+{
+  "amended_content": "개정 후 자치법규 조문 전체 (조 제목 줄 포함)",
+  "rationale": "개정 이유 (2-3문장)"
+}`;
+
+/**
+ * Build drafting prompt shared by all LLM providers
+ */
+export function buildDraftPrompt(request: AmendmentDraftRequest): string {
+  const { lawName, revisionDate, oldLawContent, newArticle, regulationName, regulationArticle, analysis } = request;
+
+  let prompt = `상위법령 개정에 따른 자치법규 개정안을 작성해주세요.\n\n`;
+
+  prompt += `**상위법령 정보:**\n`;
+  prompt += `- 법령명: ${lawName}\n`;
+  prompt += `- 개정일: ${revisionDate}\n\n`;
+
+  if (oldLawContent) {
+    prompt += `**개정 전 조문 (제${newArticle.article_number}조):**\n${oldLawContent}\n\n`;
+  } else {
+    prompt += `**개정 전 조문:** 신규 조문입니다.\n\n`;
+  }
+
+  prompt += `**개정 후 조문 (제${newArticle.article_number}조):**\n${newArticle.article_content}\n\n`;
+
+  prompt += `**영향 분석 결과:**\n`;
+  prompt += `- 조치 유형: ${analysis.impact_type}\n`;
+  prompt += `- 개정사항 요약: ${analysis.change_summary}\n`;
+  prompt += `- 권고사항: ${analysis.ai_recommendation}\n\n`;
+
+  prompt += `**개정 대상 자치법규:** ${regulationName}\n\n`;
+  prompt += `**현행 조문 (제${regulationArticle.article_number}조):**\n${regulationArticle.article_content}\n\n`;
+
+  prompt += `현행 조문을 개정한 조문 전체를 JSON 형식으로 응답해주세요.`;
+
+  return prompt;
+}
+
+/**
+ * Parse and validate the JSON returned by an LLM
+ * Returns null if the amended text is missing
+ */
+export function parseDraftResult(content: string): AmendmentDraftResult | null {
+  const result = JSON.parse(content);
+
+  if (typeof result.amended_content !== 'string' || !result.amended_content.trim()) {
+    console.error('[AmendmentDrafter] Missing amended_content');
+    return null;
+  }
+
+  return {
+    amended_content: result.amended_content.trim(),
+    rationale: String(result.rationale || '')
+  };
+}
+
+/**
+ * OpenAI provider (gpt-4o-mini)
+ */
+export function createOpenAIDrafter(apiKey: string): AmendmentDrafter {
+  return {
+    name: 'openai',
+
+    async draft(request) {
+      try {
+        const content = await requestOpenAIJSON(apiKey, DRAFT_SYSTEM_PROMPT, buildDraftPrompt(request), 3000);
+        return content ? parseDraftResult(content) : null;
+      } catch (error) {
+        console.error('[AmendmentDrafter] OpenAI draft failed:', error);
+        return null;
+      }
+    }
+  };
+}
+
+/**
+ * Google Gemini provider
+ */
+export function createGeminiDrafter(apiKey: string): AmendmentDrafter {
+  return {
+    name: 'gemini',
+
+    async draft(request) {
+      try {
+        const content = await requestGeminiJSON(apiKey, DRAFT_SYSTEM_PROMPT, buildDraftPrompt(request), 4096);
+        return content ? parseDraftResult(content) : null;
+      } catch (error) {
+        console.error('[AmendmentDrafter] Gemini draft failed:', error);
+        return null;
+      }
+    }
+  };
+}
+
+/**
+ * Deterministic local provider
+ * Carries each replaced phrase of the law article over to the regulation
+ * text wherever it appears verbatim, without network access
+ */
+export function createStubDrafter(): AmendmentDrafter {
+  return {
+    name: 'stub',
+
+    async draft(request) {
+      const { oldLawContent, newArticle, regulationArticle } = request;
+      let amended = regulationArticle.article_content;
+      const replaced: string[] = [];
+
+      if (oldLawContent) {
+        const phrases = diffPhrases(diffText(oldLawContent, newArticle.article_content));
+
+        for (const { from, to } of phrases) {
+          // Anchored insertions and one-letter words are too ambiguous to carry over
+          if (from.length > 1 && to && !to.includes(from) && amended.includes(from)) {
+            amended = amended.split(from).join(to);
+            replaced.push(`"${from}" → "${to}"`);
+          }
+        }
+      }
+
+      return {
+        amended_content: amended,
+        rationale: replaced.length > 0
+          ? `${request.lawName} 제${newArticle.article_number}조 개정에 따라 ${replaced.join(', ')}(으)로 정비합니다.`
+          : `${request.lawName} 제${newArticle.article_number}조 개정사항 중 자동으로 반영할 문구가 없습니다. 담당자가 직접 수정하세요.`
+      };
+    }
+  };
+}
+
+/**
+ * Try each drafter in order until one returns a result
+ */
+export function createFallbackDrafter(drafters: AmendmentDrafter[]): AmendmentDrafter {
+  return {
+    name: drafters.map(d => d.name).join('>'),
+
+    async draft(request) {
+      for (const drafter of drafters) {
+        const result = await drafter.draft(request);
+
+        if (result) {
+          return result;
+        }
+
+        console.warn(`[AmendmentDrafter] Provider ${drafter.name} returned no result, falling back`);
+      }
+
+      return null;
+    }
+  };
+}
+
+/**
+ * Create the drafter configured for this deployment
+ * Follows the same AI_PROVIDER fallback order as the impact analyzer
+ */
+export function createAmendmentDrafter(env: CloudflareBindings): AmendmentDrafter {
+  const order = (env.AI_PROVIDER || 'openai,gemini')
+    .split(',')
+    .map(p => p.trim().toLowerCase())
+    .filter(p => p.length > 0) as AnalyzerProvider[];
+
+  const drafters: AmendmentDrafter[] = [];
+
+  for (const provider of order) {
+    if (provider === 'openai' && env.OPENAI_API_KEY) {
+      drafters.push(createOpenAIDrafter(env.OPENAI_API_KEY));
+    } else if (provider === 'gemini' && env.GEMINI_API_KEY) {
+      drafters.push(createGeminiDrafter(env.GEMINI_API_KEY));
+    } else if (provider === 'stub') {
+      drafters.push(createStubDrafter());
+    }
+  }
+
+  if (drafters.length === 0) {
+    throw new Error('No amendment drafter configured (check AI_PROVIDER and API keys)');
+  }
+
+  return drafters.length === 1 ? drafters[0] : createFallbackDrafter(drafters);
+}
@@ -0,0 +1,243 @@
+/**
+ * Impact Analysis Pipeline
+ * Runs the full analysis flow for a law revision and tracks it as a job
+ */
+
+import type { AnalysisJob, Article, ImpactAnalysis } from '../types/database';
+import { AnalysisJobStatus, ReviewStatus } from '../types/database';
+import type { DatabaseService, LinkedRegulationArticle } from './databaseImpl';
+import { compareArticles } from './lawDiff';
+import type { ImpactAnalyzer } from './impactAnalyzer';
+import { quickHeuristicAnalysis } from './aiAnalysis';
+import { shouldAnalyze } from './geminiAnalysis';
+
+interface AnalysisCandidate {
+  oldArticle: Article | null;
+  newArticle: Article;
+  regulationArticle: LinkedRegulationArticle;
+}
+
+/**
+ * Run an analysis job to completion.
+ * Never throws: failures are recorded on the job record.
+ */
+export async function runAnalysisJob(
+  job: AnalysisJob,
+  dbService: DatabaseService,
+  analyzer: ImpactAnalyzer
+): Promise<AnalysisJob | null> {
+  const counters = {
+    processed_items: 0,
+    created_analyses: 0,
+    skipped_items: 0,
+    failed_items: 0
+  };
+
+  try {
+    console.log('[AnalysisPipeline] Starting job:', job.job_id, 'provider:', analyzer.name);
+
+    await dbService.updateAnalysisJob(job.job_id, {
+      status: AnalysisJobStatus.RUNNING,
+      started_at: new Date()
+    });
+
+    // Step 1: Load revision and law
+    const revision = await dbService.getRevisionById(job.revision_id);
+    if (!revision) {
+      throw new Error(`Revision not found: ${job.revision_id}`);
+    }
+
+    const law = await dbService.getLawById(revision.law_id);
+    if (!law) {
+      throw new Error(`Law not found: ${revision.law_id}`);
+    }
+
+    // Step 2: Diff articles against the previous revision
+    const newArticles = await dbService.getArticlesByRevisionId(revision.revision_id);
+    const previousRevision = await dbService.getPreviousRevision(revision);
+    const oldArticles = previousRevision
+      ? await dbService.getArticlesByRevisionId(previousRevision.revision_id)
+      : [];
+
+    const changes = compareArticles(oldArticles, newArticles);
+
+    // Step 3: Find linked regulation articles
+    const linkedArticles = await dbService.getLinkedRegulationArticles(
+      revision.law_id,
+      job.target_local_gov_code
+    );
+
+    const candidates = buildCandidates(changes, oldArticles, newArticles, linkedArticles);
+
+    console.log(
+      `[AnalysisPipeline] ${changes.length} changed articles, ${candidates.length} candidate pairs`
+    );
+
+    await dbService.updateAnalysisJob(job.job_id, {
+      total_items: candidates.length
+    });
+
+    // Step 4: Pre-filter, analyze and store results
+    const revisionDate = formatDate(revision.revision_date);
+
+    for (const candidate of candidates) {
+      const { oldArticle, newArticle, regulationArticle } = candidate;
+
+      const heuristic = quickHeuristicAnalysis(oldArticle, newArticle, regulationArticle);
+      const related = heuristic.shouldAnalyze || shouldAnalyze(newArticle, regulationArticle);
+
+      const alreadyAnalyzed = related && await dbService.analysisExists(
+        revision.revision_id,
+        newArticle.article_id,
+        regulationArticle.reg_article_id
+      );
+
+      if (!related || alreadyAnalyzed) {
+        counters.skipped_items++;
+      } else {
+        const result = await analyzer.analyze({
+          lawName: law.law_name,
+          revisionDate,
+          oldArticle,
+          newArticle,
+          regulationName: regulationArticle.regulation_name,
+          regulationArticle
+        });
+
+        if (result) {
+          const analysis: Omit<ImpactAnalysis, 'created_at'> = {
+            analysis_id: `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            revision_id: revision.revision_id,
+            regulation_id: regulationArticle.regulation_id,
+            article_id: newArticle.article_id,
+            reg_article_id: regulationArticle.reg_article_id,
+            impact_level: result.impact_level,
+            impact_type: result.impact_type,
+            change_summary: result.change_summary,
+            ai_recommendation: result.ai_recommendation,
+            confidence_score: clampConfidence(result.confidence_score),
+            review_status: ReviewStatus.PENDING,
+            reviewed: false
+          };
+
+          await dbService.createAnalysis(analysis);
+          counters.created_analyses++;
+        } else {
+          counters.failed_items++;
+        }
+
+        // Rate limiting: wait 200ms between LLM requests
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+
+      counters.processed_items++;
+
+      await dbService.updateAnalysisJob(job.job_id, {
+        ...counters,
+        progress: Math.floor((counters.processed_items / candidates.length) * 100)
+      });
+    }
+
+    console.log('[AnalysisPipeline] Job completed:', job.job_id, counters);
+
+    return dbService.updateAnalysisJob(job.job_id, {
+      ...counters,
+      status: AnalysisJobStatus.COMPLETED,
+      progress: 100,
+      completed_at: new Date()
+    });
+
+  } catch (error) {
+    console.error('[AnalysisPipeline] Job failed:', job.job_id, error);
+
+    try {
+      return await dbService.updateAnalysisJob(job.job_id, {
+        ...counters,
+        status: AnalysisJobStatus.FAILED,
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date()
+      });
+    } catch (updateError) {
+      console.error('[AnalysisPipeline] Failed to record job failure:', updateError);
+      return null;
+    }
+  }
+}
+
+/**
+ * Pair every changed law article with the regulation articles linked to it.
+ * Links without a specific law article apply to every change of the law.
+ */
+function buildCandidates(
+  changes: ReturnType<typeof compareArticles>,
+  oldArticles: Article[],
+  newArticles: Article[],
+  linkedArticles: LinkedRegulationArticle[]
+): AnalysisCandidate[] {
+  const oldMap = new Map(topLevel(oldArticles).map(a => [a.article_number, a]));
+  const newMap = new Map(topLevel(newArticles).map(a => [a.article_number, a]));
+  const candidates: AnalysisCandidate[] = [];
+
+  for (const change of changes) {
+    // Renumbered articles are still cited by their old number
+    const oldNumber = change.old_article_number || change.article_number;
+    const oldArticle = oldMap.get(oldNumber) || null;
+    let newArticle = newMap.get(change.article_number);
+
+    // Deleted articles are analyzed against an empty "삭제" version
+    if (!newArticle && oldArticle) {
+      newArticle = { ...oldArticle, article_content: '삭제' };
+    }
+
+    if (!newArticle) {
+      continue;
+    }
+
+    const seen = new Set<string>();
+
+    for (const linked of linkedArticles) {
+      if (
+        linked.law_article_number &&
+        linked.law_article_number !== change.article_number &&
+        linked.law_article_number !== oldNumber
+      ) {
+        continue;
+      }
+
+      if (seen.has(linked.reg_article_id)) {
+        continue;
+      }
+      seen.add(linked.reg_article_id);
+
+      candidates.push({
+        oldArticle,
+        newArticle,
+        regulationArticle: linked
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * 조, 부칙 and 별표 rows without their 항/호/목 children
+ */
+function topLevel(articles: Article[]): Article[] {
+  return articles.filter(a => !a.parent_article_id);
+}
+
+/**
+ * Format a DATE column value as YYYY-MM-DD
+ */
+function formatDate(value: Date | string): string {
+  return new Date(value).toISOString().split('T')[0];
+}
+
+/**
+ * Keep confidence within the DECIMAL(3, 2) column range
+ */
+function clampConfidence(score: number): number {
+  const value = typeof score === 'number' && !isNaN(score) ? score : 0;
+  return Math.round(Math.min(Math.max(value, 0), 1) * 100) / 100;
+}
@@ -0,0 +1,119 @@
+/**
+ * Auth Session Service
+ * Short-lived access tokens with rotating refresh tokens
+ *
+ * Every login starts a session in auth_sessions. The access token (JWT,
+ * 15 minutes) carries its session_id and authMiddleware rejects it once
+ * the session is revoked. The refresh token is opaque, single use and
+ * replaced on every refresh; presenting one that was already used means
+ * it was copied, so the whole session is revoked.
+ */
+
+import { sign } from 'hono/jwt';
+import type { JWTPayload } from '../middleware/auth';
+import type { User } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+import { generateToken, hashToken } from './userAdmin';
+
+export type AuthSessionErrorReason = 'invalid' | 'reused';
+
+/**
+ * Raised when a refresh token cannot be exchanged
+ */
+export class AuthSessionError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: AuthSessionErrorReason
+  ) {
+    super(message);
+    this.name = 'AuthSessionError';
+  }
+}
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// Sessions end 30 days after login, however often they are refreshed
+export const SESSION_TTL_DAYS = 30;
+
+export interface SessionTokens {
+  session_id: string;
+  token: string; // access token
+  refresh_token: string;
+  expires_in: number; // seconds until the access token expires
+}
+
+/**
+ * Start a session for a user who just logged in
+ */
+export async function startSession(
+  dbService: DatabaseService,
+  user: User,
+  client: { user_agent?: string | null; ip_address?: string | null },
+  jwtSecret: string
+): Promise<SessionTokens> {
+  const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const refreshToken = generateToken();
+
+  await dbService.createSession({
+    session_id: sessionId,
+    user_id: user.user_id,
+    user_agent: client.user_agent,
+    ip_address: client.ip_address,
+    expires_at: new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000)
+  }, await hashToken(refreshToken));
+
+  return {
+    session_id: sessionId,
+    token: await signAccessToken(user, sessionId, jwtSecret),
+    refresh_token: refreshToken,
+    expires_in: ACCESS_TOKEN_TTL_SECONDS
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access and refresh token
+ */
+export async function refreshSession(
+  dbService: DatabaseService,
+  refreshToken: string,
+  jwtSecret: string
+): Promise<SessionTokens> {
+  const tokenHash = await hashToken(refreshToken);
+  const newRefreshToken = generateToken();
+
+  const user = await dbService.rotateRefreshToken(tokenHash, await hashToken(newRefreshToken));
+
+  if (!user) {
+    const reusedSession = await dbService.getSessionIdOfUsedRefreshToken(tokenHash);
+    if (reusedSession) {
+      await dbService.revokeSession(reusedSession);
+      console.warn('[AuthSession] Refresh token reused, session revoked:', reusedSession);
+      throw new AuthSessionError('Refresh token was already used; please log in again', 'reused');
+    }
+    throw new AuthSessionError('Refresh token is invalid or the session has ended', 'invalid');
+  }
+
+  return {
+    session_id: user.session_id,
+    token: await signAccessToken(user, user.session_id, jwtSecret),
+    refresh_token: newRefreshToken,
+    expires_in: ACCESS_TOKEN_TTL_SECONDS
+  };
+}
+
+async function signAccessToken(user: User, sessionId: string, jwtSecret: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: JWTPayload & { iat: number; exp: number } = {
+    user_id: user.user_id,
+    email: user.email,
+    role: user.role,
+    local_gov: user.local_gov,
+    local_gov_code: user.local_gov_code,
+    department: user.department,
+    sid: sessionId,
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS
+  };
+
+  return sign({ ...payload }, jwtSecret);
+}
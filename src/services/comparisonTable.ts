@@ -0,0 +1,374 @@
+/**
+ * Comparison Table Service
+ * Builds the 신구조문대비표 (현행 | 개정안) of a law revision from its
+ * changed_articles, or of a 조례 amendment draft, and renders it as HTML,
+ * DOCX or XLSX.
+ *
+ * Inserted text is underlined and deleted text struck through. Lines of
+ * an article that did not change are collapsed to "(생 략)" on the 현행
+ * side and "(현행과 같음)" on the 개정안 side, as in 법제 practice.
+ */
+
+import * as XLSX from 'xlsx';
+import type { ChangedArticle, Law, LawRevision, TextDiffSegment } from '../types/database';
+import { ChangeKind } from '../types/database';
+import { diffText } from './lawDiff';
+
+export type ComparisonFormat = 'html' | 'docx' | 'xlsx';
+
+export const COMPARISON_FORMATS: ComparisonFormat[] = ['html', 'docx', 'xlsx'];
+
+export function isComparisonFormat(value: unknown): value is ComparisonFormat {
+  return (COMPARISON_FORMATS as unknown[]).includes(value);
+}
+
+export interface ComparisonFragment {
+  text: string;
+  mark?: 'insert' | 'delete';
+}
+
+export type ComparisonLine = ComparisonFragment[];
+
+export interface ComparisonRow {
+  article_number: string;
+  old_article_number?: string;
+  change_kind: ChangeKind | null;
+  old_lines: ComparisonLine[];
+  new_lines: ComparisonLine[];
+}
+
+/**
+ * For a 조례 amendment draft the law_* fields hold the regulation and
+ * enforcement_date is empty
+ */
+export interface ComparisonTable {
+  law_id: string;
+  law_name: string;
+  revision_id: string;
+  revision_type: string;
+  revision_date: string;
+  enforcement_date: string;
+  rows: ComparisonRow[];
+}
+
+const OMITTED_OLD = '(생 략)';
+const OMITTED_NEW = '(현행과 같음)';
+const NEW_ARTICLE = '<신 설>';
+const DELETED_ARTICLE = '<삭 제>';
+
+/**
+ * Build the table for a revision
+ */
+export function buildComparisonTable(law: Law, revision: LawRevision): ComparisonTable {
+  return {
+    law_id: law.law_id,
+    law_name: law.law_name,
+    revision_id: revision.revision_id,
+    revision_type: revision.revision_type,
+    revision_date: formatDate(revision.revision_date),
+    enforcement_date: formatDate(revision.enforcement_date),
+    rows: (revision.changed_articles || []).map(buildComparisonRow)
+  };
+}
+
+/**
+ * Standalone HTML document
+ */
+export function renderComparisonHTML(table: ComparisonTable): string {
+  const rows = table.rows.map(row => `
+      <tr>
+        <td>${renderHTMLLines(row.old_lines)}</td>
+        <td>${renderHTMLLines(row.new_lines)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHTML(comparisonTitle(table))}</title>
+  <style>
+    body { font-family: 'Malgun Gothic', '맑은 고딕', sans-serif; margin: 40px; color: #111827; }
+    h1 { font-size: 20px; text-align: center; margin-bottom: 4px; }
+    .meta { text-align: center; color: #6b7280; font-size: 13px; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+    th, td { border: 1px solid #374151; padding: 8px 10px; vertical-align: top; font-size: 14px; line-height: 1.6; }
+    th { background: #f3f4f6; letter-spacing: 0.5em; }
+    td p { margin: 0 0 4px; white-space: pre-wrap; }
+    u { text-decoration: underline; text-decoration-thickness: 2px; }
+    s { color: #b91c1c; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHTML(comparisonTitle(table))}</h1>
+  <div class="meta">${escapeHTML(comparisonSubtitle(table))}</div>
+  <table>
+    <thead>
+      <tr><th>현행</th><th>개정안</th></tr>
+    </thead>
+    <tbody>${rows || `
+      <tr><td colspan="2">변경된 조문이 없습니다.</td></tr>`}
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Word document (WordprocessingML package)
+ */
+export function renderComparisonDOCX(table: ComparisonTable): ArrayBuffer {
+  const cell = (lines: ComparisonLine[], header = false) => `
+        <w:tc>
+          <w:tcPr><w:tcW w:w="4819" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : ''}</w:tcPr>
+          ${lines.map(line => `<w:p>${header ? '<w:pPr><w:jc w:val="center"/></w:pPr>' : ''}${line.map(renderDOCXRun).join('')}</w:p>`).join('')}
+        </w:tc>`;
+
+  const rows = [
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${cell([[{ text: '현 행' }]], true)}${cell([[{ text: '개 정 안' }]], true)}</w:tr>`,
+    ...table.rows.map(row => `<w:tr>${cell(row.old_lines)}${cell(row.new_lines)}</w:tr>`)
+  ].join('');
+
+  const border = '<w:%s w:val="single" w:sz="4" w:space="0" w:color="374151"/>';
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => border.replace('%s', side)).join('');
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>
+    <w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:rPr><w:b/><w:sz w:val="32"/></w:rPr><w:t xml:space="preserve">${escapeXML(comparisonTitle(table))}</w:t></w:r></w:p>
+    <w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:t xml:space="preserve">${escapeXML(comparisonSubtitle(table))}</w:t></w:r></w:p>
+    <w:tbl>
+      <w:tblPr><w:tblW w:w="9638" w:type="dxa"/><w:tblLayout w:type="fixed"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>
+      <w:tblGrid><w:gridCol w:w="4819"/><w:gridCol w:w="4819"/></w:tblGrid>
+      ${rows}
+    </w:tbl>
+    <w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr>
+  </w:body>
+</w:document>`;
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+  const rels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+  // SheetJS bundles a ZIP writer (CFB) that serves for the OOXML package
+  const encoder = new TextEncoder();
+  const zip = XLSX.CFB.utils.cfb_new();
+  XLSX.CFB.utils.cfb_add(zip, '[Content_Types].xml', encoder.encode(contentTypes));
+  XLSX.CFB.utils.cfb_add(zip, '_rels/.rels', encoder.encode(rels));
+  XLSX.CFB.utils.cfb_add(zip, 'word/document.xml', encoder.encode(document));
+
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' })).buffer;
+}
+
+/**
+ * Excel workbook
+ * SheetJS community edition does not write rich text, so the changed
+ * fragments are listed in their own columns next to the plain text.
+ */
+export function renderComparisonXLSX(table: ComparisonTable): ArrayBuffer {
+  const fragments = (lines: ComparisonLine[], mark: ComparisonFragment['mark']) =>
+    lines.flat().filter(f => f.mark === mark).map(f => f.text.trim()).filter(Boolean).join('\n');
+
+  const data = [
+    [comparisonTitle(table)],
+    [comparisonSubtitle(table)],
+    [],
+    ['조문', '구분', '현행', '개정안', '삭제 문구', '추가 문구'],
+    ...table.rows.map(row => [
+      row.old_article_number ? `${row.old_article_number} → ${row.article_number}` : row.article_number,
+      row.change_kind || '',
+      plainText(row.old_lines),
+      plainText(row.new_lines),
+      fragments(row.old_lines, 'delete'),
+      fragments(row.new_lines, 'insert')
+    ])
+  ];
+
+  const sheet = XLSX.utils.aoa_to_sheet(data);
+  sheet['!cols'] = [{ wch: 12 }, { wch: 10 }, { wch: 60 }, { wch: 60 }, { wch: 30 }, { wch: 30 }];
+  sheet['!merges'] = [
+    { s: { r: 0, c: 0 }, e: { r: 0, c: 5 } },
+    { s: { r: 1, c: 0 }, e: { r: 1, c: 5 } }
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, '신구조문대비표');
+
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+}
+
+/**
+ * "{법령명} 일부개정 신구조문대비표"
+ */
+export function comparisonTitle(table: ComparisonTable): string {
+  return `${table.law_name} ${table.revision_type} 신구조문대비표`;
+}
+
+/**
+ * One 현행 | 개정안 row for a changed article
+ */
+export function buildComparisonRow(change: ChangedArticle): ComparisonRow {
+  const row = {
+    article_number: change.article_number,
+    old_article_number: change.old_article_number,
+    change_kind: change.change_kind || null
+  };
+
+  if (change.change_type === 'added') {
+    return {
+      ...row,
+      old_lines: [[{ text: NEW_ARTICLE }]],
+      new_lines: nonEmpty(toLines([{ op: 'insert', text: change.new_content || '' }], 'insert'))
+    };
+  }
+
+  if (change.change_type === 'deleted') {
+    return {
+      ...row,
+      old_lines: nonEmpty(toLines([{ op: 'delete', text: change.old_content || '' }], 'delete')),
+      new_lines: [[{ text: DELETED_ARTICLE }]]
+    };
+  }
+
+  // Revisions stored before the diff engine carry only the texts
+  const diff = change.diff || diffText(change.old_content || '', change.new_content || '');
+
+  const changed = changedLines(diff);
+
+  return {
+    ...row,
+    old_lines: collapseUnchanged(toLines(diff, 'delete'), changed.old, OMITTED_OLD),
+    new_lines: collapseUnchanged(toLines(diff, 'insert'), changed.new, OMITTED_NEW)
+  };
+}
+
+function comparisonSubtitle(table: ComparisonTable): string {
+  const subtitle = `${table.revision_type} ${table.revision_date}`;
+  return table.enforcement_date ? `${subtitle} · 시행 ${table.enforcement_date}` : subtitle;
+}
+
+/**
+ * One side of a diff split into lines; the other side's segments are dropped.
+ * Empty lines are kept so that indexes match changedLines().
+ */
+function toLines(diff: TextDiffSegment[], side: 'insert' | 'delete'): ComparisonLine[] {
+  const lines: ComparisonLine[] = [[]];
+
+  for (const segment of diff) {
+    if (segment.op !== 'equal' && segment.op !== side) continue;
+
+    segment.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) {
+        lines[lines.length - 1].push(segment.op === 'equal' ? { text: part } : { text: part, mark: side });
+      }
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Indexes of the lines touched by a change on each side; a line that only
+ * gained text on the other side still counts as changed
+ */
+function changedLines(diff: TextDiffSegment[]): { old: Set<number>; new: Set<number> } {
+  const changed = { old: new Set<number>(), new: new Set<number>() };
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const segment of diff) {
+    const parts = segment.text.split('\n');
+
+    if (segment.op !== 'equal') {
+      const side = segment.op === 'delete' ? changed.old : changed.new;
+      const start = segment.op === 'delete' ? oldLine : newLine;
+      parts.forEach((part, index) => {
+        if (part) side.add(start + index);
+      });
+      // The insertion point on the other side is changed too
+      (segment.op === 'delete' ? changed.new : changed.old).add(segment.op === 'delete' ? newLine : oldLine);
+    }
+
+    if (segment.op !== 'insert') oldLine += parts.length - 1;
+    if (segment.op !== 'delete') newLine += parts.length - 1;
+  }
+
+  return changed;
+}
+
+/**
+ * Replace runs of unchanged lines after the heading line with a placeholder
+ */
+function collapseUnchanged(lines: ComparisonLine[], changedIndexes: Set<number>, placeholder: string): ComparisonLine[] {
+  const result: ComparisonLine[] = [];
+  let omitted = false;
+
+  lines.forEach((line, index) => {
+    if (line.length === 0) return;
+
+    const changed = changedIndexes.has(index) || line.some(fragment => fragment.mark);
+
+    if (index === 0 || changed) {
+      result.push(line);
+      omitted = false;
+    } else if (!omitted) {
+      result.push([{ text: placeholder }]);
+      omitted = true;
+    }
+  });
+
+  return result;
+}
+
+function nonEmpty(lines: ComparisonLine[]): ComparisonLine[] {
+  return lines.filter(line => line.length > 0);
+}
+
+function renderHTMLLines(lines: ComparisonLine[]): string {
+  return lines.map(line => `<p>${line.map(fragment => {
+    const text = escapeHTML(fragment.text);
+    if (fragment.mark === 'insert') return `<u>${text}</u>`;
+    if (fragment.mark === 'delete') return `<s>${text}</s>`;
+    return text;
+  }).join('')}</p>`).join('');
+}
+
+function renderDOCXRun(fragment: ComparisonFragment): string {
+  const properties = fragment.mark === 'insert'
+    ? '<w:rPr><w:u w:val="single"/></w:rPr>'
+    : fragment.mark === 'delete' ? '<w:rPr><w:strike/><w:color w:val="B91C1C"/></w:rPr>' : '';
+
+  return `<w:r>${properties}<w:t xml:space="preserve">${escapeXML(fragment.text)}</w:t></w:r>`;
+}
+
+function plainText(lines: ComparisonLine[]): string {
+  return lines.map(line => line.map(fragment => fragment.text).join('')).join('\n');
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeXML(text: string): string {
+  // Control characters other than tab are not allowed in XML 1.0
+  return escapeHTML(text).replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Format a DATE column value as YYYY-MM-DD
+ */
+function formatDate(value: Date | string): string {
+  return new Date(value).toISOString().split('T')[0];
+}
@@ -1,333 +0,0 @@
-/**
- * Database Service
- * Handles database operations for the application
- * 
- * Note: This is a placeholder implementation.
- * In production, this would connect to PostgreSQL with proper connection pooling.
- * For Cloudflare Workers, consider using Cloudflare D1 or external database APIs.
- */
-
-import type {
-  Law,
-  LawRevision,
-  Article,
-  LocalRegulation,
-  RegulationArticle,
-  LawRegulationLink,
-  ImpactAnalysis,
-  User,
-  Notification,
-  ReviewHistory
-} from '../types/database';
-
-export class DatabaseService {
-  private connectionString: string;
-
-  constructor(connectionString: string) {
-    this.connectionString = connectionString;
-  }
-
-  // ============================================================
-  // Laws
-  // ============================================================
-
-  async createLaw(law: Omit<Law, 'created_at' | 'updated_at'>): Promise<Law> {
-    // TODO: Implement database insert
-    console.log('[DB] Creating law:', law.law_id);
-    return {
-      ...law,
-      created_at: new Date(),
-      updated_at: new Date()
-    };
-  }
-
-  async getLawById(lawId: string): Promise<Law | null> {
-    // TODO: Implement database query
-    console.log('[DB] Fetching law:', lawId);
-    return null;
-  }
-
-  async getLaws(filters?: {
-    law_type?: string;
-    status?: string;
-    category?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<{ laws: Law[]; total: number }> {
-    // TODO: Implement database query with filters
-    console.log('[DB] Fetching laws with filters:', filters);
-    return { laws: [], total: 0 };
-  }
-
-  async updateLaw(lawId: string, updates: Partial<Law>): Promise<Law | null> {
-    // TODO: Implement database update
-    console.log('[DB] Updating law:', lawId, updates);
-    return null;
-  }
-
-  // ============================================================
-  // Law Revisions
-  // ============================================================
-
-  async createRevision(revision: Omit<LawRevision, 'created_at'>): Promise<LawRevision> {
-    console.log('[DB] Creating revision:', revision.revision_id);
-    return {
-      ...revision,
-      created_at: new Date()
-    };
-  }
-
-  async getRevisionsByLawId(lawId: string): Promise<LawRevision[]> {
-    console.log('[DB] Fetching revisions for law:', lawId);
-    return [];
-  }
-
-  async getRecentRevisions(days: number = 7): Promise<LawRevision[]> {
-    console.log('[DB] Fetching revisions from last', days, 'days');
-    return [];
-  }
-
-  // ============================================================
-  // Articles
-  // ============================================================
-
-  async createArticle(article: Omit<Article, 'created_at'>): Promise<Article> {
-    console.log('[DB] Creating article:', article.article_id);
-    return {
-      ...article,
-      created_at: new Date()
-    };
-  }
-
-  async createArticles(articles: Omit<Article, 'created_at'>[]): Promise<Article[]> {
-    console.log('[DB] Batch creating', articles.length, 'articles');
-    return articles.map(a => ({
-      ...a,
-      created_at: new Date()
-    }));
-  }
-
-  async getArticlesByLawId(lawId: string): Promise<Article[]> {
-    console.log('[DB] Fetching articles for law:', lawId);
-    return [];
-  }
-
-  async updateArticleEmbedding(articleId: string, embedding: number[]): Promise<void> {
-    console.log('[DB] Updating article embedding:', articleId);
-  }
-
-  // ============================================================
-  // Local Regulations
-  // ============================================================
-
-  async createRegulation(regulation: Omit<LocalRegulation, 'created_at' | 'updated_at'>): Promise<LocalRegulation> {
-    console.log('[DB] Creating regulation:', regulation.regulation_id);
-    return {
-      ...regulation,
-      created_at: new Date(),
-      updated_at: new Date()
-    };
-  }
-
-  async getRegulationById(regulationId: string): Promise<LocalRegulation | null> {
-    console.log('[DB] Fetching regulation:', regulationId);
-    return null;
-  }
-
-  async getRegulations(filters?: {
-    local_gov?: string;
-    department?: string;
-    regulation_type?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<{ regulations: LocalRegulation[]; total: number }> {
-    console.log('[DB] Fetching regulations with filters:', filters);
-    return { regulations: [], total: 0 };
-  }
-
-  // ============================================================
-  // Regulation Articles
-  // ============================================================
-
-  async createRegulationArticle(article: Omit<RegulationArticle, 'created_at'>): Promise<RegulationArticle> {
-    console.log('[DB] Creating regulation article:', article.reg_article_id);
-    return {
-      ...article,
-      created_at: new Date()
-    };
-  }
-
-  async createRegulationArticles(articles: Omit<RegulationArticle, 'created_at'>[]): Promise<RegulationArticle[]> {
-    console.log('[DB] Batch creating', articles.length, 'regulation articles');
-    return articles.map(a => ({
-      ...a,
-      created_at: new Date()
-    }));
-  }
-
-  async getRegulationArticles(regulationId: string): Promise<RegulationArticle[]> {
-    console.log('[DB] Fetching articles for regulation:', regulationId);
-    return [];
-  }
-
-  async updateRegulationArticleEmbedding(articleId: string, embedding: number[]): Promise<void> {
-    console.log('[DB] Updating regulation article embedding:', articleId);
-  }
-
-  // ============================================================
-  // Law-Regulation Links
-  // ============================================================
-
-  async createLink(link: Omit<LawRegulationLink, 'created_at'>): Promise<LawRegulationLink> {
-    console.log('[DB] Creating law-regulation link:', link.link_id);
-    return {
-      ...link,
-      created_at: new Date()
-    };
-  }
-
-  async getLinksByLawId(lawId: string): Promise<LawRegulationLink[]> {
-    console.log('[DB] Fetching links for law:', lawId);
-    return [];
-  }
-
-  async getLinksByRegulationId(regulationId: string): Promise<LawRegulationLink[]> {
-    console.log('[DB] Fetching links for regulation:', regulationId);
-    return [];
-  }
-
-  async updateLinkVerification(linkId: string, verified: boolean, verifiedBy: string): Promise<void> {
-    console.log('[DB] Updating link verification:', linkId, verified);
-  }
-
-  // ============================================================
-  // Impact Analysis
-  // ============================================================
-
-  async createAnalysis(analysis: Omit<ImpactAnalysis, 'created_at'>): Promise<ImpactAnalysis> {
-    console.log('[DB] Creating impact analysis:', analysis.analysis_id);
-    return {
-      ...analysis,
-      created_at: new Date()
-    };
-  }
-
-  async getAnalysisById(analysisId: string): Promise<ImpactAnalysis | null> {
-    console.log('[DB] Fetching analysis:', analysisId);
-    return null;
-  }
-
-  async getAnalyses(filters?: {
-    reviewed?: boolean;
-    impact_level?: string;
-    local_gov?: string;
-    from_date?: Date;
-    to_date?: Date;
-    limit?: number;
-    offset?: number;
-  }): Promise<{ analyses: ImpactAnalysis[]; total: number }> {
-    console.log('[DB] Fetching analyses with filters:', filters);
-    return { analyses: [], total: 0 };
-  }
-
-  async updateAnalysisReview(
-    analysisId: string,
-    reviewed: boolean,
-    reviewerId: string
-  ): Promise<void> {
-    console.log('[DB] Updating analysis review:', analysisId);
-  }
-
-  // ============================================================
-  // Users
-  // ============================================================
-
-  async getUserByEmail(email: string): Promise<User | null> {
-    console.log('[DB] Fetching user by email:', email);
-    return null;
-  }
-
-  async getUserById(userId: string): Promise<User | null> {
-    console.log('[DB] Fetching user:', userId);
-    return null;
-  }
-
-  async createUser(user: Omit<User, 'created_at'>): Promise<User> {
-    console.log('[DB] Creating user:', user.user_id);
-    return {
-      ...user,
-      created_at: new Date()
-    };
-  }
-
-  // ============================================================
-  // Notifications
-  // ============================================================
-
-  async createNotification(notification: Omit<Notification, 'sent_at'>): Promise<Notification> {
-    console.log('[DB] Creating notification:', notification.notification_id);
-    return {
-      ...notification,
-      sent_at: new Date()
-    };
-  }
-
-  async getNotificationsByUserId(userId: string, unreadOnly: boolean = false): Promise<Notification[]> {
-    console.log('[DB] Fetching notifications for user:', userId, 'unreadOnly:', unreadOnly);
-    return [];
-  }
-
-  async markNotificationAsRead(notificationId: string): Promise<void> {
-    console.log('[DB] Marking notification as read:', notificationId);
-  }
-
-  // ============================================================
-  // Review History
-  // ============================================================
-
-  async createReviewHistory(history: Omit<ReviewHistory, 'created_at'>): Promise<ReviewHistory> {
-    console.log('[DB] Creating review history:', history.history_id);
-    return {
-      ...history,
-      created_at: new Date()
-    };
-  }
-
-  async getReviewHistory(analysisId: string): Promise<ReviewHistory[]> {
-    console.log('[DB] Fetching review history for analysis:', analysisId);
-    return [];
-  }
-
-  // ============================================================
-  // Vector Search
-  // ============================================================
-
-  async findSimilarArticles(
-    embedding: number[],
-    limit: number = 10,
-    threshold: number = 0.8
-  ): Promise<Article[]> {
-    console.log('[DB] Finding similar articles, limit:', limit, 'threshold:', threshold);
-    // TODO: Implement vector similarity search using pgvector
-    // SELECT *, 1 - (vector_embedding <=> $1) as similarity
-    // FROM articles
-    // WHERE 1 - (vector_embedding <=> $1) > $2
-    // ORDER BY vector_embedding <=> $1
-    // LIMIT $3
-    return [];
-  }
-
-  async findSimilarRegulationArticles(
-    embedding: number[],
-    limit: number = 10,
-    threshold: number = 0.8
-  ): Promise<RegulationArticle[]> {
-    console.log('[DB] Finding similar regulation articles, limit:', limit, 'threshold:', threshold);
-    return [];
-  }
-}
-
-// Export singleton instance factory
-export function createDatabaseService(connectionString: string): DatabaseService {
-  return new DatabaseService(connectionString);
-}
@@ -3,20 +3,308 @@
  * Real PostgreSQL CRUD operations using Neon serverless driver
  */
 
-import type { QueryResult } from '../utils/db';
+import type { Database } from '../utils/db';
+import { createQueryFilters, escapeLike, tenantCondition } from '../utils/db';
 import type {
   Law,
   LawRevision,
   Article,
+  LocalGovernment,
   LocalRegulation,
   RegulationArticle,
   ImpactAnalysis,
+  AnalysisJob,
+  LawSyncRun,
+  JobRun,
+  AmendmentDraft,
+  AmendmentDraftVersion,
+  LinkType,
+  LinkVerificationAction,
+  LinkVerificationHistory,
+  LinkVerificationStatus,
+  LawRegulationLink,
   User,
-  Notification
+  UserInvitation,
+  UserRole,
+  AuthSession,
+  UserStatus,
+  Notification,
+  ReviewHistory,
+  ReviewStatus,
+  AnalysisStatsResponse,
+  EnforcementCalendarEntry,
+  TenantScope
 } from '../types/database';
 
+export type SearchKind = 'law' | 'regulation';
+
+/**
+ * Records owned by the local government and department of their regulation
+ */
+export type TenantResource = 'regulation' | 'analysis' | 'link';
+
+export interface ResourceOwner {
+  local_gov_code: string;
+  department: string | null;
+}
+
+const RESOURCE_OWNER_QUERIES: Record<TenantResource, string> = {
+  regulation: `SELECT regulation_id as id, local_gov_code, department FROM local_regulations
+    WHERE regulation_id = ANY($1)`,
+  analysis: `SELECT ia.analysis_id as id, lr.local_gov_code, lr.department FROM impact_analyses ia
+    JOIN local_regulations lr ON ia.regulation_id = lr.regulation_id
+    WHERE ia.analysis_id = ANY($1)`,
+  link: `SELECT lrl.link_id as id, lr.local_gov_code, lr.department FROM law_regulation_links lrl
+    JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
+    WHERE lrl.link_id = ANY($1)`
+};
+
+export type StatsGroupBy = 'day' | 'week' | 'month';
+
+export interface AnalysisStatsFilters {
+  tenant?: TenantScope | null;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  groupBy: StatsGroupBy;
+}
+
+export type SearchFilters = Record<string, string | string[] | undefined>;
+
+/**
+ * Law or regulation row with a search score
+ */
+export interface DocumentSearchRow {
+  id: string;
+  name: string;
+  score: number;
+  [column: string]: any;
+}
+
+/**
+ * Law or regulation article row with a search score
+ */
+export interface ArticleSearchRow {
+  article_id: string;
+  parent_id: string;
+  name: string;
+  local_gov: string | null;
+  article_number: string;
+  article_title: string;
+  article_content: string;
+  score: number;
+}
+
+/**
+ * Tables and whitelisted filter columns for each search kind
+ */
+const SEARCH_TARGETS = {
+  law: {
+    table: 'laws',
+    id: 'law_id',
+    name: 'law_name',
+    columns: 'd.law_id, d.law_name, d.law_type, d.law_number, d.enactment_date, d.status, d.ministry, d.category',
+    tenant: null as string | null, // laws are national
+    filters: {
+      law_type: 'd.law_type',
+      status: 'd.status',
+      category: 'd.category',
+      ministry: 'd.ministry'
+    } as Record<string, string>,
+    articles: {
+      table: 'articles',
+      id: 'article_id',
+      localGov: 'NULL',
+      revision: 'x.revision_id' as string | null, // one row per article and revision
+      filters: {
+        article_type: 'x.article_type',
+        law_id: 'x.law_id'
+      } as Record<string, string>
+    }
+  },
+  regulation: {
+    table: 'local_regulations',
+    id: 'regulation_id',
+    name: 'regulation_name',
+    columns: 'd.regulation_id, d.regulation_name, d.regulation_type, d.local_gov, d.local_gov_code, d.department, d.enactment_date, d.status',
+    tenant: 'd.local_gov_code' as string | null,
+    filters: {
+      regulation_type: 'd.regulation_type',
+      local_gov: 'd.local_gov',
+      local_gov_code: 'd.local_gov_code',
+      department: 'd.department',
+      status: 'd.status'
+    } as Record<string, string>,
+    articles: {
+      table: 'regulation_articles',
+      id: 'reg_article_id',
+      localGov: 'd.local_gov',
+      revision: null as string | null,
+      filters: {
+        article_type: 'x.article_type',
+        regulation_id: 'x.regulation_id',
+        local_gov: 'd.local_gov',
+        department: 'd.department'
+      } as Record<string, string>
+    }
+  }
+};
+
+/**
+ * "WITH scoped_regulations AS (...)": the regulations of a tenant scope,
+ * for statistics that would otherwise count every local government
+ */
+function scopedRegulations(tenant: TenantScope | null | undefined): { cte: string; params: any[] } {
+  const where = createQueryFilters().tenant('local_gov_code', tenant);
+  return {
+    cte: `WITH scoped_regulations AS (SELECT * FROM local_regulations ${where.clause()})`,
+    params: where.params
+  };
+}
+
+/**
+ * Append whitelisted filters as parameterized conditions
+ * Array values match any of the given values
+ */
+function appendFilters(
+  filters: SearchFilters,
+  columns: Record<string, string>,
+  params: any[]
+): string {
+  let clause = '';
+
+  for (const [key, column] of Object.entries(columns)) {
+    const value = filters[key];
+
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+
+    params.push(value);
+    clause += Array.isArray(value)
+      ? ` AND ${column} = ANY($${params.length})`
+      : ` AND ${column} = $${params.length}`;
+  }
+
+  return clause;
+}
+
+/**
+ * Restrict a search to the tenant scope; targets without a tenant column
+ * are not restricted
+ */
+function appendTenant(column: string | null, tenant: TenantScope | null | undefined, params: any[]): string {
+  const condition = column ? tenantCondition(column, tenant, params) : '';
+  return condition ? ` AND ${condition}` : '';
+}
+
+/**
+ * Restrict article rows to one revision per document: the revision in
+ * force on asOf (YYYY-MM-DD) when given, else the latest one. Targets
+ * without revisions are not restricted.
+ */
+function appendRevision(column: string | null, asOf: string | undefined, params: any[]): string {
+  if (!column) {
+    return '';
+  }
+
+  let inForce = '';
+  if (asOf) {
+    params.push(asOf);
+    inForce = ` AND r.enforcement_date <= $${params.length}::date`;
+  }
+
+  return ` AND ${column} = (SELECT r.revision_id FROM law_revisions r
+    WHERE r.law_id = d.law_id${inForce}
+    ORDER BY r.enforcement_date DESC, r.revision_date DESC, r.created_at DESC
+    LIMIT 1)`;
+}
+
+/**
+ * Regulation article reached through a law_regulation_links row
+ */
+export interface LinkedRegulationArticle extends RegulationArticle {
+  link_id: string;
+  link_type: LinkType;
+  law_article_number: string | null;
+  regulation_name: string;
+  local_gov: string;
+}
+
+/**
+ * Position of a regulation in updated_at order, see getRegulationsUpdatedAfter
+ */
+export interface RegulationCursor {
+  updated_at: Date;
+  regulation_id: string;
+}
+
+/**
+ * Subquery: type of the revision of laws.law_id in force on the date bound
+ * to the placeholder, NULL if none was
+ */
+function revisionTypeInForce(asOf: string): string {
+  return `(SELECT r.revision_type FROM law_revisions r
+    WHERE r.law_id = laws.law_id AND r.enforcement_date <= ${asOf}::date
+    ORDER BY r.enforcement_date DESC, r.revision_date DESC, r.created_at DESC
+    LIMIT 1)`;
+}
+
+// user_invitations without token_hash
+const INVITATION_COLUMNS = `invitation_id, email, local_gov, local_gov_code, department, role, invited_by,
+  expires_at, accepted_at, accepted_user_id, revoked_at, created_at`;
+
+const OPEN_INVITATION = 'accepted_at IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP';
+
+/**
+ * Link with the names needed to review it
+ */
+export interface LinkDetail extends LawRegulationLink {
+  law_name: string;
+  law_article_number: string | null;
+  regulation_name: string;
+  local_gov: string;
+  reg_article_number: string | null;
+}
+
+const LINK_DETAIL_SELECT = `SELECT lrl.*, l.law_name, a.article_number as law_article_number,
+    lr.regulation_name, lr.local_gov, ra.article_number as reg_article_number
+  FROM law_regulation_links lrl
+  JOIN laws l ON lrl.law_id = l.law_id
+  JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
+  LEFT JOIN articles a ON lrl.article_id = a.article_id
+  LEFT JOIN regulation_articles ra ON lrl.reg_article_id = ra.reg_article_id`;
+
+/**
+ * Compare-and-set link verification, see apply_link_verification()
+ */
+export interface LinkVerificationTransition {
+  link_id: string;
+  from_status: LinkVerificationStatus;
+  from_link_type: LinkType;
+  to_status: LinkVerificationStatus;
+  to_link_type: LinkType;
+  history_id: string;
+  user_id: string;
+  action: LinkVerificationAction;
+  comment: string | null;
+}
+
+/**
+ * Compare-and-set review status change, see apply_review_transition()
+ */
+export interface ReviewTransition {
+  analysis_id: string;
+  from_status: ReviewStatus;
+  to_status: ReviewStatus;
+  complete: boolean;
+  history_id: string;
+  user_id: string;
+  action: string;
+  comment: string;
+}
+
 export class DatabaseService {
-  constructor(private db: any) {}
+  constructor(private db: Database) {}
 
   // ============================================================
   // Laws
@@ -56,57 +344,88 @@ export class DatabaseService {
     );
   }
 
-  async getLaws(filters?: {
+  /**
+   * Laws for the catalog list, by name
+   * With as_of (YYYY-MM-DD) only laws in force on that date are listed
+   */
+  async getLaws(filters: {
+    search?: string;
     law_type?: string;
     status?: string;
     category?: string;
-    limit?: number;
-    offset?: number;
+    as_of?: string;
+    limit: number;
+    offset: number;
   }): Promise<{ laws: Law[]; total: number }> {
-    let query = 'SELECT * FROM laws WHERE 1=1';
-    const params: any[] = [];
-    let paramIndex = 1;
+    const where = createQueryFilters()
+      .contains('law_name', filters.search)
+      .equals('law_type', filters.law_type)
+      .equals('status', filters.status)
+      .equals('category', filters.category)
+      .add(filters.as_of, p => `${revisionTypeInForce(p)} <> '폐지'`);
 
-    if (filters?.law_type) {
-      query += ` AND law_type = $${paramIndex++}`;
-      params.push(filters.law_type);
-    }
-
-    if (filters?.status) {
-      query += ` AND status = $${paramIndex++}`;
-      params.push(filters.status);
-    }
-
-    if (filters?.category) {
-      query += ` AND category = $${paramIndex++}`;
-      params.push(filters.category);
-    }
-
-    // Count total
     const countResult = await this.db.queryOne<{ count: string }>(
-      query.replace('SELECT *', 'SELECT COUNT(*) as count'),
-      params
+      `SELECT COUNT(*) as count FROM laws ${where.clause()}`,
+      where.params
     );
-    const total = parseInt(countResult?.count || '0');
 
-    // Add pagination
-    query += ' ORDER BY created_at DESC';
-    
-    if (filters?.limit) {
-      query += ` LIMIT $${paramIndex++}`;
-      params.push(filters.limit);
-    }
+    const result = await this.db.query<Law>(
+      `SELECT law_id, law_name, law_type, law_number, enactment_date, current_version,
+         status, ministry, category, created_at
+       FROM laws
+       ${where.clause()}
+       ORDER BY law_name
+       LIMIT ${where.bind(filters.limit)} OFFSET ${where.bind(filters.offset)}`,
+      where.params
+    );
 
-    if (filters?.offset) {
-      query += ` OFFSET $${paramIndex++}`;
-      params.push(filters.offset);
-    }
+    return {
+      laws: result.rows,
+      total: parseInt(countResult?.count || '0')
+    };
+  }
 
-    const result = await this.db.query<Law>(query, params);
+  /**
+   * Law totals for the law catalog summary
+   */
+  async getLawCatalogStats(): Promise<{
+    total_laws: number;
+    total_articles: number;
+    articles_with_embedding: number;
+    total_links: number;
+    by_type: Array<{ law_type: string; count: string }>;
+    by_status: Array<{ status: string; count: string }>;
+  }> {
+    const [totals, byType, byStatus] = await Promise.all([
+      this.db.queryOne<Record<string, string>>(
+        `SELECT
+          (SELECT COUNT(*) FROM laws) as total_laws,
+          (SELECT COUNT(*) FROM articles) as total_articles,
+          (SELECT COUNT(*) FROM articles WHERE vector_embedding IS NOT NULL) as articles_with_embedding,
+          (SELECT COUNT(*) FROM law_regulation_links) as total_links`
+      ),
+      this.db.query<{ law_type: string; count: string }>(
+        `SELECT law_type, COUNT(*) as count
+         FROM laws
+         GROUP BY law_type
+         ORDER BY count DESC`
+      ),
+      this.db.query<{ status: string; count: string }>(
+        `SELECT status, COUNT(*) as count
+         FROM laws
+         WHERE status IS NOT NULL
+         GROUP BY status
+         ORDER BY count DESC`
+      )
+    ]);
 
     return {
-      laws: result.rows,
-      total
+      total_laws: parseInt(totals?.total_laws || '0'),
+      total_articles: parseInt(totals?.total_articles || '0'),
+      articles_with_embedding: parseInt(totals?.articles_with_embedding || '0'),
+      total_links: parseInt(totals?.total_links || '0'),
+      by_type: byType.rows,
+      by_status: byStatus.rows
     };
   }
 
@@ -193,6 +512,41 @@ export class DatabaseService {
     return result.rows;
   }
 
+  async getRevisionById(revisionId: string): Promise<LawRevision | null> {
+    return this.db.queryOne<LawRevision>(
+      'SELECT * FROM law_revisions WHERE revision_id = $1',
+      [revisionId]
+    );
+  }
+
+  /**
+   * The revision in force on a date: the latest one whose enforcement date
+   * (시행일) is on or before it. Revisions promulgated but not yet enforced
+   * on that date do not count.
+   */
+  async getRevisionInForce(lawId: string, asOf: string): Promise<LawRevision | null> {
+    return this.db.queryOne<LawRevision>(
+      `SELECT * FROM law_revisions
+       WHERE law_id = $1 AND enforcement_date <= $2::date
+       ORDER BY enforcement_date DESC, revision_date DESC, created_at DESC
+       LIMIT 1`,
+      [lawId, asOf]
+    );
+  }
+
+  /**
+   * Find the revision that was current right before the given one
+   */
+  async getPreviousRevision(revision: LawRevision): Promise<LawRevision | null> {
+    return this.db.queryOne<LawRevision>(
+      `SELECT * FROM law_revisions
+       WHERE law_id = $1 AND revision_id <> $2 AND revision_date <= $3
+       ORDER BY revision_date DESC, created_at DESC
+       LIMIT 1`,
+      [revision.law_id, revision.revision_id, revision.revision_date]
+    );
+  }
+
   // ============================================================
   // Articles
   // ============================================================
@@ -243,6 +597,44 @@ export class DatabaseService {
     return result.rows;
   }
 
+  /**
+   * Articles of a law without their embeddings
+   * Limited to one revision when revisionId is given
+   */
+  async getArticleSummariesByLawId(
+    lawId: string,
+    revisionId?: string
+  ): Promise<Array<Omit<Article, 'vector_embedding'> & { has_embedding: boolean }>> {
+    const where = createQueryFilters()
+      .equals('law_id', lawId)
+      .equals('revision_id', revisionId);
+
+    const result = await this.db.query(
+      `SELECT article_id, revision_id, article_number, article_title, article_content, parent_article_id,
+         is_deleted, vector_embedding IS NOT NULL as has_embedding, created_at
+       FROM articles
+       ${where.clause()}
+       ORDER BY article_number`,
+      where.params
+    );
+    return result.rows;
+  }
+
+  async getArticleById(articleId: string): Promise<Article | null> {
+    return this.db.queryOne<Article>(
+      'SELECT * FROM articles WHERE article_id = $1',
+      [articleId]
+    );
+  }
+
+  async getArticlesByRevisionId(revisionId: string): Promise<Article[]> {
+    const result = await this.db.query<Article>(
+      'SELECT * FROM articles WHERE revision_id = $1 ORDER BY article_number',
+      [revisionId]
+    );
+    return result.rows;
+  }
+
   async updateArticleEmbedding(articleId: string, embedding: number[]): Promise<void> {
     await this.db.query(
       'UPDATE articles SET vector_embedding = $1 WHERE article_id = $2',
@@ -250,153 +642,1833 @@ export class DatabaseService {
     );
   }
 
+  async updateRegulationArticleEmbedding(regArticleId: string, embedding: number[]): Promise<void> {
+    await this.db.query(
+      'UPDATE regulation_articles SET vector_embedding = $1 WHERE reg_article_id = $2',
+      [JSON.stringify(embedding), regArticleId]
+    );
+  }
+
+  /**
+   * Law or regulation articles that still need an embedding, oldest first
+   * Only top-level articles are embedded; 항/호/목 rows are covered by their 조
+   */
+  async getArticlesMissingEmbedding(
+    kind: SearchKind,
+    limit: number
+  ): Promise<Array<{ article_id: string; article_number: string; article_title: string; article_content: string }>> {
+    const articles = SEARCH_TARGETS[kind].articles;
+    const result = await this.db.query(
+      `SELECT ${articles.id} as article_id, article_number, article_title, article_content
+       FROM ${articles.table}
+       WHERE vector_embedding IS NULL AND parent_article_id IS NULL
+       ORDER BY created_at
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  }
+
   // ============================================================
-  // Users
+  // Local Governments
   // ============================================================
 
-  async getUserByEmail(email: string): Promise<User | null> {
-    return this.db.queryOne<User>(
-      'SELECT * FROM users WHERE email = $1',
-      [email]
+  /**
+   * Codes of the municipalities registered under a province
+   */
+  async getMunicipalityCodes(provinceCode: string): Promise<string[]> {
+    const result = await this.db.query<{ local_gov_code: string }>(
+      'SELECT local_gov_code FROM local_governments WHERE parent_code = $1 ORDER BY local_gov_code',
+      [provinceCode]
     );
+    return result.rows.map(r => r.local_gov_code);
   }
 
-  async getUserById(userId: string): Promise<User | null> {
-    return this.db.queryOne<User>(
-      'SELECT * FROM users WHERE user_id = $1',
-      [userId]
+  async getLocalGovernment(localGovCode: string): Promise<LocalGovernment | null> {
+    return this.db.queryOne<LocalGovernment>(
+      'SELECT * FROM local_governments WHERE local_gov_code = $1',
+      [localGovCode]
     );
   }
 
-  async createUser(user: Omit<User, 'created_at'>): Promise<User> {
-    const result = await this.db.queryOne<User>(
-      `INSERT INTO users (
-        user_id, username, email, password_hash, local_gov, department,
-        role, notification_settings
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING *`,
-      [
-        user.user_id,
-        user.username,
-        user.email,
-        user.password_hash,
-        user.local_gov,
-        user.department,
-        user.role,
-        JSON.stringify(user.notification_settings)
-      ]
+  /**
+   * Record the municipalities the API lists under a province's 기관코드;
+   * returns the number of rows written
+   */
+  async registerMunicipalities(
+    provinceCode: string,
+    municipalities: Array<{ local_gov_code: string; name: string }>
+  ): Promise<number> {
+    const byCode = new Map(
+      municipalities
+        .filter(m => m.local_gov_code && m.local_gov_code !== provinceCode)
+        .map(m => [m.local_gov_code, m.name])
     );
-
-    if (!result) {
-      throw new Error('Failed to create user');
+    if (byCode.size === 0) {
+      return 0;
     }
 
-    return result;
+    const result = await this.db.query(
+      `INSERT INTO local_governments (local_gov_code, name, parent_code)
+       SELECT code, name, $1 FROM unnest($2::text[], $3::text[]) AS m(code, name)
+       ON CONFLICT (local_gov_code) DO UPDATE
+       SET name = EXCLUDED.name, parent_code = EXCLUDED.parent_code, updated_at = CURRENT_TIMESTAMP
+       RETURNING local_gov_code`,
+      [provinceCode, [...byCode.keys()], [...byCode.values()]]
+    );
+    return result.rows.length;
   }
 
-  async updateUser(userId: string, updates: Partial<User>): Promise<User | null> {
-    const fields: string[] = [];
-    const values: any[] = [];
-    let paramIndex = 1;
+  // ============================================================
+  // Local Regulations
+  // ============================================================
 
-    Object.entries(updates).forEach(([key, value]) => {
-      if (value !== undefined && key !== 'user_id' && key !== 'created_at') {
-        if (key === 'notification_settings') {
-          fields.push(`${key} = $${paramIndex++}`);
-          values.push(JSON.stringify(value));
-        } else {
-          fields.push(`${key} = $${paramIndex++}`);
-          values.push(value);
-        }
-      }
-    });
+  async getRegulationById(regulationId: string): Promise<LocalRegulation | null> {
+    return this.db.queryOne<LocalRegulation>(
+      'SELECT * FROM local_regulations WHERE regulation_id = $1',
+      [regulationId]
+    );
+  }
 
-    if (fields.length === 0) {
-      return this.getUserById(userId);
-    }
+  /**
+   * Regulations for the catalog list, by name
+   */
+  async getRegulations(filters: {
+    search?: string;
+    regulation_type?: string;
+    department?: string;
+    tenant?: TenantScope | null;
+    limit: number;
+    offset: number;
+  }): Promise<{ regulations: Omit<LocalRegulation, 'vector_embedding'>[]; total: number }> {
+    const where = createQueryFilters()
+      .tenant('local_gov_code', filters.tenant)
+      .contains('regulation_name', filters.search)
+      .equals('regulation_type', filters.regulation_type)
+      .contains('department', filters.department);
 
-    values.push(userId);
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count FROM local_regulations ${where.clause()}`,
+      where.params
+    );
 
-    return this.db.queryOne<User>(
-      `UPDATE users SET ${fields.join(', ')}
-       WHERE user_id = $${paramIndex}
-       RETURNING *`,
-      values
+    const result = await this.db.query(
+      `SELECT regulation_id, regulation_name, regulation_type, local_gov, department,
+         enactment_date, status, created_at
+       FROM local_regulations
+       ${where.clause()}
+       ORDER BY regulation_name
+       LIMIT ${where.bind(filters.limit)} OFFSET ${where.bind(filters.offset)}`,
+      where.params
     );
+
+    return {
+      regulations: result.rows,
+      total: parseInt(countResult?.count || '0')
+    };
   }
 
-  async updateLastLogin(userId: string): Promise<void> {
-    await this.db.query(
-      'UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE user_id = $1',
-      [userId]
+  /**
+   * Regulation without its embedding, for API responses
+   */
+  async getRegulationDetail(regulationId: string): Promise<Omit<LocalRegulation, 'vector_embedding'> | null> {
+    return this.db.queryOne(
+      `SELECT regulation_id, regulation_name, regulation_type, local_gov, local_gov_code,
+         enactment_date, current_version, department, status, created_at, updated_at
+       FROM local_regulations
+       WHERE regulation_id = $1`,
+      [regulationId]
     );
   }
 
-  // ============================================================
-  // Notifications
-  // ============================================================
-
-  async createNotification(notification: Omit<Notification, 'sent_at'>): Promise<Notification> {
-    const result = await this.db.queryOne<Notification>(
-      `INSERT INTO notifications (
-        notification_id, user_id, analysis_id, notification_type,
-        title, message, read
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING *`,
-      [
-        notification.notification_id,
-        notification.user_id,
-        notification.analysis_id,
-        notification.notification_type,
-        notification.title,
-        notification.message,
-        notification.read
-      ]
+  /**
+   * Local government and department of each existing record, by id
+   */
+  async getResourceOwners(resource: TenantResource, ids: string[]): Promise<Map<string, ResourceOwner>> {
+    const result = await this.db.query<ResourceOwner & { id: string }>(
+      RESOURCE_OWNER_QUERIES[resource],
+      [ids]
     );
-
-    if (!result) {
-      throw new Error('Failed to create notification');
-    }
-
-    return result;
+    return new Map(result.rows.map(({ id, ...owner }) => [id, owner]));
   }
 
-  async getNotificationsByUserId(
-    userId: string,
-    unreadOnly: boolean = false,
-    limit: number = 20,
-    offset: number = 0
-  ): Promise<{ notifications: Notification[]; total: number }> {
-    let query = 'SELECT * FROM notifications WHERE user_id = $1';
-    const params: any[] = [userId];
+  /**
+   * Regulations closest to the given one by document embedding, within
+   * the tenant scope. Returns null if the regulation has no embedding
+   */
+  async findSimilarRegulations(
+    regulationId: string,
+    limit: number,
+    tenant?: TenantScope | null
+  ): Promise<Array<{
+    regulation_id: string;
+    regulation_name: string;
+    regulation_type: string;
+    local_gov: string;
+    department: string | null;
+    similarity: number;
+  }> | null> {
+    const source = await this.db.queryOne<{ regulation_id: string }>(
+      `SELECT regulation_id FROM local_regulations
+       WHERE regulation_id = $1 AND vector_embedding IS NOT NULL`,
+      [regulationId]
+    );
 
-    if (unreadOnly) {
-      query += ' AND read = false';
+    if (!source) {
+      return null;
     }
 
-    // Count total
-    const countResult = await this.db.queryOne<{ count: string }>(
-      query.replace('SELECT *', 'SELECT COUNT(*) as count'),
+    const params: any[] = [regulationId, limit];
+    const scope = tenantCondition('r.local_gov_code', tenant, params);
+
+    const result = await this.db.query(
+      `SELECT r.regulation_id, r.regulation_name, r.regulation_type, r.local_gov, r.department,
+         1 - (r.vector_embedding <=> s.vector_embedding) as similarity
+       FROM local_regulations r,
+         (SELECT vector_embedding FROM local_regulations WHERE regulation_id = $1) s
+       WHERE r.vector_embedding IS NOT NULL
+         AND r.regulation_id <> $1
+         ${scope ? `AND ${scope}` : ''}
+       ORDER BY r.vector_embedding <=> s.vector_embedding
+       LIMIT $2`,
       params
     );
-    const total = parseInt(countResult?.count || '0');
+    return result.rows;
+  }
 
-    // Add pagination
-    query += ' ORDER BY sent_at DESC LIMIT $2 OFFSET $3';
-    params.push(limit, offset);
+  /**
+   * Regulation totals for the regulation catalog summary
+   */
+  async getRegulationCatalogStats(tenant?: TenantScope | null): Promise<{
+    total_regulations: number;
+    regulations_with_embedding: number;
+    linked_regulations: number;
+    by_type: Array<{ regulation_type: string; count: string }>;
+    top_departments: Array<{ department: string; count: string }>;
+  }> {
+    const regs = scopedRegulations(tenant);
 
-    const result = await this.db.query<Notification>(query, params);
+    const [totals, byType, byDepartment] = await Promise.all([
+      this.db.queryOne<Record<string, string>>(
+        `${regs.cte}
+        SELECT
+          (SELECT COUNT(*) FROM scoped_regulations) as total_regulations,
+          (SELECT COUNT(*) FROM scoped_regulations WHERE vector_embedding IS NOT NULL) as regulations_with_embedding,
+          (SELECT COUNT(DISTINCT lrl.regulation_id) FROM law_regulation_links lrl
+            JOIN scoped_regulations r ON lrl.regulation_id = r.regulation_id) as linked_regulations`,
+        regs.params
+      ),
+      this.db.query<{ regulation_type: string; count: string }>(
+        `${regs.cte}
+         SELECT regulation_type, COUNT(*) as count
+         FROM scoped_regulations
+         GROUP BY regulation_type
+         ORDER BY count DESC`,
+        regs.params
+      ),
+      this.db.query<{ department: string; count: string }>(
+        `${regs.cte}
+         SELECT department, COUNT(*) as count
+         FROM scoped_regulations
+         WHERE department IS NOT NULL
+         GROUP BY department
+         ORDER BY count DESC
+         LIMIT 10`,
+        regs.params
+      )
+    ]);
 
     return {
-      notifications: result.rows,
-      total
+      total_regulations: parseInt(totals?.total_regulations || '0'),
+      regulations_with_embedding: parseInt(totals?.regulations_with_embedding || '0'),
+      linked_regulations: parseInt(totals?.linked_regulations || '0'),
+      by_type: byType.rows,
+      top_departments: byDepartment.rows
     };
   }
 
-  async getUnreadNotificationCount(userId: string): Promise<number> {
-    const result = await this.db.queryOne<{ count: string }>(
-      'SELECT COUNT(*) as count FROM notifications WHERE user_id = $1 AND read = false',
-      [userId]
+  async getRegulationArticleById(regArticleId: string): Promise<RegulationArticle | null> {
+    return this.db.queryOne<RegulationArticle>(
+      'SELECT * FROM regulation_articles WHERE reg_article_id = $1',
+      [regArticleId]
+    );
+  }
+
+  /**
+   * Insert or refresh a regulation and its articles in one transaction.
+   * Articles are matched by reg_article_id so existing embeddings, links and
+   * analyses keep pointing at the same rows.
+   */
+  async upsertRegulationWithArticles(
+    regulation: Omit<LocalRegulation, 'created_at' | 'updated_at'>,
+    articles: Omit<RegulationArticle, 'created_at'>[]
+  ): Promise<void> {
+    await this.db.batch([
+      {
+        text: `INSERT INTO local_regulations (
+          regulation_id, regulation_type, regulation_name, local_gov, local_gov_code,
+          enactment_date, current_version, department, status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (regulation_id) DO UPDATE SET
+          regulation_type = EXCLUDED.regulation_type,
+          regulation_name = EXCLUDED.regulation_name,
+          local_gov = EXCLUDED.local_gov,
+          local_gov_code = EXCLUDED.local_gov_code,
+          current_version = EXCLUDED.current_version,
+          department = EXCLUDED.department,
+          status = EXCLUDED.status,
+          updated_at = CURRENT_TIMESTAMP`,
+        params: [
+          regulation.regulation_id,
+          regulation.regulation_type,
+          regulation.regulation_name,
+          regulation.local_gov,
+          regulation.local_gov_code,
+          regulation.enactment_date,
+          regulation.current_version,
+          regulation.department || null,
+          regulation.status
+        ]
+      },
+      ...articles.map(article => ({
+        // Changed text invalidates the stored embedding
+        text: `INSERT INTO regulation_articles (
+          reg_article_id, regulation_id, article_number, article_title,
+          article_content, article_type, parent_article_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (reg_article_id) DO UPDATE SET
+          article_number = EXCLUDED.article_number,
+          article_title = EXCLUDED.article_title,
+          article_content = EXCLUDED.article_content,
+          article_type = EXCLUDED.article_type,
+          vector_embedding = CASE
+            WHEN regulation_articles.article_content = EXCLUDED.article_content
+            THEN regulation_articles.vector_embedding
+          END`,
+        params: [
+          article.reg_article_id,
+          article.regulation_id,
+          article.article_number,
+          article.article_title,
+          article.article_content,
+          article.article_type,
+          article.parent_article_id || null
+        ]
+      }))
+    ]);
+  }
+
+  // ============================================================
+  // Law-Regulation Links
+  // ============================================================
+
+  /**
+   * Get regulation articles linked to a law.
+   * Links without reg_article_id cover every article of the regulation.
+   * Rejected links are ignored.
+   */
+  async getLinkedRegulationArticles(
+    lawId: string,
+    localGovCode?: string | null
+  ): Promise<LinkedRegulationArticle[]> {
+    let query = `SELECT ra.*, lrl.link_id, lrl.link_type,
+        a.article_number as law_article_number,
+        lr.regulation_name, lr.local_gov
+      FROM law_regulation_links lrl
+      JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
+      LEFT JOIN articles a ON lrl.article_id = a.article_id
+      JOIN regulation_articles ra ON (
+        (lrl.reg_article_id IS NOT NULL AND ra.reg_article_id = lrl.reg_article_id)
+        OR (lrl.reg_article_id IS NULL AND ra.regulation_id = lrl.regulation_id)
+      )
+      WHERE lrl.law_id = $1 AND lrl.verification_status <> 'rejected'`;
+    const params: any[] = [lawId];
+
+    if (localGovCode) {
+      query += ' AND lr.local_gov_code = $2';
+      params.push(localGovCode);
+    }
+
+    query += ' ORDER BY lr.regulation_id, ra.article_number';
+
+    const result = await this.db.query<LinkedRegulationArticle>(query, params);
+    return result.rows;
+  }
+
+  async getRegulationArticles(regulationId: string): Promise<RegulationArticle[]> {
+    const result = await this.db.query<RegulationArticle>(
+      `SELECT reg_article_id, regulation_id, article_number, article_title, article_content,
+         article_type, parent_article_id, created_at
+       FROM regulation_articles
+       WHERE regulation_id = $1
+       ORDER BY created_at, reg_article_id`,
+      [regulationId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Regulations changed after the cursor (all when null), oldest first
+   * Keyset on (updated_at, regulation_id), so runs move past rows sharing one
+   * updated_at. updated_at is compared at the millisecond precision of Date.
+   */
+  async getRegulationsUpdatedAfter(after: RegulationCursor | null, limit: number): Promise<LocalRegulation[]> {
+    const result = await this.db.query<LocalRegulation>(
+      `SELECT * FROM local_regulations
+       WHERE $1::timestamp IS NULL
+          OR (date_trunc('milliseconds', updated_at), regulation_id) > ($1::timestamp, $2::text)
+       ORDER BY date_trunc('milliseconds', updated_at), regulation_id
+       LIMIT $3`,
+      [after?.updated_at ?? null, after?.regulation_id ?? '', limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Laws by name, ignoring whitespace differences
+   */
+  async getLawsByNames(names: string[]): Promise<Law[]> {
+    const result = await this.db.query<Law>(
+      `SELECT * FROM laws WHERE REPLACE(law_name, ' ', '') = ANY($1)`,
+      [names.map(name => name.replace(/\s+/g, ''))]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Latest top-level article for each of the given numbers of the given laws
+   */
+  async getLatestArticlesByNumber(
+    lawIds: string[],
+    articleNumbers: string[]
+  ): Promise<Array<Pick<Article, 'article_id' | 'law_id' | 'article_number'>>> {
+    const result = await this.db.query(
+      `SELECT DISTINCT ON (a.law_id, a.article_number) a.article_id, a.law_id, a.article_number
+       FROM articles a
+       LEFT JOIN law_revisions r ON a.revision_id = r.revision_id
+       WHERE a.law_id = ANY($1) AND a.article_number = ANY($2) AND a.parent_article_id IS NULL
+       ORDER BY a.law_id, a.article_number, r.revision_date DESC NULLS LAST, a.created_at DESC`,
+      [lawIds, articleNumbers]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Top-level law articles closest to a regulation article's stored embedding
+   */
+  async findLawArticlesSimilarToRegulationArticle(
+    regArticleId: string,
+    threshold: number,
+    limit: number
+  ): Promise<Array<{ article_id: string; law_id: string; similarity: number }>> {
+    const result = await this.db.query(
+      `SELECT a.article_id, a.law_id, 1 - (a.vector_embedding <=> ra.vector_embedding) as similarity
+       FROM regulation_articles ra, articles a
+       WHERE ra.reg_article_id = $1
+         AND ra.vector_embedding IS NOT NULL
+         AND a.vector_embedding IS NOT NULL
+         AND a.parent_article_id IS NULL
+         AND 1 - (a.vector_embedding <=> ra.vector_embedding) >= $2
+       ORDER BY a.vector_embedding <=> ra.vector_embedding
+       LIMIT $3`,
+      [regArticleId, threshold, limit]
+    );
+    return result.rows.map(row => ({ ...row, similarity: Number(row.similarity) }));
+  }
+
+  /**
+   * Replace the pending links of a regulation in one transaction.
+   * Confirmed and rejected links are kept, and new links duplicating them
+   * are skipped, so a rejected link is not recreated.
+   */
+  async replaceRegulationLinks(
+    regulationId: string,
+    links: Array<Omit<LawRegulationLink, 'verification_status' | 'verified' | 'verified_by' | 'verified_at' | 'created_at'>>
+  ): Promise<void> {
+    await this.db.batch([
+      {
+        text: `DELETE FROM law_regulation_links WHERE regulation_id = $1 AND verification_status = 'pending'`,
+        params: [regulationId]
+      },
+      ...links.map(link => ({
+        text: `INSERT INTO law_regulation_links (
+          link_id, law_id, regulation_id, article_id, reg_article_id, link_type, confidence_score
+        )
+        SELECT $1, $2, $3, $4, $5, $6, $7
+        WHERE NOT EXISTS (
+          SELECT 1 FROM law_regulation_links
+          WHERE regulation_id = $3 AND law_id = $2
+            AND article_id IS NOT DISTINCT FROM $4::varchar
+            AND reg_article_id IS NOT DISTINCT FROM $5::varchar
+        )`,
+        params: [
+          link.link_id,
+          link.law_id,
+          link.regulation_id,
+          link.article_id || null,
+          link.reg_article_id || null,
+          link.link_type,
+          link.confidence_score
+        ]
+      }))
+    ]);
+  }
+
+  /**
+   * Regulations linked to a law, one row per regulation
+   * Rejected links are ignored. With revisionId, only links to articles
+   * whose number exists in that revision are counted.
+   */
+  async getLinkedRegulationsByLawId(
+    lawId: string,
+    limit: number,
+    offset: number,
+    revisionId?: string,
+    tenant?: TenantScope | null
+  ): Promise<{ regulations: any[]; total: number }> {
+    const where = createQueryFilters()
+      .equals('lrl.law_id', lawId)
+      .tenant('lr.local_gov_code', tenant)
+      .where(`lrl.verification_status <> 'rejected'`)
+      .add(revisionId, p => `(lrl.article_id IS NULL OR EXISTS (
+          SELECT 1 FROM articles la
+          JOIN articles ra ON ra.article_number = la.article_number AND ra.revision_id = ${p}
+          WHERE la.article_id = lrl.article_id
+        ))`);
+
+    const [result, countResult] = await Promise.all([
+      this.db.query(
+        `SELECT lr.regulation_id, lr.regulation_name, lr.regulation_type, lr.local_gov, lr.department,
+           COUNT(lrl.link_id) as link_count,
+           AVG(lrl.confidence_score) as avg_confidence
+         FROM law_regulation_links lrl
+         JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
+         ${where.clause()}
+         GROUP BY lr.regulation_id, lr.regulation_name, lr.regulation_type, lr.local_gov, lr.department
+         ORDER BY avg_confidence DESC
+         LIMIT $${where.params.length + 1} OFFSET $${where.params.length + 2}`,
+        [...where.params, limit, offset]
+      ),
+      this.db.queryOne<{ count: string }>(
+        `SELECT COUNT(DISTINCT lrl.regulation_id) as count
+         FROM law_regulation_links lrl
+         JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
+         ${where.clause()}`,
+        where.params
+      )
+    ]);
+
+    return {
+      regulations: result.rows,
+      total: parseInt(countResult?.count || '0')
+    };
+  }
+
+  /**
+   * Law articles linked to a regulation, most confident first
+   * Rejected links are ignored.
+   */
+  async getLinkedLawArticlesByRegulationId(regulationId: string): Promise<any[]> {
+    const result = await this.db.query(
+      `SELECT lrl.link_id, lrl.confidence_score, lrl.link_type, lrl.verified, lrl.verification_status,
+         l.law_id, l.law_name, l.law_type,
+         a.article_id, a.article_number, a.article_title, a.article_content
+       FROM law_regulation_links lrl
+       JOIN laws l ON lrl.law_id = l.law_id
+       JOIN articles a ON lrl.article_id = a.article_id
+       WHERE lrl.regulation_id = $1
+         AND lrl.verification_status <> 'rejected'
+       ORDER BY lrl.confidence_score DESC`,
+      [regulationId]
+    );
+    return result.rows;
+  }
+
+  async getLinkById(linkId: string): Promise<LinkDetail | null> {
+    return this.db.queryOne<LinkDetail>(
+      `${LINK_DETAIL_SELECT}
+       WHERE lrl.link_id = $1`,
+      [linkId]
+    );
+  }
+
+  /**
+   * Pending links, most confident first
+   */
+  async getUnverifiedLinks(filters: {
+    tenant?: TenantScope | null;
+    link_type?: LinkType;
+    limit: number;
+    offset: number;
+  }): Promise<{ links: LinkDetail[]; total: number }> {
+    const where = createQueryFilters()
+      .where(`lrl.verification_status = 'pending'`)
+      .tenant('lr.local_gov_code', filters.tenant)
+      .equals('lrl.link_type', filters.link_type);
+
+    const countResult = await this.db.queryOne<{ count: string }>(
+      `SELECT COUNT(*) as count
+       FROM law_regulation_links lrl
+       JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
+       ${where.clause()}`,
+      where.params
+    );
+
+    const result = await this.db.query<LinkDetail>(
+      `${LINK_DETAIL_SELECT}
+       ${where.clause()}
+       ORDER BY lrl.confidence_score DESC, lrl.created_at, lrl.link_id
+       LIMIT ${where.bind(filters.limit)} OFFSET ${where.bind(filters.offset)}`,
+      where.params
+    );
+
+    return {
+      links: result.rows,
+      total: parseInt(countResult?.count || '0')
+    };
+  }
+
+  /**
+   * Record an officer's decision on a link.
+   * Throws a 'link_conflict' error if the link changed since it was read.
+   */
+  async applyLinkVerification(transition: LinkVerificationTransition): Promise<LinkVerificationHistory> {
+    const result = await this.db.queryOne<LinkVerificationHistory>(
+      'SELECT * FROM apply_link_verification($1, $2, $3, $4, $5, $6, $7, $8, $9)',
+      [
+        transition.link_id,
+        transition.from_status,
+        transition.from_link_type,
+        transition.to_status,
+        transition.to_link_type,
+        transition.history_id,
+        transition.user_id,
+        transition.action,
+        transition.comment
+      ]
+    );
+
+    if (!result) {
+      throw new Error('Failed to apply link verification');
+    }
+
+    return result;
+  }
+
+  async getLinkVerificationHistory(linkId: string): Promise<Array<LinkVerificationHistory & { username: string | null }>> {
+    const result = await this.db.query<LinkVerificationHistory & { username: string | null }>(
+      `SELECT h.*, u.username
+       FROM link_verification_history h
+       LEFT JOIN users u ON h.user_id = u.user_id
+       WHERE h.link_id = $1
+       ORDER BY h.created_at ASC`,
+      [linkId]
+    );
+    return result.rows;
+  }
+
+  // ============================================================
+  // Impact Analysis
+  // ============================================================
+
+  async createAnalysis(analysis: Omit<ImpactAnalysis, 'created_at'>): Promise<ImpactAnalysis> {
+    const result = await this.db.queryOne<ImpactAnalysis>(
+      `INSERT INTO impact_analyses (
+        analysis_id, revision_id, regulation_id, article_id, reg_article_id,
+        impact_level, impact_type, change_summary, ai_recommendation,
+        confidence_score, review_status, reviewed
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        analysis.analysis_id,
+        analysis.revision_id,
+        analysis.regulation_id,
+        analysis.article_id,
+        analysis.reg_article_id,
+        analysis.impact_level,
+        analysis.impact_type,
+        analysis.change_summary,
+        analysis.ai_recommendation,
+        analysis.confidence_score,
+        analysis.review_status,
+        analysis.reviewed
+      ]
+    );
+
+    if (!result) {
+      throw new Error('Failed to create analysis');
+    }
+
+    return result;
+  }
+
+  async getAnalysisById(analysisId: string): Promise<ImpactAnalysis | null> {
+    return this.db.queryOne<ImpactAnalysis>(
+      'SELECT * FROM impact_analyses WHERE analysis_id = $1',
+      [analysisId]
+    );
+  }
+
+  /**
+   * Analyses by id; ids outside the tenant scope are left out as if missing
+   */
+  async getAnalysesByIds(analysisIds: string[], tenant?: TenantScope | null): Promise<ImpactAnalysis[]> {
+    const where = createQueryFilters()
+      .add(analysisIds, p => `ia.analysis_id = ANY(${p})`)
+      .tenant('lr.local_gov_code', tenant);
+
+    const result = await this.db.query<ImpactAnalysis>(
+      `SELECT ia.* FROM impact_analyses ia
+       JOIN local_regulations lr ON ia.regulation_id = lr.regulation_id
+       ${where.clause()}`,
+      where.params
+    );
+    return result.rows;
+  }
+
+  async analysisExists(revisionId: string, articleId: string, regArticleId: string): Promise<boolean> {
+    const result = await this.db.queryOne<{ analysis_id: string }>(
+      `SELECT analysis_id FROM impact_analyses
+       WHERE revision_id = $1 AND article_id = $2 AND reg_article_id = $3
+       LIMIT 1`,
+      [revisionId, articleId, regArticleId]
+    );
+    return result !== null;
+  }
+
+  // ============================================================
+  // Review History
+  // ============================================================
+
+  /**
+   * Move an analysis from one review status to another and record the action.
+   * Throws a 'review_conflict' error if the analysis is no longer in fromStatus.
+   */
+  async applyReviewTransition(transition: ReviewTransition): Promise<ReviewHistory> {
+    const statement = this.reviewTransitionStatement(transition);
+    const result = await this.db.queryOne<ReviewHistory>(statement.text, statement.params);
+
+    if (!result) {
+      throw new Error('Failed to apply review transition');
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply several review transitions in a single transaction.
+   * Nothing is written if any of them fails.
+   */
+  async applyReviewTransitions(transitions: ReviewTransition[]): Promise<ReviewHistory[]> {
+    if (transitions.length === 0) {
+      return [];
+    }
+
+    const results = await this.db.batch<ReviewHistory>(
+      transitions.map(t => this.reviewTransitionStatement(t))
+    );
+
+    return results.map(rows => rows[0]);
+  }
+
+  private reviewTransitionStatement(transition: ReviewTransition) {
+    return {
+      text: 'SELECT * FROM apply_review_transition($1, $2, $3, $4, $5, $6, $7, $8)',
+      params: [
+        transition.analysis_id,
+        transition.from_status,
+        transition.to_status,
+        transition.complete,
+        transition.history_id,
+        transition.user_id,
+        transition.action,
+        transition.comment
+      ]
+    };
+  }
+
+  async getReviewHistory(analysisId: string): Promise<Array<ReviewHistory & { username: string | null }>> {
+    const result = await this.db.query<ReviewHistory & { username: string | null }>(
+      `SELECT rh.*, u.username
+       FROM review_history rh
+       LEFT JOIN users u ON rh.user_id = u.user_id
+       WHERE rh.analysis_id = $1
+       ORDER BY rh.created_at ASC`,
+      [analysisId]
+    );
+    return result.rows;
+  }
+
+  // ============================================================
+  // Amendment Drafts
+  // ============================================================
+
+  async getAmendmentDraftByAnalysisId(analysisId: string): Promise<AmendmentDraft | null> {
+    return this.db.queryOne<AmendmentDraft>(
+      'SELECT * FROM amendment_drafts WHERE analysis_id = $1',
+      [analysisId]
+    );
+  }
+
+  async getAmendmentDraftVersions(draftId: string): Promise<AmendmentDraftVersion[]> {
+    const result = await this.db.query<AmendmentDraftVersion>(
+      'SELECT * FROM amendment_draft_versions WHERE draft_id = $1 ORDER BY version DESC',
+      [draftId]
+    );
+    return result.rows;
+  }
+
+  async getAmendmentDraftVersion(draftId: string, version: number): Promise<AmendmentDraftVersion | null> {
+    return this.db.queryOne<AmendmentDraftVersion>(
+      'SELECT * FROM amendment_draft_versions WHERE draft_id = $1 AND version = $2',
+      [draftId, version]
+    );
+  }
+
+  /**
+   * Create the draft on first use, bump its current_version and store the
+   * new version in one statement.
+   * Returns null if the draft has already been approved.
+   */
+  async addAmendmentDraftVersion(
+    draft: Pick<AmendmentDraft, 'draft_id' | 'analysis_id' | 'reg_article_id' | 'created_by'>,
+    version: Omit<AmendmentDraftVersion, 'draft_id' | 'version' | 'created_at'>
+  ): Promise<AmendmentDraftVersion | null> {
+    return this.db.queryOne<AmendmentDraftVersion>(
+      `WITH d AS (
+         INSERT INTO amendment_drafts (draft_id, analysis_id, reg_article_id, created_by)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (draft_id) DO UPDATE
+           SET current_version = amendment_drafts.current_version + 1,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE amendment_drafts.status = 'draft'
+         RETURNING draft_id, current_version
+       )
+       INSERT INTO amendment_draft_versions (
+         draft_id, version, source, provider, old_content, new_content,
+         amendment_text, rationale, created_by
+       )
+       SELECT d.draft_id, d.current_version, $5, $6, $7, $8, $9, $10, $11 FROM d
+       RETURNING *`,
+      [
+        draft.draft_id,
+        draft.analysis_id,
+        draft.reg_article_id,
+        draft.created_by,
+        version.source,
+        version.provider || null,
+        version.old_content,
+        version.new_content,
+        version.amendment_text,
+        version.rationale || null,
+        version.created_by
+      ]
+    );
+  }
+
+  /**
+   * Approve a draft at the given version
+   * Returns null if the draft is already approved or has moved past that version
+   */
+  async approveAmendmentDraft(draftId: string, version: number, userId: string): Promise<AmendmentDraft | null> {
+    return this.db.queryOne<AmendmentDraft>(
+      `UPDATE amendment_drafts
+       SET status = 'approved', approved_version = current_version, approved_by = $1,
+           approved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE draft_id = $2 AND status = 'draft' AND current_version = $3
+       RETURNING *`,
+      [userId, draftId, version]
+    );
+  }
+
+  // ============================================================
+  // Analysis Jobs
+  // ============================================================
+
+  async createAnalysisJob(
+    job: Pick<AnalysisJob, 'job_id' | 'revision_id' | 'target_local_gov' | 'target_local_gov_code' | 'created_by'>
+  ): Promise<AnalysisJob> {
+    const result = await this.db.queryOne<AnalysisJob>(
+      `INSERT INTO analysis_jobs (job_id, revision_id, target_local_gov, target_local_gov_code, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [job.job_id, job.revision_id, job.target_local_gov || null, job.target_local_gov_code || null, job.created_by]
+    );
+
+    if (!result) {
+      throw new Error('Failed to create analysis job');
+    }
+
+    return result;
+  }
+
+  async getAnalysisJobById(jobId: string): Promise<AnalysisJob | null> {
+    return this.db.queryOne<AnalysisJob>(
+      'SELECT * FROM analysis_jobs WHERE job_id = $1',
+      [jobId]
+    );
+  }
+
+  async updateAnalysisJob(jobId: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'job_id' && key !== 'created_at') {
+        fields.push(`${key} = $${paramIndex++}`);
+        values.push(value);
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.getAnalysisJobById(jobId);
+    }
+
+    values.push(jobId);
+
+    return this.db.queryOne<AnalysisJob>(
+      `UPDATE analysis_jobs SET ${fields.join(', ')}
+       WHERE job_id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+  }
+
+  // ============================================================
+  // Law Sync
+  // ============================================================
+
+  async createLawSyncRun(
+    run: Pick<LawSyncRun, 'run_id' | 'from_date' | 'law_ids'>
+  ): Promise<LawSyncRun> {
+    const result = await this.db.queryOne<LawSyncRun>(
+      `INSERT INTO law_sync_runs (run_id, from_date, law_ids)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [run.run_id, run.from_date, JSON.stringify(run.law_ids)]
+    );
+
+    if (!result) {
+      throw new Error('Failed to create law sync run');
+    }
+
+    return result;
+  }
+
+  /**
+   * Most recent run that did not finish: failed, or still marked running
+   * without a checkpoint for staleMinutes (the worker died mid-run)
+   */
+  async getResumableLawSyncRun(staleMinutes: number): Promise<LawSyncRun | null> {
+    return this.db.queryOne<LawSyncRun>(
+      `SELECT * FROM law_sync_runs
+       WHERE status = 'failed'
+          OR (status = 'running' AND updated_at < CURRENT_TIMESTAMP - make_interval(mins => $1))
+       ORDER BY started_at DESC
+       LIMIT 1`,
+      [staleMinutes]
+    );
+  }
+
+  async getActiveLawSyncRun(staleMinutes: number): Promise<LawSyncRun | null> {
+    return this.db.queryOne<LawSyncRun>(
+      `SELECT * FROM law_sync_runs
+       WHERE status = 'running'
+         AND updated_at >= CURRENT_TIMESTAMP - make_interval(mins => $1)
+       ORDER BY started_at DESC
+       LIMIT 1`,
+      [staleMinutes]
+    );
+  }
+
+  async getLastCompletedLawSyncRun(): Promise<LawSyncRun | null> {
+    return this.db.queryOne<LawSyncRun>(
+      `SELECT * FROM law_sync_runs
+       WHERE status = 'completed'
+       ORDER BY started_at DESC
+       LIMIT 1`,
+      []
+    );
+  }
+
+  async updateLawSyncRun(runId: string, updates: Partial<LawSyncRun>): Promise<LawSyncRun | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'run_id' && key !== 'started_at' && key !== 'updated_at') {
+        fields.push(`${key} = $${paramIndex++}`);
+        values.push(key === 'law_ids' ? JSON.stringify(value) : value);
+      }
+    });
+
+    values.push(runId);
+
+    return this.db.queryOne<LawSyncRun>(
+      `UPDATE law_sync_runs SET ${fields.length > 0 ? fields.join(', ') + ', ' : ''}updated_at = CURRENT_TIMESTAMP
+       WHERE run_id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+  }
+
+  /**
+   * Insert a law or refresh its metadata
+   * inserted is true when the law did not exist before
+   */
+  async upsertLaw(
+    law: Omit<Law, 'created_at' | 'updated_at'>
+  ): Promise<{ law: Law; inserted: boolean }> {
+    const result = await this.db.queryOne<Law & { inserted: boolean }>(
+      `INSERT INTO laws (
+        law_id, law_type, law_name, law_number, enactment_date,
+        current_version, status, ministry, category
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (law_id) DO UPDATE SET
+        law_type = EXCLUDED.law_type,
+        law_name = EXCLUDED.law_name,
+        law_number = EXCLUDED.law_number,
+        current_version = EXCLUDED.current_version,
+        status = EXCLUDED.status,
+        ministry = EXCLUDED.ministry,
+        category = COALESCE(laws.category, EXCLUDED.category),
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *, (xmax = 0) as inserted`,
+      [
+        law.law_id,
+        law.law_type,
+        law.law_name,
+        law.law_number,
+        law.enactment_date,
+        law.current_version,
+        law.status,
+        law.ministry,
+        law.category
+      ]
+    );
+
+    if (!result) {
+      throw new Error('Failed to upsert law');
+    }
+
+    const { inserted, ...row } = result;
+    return { law: row as Law, inserted };
+  }
+
+  /**
+   * Store a revision together with its articles in one transaction,
+   * so an interrupted sync never leaves a revision without articles
+   */
+  async createRevisionWithArticles(
+    revision: Omit<LawRevision, 'created_at'>,
+    articles: Omit<Article, 'created_at'>[]
+  ): Promise<void> {
+    await this.db.batch([
+      {
+        text: `INSERT INTO law_revisions (
+          revision_id, law_id, revision_type, revision_date, enforcement_date,
+          revision_reason, previous_version, new_version, changed_articles
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        params: [
+          revision.revision_id,
+          revision.law_id,
+          revision.revision_type,
+          revision.revision_date,
+          revision.enforcement_date,
+          revision.revision_reason,
+          revision.previous_version,
+          revision.new_version,
+          JSON.stringify(revision.changed_articles)
+        ]
+      },
+      ...articles.map(article => ({
+        text: `INSERT INTO articles (
+          article_id, law_id, revision_id, article_number, article_title,
+          article_content, article_type, parent_article_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        params: [
+          article.article_id,
+          article.law_id,
+          article.revision_id,
+          article.article_number,
+          article.article_title,
+          article.article_content,
+          article.article_type,
+          article.parent_article_id || null
+        ]
+      }))
+    ]);
+  }
+
+  // ============================================================
+  // Job Runs
+  // ============================================================
+
+  async createJobRun(
+    run: Pick<JobRun, 'run_id' | 'job_name' | 'trigger' | 'triggered_by'>
+  ): Promise<JobRun> {
+    const result = await this.db.queryOne<JobRun>(
+      `INSERT INTO job_runs (run_id, job_name, trigger, triggered_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [run.run_id, run.job_name, run.trigger, run.triggered_by || null]
+    );
+
+    if (!result) {
+      throw new Error('Failed to create job run');
+    }
+
+    return result;
+  }
+
+  async getJobRunById(runId: string): Promise<JobRun | null> {
+    return this.db.queryOne<JobRun>(
+      'SELECT * FROM job_runs WHERE run_id = $1',
+      [runId]
+    );
+  }
+
+  async getJobRuns(filters?: { job_name?: string; limit?: number }): Promise<JobRun[]> {
+    let query = 'SELECT * FROM job_runs WHERE 1=1';
+    const params: any[] = [];
+
+    if (filters?.job_name) {
+      params.push(filters.job_name);
+      query += ` AND job_name = $${params.length}`;
+    }
+
+    params.push(filters?.limit || 50);
+    query += ` ORDER BY started_at DESC LIMIT $${params.length}`;
+
+    const result = await this.db.query<JobRun>(query, params);
+    return result.rows;
+  }
+
+  async updateJobRun(runId: string, updates: Partial<JobRun>): Promise<JobRun | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'run_id' && key !== 'started_at') {
+        fields.push(`${key} = $${paramIndex++}`);
+        values.push(key === 'result' ? JSON.stringify(value) : value);
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.getJobRunById(runId);
+    }
+
+    values.push(runId);
+
+    return this.db.queryOne<JobRun>(
+      `UPDATE job_runs SET ${fields.join(', ')}
+       WHERE run_id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+  }
+
+  // ============================================================
+  // Enforcement Calendar
+  // ============================================================
+
+  /**
+   * Revisions taking effect between from and to (inclusive) whose law is
+   * linked to, or was analysed against, regulations of the tenant scope
+   * (all of them without one). days_left is counted from today.
+   */
+  async getEnforcementCalendar(filters: {
+    today: string; // YYYY-MM-DD
+    from: string;
+    to: string;
+    tenant?: TenantScope | null;
+  }): Promise<EnforcementCalendarEntry[]> {
+    const params: any[] = [filters.today, filters.from, filters.to];
+    const govFilter = (alias: string) => {
+      const condition = tenantCondition(`${alias}.local_gov_code`, filters.tenant, params);
+      return condition ? `AND ${condition}` : '';
+    };
+
+    const result = await this.db.query<EnforcementCalendarEntry>(
+      `SELECT r.revision_id, r.law_id, l.law_name, l.law_type, r.revision_type,
+         to_char(r.revision_date, 'YYYY-MM-DD') as revision_date,
+         to_char(r.enforcement_date, 'YYYY-MM-DD') as enforcement_date,
+         r.enforcement_date - $1::date as days_left,
+         linked.count as affected_regulations,
+         unresolved.count as unresolved_analyses,
+         unresolved.high as high_impact_unresolved,
+         unresolved.top_analysis_id as top_unresolved_analysis_id
+       FROM law_revisions r
+       JOIN laws l ON r.law_id = l.law_id
+       CROSS JOIN LATERAL (
+         SELECT COUNT(DISTINCT lrl.regulation_id)::int as count
+         FROM law_regulation_links lrl
+         JOIN local_regulations lr ON lrl.regulation_id = lr.regulation_id
+         WHERE lrl.law_id = r.law_id
+           AND lrl.verification_status <> 'rejected'
+           ${govFilter('lr')}
+       ) linked
+       CROSS JOIN LATERAL (
+         SELECT COUNT(*)::int as count,
+           COUNT(*) FILTER (WHERE ia.impact_level = 'HIGH')::int as high,
+           (array_agg(ia.analysis_id ORDER BY
+             CASE ia.impact_level WHEN 'HIGH' THEN 0 WHEN 'MEDIUM' THEN 1 ELSE 2 END,
+             ia.created_at))[1] as top_analysis_id
+         FROM impact_analyses ia
+         JOIN local_regulations ar ON ia.regulation_id = ar.regulation_id
+         WHERE ia.revision_id = r.revision_id
+           AND ia.reviewed IS NOT TRUE
+           ${govFilter('ar')}
+       ) unresolved
+       WHERE r.enforcement_date BETWEEN $2::date AND $3::date
+         AND (linked.count > 0 OR unresolved.count > 0)
+       ORDER BY r.enforcement_date, l.law_name`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Users grouped by local government, for deadline warnings
+   */
+  async getEnforcementReminderRecipients(): Promise<User[]> {
+    const result = await this.db.query<User>(
+      `SELECT * FROM users
+       WHERE role <> 'viewer' AND status = 'active'
+       ORDER BY local_gov, user_id`,
+      []
+    );
+    return result.rows;
+  }
+
+  /**
+   * Record a warning about to be sent
+   * Returns false if it was already recorded, so concurrent runs warn once
+   */
+  async claimEnforcementReminder(revisionId: string, userId: string, daysBefore: number): Promise<boolean> {
+    const result = await this.db.query(
+      `INSERT INTO enforcement_reminders (revision_id, user_id, days_before)
+       VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING
+       RETURNING revision_id`,
+      [revisionId, userId, daysBefore]
+    );
+    return result.rows.length > 0;
+  }
+
+  // ============================================================
+  // Daily Digest
+  // ============================================================
+
+  async getDigestRecipients(): Promise<User[]> {
+    const result = await this.db.query<User>(
+      `SELECT * FROM users
+       WHERE (notification_settings->>'email_enabled')::boolean IS TRUE
+         AND status = 'active'
+       ORDER BY user_id`,
+      []
+    );
+    return result.rows;
+  }
+
+  /**
+   * Review backlog for the digest, within the recipient's tenant scope
+   */
+  async getDigestStats(tenant?: TenantScope | null): Promise<{
+    pending_reviews: number;
+    urgent_count: number;
+    new_today: number;
+  }> {
+    const where = createQueryFilters().tenant('lr.local_gov_code', tenant);
+
+    const result = await this.db.queryOne<Record<string, string>>(
+      `SELECT
+        COUNT(*) FILTER (WHERE ia.reviewed IS NOT TRUE) as pending_reviews,
+        COUNT(*) FILTER (WHERE ia.reviewed IS NOT TRUE AND ia.impact_level = 'HIGH') as urgent_count,
+        COUNT(*) FILTER (WHERE ia.created_at >= CURRENT_TIMESTAMP - INTERVAL '1 day') as new_today
+      FROM impact_analyses ia
+      JOIN local_regulations lr ON ia.regulation_id = lr.regulation_id
+      ${where.clause()}`,
+      where.params
+    );
+
+    return {
+      pending_reviews: parseInt(result?.pending_reviews || '0'),
+      urgent_count: parseInt(result?.urgent_count || '0'),
+      new_today: parseInt(result?.new_today || '0')
+    };
+  }
+
+  // ============================================================
+  // Users
+  // ============================================================
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    return this.db.queryOne<User>(
+      'SELECT * FROM users WHERE email = $1',
+      [email]
+    );
+  }
+
+  async getUserById(userId: string): Promise<User | null> {
+    return this.db.queryOne<User>(
+      'SELECT * FROM users WHERE user_id = $1',
+      [userId]
+    );
+  }
+
+  /**
+   * Users of a local government for user management, by name
+   * search matches username or email; a null code matches nobody
+   */
+  async getUsers(filters: {
+    local_gov_code: string | null;
+    role?: UserRole;
+    status?: UserStatus;
+    search?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ users: User[]; total: number }> {
+    const where = createQueryFilters();
+    where
+      .where(`local_gov_code = ${where.bind(filters.local_gov_code)}`)
+      .equals('role', filters.role)
+      .equals('status', filters.status)
+      .add(filters.search ? `%${escapeLike(filters.search)}%` : undefined, p => `(username ILIKE ${p} OR email ILIKE ${p})`);
+
+    const [result, countResult] = await Promise.all([
+      this.db.query<User>(
+        `SELECT * FROM users
+         ${where.clause()}
+         ORDER BY username
+         LIMIT $${where.params.length + 1} OFFSET $${where.params.length + 2}`,
+        [...where.params, filters.limit, filters.offset]
+      ),
+      this.db.queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM users ${where.clause()}`,
+        where.params
+      )
+    ]);
+
+    return {
+      users: result.rows,
+      total: parseInt(countResult?.count || '0')
+    };
+  }
+
+  async createUser(user: Omit<User, 'created_at' | 'status' | 'suspended_at'>): Promise<User> {
+    const result = await this.db.queryOne<User>(
+      `INSERT INTO users (
+        user_id, username, email, password_hash, local_gov, local_gov_code, department,
+        role, notification_settings
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        user.user_id,
+        user.username,
+        user.email,
+        user.password_hash,
+        user.local_gov,
+        user.local_gov_code,
+        user.department,
+        user.role,
+        JSON.stringify(user.notification_settings)
+      ]
+    );
+
+    if (!result) {
+      throw new Error('Failed to create user');
+    }
+
+    return result;
+  }
+
+  async updateUser(userId: string, updates: Partial<User>): Promise<User | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'user_id' && key !== 'created_at') {
+        if (key === 'notification_settings') {
+          fields.push(`${key} = $${paramIndex++}`);
+          values.push(JSON.stringify(value));
+        } else {
+          fields.push(`${key} = $${paramIndex++}`);
+          values.push(value);
+        }
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.getUserById(userId);
+    }
+
+    values.push(userId);
+
+    return this.db.queryOne<User>(
+      `UPDATE users SET ${fields.join(', ')}
+       WHERE user_id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+  }
+
+  /**
+   * Delete a user
+   * Fails with a foreign key violation (23503) while review or verification
+   * history still references the user
+   */
+  async deleteUser(userId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM users WHERE user_id = $1 RETURNING user_id',
+      [userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async updateLastLogin(userId: string): Promise<void> {
+    await this.db.query(
+      'UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE user_id = $1',
+      [userId]
+    );
+  }
+
+  // ============================================================
+  // Auth Sessions
+  // ============================================================
+
+  /**
+   * What authMiddleware needs to accept an access token: the user's status
+   * and whether its session is neither revoked nor expired
+   */
+  async getSessionState(userId: string, sessionId: string): Promise<{ status: UserStatus; session_active: boolean } | null> {
+    return this.db.queryOne(
+      `SELECT u.status,
+         (s.session_id IS NOT NULL AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP) as session_active
+       FROM users u
+       LEFT JOIN auth_sessions s ON s.session_id = $2 AND s.user_id = u.user_id
+       WHERE u.user_id = $1`,
+      [userId, sessionId]
+    );
+  }
+
+  /**
+   * Start a session with its first refresh token
+   */
+  async createSession(
+    session: Pick<AuthSession, 'session_id' | 'user_id' | 'user_agent' | 'ip_address' | 'expires_at'>,
+    refreshTokenHash: string
+  ): Promise<void> {
+    await this.db.batch([
+      {
+        text: `INSERT INTO auth_sessions (session_id, user_id, user_agent, ip_address, expires_at)
+               VALUES ($1, $2, $3, $4, $5)`,
+        params: [session.session_id, session.user_id, session.user_agent || null, session.ip_address || null, session.expires_at]
+      },
+      {
+        text: 'INSERT INTO refresh_tokens (token_hash, session_id) VALUES ($1, $2)',
+        params: [refreshTokenHash, session.session_id]
+      }
+    ]);
+  }
+
+  /**
+   * Exchange an unused refresh token for a new one in one statement
+   * Returns the session's user, or null when the token is unknown or used,
+   * the session is revoked or expired, or the user is not active.
+   */
+  async rotateRefreshToken(tokenHash: string, newTokenHash: string): Promise<(User & { session_id: string }) | null> {
+    return this.db.queryOne(
+      `WITH old_token AS (
+         UPDATE refresh_tokens SET used_at = CURRENT_TIMESTAMP
+         WHERE token_hash = $1 AND used_at IS NULL
+         RETURNING session_id
+       ), session AS (
+         UPDATE auth_sessions s SET last_used_at = CURRENT_TIMESTAMP
+         FROM old_token, users u
+         WHERE s.session_id = old_token.session_id
+           AND s.revoked_at IS NULL
+           AND s.expires_at > CURRENT_TIMESTAMP
+           AND u.user_id = s.user_id
+           AND u.status = 'active'
+         RETURNING s.session_id, s.user_id
+       ), new_token AS (
+         INSERT INTO refresh_tokens (token_hash, session_id)
+         SELECT $2, session_id FROM session
+       )
+       SELECT u.*, session.session_id
+       FROM session
+       JOIN users u ON u.user_id = session.user_id`,
+      [tokenHash, newTokenHash]
+    );
+  }
+
+  /**
+   * Session of a refresh token that was already used
+   */
+  async getSessionIdOfUsedRefreshToken(tokenHash: string): Promise<string | null> {
+    const row = await this.db.queryOne<{ session_id: string }>(
+      'SELECT session_id FROM refresh_tokens WHERE token_hash = $1 AND used_at IS NOT NULL',
+      [tokenHash]
+    );
+    return row?.session_id || null;
+  }
+
+  async revokeSession(sessionId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE session_id = $1 AND revoked_at IS NULL
+       RETURNING session_id`,
+      [sessionId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Log a user out everywhere, calendar subscription included; returns
+   * the number of sessions revoked
+   */
+  async revokeUserSessions(userId: string): Promise<number> {
+    const result = await this.db.query(
+      `WITH feed_token AS (
+         DELETE FROM calendar_feed_tokens WHERE user_id = $1
+       )
+       UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND revoked_at IS NULL
+       RETURNING session_id`,
+      [userId]
+    );
+    return result.rows.length;
+  }
+
+  // ============================================================
+  // Calendar Feed Tokens
+  // ============================================================
+
+  /**
+   * Set the user's calendar feed token; the previous one stops working
+   */
+  async replaceCalendarFeedToken(userId: string, tokenHash: string): Promise<void> {
+    await this.db.query(
+      `INSERT INTO calendar_feed_tokens (user_id, token_hash) VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE
+       SET token_hash = EXCLUDED.token_hash, last_used_at = NULL, created_at = CURRENT_TIMESTAMP`,
+      [userId, tokenHash]
+    );
+  }
+
+  async revokeCalendarFeedToken(userId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM calendar_feed_tokens WHERE user_id = $1 RETURNING user_id',
+      [userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Owner of a calendar feed token, or null when the token is unknown or
+   * the user is not active
+   */
+  async getUserByCalendarFeedToken(tokenHash: string): Promise<User | null> {
+    return this.db.queryOne<User>(
+      `UPDATE calendar_feed_tokens t SET last_used_at = CURRENT_TIMESTAMP
+       FROM users u
+       WHERE t.token_hash = $1 AND u.user_id = t.user_id AND u.status = 'active'
+       RETURNING u.*`,
+      [tokenHash]
+    );
+  }
+
+  // ============================================================
+  // Password Reset
+  // ============================================================
+
+  /**
+   * Log a reset request and count the requests for the same email and
+   * from the same IP since the given time, including this one
+   */
+  async recordPasswordResetRequest(
+    email: string,
+    ip: string | null,
+    since: Date
+  ): Promise<{ by_email: number; by_ip: number }> {
+    const [, counts] = await this.db.batch<Record<string, string>>([
+      {
+        text: 'INSERT INTO password_reset_requests (email, ip_address) VALUES ($1, $2)',
+        params: [email, ip]
+      },
+      {
+        text: `SELECT
+            COUNT(*) FILTER (WHERE email = $1) as by_email,
+            COUNT(*) FILTER (WHERE ip_address = $2) as by_ip
+          FROM password_reset_requests
+          WHERE created_at > $3 AND (email = $1 OR ip_address = $2)`,
+        params: [email, ip, since]
+      }
+    ]);
+
+    return {
+      by_email: parseInt(counts[0]?.by_email || '0'),
+      by_ip: parseInt(counts[0]?.by_ip || '0')
+    };
+  }
+
+  /**
+   * Store a reset token, invalidating the user's earlier ones
+   */
+  async createPasswordResetToken(token: {
+    token_hash: string;
+    user_id: string;
+    expires_at: Date;
+    requested_ip: string | null;
+  }): Promise<void> {
+    await this.db.batch([
+      {
+        text: `UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP
+               WHERE user_id = $1 AND used_at IS NULL`,
+        params: [token.user_id]
+      },
+      {
+        text: `INSERT INTO password_reset_tokens (token_hash, user_id, expires_at, requested_ip)
+               VALUES ($1, $2, $3, $4)`,
+        params: [token.token_hash, token.user_id, token.expires_at, token.requested_ip]
+      }
+    ]);
+  }
+
+  /**
+   * Use a reset token and set the new password in one statement
+   * Also revokes every session and the calendar feed token of the user and
+   * invalidates the user's other open reset tokens.
+   * Returns null when the token is unknown, used or expired.
+   */
+  async resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | null> {
+    return this.db.queryOne<User>(
+      `WITH token AS (
+         UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP
+         WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+         RETURNING user_id
+       ), other_tokens AS (
+         UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP
+         WHERE user_id IN (SELECT user_id FROM token) AND token_hash <> $1 AND used_at IS NULL
+       ), sessions AS (
+         UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP
+         WHERE user_id IN (SELECT user_id FROM token) AND revoked_at IS NULL
+       ), feed_token AS (
+         DELETE FROM calendar_feed_tokens WHERE user_id IN (SELECT user_id FROM token)
+       )
+       UPDATE users SET password_hash = $2
+       FROM token
+       WHERE users.user_id = token.user_id AND users.status = 'active'
+       RETURNING users.*`,
+      [tokenHash, passwordHash]
+    );
+  }
+
+  // ============================================================
+  // User Invitations
+  // ============================================================
+
+  async createInvitation(
+    invitation: Omit<UserInvitation, 'accepted_at' | 'accepted_user_id' | 'revoked_at' | 'created_at'>,
+    tokenHash: string
+  ): Promise<UserInvitation> {
+    const result = await this.db.queryOne<UserInvitation>(
+      `INSERT INTO user_invitations (
+        invitation_id, token_hash, email, local_gov, local_gov_code, department, role, invited_by, expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING ${INVITATION_COLUMNS}`,
+      [
+        invitation.invitation_id,
+        tokenHash,
+        invitation.email,
+        invitation.local_gov,
+        invitation.local_gov_code,
+        invitation.department || null,
+        invitation.role,
+        invitation.invited_by || null,
+        invitation.expires_at
+      ]
+    );
+
+    if (!result) {
+      throw new Error('Failed to create invitation');
+    }
+
+    return result;
+  }
+
+  async getInvitationById(invitationId: string): Promise<UserInvitation | null> {
+    return this.db.queryOne<UserInvitation>(
+      `SELECT ${INVITATION_COLUMNS} FROM user_invitations WHERE invitation_id = $1`,
+      [invitationId]
+    );
+  }
+
+  /**
+   * Invitation that can still be accepted with this token
+   */
+  async getOpenInvitationByTokenHash(tokenHash: string): Promise<UserInvitation | null> {
+    return this.db.queryOne<UserInvitation>(
+      `SELECT ${INVITATION_COLUMNS} FROM user_invitations
+       WHERE token_hash = $1 AND ${OPEN_INVITATION}`,
+      [tokenHash]
+    );
+  }
+
+  /**
+   * Invitations of a local government, newest first
+   * pending: neither accepted, revoked nor expired; a null code matches none
+   */
+  async getInvitations(filters: {
+    local_gov_code: string | null;
+    pending?: boolean;
+    limit: number;
+    offset: number;
+  }): Promise<{ invitations: UserInvitation[]; total: number }> {
+    const where = createQueryFilters();
+    where.where(`local_gov_code = ${where.bind(filters.local_gov_code)}`);
+    if (filters.pending) {
+      where.where(OPEN_INVITATION);
+    }
+
+    const [result, countResult] = await Promise.all([
+      this.db.query<UserInvitation>(
+        `SELECT ${INVITATION_COLUMNS} FROM user_invitations
+         ${where.clause()}
+         ORDER BY created_at DESC
+         LIMIT $${where.params.length + 1} OFFSET $${where.params.length + 2}`,
+        [...where.params, filters.limit, filters.offset]
+      ),
+      this.db.queryOne<{ count: string }>(
+        `SELECT COUNT(*) as count FROM user_invitations ${where.clause()}`,
+        where.params
+      )
+    ]);
+
+    return {
+      invitations: result.rows,
+      total: parseInt(countResult?.count || '0')
+    };
+  }
+
+  /**
+   * Revoke an invitation that has not been accepted yet
+   */
+  async revokeInvitation(invitationId: string): Promise<UserInvitation | null> {
+    return this.db.queryOne<UserInvitation>(
+      `UPDATE user_invitations SET revoked_at = CURRENT_TIMESTAMP
+       WHERE invitation_id = $1 AND accepted_at IS NULL AND revoked_at IS NULL
+       RETURNING ${INVITATION_COLUMNS}`,
+      [invitationId]
+    );
+  }
+
+  /**
+   * Consume an open invitation and create its user in one statement
+   * The invitation fixes email, local government, department and role.
+   * Returns null when the token is unknown, used, revoked or expired;
+   * a duplicate username or email fails with 23505 and leaves the
+   * invitation open.
+   */
+  async acceptInvitation(
+    tokenHash: string,
+    user: Pick<User, 'user_id' | 'username' | 'password_hash' | 'notification_settings'>
+  ): Promise<User | null> {
+    return this.db.queryOne<User>(
+      `WITH invitation AS (
+         UPDATE user_invitations
+         SET accepted_at = CURRENT_TIMESTAMP, accepted_user_id = $1
+         WHERE token_hash = $2 AND ${OPEN_INVITATION}
+         RETURNING email, local_gov, local_gov_code, department, role
+       )
+       INSERT INTO users (
+         user_id, username, email, password_hash, local_gov, local_gov_code, department,
+         role, notification_settings
+       )
+       SELECT $1, $3, email, $4, local_gov, local_gov_code, COALESCE(department, ''), role, $5
+       FROM invitation
+       RETURNING *`,
+      [
+        user.user_id,
+        tokenHash,
+        user.username,
+        user.password_hash,
+        JSON.stringify(user.notification_settings)
+      ]
+    );
+  }
+
+  // ============================================================
+  // Notifications
+  // ============================================================
+
+  async createNotification(notification: Omit<Notification, 'sent_at'>): Promise<Notification> {
+    const result = await this.db.queryOne<Notification>(
+      `INSERT INTO notifications (
+        notification_id, user_id, analysis_id, notification_type,
+        title, message, read
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        notification.notification_id,
+        notification.user_id,
+        notification.analysis_id,
+        notification.notification_type,
+        notification.title,
+        notification.message,
+        notification.read
+      ]
+    );
+
+    if (!result) {
+      throw new Error('Failed to create notification');
+    }
+
+    return result;
+  }
+
+  async getNotificationsByUserId(
+    userId: string,
+    unreadOnly: boolean = false,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ notifications: Notification[]; total: number }> {
+    let query = 'SELECT * FROM notifications WHERE user_id = $1';
+    const params: any[] = [userId];
+
+    if (unreadOnly) {
+      query += ' AND read = false';
+    }
+
+    // Count total
+    const countResult = await this.db.queryOne<{ count: string }>(
+      query.replace('SELECT *', 'SELECT COUNT(*) as count'),
+      params
+    );
+    const total = parseInt(countResult?.count || '0');
+
+    // Add pagination
+    query += ' ORDER BY sent_at DESC LIMIT $2 OFFSET $3';
+    params.push(limit, offset);
+
+    const result = await this.db.query<Notification>(query, params);
+
+    return {
+      notifications: result.rows,
+      total
+    };
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const result = await this.db.queryOne<{ count: string }>(
+      'SELECT COUNT(*) as count FROM notifications WHERE user_id = $1 AND read = false',
+      [userId]
     );
     return parseInt(result?.count || '0');
   }
@@ -444,11 +2516,462 @@ export class DatabaseService {
     );
     return result.rows;
   }
+
+  /**
+   * Law articles ranked by cosine similarity, joined with the law name
+   */
+  async searchArticlesByEmbedding(
+    embedding: number[],
+    threshold: number,
+    limit: number
+  ): Promise<Array<Article & { law_name: string; similarity: number }>> {
+    const result = await this.db.query<Article & { law_name: string; similarity: number }>(
+      `WITH q AS (SELECT $1::vector AS embedding)
+       SELECT a.article_id, a.law_id, a.article_number, a.article_title, a.article_content,
+         l.law_name,
+         1 - (a.vector_embedding <=> q.embedding) as similarity
+       FROM q, articles a
+       JOIN laws l ON a.law_id = l.law_id
+       WHERE a.vector_embedding IS NOT NULL
+         AND 1 - (a.vector_embedding <=> q.embedding) >= $2
+       ORDER BY a.vector_embedding <=> q.embedding
+       LIMIT $3`,
+      [JSON.stringify(embedding), threshold, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Regulation articles ranked by cosine similarity, joined with the regulation name
+   */
+  async searchRegulationArticlesByEmbedding(
+    embedding: number[],
+    threshold: number,
+    limit: number,
+    tenant?: TenantScope | null
+  ): Promise<Array<RegulationArticle & { regulation_name: string; local_gov: string; similarity: number }>> {
+    const params: any[] = [JSON.stringify(embedding), threshold, limit];
+    const scope = tenantCondition('lr.local_gov_code', tenant, params);
+
+    const result = await this.db.query<RegulationArticle & { regulation_name: string; local_gov: string; similarity: number }>(
+      `WITH q AS (SELECT $1::vector AS embedding)
+       SELECT ra.reg_article_id, ra.regulation_id, ra.article_number, ra.article_title, ra.article_content,
+         lr.regulation_name, lr.local_gov,
+         1 - (ra.vector_embedding <=> q.embedding) as similarity
+       FROM q, regulation_articles ra
+       JOIN local_regulations lr ON ra.regulation_id = lr.regulation_id
+       WHERE ra.vector_embedding IS NOT NULL
+         AND 1 - (ra.vector_embedding <=> q.embedding) >= $2
+         ${scope ? `AND ${scope}` : ''}
+       ORDER BY ra.vector_embedding <=> q.embedding
+       LIMIT $3`,
+      params
+    );
+    return result.rows;
+  }
+
+  // ============================================================
+  // Analysis Statistics
+  // ============================================================
+
+  async getAnalysisStats(filters: AnalysisStatsFilters): Promise<AnalysisStatsResponse> {
+    const from = `FROM impact_analyses ia
+      JOIN local_regulations lr ON ia.regulation_id = lr.regulation_id`;
+    const { where, params } = this.analysisStatsWhere(filters);
+    // groupBy is a StatsGroupBy literal, never user text
+    const bucket = `date_trunc('${filters.groupBy}', ia.created_at)`;
+
+    const [totals, byLocalGov, timeline] = await Promise.all([
+      this.db.queryOne<Record<string, string>>(
+        `SELECT
+          COUNT(*) as total,
+          COUNT(*) FILTER (WHERE ia.reviewed IS NOT TRUE) as pending,
+          COUNT(*) FILTER (WHERE ia.reviewed IS TRUE) as completed,
+          COUNT(*) FILTER (WHERE ia.impact_level = 'HIGH') as high,
+          COUNT(*) FILTER (WHERE ia.impact_level = 'MEDIUM') as medium,
+          COUNT(*) FILTER (WHERE ia.impact_level = 'LOW') as low
+        ${from} ${where}`,
+        params
+      ),
+      this.db.query<{ local_gov: string; count: string }>(
+        `SELECT lr.local_gov, COUNT(*) as count
+        ${from} ${where}
+        GROUP BY lr.local_gov
+        ORDER BY count DESC, lr.local_gov`,
+        params
+      ),
+      this.db.query<{ date: string; count: string }>(
+        `SELECT to_char(${bucket}, 'YYYY-MM-DD') as date, COUNT(*) as count
+        ${from} ${where}
+        GROUP BY ${bucket}
+        ORDER BY ${bucket}`,
+        params
+      )
+    ]);
+
+    return {
+      total_analyses: parseInt(totals?.total || '0'),
+      pending_reviews: parseInt(totals?.pending || '0'),
+      completed_reviews: parseInt(totals?.completed || '0'),
+      by_impact_level: {
+        high: parseInt(totals?.high || '0'),
+        medium: parseInt(totals?.medium || '0'),
+        low: parseInt(totals?.low || '0')
+      },
+      by_local_gov: byLocalGov.rows.map(r => ({ local_gov: r.local_gov, count: parseInt(r.count) })),
+      timeline: timeline.rows.map(r => ({ date: r.date, count: parseInt(r.count) }))
+    };
+  }
+
+  private analysisStatsWhere(filters: AnalysisStatsFilters): { where: string; params: any[] } {
+    const where = createQueryFilters()
+      .tenant('lr.local_gov_code', filters.tenant)
+      .add(filters.from, p => `ia.created_at >= ${p}::date`)
+      .add(filters.to, p => `ia.created_at < ${p}::date + INTERVAL '1 day'`);
+
+    return {
+      where: where.clause(),
+      params: where.params
+    };
+  }
+
+  // ============================================================
+  // Catalog Statistics
+  // ============================================================
+
+  /**
+   * Overview counts, coverage and top lists for the dashboard
+   */
+  async getDashboardStats(tenant?: TenantScope | null): Promise<{
+    totals: Record<string, number>;
+    top_laws: Array<{ law_name: string; regulation_count: string; avg_confidence: string }>;
+    regulations_by_type: Array<{ regulation_type: string; count: string }>;
+    top_departments: Array<{ department: string; count: string }>;
+    recent_regulations: any[];
+  }> {
+    // Laws are national; regulation and link counts are of the tenant only
+    const regs = scopedRegulations(tenant);
+    const links = `law_regulation_links lrl JOIN scoped_regulations r ON lrl.regulation_id = r.regulation_id`;
+
+    const [totals, topLaws, byType, topDepartments, recent] = await Promise.all([
+      this.db.queryOne<Record<string, string>>(
+        `${regs.cte}
+        SELECT
+          (SELECT COUNT(*) FROM laws) as total_laws,
+          (SELECT COUNT(*) FROM articles) as total_articles,
+          (SELECT COUNT(*) FROM scoped_regulations) as total_regulations,
+          (SELECT COUNT(*) FROM ${links}) as total_links,
+          (SELECT COUNT(*) FROM articles WHERE vector_embedding IS NOT NULL) as articles_with_embedding,
+          (SELECT COUNT(*) FROM scoped_regulations WHERE vector_embedding IS NOT NULL) as regulations_with_embedding,
+          (SELECT COUNT(DISTINCT lrl.regulation_id) FROM ${links}) as linked_regulations`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT l.law_name,
+           COUNT(DISTINCT lrl.regulation_id) as regulation_count,
+           AVG(lrl.confidence_score) as avg_confidence
+         FROM ${links}
+         JOIN laws l ON lrl.law_id = l.law_id
+         GROUP BY l.law_id, l.law_name
+         ORDER BY regulation_count DESC
+         LIMIT 5`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT regulation_type, COUNT(*) as count
+         FROM scoped_regulations
+         GROUP BY regulation_type
+         ORDER BY count DESC`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT department, COUNT(*) as count
+         FROM scoped_regulations
+         WHERE department IS NOT NULL
+         GROUP BY department
+         ORDER BY count DESC
+         LIMIT 10`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT regulation_id, regulation_name, regulation_type, department, created_at
+         FROM scoped_regulations
+         ORDER BY created_at DESC
+         LIMIT 5`,
+        regs.params
+      )
+    ]);
+
+    const counts: Record<string, number> = {};
+    for (const [key, value] of Object.entries(totals || {})) {
+      counts[key] = parseInt(value || '0');
+    }
+
+    return {
+      totals: counts,
+      top_laws: topLaws.rows,
+      regulations_by_type: byType.rows,
+      top_departments: topDepartments.rows,
+      recent_regulations: recent.rows
+    };
+  }
+
+  /**
+   * Link type, confidence and verification breakdowns of law_regulation_links
+   */
+  async getLinkageStats(tenant?: TenantScope | null): Promise<{
+    by_link_type: Array<{ link_type: string; count: string }>;
+    confidence_distribution: Array<{ score_range: string; count: string }>;
+    verification_status: Array<{ verified: boolean; verification_status: string; count: string }>;
+    top_laws: Array<{ law_name: string; link_count: string; avg_confidence: string }>;
+    top_regulations: Array<{ regulation_name: string; regulation_type: string; link_count: string; avg_confidence: string }>;
+  }> {
+    const regs = scopedRegulations(tenant);
+    const links = `law_regulation_links lrl JOIN scoped_regulations lr ON lrl.regulation_id = lr.regulation_id`;
+
+    const [byLinkType, confidence, verification, topLaws, topRegulations] = await Promise.all([
+      this.db.query(
+        `${regs.cte}
+         SELECT lrl.link_type, COUNT(*) as count
+         FROM ${links}
+         GROUP BY lrl.link_type
+         ORDER BY count DESC`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT
+           CASE
+             WHEN lrl.confidence_score >= 0.9 THEN '0.9-1.0'
+             WHEN lrl.confidence_score >= 0.8 THEN '0.8-0.9'
+             WHEN lrl.confidence_score >= 0.7 THEN '0.7-0.8'
+             WHEN lrl.confidence_score >= 0.6 THEN '0.6-0.7'
+             ELSE 'Below 0.6'
+           END as score_range,
+           COUNT(*) as count
+         FROM ${links}
+         GROUP BY score_range
+         ORDER BY score_range DESC`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT lrl.verified, lrl.verification_status, COUNT(*) as count
+         FROM ${links}
+         GROUP BY lrl.verified, lrl.verification_status`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT l.law_name,
+           COUNT(*) as link_count,
+           AVG(lrl.confidence_score) as avg_confidence
+         FROM ${links}
+         JOIN laws l ON lrl.law_id = l.law_id
+         GROUP BY l.law_id, l.law_name
+         ORDER BY link_count DESC
+         LIMIT 10`,
+        regs.params
+      ),
+      this.db.query(
+        `${regs.cte}
+         SELECT lr.regulation_name, lr.regulation_type,
+           COUNT(*) as link_count,
+           AVG(lrl.confidence_score) as avg_confidence
+         FROM ${links}
+         GROUP BY lr.regulation_id, lr.regulation_name, lr.regulation_type
+         ORDER BY link_count DESC
+         LIMIT 10`,
+        regs.params
+      )
+    ]);
+
+    return {
+      by_link_type: byLinkType.rows,
+      confidence_distribution: confidence.rows,
+      verification_status: verification.rows,
+      top_laws: topLaws.rows,
+      top_regulations: topRegulations.rows
+    };
+  }
+
+  // ============================================================
+  // Hybrid Search
+  // ============================================================
+
+  /**
+   * Trigram/substring search on law or regulation names.
+   * A name contained verbatim in the query (e.g. "지방자치법 주민참여") scores 1.
+   */
+  async lexicalSearchDocuments(
+    kind: SearchKind,
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+    tenant?: TenantScope | null
+  ): Promise<DocumentSearchRow[]> {
+    const target = SEARCH_TARGETS[kind];
+    const name = `d.${target.name}`;
+    const pattern = `%${escapeLike(query)}%`;
+    const params: any[] = [query, query, query, pattern, pattern, query, query, query];
+
+    let sqlText = `SELECT ${target.columns},
+        d.${target.id} as id, ${name} as name,
+        GREATEST(
+          similarity(${name}, $1),
+          word_similarity(${name}, $2),
+          CASE WHEN position(${name} in $3) > 0 OR ${name} ILIKE $4 THEN 1 ELSE 0 END
+        ) as score
+      FROM ${target.table} d
+      WHERE (
+        ${name} ILIKE $5
+        OR position(${name} in $6) > 0
+        OR word_similarity(${name}, $7) >= 0.5
+        OR similarity(${name}, $8) >= 0.3
+      )`;
+
+    sqlText += appendFilters(filters, target.filters, params);
+    sqlText += appendTenant(target.tenant, tenant, params);
+
+    params.push(limit);
+    sqlText += ` ORDER BY score DESC, ${name} LIMIT $${params.length}`;
+
+    const result = await this.db.query<DocumentSearchRow>(sqlText, params);
+    return result.rows;
+  }
+
+  /**
+   * Laws or regulations ranked by their best matching article embedding
+   */
+  async vectorSearchDocuments(
+    kind: SearchKind,
+    embedding: number[],
+    filters: SearchFilters,
+    limit: number,
+    tenant?: TenantScope | null
+  ): Promise<DocumentSearchRow[]> {
+    const target = SEARCH_TARGETS[kind];
+    const params: any[] = [JSON.stringify(embedding)];
+
+    // Filter before the LIMIT so nearest articles of other documents or
+    // tenants do not crowd out the ones that qualify
+    let sqlText = `WITH q AS (SELECT $1::vector AS embedding),
+      nearest AS (
+        SELECT x.${target.id} as id, 1 - (x.vector_embedding <=> q.embedding) as similarity
+        FROM q, ${target.articles.table} x
+        JOIN ${target.table} d ON d.${target.id} = x.${target.id}
+        WHERE x.vector_embedding IS NOT NULL`;
+
+    sqlText += appendFilters(filters, target.filters, params);
+    sqlText += appendTenant(target.tenant, tenant, params);
+
+    // Over-fetch nearest articles so enough distinct documents survive grouping
+    params.push(limit * 10);
+    sqlText += `
+        ORDER BY x.vector_embedding <=> q.embedding
+        LIMIT $${params.length}
+      )
+      SELECT ${target.columns},
+        d.${target.id} as id, d.${target.name} as name,
+        MAX(n.similarity) as score
+      FROM nearest n
+      JOIN ${target.table} d ON d.${target.id} = n.id`;
+
+    params.push(limit);
+    sqlText += ` GROUP BY d.${target.id} ORDER BY score DESC LIMIT $${params.length}`;
+
+    const result = await this.db.query<DocumentSearchRow>(sqlText, params);
+    return result.rows;
+  }
+
+  /**
+   * Substring/trigram search on article content
+   * Law articles come from the latest revision, or the one in force on asOf
+   */
+  async lexicalSearchArticles(
+    kind: SearchKind,
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+    tenant?: TenantScope | null,
+    asOf?: string
+  ): Promise<ArticleSearchRow[]> {
+    const target = SEARCH_TARGETS[kind];
+    const articles = target.articles;
+    const pattern = `%${escapeLike(query)}%`;
+    const params: any[] = [query, pattern, pattern, pattern, pattern, query];
+
+    let sqlText = `SELECT x.${articles.id} as article_id, d.${target.id} as parent_id,
+        d.${target.name} as name, ${articles.localGov} as local_gov,
+        x.article_number, x.article_title, x.article_content,
+        GREATEST(
+          word_similarity($1, x.article_content),
+          CASE WHEN x.article_content ILIKE $2 OR x.article_title ILIKE $3 THEN 1 ELSE 0 END
+        ) as score
+      FROM ${articles.table} x
+      JOIN ${target.table} d ON d.${target.id} = x.${target.id}
+      WHERE x.parent_article_id IS NULL
+        AND (
+          x.article_content ILIKE $4
+          OR x.article_title ILIKE $5
+          OR word_similarity($6, x.article_content) >= 0.5
+        )`;
+
+    sqlText += appendFilters(filters, { ...target.filters, ...articles.filters }, params);
+    sqlText += appendTenant(target.tenant, tenant, params);
+    sqlText += appendRevision(articles.revision, asOf, params);
+
+    params.push(limit);
+    sqlText += ` ORDER BY score DESC, d.${target.name}, x.article_number LIMIT $${params.length}`;
+
+    const result = await this.db.query<ArticleSearchRow>(sqlText, params);
+    return result.rows;
+  }
+
+  /**
+   * Articles ranked by cosine similarity with optional filters
+   * Law articles come from the latest revision, or the one in force on asOf
+   */
+  async vectorSearchArticles(
+    kind: SearchKind,
+    embedding: number[],
+    filters: SearchFilters,
+    limit: number,
+    tenant?: TenantScope | null,
+    asOf?: string
+  ): Promise<ArticleSearchRow[]> {
+    const target = SEARCH_TARGETS[kind];
+    const articles = target.articles;
+    const params: any[] = [JSON.stringify(embedding)];
+
+    let sqlText = `WITH q AS (SELECT $1::vector AS embedding)
+      SELECT x.${articles.id} as article_id, d.${target.id} as parent_id,
+        d.${target.name} as name, ${articles.localGov} as local_gov,
+        x.article_number, x.article_title, x.article_content,
+        1 - (x.vector_embedding <=> q.embedding) as score
+      FROM q, ${articles.table} x
+      JOIN ${target.table} d ON d.${target.id} = x.${target.id}
+      WHERE x.vector_embedding IS NOT NULL`;
+
+    sqlText += appendFilters(filters, { ...target.filters, ...articles.filters }, params);
+    sqlText += appendTenant(target.tenant, tenant, params);
+    sqlText += appendRevision(articles.revision, asOf, params);
+
+    params.push(limit);
+    sqlText += ` ORDER BY x.vector_embedding <=> q.embedding LIMIT $${params.length}`;
+
+    const result = await this.db.query<ArticleSearchRow>(sqlText, params);
+    return result.rows;
+  }
 }
 
 /**
  * Create database service instance
  */
-export function createDatabaseService(db: any): DatabaseService {
+export function createDatabaseService(db: Database): DatabaseService {
   return new DatabaseService(db);
 }
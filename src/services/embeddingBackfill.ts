@@ -0,0 +1,81 @@
+/**
+ * Embedding Backfill Service
+ * Generates embeddings for law and regulation articles stored without one
+ */
+
+import type { CloudflareBindings } from '../types/bindings';
+import type { DatabaseService, SearchKind } from './databaseImpl';
+import { embedQuery } from './semanticSearch';
+
+// Articles embedded per kind and run, keeps a run within Workers limits
+const DEFAULT_BATCH_SIZE = 100;
+// Gemini input limit is ~8000 characters
+const MAX_TEXT_LENGTH = 7000;
+
+export interface EmbeddingBackfillResult {
+  law_articles: number;
+  regulation_articles: number;
+  failed: number;
+}
+
+/**
+ * Embed articles missing a vector, using the same model as semantic search
+ */
+export async function backfillEmbeddings(
+  dbService: DatabaseService,
+  env: Pick<CloudflareBindings, 'GEMINI_API_KEY' | 'OPENAI_API_KEY'>,
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<EmbeddingBackfillResult> {
+  const result: EmbeddingBackfillResult = {
+    law_articles: 0,
+    regulation_articles: 0,
+    failed: 0
+  };
+
+  const kinds: SearchKind[] = ['law', 'regulation'];
+
+  for (const kind of kinds) {
+    const articles = await dbService.getArticlesMissingEmbedding(kind, batchSize);
+
+    for (const article of articles) {
+      const response = await embedQuery(buildEmbeddingText(article), env);
+
+      if (!response.success || !response.embedding) {
+        console.error('[EmbeddingBackfill] Failed to embed article:', article.article_id, response.error);
+        result.failed++;
+        continue;
+      }
+
+      if (kind === 'law') {
+        await dbService.updateArticleEmbedding(article.article_id, response.embedding);
+        result.law_articles++;
+      } else {
+        await dbService.updateRegulationArticleEmbedding(article.article_id, response.embedding);
+        result.regulation_articles++;
+      }
+
+      // Rate limiting: wait 100ms between embedding requests
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  console.log('[EmbeddingBackfill] Completed:', result);
+
+  return result;
+}
+
+/**
+ * Same text layout as scripts/generate-embeddings.js
+ */
+function buildEmbeddingText(article: {
+  article_number: string;
+  article_title: string | null;
+  article_content: string;
+}): string {
+  const heading = article.article_title
+    ? `제${article.article_number}조 ${article.article_title}`
+    : `제${article.article_number}조`;
+
+  const text = `${heading}\n\n${article.article_content}`;
+  return text.length > MAX_TEXT_LENGTH ? text.substring(0, MAX_TEXT_LENGTH) + '...' : text;
+}
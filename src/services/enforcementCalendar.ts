@@ -0,0 +1,228 @@
+/**
+ * Enforcement Calendar Service
+ * Upcoming 시행일 of law revisions that affect a local government's
+ * regulations, as JSON, as an iCalendar feed and as D-30 / D-7 warnings.
+ *
+ * Regulations not amended before the 시행일 of the law they implement are
+ * out of compliance from that day, so every revision with unreviewed
+ * impact analyses is warned about twice before it takes effect.
+ *
+ * Dates are calendar days in KST.
+ */
+
+import type { EnforcementCalendarEntry, TenantScope, User } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+import { notifyEnforcementDeadline } from './notification';
+import { resolveTenantScope } from './tenantScope';
+
+// Warnings sent before the 시행일, in days
+export const REMINDER_DAYS = [30, 7] as const;
+
+export type ReminderDays = typeof REMINDER_DAYS[number];
+
+export interface ReminderRunSummary {
+  local_govs: number;
+  revisions: number;
+  notified: number;
+  emailed: number;
+  already_sent: number;
+  failed: number;
+}
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * Today's date in KST as YYYY-MM-DD
+ */
+export function todayKST(now: Date = new Date()): string {
+  return new Date(now.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * YYYY-MM-DD plus a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * The warning due for a revision taking effect in daysLeft days:
+ * 7 inside the last week, 30 inside the last month, otherwise none
+ */
+export function reminderDue(daysLeft: number): ReminderDays | null {
+  if (daysLeft < 0) {
+    return null;
+  }
+  const due = REMINDER_DAYS.filter(days => daysLeft <= days);
+  return due.length > 0 ? due[due.length - 1] : null;
+}
+
+/**
+ * Warn users about revisions taking effect within 30 days that still have
+ * unreviewed impact analyses in their tenant scope.
+ * A revision first seen at D-5 only gets the D-7 warning.
+ */
+export async function sendEnforcementReminders(
+  dbService: DatabaseService,
+  sendGridApiKey?: string,
+  now: Date = new Date()
+): Promise<ReminderRunSummary> {
+  const today = todayKST(now);
+  const summary: ReminderRunSummary = {
+    local_govs: 0,
+    revisions: 0,
+    notified: 0,
+    emailed: 0,
+    already_sent: 0,
+    failed: 0
+  };
+
+  // Users sharing a scope share one calendar query
+  const usersByScope = new Map<string, { scope: TenantScope | null; users: User[] }>();
+  for (const user of await dbService.getEnforcementReminderRecipients()) {
+    const scope = await resolveTenantScope(dbService, user);
+    const key = JSON.stringify(scope);
+    const group = usersByScope.get(key) || { scope, users: [] };
+    group.users.push(user);
+    usersByScope.set(key, group);
+  }
+
+  for (const { scope, users } of usersByScope.values()) {
+    const entries = await dbService.getEnforcementCalendar({
+      today,
+      from: today,
+      to: addDays(today, Math.max(...REMINDER_DAYS)),
+      tenant: scope
+    });
+
+    const due = entries.filter(entry => entry.unresolved_analyses > 0 && entry.top_unresolved_analysis_id);
+    if (due.length === 0) {
+      continue;
+    }
+
+    summary.local_govs++;
+    summary.revisions += due.length;
+
+    for (const entry of due) {
+      const days = reminderDue(entry.days_left);
+      if (!days) continue;
+
+      for (const user of users) {
+        if (!await dbService.claimEnforcementReminder(entry.revision_id, user.user_id, days)) {
+          summary.already_sent++;
+          continue;
+        }
+
+        const result = await notifyEnforcementDeadline(user, entry, dbService, sendGridApiKey);
+        if (result.success) {
+          summary.notified++;
+        } else {
+          summary.failed++;
+        }
+        if (result.email_sent) {
+          summary.emailed++;
+        }
+      }
+    }
+  }
+
+  console.log(
+    `[EnforcementCalendar] ${summary.revisions} revisions in ${summary.local_govs} local governments: ` +
+    `${summary.notified} warnings, ${summary.already_sent} already sent, ${summary.failed} failed`
+  );
+
+  return summary;
+}
+
+/**
+ * iCalendar (RFC 5545) feed with one all-day event per 시행일
+ */
+export function renderEnforcementICS(
+  entries: EnforcementCalendarEntry[],
+  options: { name: string; url: string; now?: Date }
+): string {
+  const stamp = (options.now || new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//law-analysis.go.kr//Enforcement Calendar//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    'X-WR-TIMEZONE:Asia/Seoul'
+  ];
+
+  for (const entry of entries) {
+    const description = [
+      `${entry.law_name} ${entry.revision_type} (공포 ${entry.revision_date})`,
+      `연계 자치법규: ${entry.affected_regulations}건`,
+      `미검토 영향 분석: ${entry.unresolved_analyses}건 (HIGH ${entry.high_impact_unresolved}건)`
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.revision_id}@law-analysis.go.kr`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${entry.enforcement_date.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${addDays(entry.enforcement_date, 1).replace(/-/g, '')}`,
+      `SUMMARY:${escapeText(`[시행] ${entry.law_name} (${entry.revision_type})`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `URL:${options.url}/law?id=${encodeURIComponent(entry.law_id)}`,
+      'TRANSP:TRANSPARENT'
+    );
+
+    // Alarms only while something is left to review
+    if (entry.unresolved_analyses > 0) {
+      for (const days of REMINDER_DAYS) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `TRIGGER:-P${days}D`,
+          `DESCRIPTION:${escapeText(`D-${days} ${entry.law_name} 시행`)}`,
+          'END:VALARM'
+        );
+      }
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets without splitting a character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const length = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    if (size + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,168 @@
+/**
+ * Hybrid Search Service
+ * Blends trigram (lexical) ranking with pgvector similarity using
+ * reciprocal rank fusion (RRF)
+ */
+
+import type { DatabaseService, SearchKind, SearchFilters, DocumentSearchRow, ArticleSearchRow } from './databaseImpl';
+import type { TenantScope } from '../types/database';
+import { buildSnippet } from './semanticSearch';
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+// Standard RRF damping constant; higher values flatten the rank curve
+export const RRF_K = 60;
+
+// Candidates fetched per ranking before fusion
+const CANDIDATE_MULTIPLIER = 3;
+const MAX_CANDIDATES = 100;
+
+export interface HybridSearchOptions {
+  query: string;
+  mode: SearchMode;
+  filters: SearchFilters;
+  tenant: TenantScope | null; // regulations outside it are never returned
+  limit: number;
+  embedding?: number[];
+  as_of?: string; // law articles in force on this date (YYYY-MM-DD) instead of the latest
+}
+
+export interface FusedResult<T> {
+  item: T;
+  score: number;
+  ranks: Array<number | null>; // 1-based rank per input list, null if absent
+}
+
+export interface DocumentSearchResult extends DocumentSearchRow {
+  lexical_rank: number | null;
+  vector_rank: number | null;
+}
+
+export interface ArticleSearchResult {
+  source: SearchKind;
+  article_id: string;
+  parent_id: string;
+  name: string;
+  local_gov: string | null;
+  article_number: string;
+  article_title: string;
+  snippet: string;
+  score: number;
+  lexical_rank: number | null;
+  vector_rank: number | null;
+}
+
+/**
+ * Reciprocal rank fusion: score = Σ 1 / (k + rank)
+ * Items keep the first version seen across the input lists.
+ */
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  getId: (item: T) => string,
+  k: number = RRF_K
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  rankings.forEach((ranking, listIndex) => {
+    ranking.forEach((item, position) => {
+      const id = getId(item);
+      let entry = fused.get(id);
+
+      if (!entry) {
+        entry = { item, score: 0, ranks: rankings.map(() => null) };
+        fused.set(id, entry);
+      }
+
+      entry.score += 1 / (k + position + 1);
+      entry.ranks[listIndex] = position + 1;
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Search laws or regulations by name and/or article embeddings
+ */
+export async function searchDocuments(
+  dbService: DatabaseService,
+  kind: SearchKind,
+  options: HybridSearchOptions
+): Promise<DocumentSearchResult[]> {
+  const { query, filters, tenant, limit } = options;
+  const depth = candidateDepth(limit);
+
+  const [lexical, vector] = await Promise.all([
+    usesLexical(options)
+      ? dbService.lexicalSearchDocuments(kind, query, filters, depth, tenant)
+      : Promise.resolve([]),
+    usesVector(options)
+      ? dbService.vectorSearchDocuments(kind, options.embedding!, filters, depth, tenant)
+      : Promise.resolve([])
+  ]);
+
+  return reciprocalRankFusion([lexical, vector], row => row.id)
+    .slice(0, limit)
+    .map(({ item, score, ranks }) => ({
+      ...item,
+      score: options.mode === 'hybrid' ? score : Number(item.score),
+      lexical_rank: ranks[0],
+      vector_rank: ranks[1]
+    }));
+}
+
+/**
+ * Search law and/or regulation articles by content and/or embeddings
+ */
+export async function searchArticles(
+  dbService: DatabaseService,
+  kinds: SearchKind[],
+  options: HybridSearchOptions
+): Promise<ArticleSearchResult[]> {
+  const { query, filters, tenant, limit, as_of } = options;
+  const depth = candidateDepth(limit);
+  const results: ArticleSearchResult[] = [];
+
+  for (const kind of kinds) {
+    const [lexical, vector] = await Promise.all([
+      usesLexical(options)
+        ? dbService.lexicalSearchArticles(kind, query, filters, depth, tenant, as_of)
+        : Promise.resolve([] as ArticleSearchRow[]),
+      usesVector(options)
+        ? dbService.vectorSearchArticles(kind, options.embedding!, filters, depth, tenant, as_of)
+        : Promise.resolve([] as ArticleSearchRow[])
+    ]);
+
+    const fused = reciprocalRankFusion([lexical, vector], row => row.article_id);
+
+    results.push(...fused.map(({ item, score, ranks }) => ({
+      source: kind,
+      article_id: item.article_id,
+      parent_id: item.parent_id,
+      name: item.name,
+      local_gov: item.local_gov,
+      article_number: item.article_number,
+      article_title: item.article_title || '',
+      snippet: buildSnippet(item.article_content),
+      score: options.mode === 'hybrid' ? score : Number(item.score),
+      lexical_rank: ranks[0],
+      vector_rank: ranks[1]
+    })));
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function usesLexical(options: HybridSearchOptions): boolean {
+  return options.mode !== 'semantic';
+}
+
+function usesVector(options: HybridSearchOptions): boolean {
+  return options.mode !== 'keyword' && Array.isArray(options.embedding);
+}
+
+function candidateDepth(limit: number): number {
+  return Math.min(limit * CANDIDATE_MULTIPLIER, MAX_CANDIDATES);
+}
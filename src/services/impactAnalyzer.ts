@@ -0,0 +1,366 @@
+/**
+ * Impact Analyzer Providers
+ * Common interface over the LLM backends used for impact analysis
+ */
+
+import type { Article, RegulationArticle } from '../types/database';
+import { ImpactLevel, ImpactType } from '../types/database';
+import type { CloudflareBindings } from '../types/bindings';
+
+export interface ImpactAnalysisResult {
+  impact_level: ImpactLevel;
+  impact_type: ImpactType;
+  change_summary: string;
+  ai_recommendation: string;
+  confidence_score: number;
+  reasoning: string;
+}
+
+export interface AnalysisRequest {
+  lawName: string;
+  revisionDate: string;
+  oldArticle: Article | null;
+  newArticle: Article;
+  regulationName: string;
+  regulationArticle: RegulationArticle;
+}
+
+export interface ImpactAnalyzer {
+  readonly name: string;
+  /**
+   * Returns null when the provider could not produce a usable result
+   */
+  analyze(request: AnalysisRequest): Promise<ImpactAnalysisResult | null>;
+}
+
+export type AnalyzerProvider = 'openai' | 'gemini' | 'stub';
+
+/**
+ * System prompt shared by all LLM providers
+ */
+export const SYSTEM_PROMPT = `당신은 법령 분석 전문가입니다.
+상위법령 개정사항이 지방자치단체의 조례·규칙에 미치는 영향을 정확하게 분석하는 것이 당신의 역할입니다.
+
+분석 시 다음을 고려하세요:
+1. **법적 일관성**: 상위법과 자치법규 간 내용 불일치 여부
+2. **위임사항 변경**: 법적 근거나 조례 위임 범위의 추가·변경·삭제
+3. **의무사항 변경**: 법적 의무나 권한의 추가·변경·삭제
+4. **절차 변경**: 행정 절차나 기한의 변경
+5. **금액·범위 변경**: 벌금, 범위, 기준 등의 구체적 수치 변경
+6. **용어 변경**: 법률 용어의 개정
+
+영향 수준 (impact_level):
+- **HIGH**: 상위법과 불일치로 즉시 개정 필요, 법적 문제 발생 가능
+- **MEDIUM**: 일부 조정이나 일관성 유지를 위한 개정 권장
+- **LOW**: 경미한 영향, 검토는 필요하나 개정 우선순위 낮음
+
+조치 유형 (impact_type):
+- **필수개정**: 법적 근거나 위임사항이 변경되어 반드시 개정 필요
+- **권고개정**: 정합성 유지를 위해 개정 권장
+- **검토필요**: 담당부서의 추가 검토 후 판단 필요
+- **영향없음**: 개정사항이 자치법규와 무관
+
+다음 JSON 형식으로 응답하세요:
+{
+  "impact_level": "HIGH" | "MEDIUM" | "LOW",
+  "impact_type": "필수개정" | "권고개정" | "검토필요" | "영향없음",
+  "change_summary": "개정사항 요약 (200자 이내)",
+  "ai_recommendation": "구체적 조치 권고사항 (500자 이내)",
+  "confidence_score": 0.0-1.0,
+  "reasoning": "판단 근거 (2-3문장)"
+}`;
+
+/**
+ * Build analysis prompt shared by all LLM providers
+ */
+export function buildAnalysisPrompt(request: AnalysisRequest): string {
+  const { lawName, revisionDate, oldArticle, newArticle, regulationName, regulationArticle } = request;
+
+  let prompt = `법령 개정 영향 분석을 수행해주세요.\n\n`;
+
+  prompt += `**상위법령 정보:**\n`;
+  prompt += `- 법령명: ${lawName}\n`;
+  prompt += `- 개정일: ${revisionDate}\n\n`;
+
+  if (oldArticle) {
+    prompt += `**개정 전 조문 (제${oldArticle.article_number}조):**\n`;
+    prompt += `제목: ${oldArticle.article_title || '(제목 없음)'}\n`;
+    prompt += `내용:\n${oldArticle.article_content}\n\n`;
+  } else {
+    prompt += `**개정 전 조문:** 신규 조문입니다.\n\n`;
+  }
+
+  prompt += `**개정 후 조문 (제${newArticle.article_number}조):**\n`;
+  prompt += `제목: ${newArticle.article_title || '(제목 없음)'}\n`;
+  prompt += `내용:\n${newArticle.article_content}\n\n`;
+
+  prompt += `**관련 자치법규 정보:**\n`;
+  prompt += `- 법규명: ${regulationName}\n\n`;
+
+  prompt += `**자치법규 조문 (제${regulationArticle.article_number}조):**\n`;
+  prompt += `제목: ${regulationArticle.article_title || '(제목 없음)'}\n`;
+  prompt += `내용:\n${regulationArticle.article_content}\n\n`;
+
+  prompt += `위 정보를 바탕으로 다음을 분석해주세요:\n`;
+  prompt += `1. 상위법 개정사항이 자치법규 조문에 미치는 영향\n`;
+  prompt += `2. 영향 수준 (HIGH/MEDIUM/LOW)\n`;
+  prompt += `3. 필요한 조치 (필수개정/권고개정/검토필요/영향없음)\n`;
+  prompt += `4. 구체적인 권고사항\n\n`;
+
+  prompt += `JSON 형식으로 응답해주세요.`;
+
+  return prompt;
+}
+
+/**
+ * Parse and validate the JSON returned by an LLM
+ * Returns null if required fields are missing or out of range
+ */
+export function parseAnalysisResult(content: string): ImpactAnalysisResult | null {
+  const result = JSON.parse(content);
+
+  const levels = Object.values(ImpactLevel) as string[];
+  const types = Object.values(ImpactType) as string[];
+
+  if (!levels.includes(result.impact_level) || !types.includes(result.impact_type)) {
+    console.error('[ImpactAnalyzer] Invalid impact level or type:', result.impact_level, result.impact_type);
+    return null;
+  }
+
+  const confidence = Number(result.confidence_score);
+
+  return {
+    impact_level: result.impact_level as ImpactLevel,
+    impact_type: result.impact_type as ImpactType,
+    change_summary: result.change_summary || '',
+    ai_recommendation: result.ai_recommendation || '',
+    confidence_score: isNaN(confidence) ? 0 : Math.min(Math.max(confidence, 0), 1),
+    reasoning: result.reasoning || ''
+  };
+}
+
+/**
+ * Send a JSON-mode chat completion to OpenAI (gpt-4o-mini)
+ * Returns the raw JSON text, or null on API errors
+ */
+export async function requestOpenAIJSON(
+  apiKey: string,
+  systemPrompt: string,
+  userPrompt: string,
+  maxTokens = 1500
+): Promise<string | null> {
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model: 'gpt-4o-mini', // Cost-effective for production
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.3, // Lower temperature for consistent analysis
+      max_tokens: maxTokens
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    console.error('[ImpactAnalyzer] OpenAI API error:', errorData);
+    return null;
+  }
+
+  const data: any = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+
+  if (!content) {
+    console.error('[ImpactAnalyzer] No content in OpenAI response');
+    return null;
+  }
+
+  return content;
+}
+
+/**
+ * Send a JSON-mode generation request to Google Gemini
+ * Returns the raw JSON text, or null on API errors
+ */
+export async function requestGeminiJSON(
+  apiKey: string,
+  systemPrompt: string,
+  userPrompt: string,
+  maxTokens = 2048
+): Promise<string | null> {
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      contents: [{
+        parts: [{
+          text: systemPrompt + '\n\n' + userPrompt
+        }]
+      }],
+      generationConfig: {
+        temperature: 0.3,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: maxTokens,
+        responseMimeType: 'application/json'
+      }
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    console.error('[ImpactAnalyzer] Gemini API error:', errorData);
+    return null;
+  }
+
+  const data: any = await response.json();
+  const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+  if (!content) {
+    console.error('[ImpactAnalyzer] No content in Gemini response');
+    return null;
+  }
+
+  return content;
+}
+
+/**
+ * OpenAI provider (gpt-4o-mini)
+ */
+export function createOpenAIAnalyzer(apiKey: string): ImpactAnalyzer {
+  return {
+    name: 'openai',
+
+    async analyze(request) {
+      try {
+        const content = await requestOpenAIJSON(apiKey, SYSTEM_PROMPT, buildAnalysisPrompt(request));
+        return content ? parseAnalysisResult(content) : null;
+      } catch (error) {
+        console.error('[ImpactAnalyzer] OpenAI analysis failed:', error);
+        return null;
+      }
+    }
+  };
+}
+
+/**
+ * Google Gemini provider
+ */
+export function createGeminiAnalyzer(apiKey: string): ImpactAnalyzer {
+  return {
+    name: 'gemini',
+
+    async analyze(request) {
+      try {
+        const content = await requestGeminiJSON(apiKey, SYSTEM_PROMPT, buildAnalysisPrompt(request));
+        return content ? parseAnalysisResult(content) : null;
+      } catch (error) {
+        console.error('[ImpactAnalyzer] Gemini analysis failed:', error);
+        return null;
+      }
+    }
+  };
+}
+
+/**
+ * Deterministic local provider
+ * Rule-based result without network access, for offline runs and tests
+ */
+export function createStubAnalyzer(): ImpactAnalyzer {
+  return {
+    name: 'stub',
+
+    async analyze(request) {
+      const { oldArticle, newArticle, regulationArticle } = request;
+      const articleRef = `제${newArticle.article_number}조`;
+      const referenced = regulationArticle.article_content.includes(articleRef);
+      const deleted = newArticle.article_content.trim() === '삭제';
+
+      let impact_level = ImpactLevel.LOW;
+      let impact_type = ImpactType.REVIEW_NEEDED;
+
+      if (deleted || (referenced && oldArticle)) {
+        impact_level = ImpactLevel.HIGH;
+        impact_type = ImpactType.REQUIRED;
+      } else if (referenced || !oldArticle) {
+        impact_level = ImpactLevel.MEDIUM;
+        impact_type = ImpactType.RECOMMENDED;
+      }
+
+      const change = deleted ? '삭제' : oldArticle ? '개정' : '신설';
+
+      return {
+        impact_level,
+        impact_type,
+        change_summary: `${request.lawName} ${articleRef}가 ${change}되었습니다.`,
+        ai_recommendation: `${request.regulationName} 제${regulationArticle.article_number}조의 정합성을 검토하세요.`,
+        confidence_score: 0.5,
+        reasoning: referenced
+          ? `자치법규 조문이 ${articleRef}를 직접 인용합니다.`
+          : '자치법규 조문에 직접 인용이 없어 규칙 기반으로 판단했습니다.'
+      };
+    }
+  };
+}
+
+/**
+ * Try each analyzer in order until one returns a result
+ */
+export function createFallbackAnalyzer(analyzers: ImpactAnalyzer[]): ImpactAnalyzer {
+  return {
+    name: analyzers.map(a => a.name).join('>'),
+
+    async analyze(request) {
+      for (const analyzer of analyzers) {
+        const result = await analyzer.analyze(request);
+
+        if (result) {
+          return result;
+        }
+
+        console.warn(`[ImpactAnalyzer] Provider ${analyzer.name} returned no result, falling back`);
+      }
+
+      return null;
+    }
+  };
+}
+
+/**
+ * Create the analyzer configured for this deployment
+ * AI_PROVIDER is a comma-separated fallback order, e.g. "gemini,openai,stub"
+ */
+export function createImpactAnalyzer(env: CloudflareBindings): ImpactAnalyzer {
+  const order = (env.AI_PROVIDER || 'openai,gemini')
+    .split(',')
+    .map(p => p.trim().toLowerCase())
+    .filter(p => p.length > 0) as AnalyzerProvider[];
+
+  const analyzers: ImpactAnalyzer[] = [];
+
+  for (const provider of order) {
+    if (provider === 'openai' && env.OPENAI_API_KEY) {
+      analyzers.push(createOpenAIAnalyzer(env.OPENAI_API_KEY));
+    } else if (provider === 'gemini' && env.GEMINI_API_KEY) {
+      analyzers.push(createGeminiAnalyzer(env.GEMINI_API_KEY));
+    } else if (provider === 'stub') {
+      analyzers.push(createStubAnalyzer());
+    }
+  }
+
+  if (analyzers.length === 0) {
+    throw new Error('No impact analyzer configured (check AI_PROVIDER and API keys)');
+  }
+
+  return analyzers.length === 1 ? analyzers[0] : createFallbackAnalyzer(analyzers);
+}
@@ -3,11 +3,17 @@
  * Fetches law data from 국가법령정보센터 API
  */
 
-import type { Law, LawRevision, Article, ChangedArticle } from '../types/database';
+import type { Law, LawRevision, Article } from '../types/database';
+import { ArticleType, LawStatus, LawType, RevisionType } from '../types/database';
+import type { XMLElement } from '../utils/xml';
+import { parseXML, findChild, findChildren, childText } from '../utils/xml';
 
 // 국가법령정보센터 API Configuration
 const LAW_API_BASE_URL = 'https://www.law.go.kr/DRF';
 
+// 목번호 order: 가, 나, 다, ...
+const SUB_ITEM_LETTERS = '가나다라마바사아자차카타파하';
+
 export interface LawAPIParams {
   OC?: string; // API Key
   target?: string; // law, lawRvsn (법령, 개정이력)
@@ -22,6 +28,37 @@ export interface LawAPIResponse {
   error?: string;
 }
 
+/**
+ * One node of the 조→항→호→목 tree, or a 부칙/별표
+ */
+export interface LawArticleNode {
+  key: string; // Unique among siblings, used to build article ids
+  article_number: string; // '10의2', '10의2 제1항', '10의2 제1항 제3호의2', '10의2 제1항 제3호 가목', '부칙1', '별표1의2'
+  article_title: string;
+  article_content: string; // Own text followed by the text of all descendants
+  article_type: ArticleType;
+  children: LawArticleNode[];
+}
+
+export interface LawDetail {
+  law_id: string;
+  law_name: string;
+  law_number: string;
+  law_type: LawType;
+  enactment_date: Date;
+  enforcement_date: Date;
+  ministry: string;
+  revision_type: RevisionType;
+  articles: LawArticleNode[];
+}
+
+export interface LawRevisionItem {
+  revision_date: Date;
+  revision_type: RevisionType;
+  revision_number: string;
+  revision_reason: string;
+}
+
 /**
  * Fetch list of laws from API
  */
@@ -107,7 +144,7 @@ export async function fetchLawDetails(apiKey: string, lawId: string, enforcement
     const xmlText = await response.text();
     
     // Parse XML response
-    const lawDetails = parseXMLLawDetails(xmlText);
+    const lawDetails = parseLawDetailXML(xmlText);
     
     return {
       success: true,
@@ -152,7 +189,7 @@ export async function fetchLawRevisions(apiKey: string, lawId: string, fromDate?
     return {
       success: true,
       data: {
-        revisions: fromDate ? revisions.filter(r => r.revision_date >= fromDate) : revisions
+        revisions: fromDate ? revisions.filter(r => r.revision_date >= parseDate(fromDate)) : revisions
       }
     };
   } catch (error) {
@@ -206,46 +243,76 @@ function parseXMLLawList(xmlText: string): any[] {
 }
 
 /**
- * Parse XML law details response
+ * Parse XML law details response (lawService.do?target=law)
+ *
+ * 조문단위 are parsed into a 조→항→호→목 tree; 부칙 and 별표 become
+ * top-level nodes of their own type. 조문여부 "전문" (편·장·절 headings)
+ * are skipped.
  */
-function parseXMLLawDetails(xmlText: string): any {
+export function parseLawDetailXML(xmlText: string): LawDetail | null {
   try {
-    // Extract law basic info
-    const lawId = extractXMLField(xmlText, '법령일련번호');
-    const lawName = extractXMLField(xmlText, '법령명한글');
-    const lawNumber = extractXMLField(xmlText, '법령번호');
-    const lawType = extractXMLField(xmlText, '법령구분명');
-    const enactmentDate = extractXMLField(xmlText, '제정일자');
-    const enforcementDate = extractXMLField(xmlText, '시행일자');
-    const ministry = extractXMLField(xmlText, '소관부처명');
-    
-    // Extract articles
-    const articles: any[] = [];
-    const articleMatches = xmlText.matchAll(/<조문>(.*?)<\/조문>/gs);
-    
-    for (const match of articleMatches) {
-      const articleXML = match[1];
-      const articleNumber = extractXMLField(articleXML, '조문번호');
-      const articleTitle = extractXMLField(articleXML, '조문제목');
-      const articleContent = extractXMLField(articleXML, '조문내용');
-      
-      if (articleNumber && articleContent) {
+    const root = parseXML(xmlText);
+    const info = findChild(root, '기본정보') ?? root;
+
+    const articles: LawArticleNode[] = [];
+    const seen = new Set<string>();
+
+    for (const unit of findChildren(findChild(root, '조문'), '조문단위')) {
+      const node = parseArticleUnit(unit);
+
+      // The same 조문 can appear twice when 조문이동 is recorded
+      if (node && !seen.has(node.key)) {
+        seen.add(node.key);
+        articles.push(node);
+      }
+    }
+
+    findChildren(findChild(root, '부칙'), '부칙단위').forEach((unit, index) => {
+      const content = findChildren(unit, '부칙내용')
+        .map(el => el.text.trim())
+        .filter(Boolean)
+        .join('\n');
+
+      if (content) {
+        articles.push({
+          key: `add${index + 1}`,
+          article_number: `부칙${index + 1}`,
+          article_title: '부칙',
+          article_content: content,
+          article_type: ArticleType.ADDENDUM,
+          children: []
+        });
+      }
+    });
+
+    for (const unit of findChildren(findChild(root, '별표'), '별표단위')) {
+      const kind = childText(unit, '별표구분') || '별표';
+      const number = parseInt(childText(unit, '별표번호')) || 0;
+      const branch = parseInt(childText(unit, '별표가지번호')) || 0;
+      const title = childText(unit, '별표제목');
+      const content = childText(unit, '별표내용') || title;
+
+      if (number && content) {
         articles.push({
-          article_number: articleNumber,
-          article_title: articleTitle || '',
-          article_content: articleContent
+          key: `app${number}_${branch}${kind === '별표' ? '' : `_${kind}`}`,
+          article_number: `${kind}${branchNumber(number, branch)}`,
+          article_title: title,
+          article_content: content,
+          article_type: ArticleType.APPENDIX,
+          children: []
         });
       }
     }
-    
+
     return {
-      law_id: lawId,
-      law_name: lawName,
-      law_number: lawNumber,
-      law_type: mapLawType(lawType),
-      enactment_date: parseDate(enactmentDate),
-      enforcement_date: parseDate(enforcementDate),
-      ministry: ministry,
+      law_id: field(info, '법령일련번호', '법령ID'),
+      law_name: field(info, '법령명_한글', '법령명한글'),
+      law_number: field(info, '공포번호', '법령번호'),
+      law_type: mapLawType(field(info, '법종구분', '법령구분명')),
+      enactment_date: parseDate(field(info, '제정일자', '공포일자')),
+      enforcement_date: parseDate(field(info, '시행일자')),
+      ministry: field(info, '소관부처', '소관부처명'),
+      revision_type: mapRevisionType(field(info, '제개정구분', '제개정구분명')),
       articles
     };
   } catch (error) {
@@ -257,8 +324,8 @@ function parseXMLLawDetails(xmlText: string): any {
 /**
  * Parse XML revisions response
  */
-function parseXMLRevisions(xmlText: string): any[] {
-  const revisions: any[] = [];
+function parseXMLRevisions(xmlText: string): LawRevisionItem[] {
+  const revisions: LawRevisionItem[] = [];
   
   try {
     const revisionMatches = xmlText.matchAll(/<개정연혁>(.*?)<\/개정연혁>/gs);
@@ -298,22 +365,22 @@ function extractXMLField(xml: string, fieldName: string): string {
 /**
  * Map law type from API to database enum
  */
-function mapLawType(apiType: string): '법률' | '시행령' | '시행규칙' {
-  if (apiType.includes('법률')) return '법률';
-  if (apiType.includes('대통령령') || apiType.includes('시행령')) return '시행령';
-  if (apiType.includes('부령') || apiType.includes('시행규칙')) return '시행규칙';
-  return '법률'; // default
+function mapLawType(apiType: string): LawType {
+  if (apiType.includes('법률')) return LawType.LAW;
+  if (apiType.includes('대통령령') || apiType.includes('시행령')) return LawType.ENFORCEMENT_DECREE;
+  if (apiType.includes('부령') || apiType.includes('시행규칙')) return LawType.ENFORCEMENT_RULE;
+  return LawType.LAW; // default
 }
 
 /**
  * Map revision type from API to database enum
  */
-function mapRevisionType(apiType: string): '신규' | '일부개정' | '전부개정' | '폐지' {
-  if (apiType.includes('제정')) return '신규';
-  if (apiType.includes('전부개정')) return '전부개정';
-  if (apiType.includes('일부개정') || apiType.includes('개정')) return '일부개정';
-  if (apiType.includes('폐지')) return '폐지';
-  return '일부개정'; // default
+function mapRevisionType(apiType: string): RevisionType {
+  if (apiType.includes('제정')) return RevisionType.NEW;
+  if (apiType.includes('전부개정')) return RevisionType.FULL;
+  if (apiType.includes('일부개정') || apiType.includes('개정')) return RevisionType.PARTIAL;
+  if (apiType.includes('폐지')) return RevisionType.ABOLISH;
+  return RevisionType.PARTIAL; // default
 }
 
 /**
@@ -330,13 +397,30 @@ function parseDate(dateStr: string): Date {
 }
 
 /**
- * Parse law XML/JSON to structured data
+ * Map a parsed law detail to a laws row
  */
 export function parseLawData(rawData: any): Law | null {
   try {
-    // TODO: Implement parser for actual API response format
-    
-    return null;
+    if (!rawData?.law_id || !rawData?.law_name) {
+      return null;
+    }
+
+    const data = rawData as LawDetail;
+    const now = new Date();
+
+    return {
+      law_id: data.law_id,
+      law_type: data.law_type,
+      law_name: data.law_name,
+      law_number: data.law_number || '',
+      enactment_date: data.enactment_date,
+      current_version: data.law_number || '',
+      status: data.revision_type === RevisionType.ABOLISH ? LawStatus.ABOLISHED : LawStatus.ACTIVE,
+      ministry: data.ministry || '',
+      category: '',
+      created_at: now,
+      updated_at: now
+    };
   } catch (error) {
     console.error('[LawCrawler] Error parsing law data:', error);
     return null;
@@ -344,19 +428,69 @@ export function parseLawData(rawData: any): Law | null {
 }
 
 /**
- * Parse revision data
+ * Map a parsed 개정연혁 entry of a law to a law_revisions row
+ * changed_articles and previous_version are filled in by the caller
  */
 export function parseRevisionData(rawData: any): LawRevision | null {
   try {
-    // TODO: Implement parser
-    
-    return null;
+    if (!rawData?.law_id || !(rawData?.revision_date instanceof Date)) {
+      return null;
+    }
+
+    const data = rawData as LawRevisionItem & { law_id: string; enforcement_date?: Date };
+    const version = data.revision_number || toYmd(data.revision_date);
+
+    return {
+      revision_id: `${data.law_id}_${toYmd(data.revision_date)}_${version.replace(/[^0-9A-Za-z]/g, '')}`,
+      law_id: data.law_id,
+      revision_type: data.revision_type,
+      revision_date: data.revision_date,
+      enforcement_date: data.enforcement_date || data.revision_date,
+      revision_reason: data.revision_reason || '',
+      previous_version: '',
+      new_version: version,
+      changed_articles: [],
+      created_at: new Date()
+    };
   } catch (error) {
     console.error('[LawCrawler] Error parsing revision data:', error);
     return null;
   }
 }
 
+/**
+ * Flatten the article tree to articles rows, parents before children so
+ * parent_article_id references are inserted in order
+ */
+export function buildLawArticles(
+  lawId: string,
+  revisionId: string,
+  nodes: LawArticleNode[]
+): Article[] {
+  const rows: Article[] = [];
+
+  const visit = (node: LawArticleNode, parentId?: string) => {
+    const articleId = parentId ? `${parentId}_${node.key}` : `${revisionId}_art_${node.key}`;
+
+    rows.push({
+      article_id: articleId,
+      law_id: lawId,
+      revision_id: revisionId,
+      article_number: node.article_number,
+      article_title: node.article_title,
+      article_content: node.article_content,
+      article_type: node.article_type,
+      parent_article_id: parentId,
+      created_at: new Date()
+    });
+
+    node.children.forEach(child => visit(child, articleId));
+  };
+
+  nodes.forEach(node => visit(node));
+  return rows;
+}
+
 /**
  * Extract articles from law content
  */
@@ -380,7 +514,7 @@ export function extractArticles(lawContent: string, lawId: string, revisionId: s
         article_number: match[1],
         article_title: match[2],
         article_content: match[3].trim(),
-        article_type: '본문',
+        article_type: ArticleType.MAIN,
         created_at: new Date()
       };
       
@@ -395,130 +529,131 @@ export function extractArticles(lawContent: string, lawId: string, revisionId: s
 }
 
 /**
- * Compare two versions of articles to find changes
+ * 조문단위 → 조 node with its 항/호/목
  */
-export function compareArticles(oldArticles: Article[], newArticles: Article[]): ChangedArticle[] {
-  const changes: ChangedArticle[] = [];
-  
-  // Create maps for easier lookup
-  const oldMap = new Map(oldArticles.map(a => [a.article_number, a]));
-  const newMap = new Map(newArticles.map(a => [a.article_number, a]));
-  
-  // Find modified and added articles
-  for (const [number, newArticle] of newMap) {
-    const oldArticle = oldMap.get(number);
-    
-    if (!oldArticle) {
-      // New article
-      changes.push({
-        article_number: number,
-        change_type: 'added',
-        new_content: newArticle.article_content
-      });
-    } else if (oldArticle.article_content !== newArticle.article_content) {
-      // Modified article
-      changes.push({
-        article_number: number,
-        change_type: 'modified',
-        old_content: oldArticle.article_content,
-        new_content: newArticle.article_content
-      });
-    }
+function parseArticleUnit(unit: XMLElement): LawArticleNode | null {
+  if (childText(unit, '조문여부') === '전문') {
+    return null;
   }
-  
-  // Find deleted articles
-  for (const [number, oldArticle] of oldMap) {
-    if (!newMap.has(number)) {
-      changes.push({
-        article_number: number,
-        change_type: 'deleted',
-        old_content: oldArticle.article_content
-      });
-    }
+
+  const main = parseInt(childText(unit, '조문번호'));
+  if (!main) {
+    return null;
   }
-  
-  return changes;
+
+  const branch = parseInt(childText(unit, '조문가지번호')) || 0;
+  const number = branchNumber(main, branch);
+  const children: LawArticleNode[] = [];
+
+  findChildren(unit, '항').forEach((paragraph, index) => {
+    const label = childText(paragraph, '항번호');
+    const text = childText(paragraph, '항내용');
+
+    // An unnumbered, empty 항 only wraps 호 that belong to the 조 itself
+    if (!label && !text) {
+      children.push(...parseItems(paragraph, number));
+      return;
+    }
+
+    const ordinal = parseParagraphNumber(label) || index + 1;
+    const paragraphNumber = `${number} 제${ordinal}항`;
+
+    children.push(
+      buildNode(`p${ordinal}`, paragraphNumber, text, parseItems(paragraph, paragraphNumber))
+    );
+  });
+
+  return buildNode(
+    branch ? `${main}_${branch}` : String(main),
+    number,
+    childText(unit, '조문내용'),
+    children,
+    childText(unit, '조문제목')
+  );
 }
 
 /**
- * Daily crawler job - fetches new/updated laws
+ * 호 (and their 목) under a 조 or 항
  */
-export async function runDailyCrawl(apiKey: string): Promise<{
-  success: boolean;
-  stats: {
-    newLaws: number;
-    updatedLaws: number;
-    newRevisions: number;
-    errors: number;
-  }
-}> {
-  console.log('[LawCrawler] Starting daily crawl job...');
-  
-  const stats = {
-    newLaws: 0,
-    updatedLaws: 0,
-    newRevisions: 0,
-    errors: 0
-  };
-  
-  try {
-    // Step 1: Fetch recent law updates (last 7 days)
-    const today = new Date();
-    const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const fromDate = weekAgo.toISOString().split('T')[0].replace(/-/g, '');
-    
-    const listResponse = await fetchLawList(apiKey, {
-      fromDate
+function parseItems(parent: XMLElement, parentNumber: string): LawArticleNode[] {
+  return findChildren(parent, '호').map((item, index) => {
+    const match = childText(item, '호번호').match(/(\d+)(?:\s*의\s*(\d+))?/);
+    const main = match ? parseInt(match[1]) : index + 1;
+    const branch = match?.[2] ? parseInt(match[2]) : 0;
+    const itemNumber = `${parentNumber} 제${main}호${branch ? `의${branch}` : ''}`;
+
+    const subItems = findChildren(item, '목').map((subItem, subIndex) => {
+      const letter = childText(subItem, '목번호').replace(/[.\s]/g, '');
+      const position = SUB_ITEM_LETTERS.indexOf(letter) + 1 || subIndex + 1;
+
+      return buildNode(
+        `s${position}`,
+        `${itemNumber} ${letter || SUB_ITEM_LETTERS[subIndex] || position}목`,
+        childText(subItem, '목내용'),
+        []
+      );
     });
-    
-    if (!listResponse.success || !listResponse.data) {
-      console.error('[LawCrawler] Failed to fetch law list');
-      stats.errors++;
-      return { success: false, stats };
-    }
-    
-    // Step 2: Process each law
-    const laws = listResponse.data.laws || [];
-    
-    for (const lawData of laws) {
-      try {
-        // Fetch detailed law information
-        const detailsResponse = await fetchLawDetails(apiKey, lawData.id);
-        
-        if (detailsResponse.success && detailsResponse.data) {
-          // TODO: Save to database
-          stats.newLaws++;
-        }
-        
-        // Fetch revisions
-        const revisionsResponse = await fetchLawRevisions(apiKey, lawData.id, fromDate);
-        
-        if (revisionsResponse.success && revisionsResponse.data) {
-          const revisions = revisionsResponse.data.revisions || [];
-          stats.newRevisions += revisions.length;
-          
-          // TODO: Save revisions to database
-        }
-        
-      } catch (error) {
-        console.error('[LawCrawler] Error processing law:', lawData.id, error);
-        stats.errors++;
-      }
-    }
-    
-    console.log('[LawCrawler] Daily crawl completed:', stats);
-    
-    return {
-      success: true,
-      stats
-    };
-    
-  } catch (error) {
-    console.error('[LawCrawler] Daily crawl failed:', error);
-    stats.errors++;
-    return {
-      success: false,
-      stats
-    };
+
+    return buildNode(
+      branch ? `i${main}_${branch}` : `i${main}`,
+      itemNumber,
+      childText(item, '호내용'),
+      subItems
+    );
+  });
+}
+
+function buildNode(
+  key: string,
+  articleNumber: string,
+  text: string,
+  children: LawArticleNode[],
+  title = ''
+): LawArticleNode {
+  return {
+    key,
+    article_number: articleNumber,
+    article_title: title,
+    article_content: [text, ...children.map(child => child.article_content)].filter(Boolean).join('\n'),
+    article_type: ArticleType.MAIN,
+    children
+  };
+}
+
+/**
+ * 항번호 "①" → 1 (circled numbers ①-⑳ and ㉑-㉟), plain digits pass through
+ */
+function parseParagraphNumber(label: string): number {
+  const code = label.codePointAt(0) ?? 0;
+  if (code >= 0x2460 && code <= 0x2473) return code - 0x2460 + 1;
+  if (code >= 0x3251 && code <= 0x325f) return code - 0x3251 + 21;
+  return parseInt(label.replace(/\D/g, '')) || 0;
+}
+
+/**
+ * 10, 2 → "10의2"
+ */
+function branchNumber(main: number, branch: number): string {
+  return branch > 0 ? `${main}의${branch}` : String(main);
+}
+
+/**
+ * First non-empty child text among alternative field names
+ */
+function field(element: XMLElement, ...names: string[]): string {
+  for (const name of names) {
+    const value = childText(element, name);
+    if (value) return value;
   }
+  return '';
+}
+
+/**
+ * Format a date as YYYYMMDD for the law.go.kr API
+ */
+function toYmd(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}${m}${d}`;
 }
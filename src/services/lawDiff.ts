@@ -0,0 +1,646 @@
+/**
+ * Law Diff Service
+ * Compares two revisions of a law article by article and, within each
+ * article, 항/호/목 by 항/호/목. Text differences are computed on words and
+ * refined to characters, and every change is classified as 자구수정,
+ * 내용변경, 신설, 삭제 or 이동 (renumbered).
+ */
+
+import type { Article, ChangedArticle, ParagraphChange, TextDiffSegment } from '../types/database';
+import { ArticleType, ChangeKind } from '../types/database';
+
+// Articles with the same number below this similarity are candidates for renumbering
+const SAME_ARTICLE_SIMILARITY = 0.5;
+// Minimum similarity to pair an old and a new article under different numbers
+const MOVE_SIMILARITY = 0.9;
+// Share of changed characters up to which a change without digits is 자구수정
+const WORDING_MAX_CHANGE_RATIO = 0.15;
+// Legal terms that change what a provision means however few characters
+// they take: the delegated instrument, duty vs. discretion, thresholds,
+// sanctions and the kind of approval required. Compared without whitespace.
+const SUBSTANTIVE_TERMS = [
+  '법률', '대통령령', '총리령', '부령', '조례', '규칙', '고시',
+  '수있다', '수없다', '하여야', '해야', '아니된다', '못한다',
+  '이상', '이하', '초과', '미만', '이내',
+  '과태료', '과징금', '벌금', '징역',
+  '허가', '인가', '승인', '신고', '등록', '협의', '동의'
+];
+// Give up on a minimal diff beyond this many edits and report a replacement
+const MAX_EDIT_DISTANCE = 2000;
+// Changed word runs up to this length are refined to characters
+const REFINE_MAX_CHARS = 500;
+// Skip renumber detection when there are too many unmatched pairs (전부개정)
+const MAX_MOVE_CANDIDATES = 40000;
+
+interface ArticleNode {
+  article: Article;
+  children: ArticleNode[];
+}
+
+interface NodeMatch {
+  old?: ArticleNode;
+  new?: ArticleNode;
+  moved: boolean;
+}
+
+/**
+ * Compare two versions of a law's articles
+ *
+ * Both lists may contain 항/호/목 rows (linked by parent_article_id); one
+ * ChangedArticle is reported per changed top-level article with the
+ * 항/호/목 changes in `paragraphs`.
+ */
+export function compareArticles(oldArticles: Article[], newArticles: Article[]): ChangedArticle[] {
+  const changes: ChangedArticle[] = [];
+
+  const matches = matchNodes(
+    buildTree(oldArticles),
+    buildTree(newArticles),
+    node => node.article.article_number,
+    node => node.article.article_number
+  );
+
+  for (const match of matches) {
+    const oldArticle = match.old?.article;
+    const newArticle = match.new?.article;
+
+    if (!oldArticle || (newArticle && isDeletedText(oldArticle.article_content) && !isDeletedText(newArticle.article_content))) {
+      // New, or a number freed by an earlier 삭제 that is reused
+      changes.push({
+        article_number: newArticle!.article_number,
+        change_type: 'added',
+        change_kind: ChangeKind.NEW,
+        old_content: oldArticle?.article_content,
+        new_content: newArticle!.article_content
+      });
+      continue;
+    }
+
+    if (!newArticle || isDeletedText(newArticle.article_content)) {
+      if (newArticle && isDeletedText(oldArticle.article_content)) {
+        continue; // Already deleted in the previous revision
+      }
+
+      // Removed, or kept as "제N조 삭제 <2024. 1. 9.>"
+      changes.push({
+        article_number: oldArticle.article_number,
+        change_type: 'deleted',
+        change_kind: ChangeKind.DELETED,
+        old_content: oldArticle.article_content,
+        new_content: newArticle?.article_content
+      });
+      continue;
+    }
+
+    const changed = oldArticle.article_content !== newArticle.article_content;
+
+    // 부칙/별표 shift positions when new ones are added; that is not a change
+    if (!changed && (!match.moved || newArticle.article_type !== ArticleType.MAIN)) {
+      continue;
+    }
+
+    const diff = changed ? diffText(oldArticle.article_content, newArticle.article_content) : undefined;
+    const paragraphs: ParagraphChange[] = [];
+    collectParagraphChanges(match.old!, match.new!, paragraphs);
+
+    changes.push({
+      article_number: newArticle.article_number,
+      old_article_number: match.moved ? oldArticle.article_number : undefined,
+      change_type: match.moved ? 'moved' : 'modified',
+      change_kind: match.moved
+        ? ChangeKind.MOVED
+        : classifyArticle(oldArticle.article_content, newArticle.article_content, diff!, paragraphs),
+      similarity: diff ? diffSimilarity(diff) : 1,
+      old_content: oldArticle.article_content,
+      new_content: newArticle.article_content,
+      diff,
+      paragraphs: paragraphs.length > 0 ? paragraphs : undefined
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Word-level diff refined to characters inside changed runs
+ */
+export function diffText(oldText: string, newText: string): TextDiffSegment[] {
+  const words = diffTokens(tokenize(oldText), tokenize(newText));
+  const segments: TextDiffSegment[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    if (words[i].op === 'equal') {
+      pushSegment(segments, words[i].op, words[i].text);
+      continue;
+    }
+
+    // Collect one run of adjacent deletions and insertions
+    let deleted = '';
+    let inserted = '';
+    while (i < words.length && words[i].op !== 'equal') {
+      if (words[i].op === 'delete') {
+        deleted += words[i].text;
+      } else {
+        inserted += words[i].text;
+      }
+      i++;
+    }
+    i--;
+
+    const refined = deleted && inserted && deleted.length + inserted.length <= REFINE_MAX_CHARS
+      ? diffTokens(Array.from(deleted), Array.from(inserted))
+      : null;
+
+    // Keep the word-level result when the characters have little in common
+    const common = refined ? refined.filter(s => s.op === 'equal').reduce((sum, s) => sum + s.text.length, 0) : 0;
+
+    if (refined && common * 2 >= Math.min(deleted.length, inserted.length)) {
+      refined.forEach(s => pushSegment(segments, s.op, s.text));
+    } else {
+      pushSegment(segments, 'delete', deleted);
+      pushSegment(segments, 'insert', inserted);
+    }
+  }
+
+  return segments;
+}
+
+export interface DiffPhrase {
+  from: string;
+  to: string; // '' when the phrase was deleted
+}
+
+/**
+ * Replaced phrases of a diff, widened to whole words ("30일" → "60일"
+ * rather than "3" → "6"), as quoted in 개정문. A pure insertion is
+ * anchored to the word before it (or after it, at the start of the text).
+ */
+export function diffPhrases(diff: TextDiffSegment[]): DiffPhrase[] {
+  const phrases: DiffPhrase[] = [];
+
+  for (let i = 0; i < diff.length; i++) {
+    if (diff[i].op === 'equal') continue;
+
+    const start = i;
+    let deleted = '';
+    let inserted = '';
+
+    // Changes joined by an equal run without whitespace are one word
+    while (i < diff.length) {
+      const segment = diff[i];
+      if (segment.op === 'delete') {
+        deleted += segment.text;
+      } else if (segment.op === 'insert') {
+        inserted += segment.text;
+      } else if (!/\s/.test(segment.text) && diff[i + 1]) {
+        deleted += segment.text;
+        inserted += segment.text;
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const previous = diff[start - 1]?.text || '';
+    const next = diff[i]?.op === 'equal' ? diff[i].text : '';
+    const before = previous.match(/\S*$/)![0];
+    const after = next.match(/^\S*/)![0];
+
+    let from = (before + deleted + after).trim();
+    let to = (before + inserted + after).trim();
+
+    if (!from) {
+      const preceding = previous.match(/(\S+)(\s*)$/);
+      const following = next.match(/^(\s*)(\S+)/);
+
+      if (preceding) {
+        from = preceding[1];
+        to = `${preceding[1]}${preceding[2]}${inserted}`.trim();
+      } else if (following) {
+        from = following[2];
+        to = `${inserted}${following[1]}${following[2]}`.trim();
+      } else {
+        continue;
+      }
+    }
+
+    phrases.push({ from, to });
+    i--;
+  }
+
+  return phrases;
+}
+
+/**
+ * Compare the 항/호/목 of a matched pair of articles (or of 항/호)
+ */
+function collectParagraphChanges(oldNode: ArticleNode, newNode: ArticleNode, out: ParagraphChange[]): void {
+  const matches = matchNodes(
+    oldNode.children,
+    newNode.children,
+    child => relativeNumber(child, oldNode),
+    child => relativeNumber(child, newNode)
+  );
+
+  for (const match of matches) {
+    if (!match.old) {
+      out.push({
+        article_number: match.new!.article.article_number,
+        change_kind: ChangeKind.NEW,
+        new_content: ownText(match.new!)
+      });
+      continue;
+    }
+
+    if (!match.new) {
+      out.push({
+        article_number: match.old.article.article_number,
+        change_kind: ChangeKind.DELETED,
+        old_content: ownText(match.old)
+      });
+      continue;
+    }
+
+    const oldText = ownText(match.old);
+    const newText = ownText(match.new);
+
+    if (match.moved || oldText !== newText) {
+      const diff = oldText !== newText ? diffText(oldText, newText) : undefined;
+
+      out.push({
+        article_number: match.new.article.article_number,
+        old_article_number: match.moved ? match.old.article.article_number : undefined,
+        change_kind: match.moved ? ChangeKind.MOVED : classifyText(oldText, newText, diff!),
+        old_content: oldText,
+        new_content: newText,
+        diff
+      });
+    }
+
+    collectParagraphChanges(match.old, match.new, out);
+  }
+}
+
+/**
+ * Pair old and new nodes: same number first, then renumbered nodes by
+ * content similarity. Same-number pairs that are rewritten and not
+ * claimed by a renumbering stay paired as modifications.
+ */
+function matchNodes(
+  oldNodes: ArticleNode[],
+  newNodes: ArticleNode[],
+  oldKey: (node: ArticleNode) => string,
+  newKey: (node: ArticleNode) => string
+): NodeMatch[] {
+  const matches: NodeMatch[] = [];
+  const newByKey = new Map(newNodes.map(node => [newKey(node), node]));
+  const oldPool = new Set<ArticleNode>();
+  const newPool = new Set(newNodes);
+  const rewritten: Array<{ old: ArticleNode; new: ArticleNode }> = [];
+
+  for (const node of oldNodes) {
+    const counterpart = newByKey.get(oldKey(node));
+
+    if (counterpart && newPool.has(counterpart)) {
+      if (similarity(node, counterpart) >= SAME_ARTICLE_SIMILARITY) {
+        matches.push({ old: node, new: counterpart, moved: false });
+        newPool.delete(counterpart);
+        continue;
+      }
+      rewritten.push({ old: node, new: counterpart });
+    }
+
+    oldPool.add(node);
+  }
+
+  if (oldPool.size * newPool.size <= MAX_MOVE_CANDIDATES) {
+    const candidates: Array<{ old: ArticleNode; new: ArticleNode; score: number }> = [];
+
+    for (const oldNode of oldPool) {
+      for (const newNode of newPool) {
+        if (oldKey(oldNode) === newKey(newNode)) continue;
+
+        const score = similarity(oldNode, newNode);
+        if (score >= MOVE_SIMILARITY) {
+          candidates.push({ old: oldNode, new: newNode, score });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    for (const candidate of candidates) {
+      if (oldPool.has(candidate.old) && newPool.has(candidate.new)) {
+        matches.push({ old: candidate.old, new: candidate.new, moved: true });
+        oldPool.delete(candidate.old);
+        newPool.delete(candidate.new);
+      }
+    }
+  }
+
+  for (const pair of rewritten) {
+    if (oldPool.has(pair.old) && newPool.has(pair.new)) {
+      matches.push({ old: pair.old, new: pair.new, moved: false });
+      oldPool.delete(pair.old);
+      newPool.delete(pair.new);
+    }
+  }
+
+  oldPool.forEach(node => matches.push({ old: node, moved: false }));
+  newPool.forEach(node => matches.push({ new: node, moved: false }));
+
+  // Report in new document order, deletions at their old position
+  const newIndex = new Map(newNodes.map((node, i) => [node, i]));
+  const oldIndex = new Map(oldNodes.map((node, i) => [node, i]));
+  const position = (m: NodeMatch) => m.new ? newIndex.get(m.new)! : oldIndex.get(m.old!)! - 0.5;
+
+  return matches.sort((a, b) => position(a) - position(b));
+}
+
+function buildTree(articles: Article[]): ArticleNode[] {
+  const nodes = new Map(articles.map(article => [article.article_id, { article, children: [] as ArticleNode[] }]));
+  const roots: ArticleNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.article.parent_article_id ? nodes.get(node.article.parent_article_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else if (!node.article.parent_article_id) {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * "5 제2항 제3호" under "5 제2항" → "제3호"
+ */
+function relativeNumber(node: ArticleNode, parent: ArticleNode): string {
+  const number = node.article.article_number;
+  const prefix = parent.article.article_number;
+  return number.startsWith(prefix) ? number.substring(prefix.length).trim() : number;
+}
+
+/**
+ * Text of a node without the text of its sub-items
+ * (article_content is the node's own text followed by its descendants')
+ */
+function ownText(node: ArticleNode): string {
+  const content = node.article.article_content;
+  const descendants = node.children.map(child => child.article.article_content).filter(Boolean).join('\n');
+
+  if (!descendants) return content;
+  if (content === descendants) return '';
+  return content.endsWith(`\n${descendants}`)
+    ? content.substring(0, content.length - descendants.length - 1)
+    : content;
+}
+
+/**
+ * A 조 is 자구수정 only if every 항/호/목 change is; without 항/호/목
+ * changes the article text decides
+ */
+function classifyArticle(
+  oldText: string,
+  newText: string,
+  diff: TextDiffSegment[],
+  paragraphs: ParagraphChange[]
+): ChangeKind {
+  if (paragraphs.length > 0) {
+    return paragraphs.every(p => p.change_kind === ChangeKind.WORDING) ? ChangeKind.WORDING : ChangeKind.CONTENT;
+  }
+  return classifyText(oldText, newText, diff);
+}
+
+/**
+ * 자구수정: only a small share of characters changed, no digits (periods,
+ * amounts, article references) were touched and no SUBSTANTIVE_TERMS
+ * were added, removed or replaced
+ */
+function classifyText(oldText: string, newText: string, diff: TextDiffSegment[]): ChangeKind {
+  if (isDeletedText(newText)) {
+    return ChangeKind.DELETED;
+  }
+
+  const changed = diff.filter(s => s.op !== 'equal');
+
+  if (changed.some(s => /\d/.test(s.text)) || changesSubstantiveTerm(oldText, newText)) {
+    return ChangeKind.CONTENT;
+  }
+
+  const changedChars = changed.reduce((sum, s) => sum + stripWhitespace(s.text).length, 0);
+  const total = Math.max(stripWhitespace(oldText).length, stripWhitespace(newText).length, 1);
+
+  return changedChars / total <= WORDING_MAX_CHANGE_RATIO ? ChangeKind.WORDING : ChangeKind.CONTENT;
+}
+
+/**
+ * "대통령령으로" → "조례로", "할 수 있다" → "하여야 한다"
+ */
+function changesSubstantiveTerm(oldText: string, newText: string): boolean {
+  const oldStripped = stripWhitespace(oldText);
+  const newStripped = stripWhitespace(newText);
+  return SUBSTANTIVE_TERMS.some(term => countOf(oldStripped, term) !== countOf(newStripped, term));
+}
+
+function countOf(text: string, term: string): number {
+  return text.split(term).length - 1;
+}
+
+/**
+ * Share of unchanged characters in both texts, ignoring whitespace
+ */
+function diffSimilarity(diff: TextDiffSegment[]): number {
+  let equal = 0;
+  let changed = 0;
+
+  for (const segment of diff) {
+    const length = stripWhitespace(segment.text).length;
+    if (segment.op === 'equal') {
+      equal += length;
+    } else {
+      changed += length;
+    }
+  }
+
+  // 2 * common / (old length + new length)
+  const total = 2 * equal + changed;
+  return total > 0 ? Math.floor((2 * equal / total) * 100) / 100 : 1;
+}
+
+/**
+ * Character bigram (Dice) similarity of two nodes, ignoring their numbering
+ */
+function similarity(a: ArticleNode, b: ArticleNode): number {
+  const textA = normalizeForMatch(a.article.article_content);
+  const textB = normalizeForMatch(b.article.article_content);
+
+  if (textA === textB) return 1;
+  if (textA.length < 2 || textB.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < textA.length - 1; i++) {
+    const bigram = textA.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < textB.length - 1; i++) {
+    const bigram = textB.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (textA.length - 1 + textB.length - 1);
+}
+
+/**
+ * Drop the leading "제5조의2", "②", "3." or "가." and whitespace
+ */
+function normalizeForMatch(text: string): string {
+  return stripWhitespace(
+    text.replace(/^\s*(?:제\d+조(?:의\d+)?|[①-⑳㉑-㉟]|\d+(?:의\d+)?\.|[가-하]\.)/u, '')
+  );
+}
+
+/**
+ * "제5조 삭제 <2024. 1. 9.>", "③ 삭제 <2024. 1. 9.>"
+ */
+function isDeletedText(text: string): boolean {
+  return /^\s*(?:\S+\s+)?삭제\s*(?:<[^>]*>)?\s*$/.test(text);
+}
+
+function stripWhitespace(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+/**
+ * Words, numbers and single punctuation characters, keeping whitespace
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\d+|[\p{L}\p{M}]+|[^\s\d\p{L}\p{M}]/gu) || [];
+}
+
+/**
+ * Myers diff of two token lists
+ */
+function diffTokens(a: string[], b: string[]): TextDiffSegment[] {
+  const segments: TextDiffSegment[] = [];
+
+  // Common prefix and suffix do not need the O(ND) search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  pushSegment(segments, 'equal', a.slice(0, start).join(''));
+  myers(a.slice(start, endA), b.slice(start, endB)).forEach(s => pushSegment(segments, s.op, s.text));
+  pushSegment(segments, 'equal', a.slice(endA).join(''));
+
+  return segments;
+}
+
+function myers(a: string[], b: string[]): TextDiffSegment[] {
+  const n = a.length;
+  const m = b.length;
+  const replaced: TextDiffSegment[] = [
+    { op: 'delete', text: a.join('') },
+    { op: 'insert', text: b.join('') }
+  ];
+
+  if (n === 0 || m === 0) {
+    return replaced;
+  }
+
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  // trace[d] holds v for diagonals -d..d after step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, d);
+      }
+    }
+
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return replaced;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], distance: number): TextDiffSegment[] {
+  const reversed: TextDiffSegment[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = distance; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ op: 'equal', text: a[--x] });
+      y--;
+    }
+
+    if (down) {
+      reversed.push({ op: 'insert', text: b[prevY] });
+    } else {
+      reversed.push({ op: 'delete', text: a[prevX] });
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    reversed.push({ op: 'equal', text: a[--x] });
+    y--;
+  }
+
+  const segments: TextDiffSegment[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    pushSegment(segments, reversed[i].op, reversed[i].text);
+  }
+  return segments;
+}
+
+function pushSegment(segments: TextDiffSegment[], op: TextDiffSegment['op'], text: string): void {
+  if (!text) return;
+
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
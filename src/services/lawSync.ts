@@ -0,0 +1,270 @@
+/**
+ * Law Sync Service
+ * Persists 국가법령정보센터 data: upserts laws, stores new revisions with
+ * their articles and computed changed_articles.
+ *
+ * Each run records its work list and a cursor in law_sync_runs after every
+ * law, so a failed run resumes at the law where it stopped.
+ */
+
+import type { Article, LawRevision, LawSyncRun } from '../types/database';
+import { LawStatus, LawSyncStatus, RevisionType } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+import type { LawDetail, LawRevisionItem } from './lawCrawler';
+import {
+  fetchLawList,
+  fetchLawDetails,
+  fetchLawRevisions,
+  parseLawData,
+  parseRevisionData,
+  buildLawArticles
+} from './lawCrawler';
+import { compareArticles } from './lawDiff';
+
+const DEFAULT_LOOKBACK_DAYS = 7;
+// A running run without a checkpoint for this long is considered dead
+const DEFAULT_STALE_MINUTES = 30;
+
+export interface LawSyncOptions {
+  lookbackDays?: number;
+  staleMinutes?: number;
+}
+
+export interface LawSyncResult {
+  success: boolean;
+  run: LawSyncRun | null;
+  resumed: boolean;
+  error?: string;
+}
+
+interface LawSyncCounters {
+  new_laws: number;
+  updated_laws: number;
+  new_revisions: number;
+  new_articles: number;
+  errors: number;
+}
+
+/**
+ * Run (or resume) a law synchronisation
+ */
+export async function runLawSync(
+  apiKey: string,
+  dbService: DatabaseService,
+  options: LawSyncOptions = {}
+): Promise<LawSyncResult> {
+  const staleMinutes = options.staleMinutes ?? DEFAULT_STALE_MINUTES;
+
+  const active = await dbService.getActiveLawSyncRun(staleMinutes);
+  if (active) {
+    console.log('[LawSync] Run already in progress:', active.run_id);
+    return { success: false, run: active, resumed: false, error: 'Law sync already in progress' };
+  }
+
+  let run = await dbService.getResumableLawSyncRun(staleMinutes);
+  const resumed = run !== null;
+
+  if (run) {
+    console.log('[LawSync] Resuming run:', run.run_id, 'at', run.cursor, '/', run.law_ids.length);
+    run = await dbService.updateLawSyncRun(run.run_id, {
+      status: LawSyncStatus.RUNNING,
+      error_message: null
+    }) ?? run;
+  } else {
+    run = await dbService.createLawSyncRun({
+      run_id: `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      from_date: await resolveFromDate(dbService, options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS),
+      law_ids: []
+    });
+    console.log('[LawSync] Starting run:', run.run_id);
+  }
+
+  const counters: LawSyncCounters = {
+    new_laws: run.new_laws,
+    updated_laws: run.updated_laws,
+    new_revisions: run.new_revisions,
+    new_articles: run.new_articles,
+    errors: run.errors
+  };
+
+  try {
+    const fromDate = new Date(run.from_date);
+
+    // Work list is fetched once per run so the cursor stays meaningful
+    let lawIds = run.law_ids;
+    if (lawIds.length === 0 && run.cursor === 0) {
+      const listResponse = await fetchLawList(apiKey, { fromDate: toYmd(fromDate) });
+
+      if (!listResponse.success || !listResponse.data) {
+        throw new Error(`Failed to fetch law list: ${listResponse.error || 'empty response'}`);
+      }
+
+      lawIds = (listResponse.data.laws || []).map((l: { law_id: string }) => l.law_id);
+      await dbService.updateLawSyncRun(run.run_id, { law_ids: lawIds });
+    }
+
+    for (let i = run.cursor; i < lawIds.length; i++) {
+      await syncLaw(apiKey, dbService, lawIds[i], fromDate, counters);
+
+      // Checkpoint after every law
+      await dbService.updateLawSyncRun(run.run_id, { ...counters, cursor: i + 1 });
+    }
+
+    console.log('[LawSync] Run completed:', run.run_id, counters);
+
+    const completed = await dbService.updateLawSyncRun(run.run_id, {
+      ...counters,
+      status: LawSyncStatus.COMPLETED,
+      completed_at: new Date()
+    });
+
+    return { success: true, run: completed, resumed };
+
+  } catch (error) {
+    console.error('[LawSync] Run failed:', run.run_id, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    try {
+      const failed = await dbService.updateLawSyncRun(run.run_id, {
+        ...counters,
+        status: LawSyncStatus.FAILED,
+        error_message: message
+      });
+      return { success: false, run: failed, resumed, error: message };
+    } catch (updateError) {
+      console.error('[LawSync] Failed to record run failure:', updateError);
+      return { success: false, run, resumed, error: message };
+    }
+  }
+}
+
+/**
+ * Sync one law and its revisions since fromDate
+ *
+ * API failures are counted and the law is skipped; database errors are
+ * thrown so the run stops and can be resumed from this law.
+ */
+async function syncLaw(
+  apiKey: string,
+  dbService: DatabaseService,
+  lawId: string,
+  fromDate: Date,
+  counters: LawSyncCounters
+): Promise<void> {
+  const detailsResponse = await fetchLawDetails(apiKey, lawId);
+
+  if (!detailsResponse.success || !detailsResponse.data?.law_name) {
+    console.error('[LawSync] Failed to fetch law details:', lawId, detailsResponse.error);
+    counters.errors++;
+    return;
+  }
+
+  const details: LawDetail = detailsResponse.data;
+
+  const revisionsResponse = await fetchLawRevisions(apiKey, lawId, toYmd(fromDate));
+  const revisions: LawRevisionItem[] = revisionsResponse.success
+    ? [...(revisionsResponse.data?.revisions || [])].sort(
+        (a, b) => a.revision_date.getTime() - b.revision_date.getTime()
+      )
+    : [];
+
+  if (!revisionsResponse.success) {
+    console.error('[LawSync] Failed to fetch revisions:', lawId, revisionsResponse.error);
+    counters.errors++;
+  }
+
+  const latest = revisions[revisions.length - 1];
+
+  // law_id is the 법령일련번호 (MST) the law was listed under
+  const parsedLaw = parseLawData({ ...details, law_id: lawId });
+  if (!parsedLaw) {
+    console.error('[LawSync] Failed to parse law details:', lawId);
+    counters.errors++;
+    return;
+  }
+
+  const { law, inserted } = await dbService.upsertLaw({
+    ...parsedLaw,
+    current_version: latest ? revisionVersion(latest) : parsedLaw.current_version,
+    status: latest?.revision_type === RevisionType.ABOLISH ? LawStatus.ABOLISHED : parsedLaw.status
+  });
+
+  if (inserted) {
+    counters.new_laws++;
+  } else {
+    counters.updated_laws++;
+  }
+
+  let previous: { revision: LawRevision; articles: Article[] } | null = null;
+
+  for (const parsed of revisions) {
+    const revision = parseRevisionData({ ...parsed, law_id: law.law_id });
+    if (!revision) {
+      continue;
+    }
+
+    if (await dbService.getRevisionById(revision.revision_id)) {
+      previous = null; // Already stored, load from the database for the next diff
+      continue;
+    }
+
+    // Text in force on the revision date
+    const versionResponse = parsed === latest
+      ? detailsResponse
+      : await fetchLawDetails(apiKey, lawId, toYmd(parsed.revision_date));
+
+    if (!versionResponse.success || !versionResponse.data) {
+      console.error('[LawSync] Failed to fetch revision text:', revision.revision_id, versionResponse.error);
+      counters.errors++;
+      break; // Later revisions would be diffed against the wrong base
+    }
+
+    const version: LawDetail = versionResponse.data;
+    revision.enforcement_date = version.enforcement_date || parsed.revision_date;
+
+    const articles = buildLawArticles(law.law_id, revision.revision_id, version.articles || []);
+
+    if (!previous) {
+      const stored = await dbService.getPreviousRevision(revision);
+      previous = stored
+        ? { revision: stored, articles: await dbService.getArticlesByRevisionId(stored.revision_id) }
+        : null;
+    }
+
+    revision.previous_version = previous?.revision.new_version || '';
+    revision.changed_articles = compareArticles(previous?.articles || [], articles);
+
+    await dbService.createRevisionWithArticles(revision, articles);
+
+    counters.new_revisions++;
+    counters.new_articles += articles.length;
+
+    previous = { revision, articles };
+  }
+}
+
+/**
+ * Continue from the last completed run (one day of overlap),
+ * or look back a fixed number of days on the first run
+ */
+async function resolveFromDate(dbService: DatabaseService, lookbackDays: number): Promise<Date> {
+  const last = await dbService.getLastCompletedLawSyncRun();
+  const base = last ? new Date(last.started_at).getTime() - 24 * 60 * 60 * 1000
+    : Date.now() - lookbackDays * 24 * 60 * 60 * 1000;
+  const date = new Date(base);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function revisionVersion(revision: LawRevisionItem): string {
+  return revision.revision_number || toYmd(revision.revision_date);
+}
+
+/**
+ * Format a date as YYYYMMDD for the law.go.kr API
+ */
+function toYmd(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}${m}${d}`;
+}
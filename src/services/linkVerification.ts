@@ -0,0 +1,143 @@
+/**
+ * Link Verification Service
+ * Officer decisions on automatically created law-regulation links
+ *
+ * - 확인: pending | rejected → confirmed
+ * - 거부: pending | confirmed → rejected (comment required)
+ * - 유형변경: any status → confirmed with a different link type
+ *
+ * Rejected links no longer feed impact analysis and are kept so that the
+ * regulation linker does not recreate them.
+ */
+
+import type { JWTPayload } from '../middleware/auth';
+import type { LinkVerificationHistory } from '../types/database';
+import { LinkType, LinkVerificationAction, LinkVerificationStatus } from '../types/database';
+import type { DatabaseService, LinkDetail, LinkVerificationTransition } from './databaseImpl';
+
+export type LinkVerificationErrorReason = 'invalid' | 'conflict';
+
+/**
+ * Raised when a decision cannot be applied to a link
+ */
+export class LinkVerificationError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: LinkVerificationErrorReason
+  ) {
+    super(message);
+    this.name = 'LinkVerificationError';
+  }
+}
+
+export function isLinkVerificationAction(value: unknown): value is LinkVerificationAction {
+  return (Object.values(LinkVerificationAction) as unknown[]).includes(value);
+}
+
+export function isLinkType(value: unknown): value is LinkType {
+  return (Object.values(LinkType) as unknown[]).includes(value);
+}
+
+/**
+ * Apply an officer decision to a link
+ * The route limits links to the user's tenant scope (requireTenantOf).
+ * Returns null if the link does not exist
+ */
+export async function submitLinkVerification(
+  dbService: DatabaseService,
+  linkId: string,
+  user: JWTPayload,
+  action: LinkVerificationAction,
+  linkType: LinkType | undefined,
+  comment: string | undefined
+): Promise<{ link: LinkDetail; history: LinkVerificationHistory } | null> {
+  const link = await dbService.getLinkById(linkId);
+  if (!link) {
+    return null;
+  }
+
+  const transition = planLinkVerification(link, user.user_id, action, linkType, comment);
+
+  try {
+    const history = await dbService.applyLinkVerification(transition);
+
+    return {
+      link: {
+        ...link,
+        link_type: transition.to_link_type,
+        verification_status: transition.to_status,
+        verified: true,
+        verified_by: user.user_id,
+        verified_at: history.created_at
+      },
+      history
+    };
+  } catch (error) {
+    // Another officer decided on the link between our read and write
+    if (isLinkConflict(error)) {
+      throw new LinkVerificationError(`Link ${linkId} was modified concurrently, please reload`, 'conflict');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build the compare-and-set transition for one link, or throw if illegal
+ */
+function planLinkVerification(
+  link: LinkDetail,
+  userId: string,
+  action: LinkVerificationAction,
+  linkType: LinkType | undefined,
+  comment: string | undefined
+): LinkVerificationTransition {
+  const current = link.verification_status;
+  let toStatus: LinkVerificationStatus;
+  let toLinkType = link.link_type;
+
+  switch (action) {
+    case LinkVerificationAction.CONFIRM:
+      if (current === LinkVerificationStatus.CONFIRMED) {
+        throw new LinkVerificationError(`Link ${link.link_id} is already confirmed`, 'conflict');
+      }
+      toStatus = LinkVerificationStatus.CONFIRMED;
+      break;
+
+    case LinkVerificationAction.REJECT:
+      if (!comment?.trim()) {
+        throw new LinkVerificationError('comment is required for 거부', 'invalid');
+      }
+      if (current === LinkVerificationStatus.REJECTED) {
+        throw new LinkVerificationError(`Link ${link.link_id} is already rejected`, 'conflict');
+      }
+      toStatus = LinkVerificationStatus.REJECTED;
+      break;
+
+    case LinkVerificationAction.RETYPE:
+      if (!isLinkType(linkType)) {
+        throw new LinkVerificationError(`link_type must be one of ${Object.values(LinkType).join(', ')}`, 'invalid');
+      }
+      if (linkType === link.link_type) {
+        throw new LinkVerificationError(`Link ${link.link_id} is already ${linkType}`, 'invalid');
+      }
+      toStatus = LinkVerificationStatus.CONFIRMED;
+      toLinkType = linkType;
+      break;
+  }
+
+  return {
+    link_id: link.link_id,
+    from_status: current,
+    from_link_type: link.link_type,
+    to_status: toStatus,
+    to_link_type: toLinkType,
+    history_id: `link_history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    user_id: userId,
+    action,
+    comment: comment?.trim() || null
+  };
+}
+
+function isLinkConflict(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('link_conflict');
+}
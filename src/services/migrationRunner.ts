@@ -0,0 +1,412 @@
+/**
+ * Migration Runner
+ * Applies migrations/NNNN_name.sql in order and records each one in
+ * schema_migrations with the SHA-256 checksum of the file
+ *
+ * - Each migration runs in one transaction together with its
+ *   schema_migrations row, so a failed migration leaves nothing behind
+ * - NNNN_name.down.sql reverts NNNN_name.sql
+ * - A row in schema_migrations_lock keeps two runners from migrating
+ *   the same database at once
+ */
+
+import type { Database } from '../utils/db';
+
+export interface Migration {
+  version: string; // "0008"
+  name: string; // "link_verification"
+  up: string;
+  down: string | null;
+  checksum: string; // SHA-256 of the up file
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number | null;
+}
+
+/**
+ * - applied: recorded and unchanged since
+ * - changed: recorded, but the file no longer matches its checksum
+ * - pending: not applied yet
+ * - missing: recorded, but the file is gone
+ */
+export type MigrationState = 'applied' | 'changed' | 'pending' | 'missing';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  applied_at: Date | null;
+}
+
+export type MigrationDirection = 'up' | 'down';
+
+export interface MigrationStep {
+  direction: MigrationDirection;
+  migration: Migration;
+  statements: string[];
+}
+
+/**
+ * Raised for plans that cannot be run: changed or missing files,
+ * absent down files, or a database locked by another runner
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// A lock older than this is considered abandoned by a crashed runner
+export const LOCK_STALE_MINUTES = 30;
+
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+?)(\.down)?\.sql$/;
+
+const SCHEMA_TABLES = [
+  `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version VARCHAR(20) PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    checksum CHAR(64) NOT NULL,
+    applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    execution_ms INTEGER
+  )`,
+  `CREATE TABLE IF NOT EXISTS schema_migrations_lock (
+    lock_id INTEGER PRIMARY KEY CHECK (lock_id = 1),
+    locked_by VARCHAR(200) NOT NULL,
+    locked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`
+];
+
+/**
+ * Build migrations from the files of the migrations directory
+ * Files that do not look like NNNN_name.sql are ignored
+ */
+export async function loadMigrations(
+  files: Array<{ filename: string; content: string }>
+): Promise<Migration[]> {
+  const ups = new Map<string, { name: string; up: string }>();
+  const downs = new Map<string, { name: string; down: string }>();
+
+  for (const { filename, content } of files) {
+    const match = filename.match(MIGRATION_FILE);
+    if (!match) {
+      continue;
+    }
+
+    const [, version, name, down] = match;
+    const target = down ? downs : ups;
+
+    if (target.has(version)) {
+      throw new MigrationError(`Duplicate migration version ${version} (${filename})`);
+    }
+
+    if (down) {
+      downs.set(version, { name, down: content });
+    } else {
+      ups.set(version, { name, up: content });
+    }
+  }
+
+  for (const [version, { name }] of downs) {
+    if (ups.get(version)?.name !== name) {
+      throw new MigrationError(`${version}_${name}.down.sql has no matching ${version}_${name}.sql`);
+    }
+  }
+
+  const migrations: Migration[] = [];
+
+  for (const [version, { name, up }] of ups) {
+    migrations.push({
+      version,
+      name,
+      up,
+      down: downs.get(version)?.down ?? null,
+      checksum: await sha256(up)
+    });
+  }
+
+  return migrations.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Split a SQL file into statements
+ * Semicolons inside quotes, comments and $$ bodies do not end a statement
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === '\'' || char === '"') {
+      // A doubled quote inside the literal reopens it on the next iteration
+      const end = sql.indexOf(char, i + 1);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '$') {
+      const tag = sql.substring(i).match(/^\$[A-Za-z_]*\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+      } else {
+        i++;
+      }
+    } else if (char === ';') {
+      statements.push(sql.substring(start, i));
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+
+  statements.push(sql.substring(start));
+
+  return statements
+    .map(s => s.trim())
+    .filter(s => stripComments(s).trim().length > 0);
+}
+
+/**
+ * Compare the migration files with schema_migrations
+ * Does not create anything, so it is safe for dry runs
+ */
+export async function getMigrationStatus(db: Database, migrations: Migration[]): Promise<MigrationStatus[]> {
+  const applied = await getAppliedMigrations(db);
+  const appliedMap = new Map(applied.map(a => [a.version, a]));
+  const status: MigrationStatus[] = [];
+
+  for (const migration of migrations) {
+    const record = appliedMap.get(migration.version);
+
+    status.push({
+      version: migration.version,
+      name: migration.name,
+      state: !record ? 'pending' : record.checksum === migration.checksum ? 'applied' : 'changed',
+      applied_at: record ? record.applied_at : null
+    });
+    appliedMap.delete(migration.version);
+  }
+
+  for (const record of appliedMap.values()) {
+    status.push({ version: record.version, name: record.name, state: 'missing', applied_at: record.applied_at });
+  }
+
+  return status.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Pending migrations up to and including target, oldest first
+ * Refuses to run while an applied migration was edited or deleted
+ */
+export function planUp(status: MigrationStatus[], migrations: Migration[], target?: string): MigrationStep[] {
+  const drifted = status.filter(s => s.state === 'changed' || s.state === 'missing');
+
+  if (drifted.length > 0) {
+    throw new MigrationError(
+      `Applied migrations differ from the files: ${drifted.map(s => `${s.version} (${s.state})`).join(', ')}`
+    );
+  }
+
+  const pending = new Set(status.filter(s => s.state === 'pending').map(s => s.version));
+
+  return migrations
+    .filter(m => pending.has(m.version) && (!target || m.version <= target))
+    .map(m => ({ direction: 'up', migration: m, statements: splitStatements(m.up) }));
+}
+
+/**
+ * Applied migrations to revert, newest first
+ * Either the last `steps` migrations or every migration after `target`
+ */
+export function planDown(
+  status: MigrationStatus[],
+  migrations: Migration[],
+  options: { steps?: number; target?: string }
+): MigrationStep[] {
+  const migrationMap = new Map(migrations.map(m => [m.version, m]));
+  let applied = status.filter(s => s.state !== 'pending').reverse();
+
+  if (options.target !== undefined) {
+    applied = applied.filter(s => s.version > options.target!);
+  } else {
+    applied = applied.slice(0, options.steps ?? 1);
+  }
+
+  return applied.map(s => {
+    const migration = migrationMap.get(s.version);
+
+    if (!migration) {
+      throw new MigrationError(`Cannot revert ${s.version}_${s.name}: migration file is missing`);
+    }
+    if (!migration.down) {
+      throw new MigrationError(`Cannot revert ${s.version}_${s.name}: ${s.version}_${s.name}.down.sql does not exist`);
+    }
+
+    return { direction: 'down', migration, statements: splitStatements(migration.down) };
+  });
+}
+
+/**
+ * Run planned steps one transaction at a time, stopping at the first failure
+ * Returns the steps that were committed
+ */
+export async function runMigrationSteps(
+  db: Database,
+  steps: MigrationStep[],
+  log: (message: string) => void = console.log
+): Promise<MigrationStep[]> {
+  const done: MigrationStep[] = [];
+
+  for (const step of steps) {
+    const { migration } = step;
+    const label = `${migration.version}_${migration.name}`;
+    const startedAt = Date.now();
+
+    const statements: Array<{ text: string; params?: any[] }> = step.statements.map(text => ({ text }));
+
+    if (step.direction === 'up') {
+      statements.push({
+        text: `INSERT INTO schema_migrations (version, name, checksum)
+               VALUES ($1, $2, $3)`,
+        params: [migration.version, migration.name, migration.checksum]
+      });
+    } else {
+      statements.push({
+        text: 'DELETE FROM schema_migrations WHERE version = $1',
+        params: [migration.version]
+      });
+    }
+
+    try {
+      await db.batch(statements);
+    } catch (error) {
+      throw new MigrationError(`${step.direction} ${label} failed: ${(error as Error).message}`);
+    }
+
+    const elapsed = Date.now() - startedAt;
+
+    if (step.direction === 'up') {
+      await db.query(
+        'UPDATE schema_migrations SET execution_ms = $1 WHERE version = $2',
+        [elapsed, migration.version]
+      );
+    }
+
+    log(`${step.direction === 'up' ? 'Applied' : 'Reverted'} ${label} (${elapsed}ms)`);
+    done.push(step);
+  }
+
+  return done;
+}
+
+/**
+ * Record migrations up to and including target as applied without running them
+ * For databases created before schema_migrations existed
+ */
+export async function baselineMigrations(db: Database, migrations: Migration[], target: string): Promise<Migration[]> {
+  const baseline = migrations.filter(m => m.version <= target);
+
+  if (baseline.length === 0) {
+    throw new MigrationError(`No migrations at or below ${target}`);
+  }
+
+  await db.batch(baseline.map(m => ({
+    text: `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+           VALUES ($1, $2, $3, NULL)
+           ON CONFLICT (version) DO NOTHING`,
+    params: [m.version, m.name, m.checksum]
+  })));
+
+  return baseline;
+}
+
+/**
+ * Create schema_migrations and schema_migrations_lock if needed
+ */
+export async function ensureMigrationTables(db: Database): Promise<void> {
+  for (const statement of SCHEMA_TABLES) {
+    await db.query(statement);
+  }
+}
+
+/**
+ * Take the migration lock, or throw if another runner holds it
+ * Locks older than LOCK_STALE_MINUTES are taken over
+ */
+export async function acquireMigrationLock(db: Database, owner: string): Promise<void> {
+  const acquired = await db.queryOne<{ locked_by: string }>(
+    `INSERT INTO schema_migrations_lock (lock_id, locked_by, locked_at)
+     VALUES (1, $1, CURRENT_TIMESTAMP)
+     ON CONFLICT (lock_id) DO UPDATE
+       SET locked_by = EXCLUDED.locked_by, locked_at = EXCLUDED.locked_at
+       WHERE schema_migrations_lock.locked_at < CURRENT_TIMESTAMP - make_interval(mins => $2)
+     RETURNING locked_by`,
+    [owner, LOCK_STALE_MINUTES]
+  );
+
+  if (!acquired) {
+    const holder = await db.queryOne<{ locked_by: string; locked_at: Date }>(
+      'SELECT locked_by, locked_at FROM schema_migrations_lock WHERE lock_id = 1'
+    );
+    throw new MigrationError(
+      `Database is locked by ${holder?.locked_by} since ${holder?.locked_at} (run "unlock" if that runner is gone)`
+    );
+  }
+}
+
+/**
+ * Release the lock if we still hold it
+ */
+export async function releaseMigrationLock(db: Database, owner: string): Promise<void> {
+  await db.query(
+    'DELETE FROM schema_migrations_lock WHERE lock_id = 1 AND locked_by = $1',
+    [owner]
+  );
+}
+
+/**
+ * Release the lock whoever holds it
+ */
+export async function forceReleaseMigrationLock(db: Database): Promise<boolean> {
+  const result = await db.query('DELETE FROM schema_migrations_lock WHERE lock_id = 1 RETURNING locked_by');
+  return result.rowCount > 0;
+}
+
+async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+  const exists = await db.queryOne<{ exists: boolean }>(
+    `SELECT to_regclass('schema_migrations') IS NOT NULL as exists`
+  );
+
+  if (!exists?.exists) {
+    return [];
+  }
+
+  const result = await db.query<AppliedMigration>(
+    'SELECT * FROM schema_migrations ORDER BY version'
+  );
+  return result.rows;
+}
+
+function stripComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '');
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -3,7 +3,7 @@
  * Handles email and in-app notifications
  */
 
-import type { Notification, User, ImpactAnalysis } from '../types/database';
+import type { Notification, User, ImpactAnalysis, EnforcementCalendarEntry } from '../types/database';
 
 export interface EmailOptions {
   to: string;
@@ -226,6 +226,96 @@ export async function notifyUsers(
   return stats;
 }
 
+/**
+ * Warn a user that a revision with unreviewed analyses takes effect soon
+ * The in-app notification points at the most severe unreviewed analysis.
+ */
+export async function notifyEnforcementDeadline(
+  user: User,
+  entry: EnforcementCalendarEntry,
+  dbService: any,
+  sendGridApiKey?: string
+): Promise<{ success: boolean; email_sent: boolean; notification_created: boolean }> {
+  const result = {
+    success: false,
+    email_sent: false,
+    notification_created: false
+  };
+
+  try {
+    const title = `[D-${entry.days_left}] ${entry.law_name} 시행일(${entry.enforcement_date}) 임박`;
+    const message = `${entry.law_name} ${entry.revision_type}이 ${entry.enforcement_date}에 시행됩니다.\n\n` +
+      `미검토 영향 분석 ${entry.unresolved_analyses}건(HIGH ${entry.high_impact_unresolved}건)이 남아 있습니다. ` +
+      `시행일 전에 자치법규 개정 여부를 결정해 주세요.`;
+
+    const notification = await createNotification({
+      user_id: user.user_id,
+      analysis_id: entry.top_unresolved_analysis_id!,
+      notification_type: entry.days_left <= 7 ? 'urgent' : 'normal',
+      title,
+      message
+    }, dbService);
+
+    result.notification_created = notification !== null;
+
+    if (user.notification_settings.email_enabled && sendGridApiKey) {
+      const html = `
+<!DOCTYPE html>
+<html lang="ko">
+<head>
+    <meta charset="UTF-8">
+    <title>시행일 임박 알림</title>
+</head>
+<body style="font-family: 'Malgun Gothic', sans-serif; padding: 20px; background-color: #f3f4f6;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; padding: 30px;">
+        <h2 style="color: #dc2626; margin-bottom: 20px;">⏰ 시행일 D-${entry.days_left}</h2>
+        
+        <p>안녕하세요, ${user.username}님</p>
+        
+        <div style="background-color: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <ul style="list-style: none; padding: 0; margin: 0;">
+                <li style="padding: 8px 0; border-bottom: 1px solid #e5e7eb;">
+                    <strong>법령:</strong> ${entry.law_name} (${entry.revision_type})
+                </li>
+                <li style="padding: 8px 0; border-bottom: 1px solid #e5e7eb;">
+                    <strong>시행일:</strong> ${entry.enforcement_date}
+                </li>
+                <li style="padding: 8px 0;">
+                    <strong>미검토 영향 분석:</strong> ${entry.unresolved_analyses}건 (HIGH ${entry.high_impact_unresolved}건)
+                </li>
+            </ul>
+        </div>
+        
+        <div style="text-align: center; margin-top: 30px;">
+            <a href="https://law-analysis.go.kr/analysis/${entry.top_unresolved_analysis_id}" 
+               style="display: inline-block; background-color: #1e40af; color: #ffffff; text-decoration: none; padding: 12px 24px; border-radius: 6px;">
+                영향 분석 검토하기
+            </a>
+        </div>
+    </div>
+</body>
+</html>
+  `;
+
+      const emailResult = await sendEmail({
+        to: user.email,
+        subject: title,
+        html,
+        text: message
+      }, sendGridApiKey);
+
+      result.email_sent = emailResult.success;
+    }
+
+    result.success = result.notification_created || result.email_sent;
+    return result;
+
+  } catch (error) {
+    console.error('[Notification] Error sending enforcement deadline warning:', error);
+    return result;
+  }
+}
+
 /**
  * Generate email template
  */
@@ -354,6 +444,49 @@ function generateEmailTemplate(data: {
   `.trim();
 }
 
+/**
+ * Send a password reset link
+ */
+export async function sendPasswordResetEmail(
+  user: User,
+  resetUrl: string,
+  validMinutes: number,
+  sendGridApiKey: string
+): Promise<{ success: boolean; error?: string }> {
+  const html = `
+<!DOCTYPE html>
+<html lang="ko">
+<head>
+    <meta charset="UTF-8">
+    <title>비밀번호 재설정</title>
+</head>
+<body style="font-family: 'Malgun Gothic', sans-serif; padding: 20px; background-color: #f3f4f6;">
+    <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; padding: 30px;">
+        <h2 style="color: #1e40af; margin-bottom: 20px;">🔑 비밀번호 재설정</h2>
+        
+        <p>안녕하세요, ${user.username}님</p>
+        <p>비밀번호 재설정이 요청되었습니다. 아래 버튼을 눌러 ${validMinutes}분 안에 새 비밀번호를 설정해 주세요.</p>
+        <p style="color: #6b7280; font-size: 14px;">요청하지 않으셨다면 이 메일을 무시하셔도 됩니다. 비밀번호는 변경되지 않습니다.</p>
+        
+        <div style="text-align: center; margin-top: 30px;">
+            <a href="${resetUrl}" 
+               style="display: inline-block; background-color: #1e40af; color: #ffffff; text-decoration: none; padding: 12px 24px; border-radius: 6px;">
+                비밀번호 재설정
+            </a>
+        </div>
+    </div>
+</body>
+</html>
+  `;
+
+  return sendEmail({
+    to: user.email,
+    subject: '[AI 자치법규 영향 분석 시스템] 비밀번호 재설정',
+    html,
+    text: `비밀번호 재설정 링크 (${validMinutes}분간 유효): ${resetUrl}`
+  }, sendGridApiKey);
+}
+
 /**
  * Send daily digest email
  */
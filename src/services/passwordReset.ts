@@ -0,0 +1,108 @@
+/**
+ * Password Reset Service
+ * Single-use, expiring reset tokens sent by email
+ *
+ * Responses never reveal whether an email is registered. Requests are
+ * rate-limited per email and per IP, counting unknown emails too. A reset
+ * revokes every session of the user.
+ */
+
+import type { DatabaseService } from './databaseImpl';
+import { UserStatus } from '../types/database';
+import { generateToken, hashToken, MIN_PASSWORD_LENGTH } from './userAdmin';
+import { sendPasswordResetEmail } from './notification';
+
+export type PasswordResetErrorReason = 'invalid' | 'rate_limited';
+
+/**
+ * Raised when a reset request or reset is refused
+ */
+export class PasswordResetError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: PasswordResetErrorReason
+  ) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+
+// Requests allowed per hour
+export const MAX_RESET_REQUESTS_PER_EMAIL = 3;
+export const MAX_RESET_REQUESTS_PER_IP = 10;
+
+/**
+ * Email a reset link if the email belongs to an active user
+ * origin is the configured APP_URL, not the request's Host.
+ * Throws only when rate-limited.
+ */
+export async function requestPasswordReset(
+  dbService: DatabaseService,
+  email: string,
+  options: { ip: string | null; origin: string; sendGridApiKey?: string }
+): Promise<void> {
+  const normalized = email.trim().toLowerCase();
+
+  const counts = await dbService.recordPasswordResetRequest(
+    normalized,
+    options.ip,
+    new Date(Date.now() - 60 * 60 * 1000)
+  );
+
+  if (counts.by_email > MAX_RESET_REQUESTS_PER_EMAIL || counts.by_ip > MAX_RESET_REQUESTS_PER_IP) {
+    throw new PasswordResetError('Too many password reset requests, please try again later', 'rate_limited');
+  }
+
+  const user = await dbService.getUserByEmail(normalized);
+  if (!user || user.status !== UserStatus.ACTIVE) {
+    return;
+  }
+
+  if (!options.sendGridApiKey) {
+    console.warn('[PasswordReset] SENDGRID_API_KEY is not configured, reset email not sent');
+    return;
+  }
+
+  const token = generateToken();
+  await dbService.createPasswordResetToken({
+    token_hash: await hashToken(token),
+    user_id: user.user_id,
+    expires_at: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+    requested_ip: options.ip
+  });
+
+  const result = await sendPasswordResetEmail(
+    user,
+    `${options.origin}/reset-password?token=${token}`,
+    RESET_TOKEN_TTL_MINUTES,
+    options.sendGridApiKey
+  );
+
+  if (!result.success) {
+    console.error('[PasswordReset] Failed to send reset email:', user.user_id, result.error);
+  }
+}
+
+/**
+ * Set a new password with a reset token
+ * Returns false if the token is unknown, used or expired
+ */
+export async function resetPassword(
+  dbService: DatabaseService,
+  token: string,
+  newPassword: string
+): Promise<boolean> {
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new PasswordResetError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 'invalid');
+  }
+
+  const bcrypt = await import('bcryptjs');
+  const user = await dbService.resetPasswordWithToken(
+    await hashToken(token),
+    await bcrypt.hash(newPassword, 10)
+  );
+
+  return user !== null;
+}
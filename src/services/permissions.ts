@@ -0,0 +1,140 @@
+/**
+ * Permission Policy Service
+ * Named permissions granted to each role
+ *
+ * The default policy can be overridden per role with the PERMISSION_POLICY
+ * variable, e.g.
+ *   {"viewer": {"permissions": ["analysis:review"], "department_only": true}}
+ * Roles that are not listed keep their defaults. department_only limits the
+ * role's actions on analyses to regulations of the user's own department.
+ */
+
+import type { CloudflareBindings } from '../types/bindings';
+import { Permission, UserRole } from '../types/database';
+
+export interface RolePolicy {
+  permissions: Permission[];
+  department_only: boolean;
+}
+
+export type PermissionPolicy = Record<UserRole, RolePolicy>;
+
+export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = {
+  [UserRole.ADMIN]: {
+    permissions: Object.values(Permission),
+    department_only: false
+  },
+  // Oversight of municipalities is read-only
+  [UserRole.PROVINCE_OFFICER]: {
+    permissions: [],
+    department_only: false
+  },
+  [UserRole.LAW_OFFICER]: {
+    permissions: [
+      Permission.ANALYSIS_TRIGGER,
+      Permission.ANALYSIS_REVIEW,
+      Permission.DRAFT_EDIT,
+      Permission.DRAFT_APPROVE,
+      Permission.LINK_VERIFY
+    ],
+    department_only: false
+  },
+  [UserRole.DEPT_OFFICER]: {
+    permissions: [Permission.ANALYSIS_REVIEW],
+    department_only: true
+  },
+  [UserRole.VIEWER]: {
+    permissions: [],
+    department_only: false
+  }
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return (Object.values(Permission) as unknown[]).includes(value);
+}
+
+/**
+ * Entry of PERMISSION_POLICY for one role; its fields are checked by getPermissionPolicy
+ */
+function isRolePolicyOverride(value: unknown): value is { permissions?: unknown; department_only?: unknown } {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Parsed PERMISSION_POLICY, by its raw value
+let cachedPolicy: { source: string; policy: PermissionPolicy } | null = null;
+
+/**
+ * Policy in effect: the defaults with PERMISSION_POLICY applied
+ * Throws if PERMISSION_POLICY is invalid, so a typo cannot grant or drop
+ * permissions silently.
+ */
+export function getPermissionPolicy(env: Pick<CloudflareBindings, 'PERMISSION_POLICY'>): PermissionPolicy {
+  const source = env.PERMISSION_POLICY?.trim();
+  if (!source) {
+    return DEFAULT_PERMISSION_POLICY;
+  }
+  if (cachedPolicy?.source === source) {
+    return cachedPolicy.policy;
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(source);
+  } catch {
+    throw new Error('PERMISSION_POLICY is not valid JSON');
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error('PERMISSION_POLICY must be an object keyed by role');
+  }
+
+  const policy: PermissionPolicy = { ...DEFAULT_PERMISSION_POLICY };
+
+  for (const [role, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!(Object.values(UserRole) as string[]).includes(role)) {
+      throw new Error(`PERMISSION_POLICY: unknown role ${role}`);
+    }
+    if (!isRolePolicyOverride(value)) {
+      throw new Error(`PERMISSION_POLICY: policy of ${role} must be an object`);
+    }
+
+    const permissions = value.permissions ?? policy[role as UserRole].permissions;
+    if (!Array.isArray(permissions)) {
+      throw new Error(`PERMISSION_POLICY: permissions of ${role} must be an array`);
+    }
+    const unknown = permissions.find(p => !isPermission(p));
+    if (unknown !== undefined) {
+      throw new Error(`PERMISSION_POLICY: unknown permission ${unknown} for ${role}`);
+    }
+
+    const departmentOnly = value.department_only ?? policy[role as UserRole].department_only;
+    if (typeof departmentOnly !== 'boolean') {
+      throw new Error(`PERMISSION_POLICY: department_only of ${role} must be true or false`);
+    }
+
+    policy[role as UserRole] = { permissions, department_only: departmentOnly };
+  }
+
+  cachedPolicy = { source, policy };
+  return policy;
+}
+
+/**
+ * Policy of a role; unknown roles get nothing
+ */
+export function policyOfRole(policy: PermissionPolicy, role: string): RolePolicy {
+  return policy[role as UserRole] || { permissions: [], department_only: false };
+}
+
+export function hasPermission(policy: PermissionPolicy, role: string, permission: Permission): boolean {
+  return policyOfRole(policy, role).permissions.includes(permission);
+}
+
+/**
+ * Department an action on an analysis is limited to (null: any department)
+ */
+export function departmentScopeOf(
+  policy: PermissionPolicy,
+  user: { role: string; department: string | null }
+): string | null {
+  return policyOfRole(policy, user.role).department_only ? (user.department || '') : null;
+}
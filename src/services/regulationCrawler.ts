@@ -1,19 +1,31 @@
 /**
  * Regulation Crawler Service
- * Fetches local regulation data from 자치법규정보시스템 API
+ * Fetches local regulation data (자치법규, target=ordin) from the
+ * 국가법령정보센터 Open API, which serves the 자치법규정보시스템 (ELIS) data
  */
 
 import type { LocalRegulation, RegulationArticle } from '../types/database';
+import { ArticleType, LawStatus, RegulationType } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+import { extractLawCitations } from './regulationLinker';
 
-// 자치법규정보시스템 API Configuration
-const REGULATION_API_BASE_URL = 'https://www.elis.go.kr/api';
+// 자치법규 Open API Configuration
+const REGULATION_API_BASE_URL = 'https://www.law.go.kr/DRF';
+
+// Page size accepted by lawSearch.do (max 100)
+const PAGE_SIZE = 100;
+// Safety cap for a single local government listing
+const MAX_PAGES = 50;
 
 export interface RegulationAPIParams {
   apiKey?: string;
-  localGovCode?: string; // 지자체 코드
+  localGovCode?: string; // 지자체 기관코드 (org)
   category?: string;
-  fromDate?: string;
+  fromDate?: string; // 공포일자 YYYYMMDD or YYYY-MM-DD
   toDate?: string;
+  query?: string;
+  page?: number;
+  display?: number;
 }
 
 export interface RegulationAPIResponse {
@@ -23,21 +35,77 @@ export interface RegulationAPIResponse {
 }
 
 /**
- * Fetch list of local regulations
+ * Entry of a lawSearch.do?target=ordin result
+ */
+export interface OrdinListItem {
+  serial_number: string; // 자치법규일련번호 (one per version)
+  ordin_id: string; // 자치법규ID (stable across versions)
+  regulation_name: string;
+  regulation_type: string; // 조례, 규칙, 훈령, ...
+  local_gov: string;
+  local_gov_code: string;
+  promulgation_date: string;
+  promulgation_number: string;
+  enforcement_date: string;
+  revision_type: string;
+}
+
+export interface OrdinArticle {
+  article_number: string; // "1", "1의2", "부칙1"
+  article_title: string;
+  article_content: string;
+  article_type: ArticleType;
+}
+
+/**
+ * Parsed lawService.do?target=ordin document
+ */
+export interface OrdinDetail extends OrdinListItem {
+  department: string;
+  articles: OrdinArticle[];
+}
+
+/**
+ * Fetch one page of local regulations
  */
 export async function fetchRegulationList(apiKey: string, params?: RegulationAPIParams): Promise<RegulationAPIResponse> {
   try {
     console.log('[RegulationCrawler] Fetching regulation list...', params);
-    
-    // TODO: Implement actual API call to 자치법규정보시스템
-    // For now, return mock data
-    
+
+    // Build API URL - 자치법규 목록 조회 API
+    const url = new URL(`${REGULATION_API_BASE_URL}/lawSearch.do`);
+    url.searchParams.set('OC', apiKey);
+    url.searchParams.set('target', 'ordin'); // 자치법규
+    url.searchParams.set('type', 'XML');
+    url.searchParams.set('display', String(params?.display || PAGE_SIZE));
+    url.searchParams.set('page', String(params?.page || 1));
+
+    if (params?.localGovCode) {
+      url.searchParams.set('org', params.localGovCode);
+    }
+
+    if (params?.query) {
+      url.searchParams.set('query', params.query);
+    }
+
+    if (params?.fromDate || params?.toDate) {
+      // 공포일자 범위: YYYYMMDD~YYYYMMDD
+      const from = toApiDate(params.fromDate) || '19000101';
+      const to = toApiDate(params.toDate) || '99991231';
+      url.searchParams.set('ancYd', `${from}~${to}`);
+    }
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const xmlText = await response.text();
+
     return {
       success: true,
-      data: {
-        total: 0,
-        regulations: []
-      }
+      data: parseOrdinListXML(xmlText)
     };
   } catch (error) {
     console.error('[RegulationCrawler] Error fetching regulation list:', error);
@@ -49,16 +117,35 @@ export async function fetchRegulationList(apiKey: string, params?: RegulationAPI
 }
 
 /**
- * Fetch regulation details by ID
+ * Fetch regulation details by 자치법규일련번호
  */
 export async function fetchRegulationDetails(apiKey: string, regulationId: string): Promise<RegulationAPIResponse> {
   try {
     console.log('[RegulationCrawler] Fetching regulation details for:', regulationId);
-    
-    // TODO: Implement actual API call
+
+    // Build API URL - 자치법규 본문 조회 API
+    const url = new URL(`${REGULATION_API_BASE_URL}/lawService.do`);
+    url.searchParams.set('OC', apiKey);
+    url.searchParams.set('target', 'ordin');
+    url.searchParams.set('type', 'XML');
+    url.searchParams.set('MST', regulationId);
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const xmlText = await response.text();
+    const details = parseOrdinDetailXML(xmlText);
+
+    if (!details) {
+      throw new Error(`Regulation not found: ${regulationId}`);
+    }
+
     return {
       success: true,
-      data: null
+      data: details
     };
   } catch (error) {
     console.error('[RegulationCrawler] Error fetching regulation details:', error);
@@ -70,24 +157,51 @@ export async function fetchRegulationDetails(apiKey: string, regulationId: strin
 }
 
 /**
- * Fetch regulations by local government
+ * Fetch all regulations of a local government, following pages
  */
 export async function fetchRegulationsByLocalGov(
   apiKey: string,
   localGovCode: string,
   options?: {
     regulationType?: '조례' | '규칙';
-    department?: string;
+    fromDate?: string;
   }
 ): Promise<RegulationAPIResponse> {
   try {
     console.log('[RegulationCrawler] Fetching regulations for local gov:', localGovCode);
-    
-    // TODO: Implement actual API call
+
+    const regulations: OrdinListItem[] = [];
+    let total = 0;
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = await fetchRegulationList(apiKey, {
+        localGovCode,
+        fromDate: options?.fromDate,
+        page
+      });
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || `Failed to fetch page ${page}`);
+      }
+
+      total = response.data.total;
+      regulations.push(...response.data.regulations);
+
+      if (response.data.regulations.length === 0 || regulations.length >= total) {
+        break;
+      }
+    }
+
+    // The list API has no type filter, so apply it here
+    const filtered = regulations.filter(r =>
+      !options?.regulationType || r.regulation_type === options.regulationType
+    );
+
     return {
       success: true,
       data: {
-        regulations: []
+        total,
+        regulations: filtered
       }
     };
   } catch (error) {
@@ -99,20 +213,194 @@ export async function fetchRegulationsByLocalGov(
   }
 }
 
+/**
+ * Parse lawSearch.do?target=ordin XML
+ */
+export function parseOrdinListXML(xmlText: string): {
+  total: number;
+  page: number;
+  regulations: OrdinListItem[];
+} {
+  const regulations: OrdinListItem[] = [];
+
+  const itemMatches = xmlText.matchAll(/<law(?:\s[^>]*)?>(.*?)<\/law>/gs);
+
+  for (const match of itemMatches) {
+    const item = parseOrdinInfo(match[1]);
+
+    if (item.serial_number && item.regulation_name) {
+      regulations.push(item);
+    }
+  }
+
+  return {
+    total: parseInt(extractXMLField(xmlText, 'totalCnt')) || regulations.length,
+    page: parseInt(extractXMLField(xmlText, 'page')) || 1,
+    regulations
+  };
+}
+
+/**
+ * Parse lawService.do?target=ordin XML
+ * Returns null for error pages or unknown documents
+ */
+export function parseOrdinDetailXML(xmlText: string): OrdinDetail | null {
+  try {
+    const infoXML = extractXMLBlock(xmlText, '자치법규기본정보');
+    if (!infoXML) {
+      return null;
+    }
+
+    const info = parseOrdinInfo(infoXML);
+    if (!info.regulation_name) {
+      return null;
+    }
+
+    const articles: OrdinArticle[] = [];
+    const articlesXML = extractXMLBlock(xmlText, '조문');
+
+    for (const match of articlesXML.matchAll(/<조(?:\s[^>]*)?>(.*?)<\/조>/gs)) {
+      const articleXML = match[1];
+
+      // 조문여부 N marks 장/절 headings rather than articles
+      if (extractXMLField(articleXML, '조문여부') === 'N') {
+        continue;
+      }
+
+      const articleNumber = normalizeArticleNumber(extractXMLField(articleXML, '조문번호'));
+      const content = collectArticleText(articleXML);
+
+      if (articleNumber && content) {
+        articles.push({
+          article_number: articleNumber,
+          article_title: extractXMLField(articleXML, '조제목'),
+          article_content: content,
+          article_type: ArticleType.MAIN
+        });
+      }
+    }
+
+    let addendumIndex = 0;
+    for (const match of xmlText.matchAll(/<부칙(?:\s[^>]*)?>(.*?)<\/부칙>/gs)) {
+      const content = extractXMLField(match[1], '부칙내용');
+
+      if (content) {
+        addendumIndex++;
+        articles.push({
+          article_number: `부칙${addendumIndex}`,
+          article_title: '부칙',
+          article_content: content,
+          article_type: ArticleType.ADDENDUM
+        });
+      }
+    }
+
+    return {
+      ...info,
+      department: extractXMLField(infoXML, '담당부서명'),
+      articles
+    };
+  } catch (error) {
+    console.error('[RegulationCrawler] Error parsing regulation details:', error);
+    return null;
+  }
+}
+
 /**
  * Parse regulation data
+ * Maps a parsed ordin document (or list entry) to a local_regulations row
  */
 export function parseRegulationData(rawData: any): LocalRegulation | null {
   try {
-    // TODO: Implement parser for actual API response format
-    
-    return null;
+    if (!rawData?.ordin_id || !rawData?.regulation_name) {
+      return null;
+    }
+
+    const data = rawData as OrdinListItem & Partial<OrdinDetail>;
+    const now = new Date();
+
+    return {
+      regulation_id: toRegulationId(data.ordin_id),
+      regulation_type: mapRegulationType(data.regulation_type),
+      regulation_name: data.regulation_name,
+      local_gov: data.local_gov,
+      local_gov_code: data.local_gov_code,
+      enactment_date: parseDate(data.promulgation_date),
+      current_version: data.promulgation_number || data.serial_number,
+      department: data.department || '',
+      status: data.revision_type.includes('폐지') ? LawStatus.ABOLISHED : LawStatus.ACTIVE,
+      created_at: now,
+      updated_at: now
+    };
   } catch (error) {
     console.error('[RegulationCrawler] Error parsing regulation data:', error);
     return null;
   }
 }
 
+/**
+ * Map parsed ordin articles to regulation_articles rows
+ * Ids depend only on the article number, so re-syncs update rows in place
+ */
+export function buildRegulationArticles(
+  regulationId: string,
+  articles: OrdinArticle[]
+): RegulationArticle[] {
+  const seen = new Set<string>();
+  const rows: RegulationArticle[] = [];
+
+  for (const article of articles) {
+    if (seen.has(article.article_number)) {
+      continue;
+    }
+    seen.add(article.article_number);
+
+    rows.push({
+      reg_article_id: `${regulationId}_art_${article.article_number}`,
+      regulation_id: regulationId,
+      article_number: article.article_number,
+      article_title: article.article_title,
+      article_content: article.article_content,
+      article_type: article.article_type,
+      created_at: new Date()
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Fetch one regulation and store it with its articles
+ * Returns null when the API call failed
+ */
+export async function syncRegulation(
+  apiKey: string,
+  dbService: DatabaseService,
+  serialNumber: string
+): Promise<{ regulation: LocalRegulation; inserted: boolean; articles: number } | null> {
+  const detailsResponse = await fetchRegulationDetails(apiKey, serialNumber);
+
+  if (!detailsResponse.success || !detailsResponse.data) {
+    return null;
+  }
+
+  const regulation = parseRegulationData(detailsResponse.data);
+  if (!regulation) {
+    return null;
+  }
+
+  const articles = buildRegulationArticles(regulation.regulation_id, detailsResponse.data.articles);
+  const existing = await dbService.getRegulationById(regulation.regulation_id);
+
+  await dbService.upsertRegulationWithArticles(regulation, articles);
+
+  return {
+    regulation,
+    inserted: existing === null,
+    articles: articles.length
+  };
+}
+
 /**
  * Extract articles from regulation content
  */
@@ -134,7 +422,7 @@ export function extractRegulationArticles(
         article_number: match[1],
         article_title: match[2],
         article_content: match[3].trim(),
-        article_type: '본문',
+        article_type: ArticleType.MAIN,
         created_at: new Date()
       };
       
@@ -150,64 +438,24 @@ export function extractRegulationArticles(
 
 /**
  * Extract basis law references from regulation
- * Finds references to national laws in regulation text
+ * Finds explicit citations of national laws in regulation text
  */
 export function extractBasisLawReferences(regulationContent: string): Array<{
   lawName: string;
   articleNumber?: string;
   referenceType: '근거법령' | '준용' | '참조';
 }> {
-  const references: Array<{
-    lawName: string;
-    articleNumber?: string;
-    referenceType: '근거법령' | '준용' | '참조';
-  }> = [];
-  
-  try {
-    // Pattern 1: "○○법 제X조에 따라" - 근거법령
-    const basisPattern = /([가-힣\s]+법)\s+제(\d+)조[에|의|를]?\s*[따라|의거하여|규정한]/g;
-    let match;
-    
-    while ((match = basisPattern.exec(regulationContent)) !== null) {
-      references.push({
-        lawName: match[1].trim(),
-        articleNumber: match[2],
-        referenceType: '근거법령'
-      });
-    }
-    
-    // Pattern 2: "○○법을 준용한다" - 준용
-    const applyPattern = /([가-힣\s]+법)[을|를]?\s*준용/g;
-    
-    while ((match = applyPattern.exec(regulationContent)) !== null) {
-      references.push({
-        lawName: match[1].trim(),
-        referenceType: '준용'
-      });
-    }
-    
-    // Pattern 3: "○○법 제X조 참조" - 참조
-    const referencePattern = /([가-힣\s]+법)\s+제(\d+)조\s*참조/g;
-    
-    while ((match = referencePattern.exec(regulationContent)) !== null) {
-      references.push({
-        lawName: match[1].trim(),
-        articleNumber: match[2],
-        referenceType: '참조'
-      });
-    }
-    
-    return references;
-  } catch (error) {
-    console.error('[RegulationCrawler] Error extracting basis law references:', error);
-    return references;
-  }
+  return extractLawCitations([regulationContent])[0].map(citation => ({
+    lawName: citation.law_name,
+    articleNumber: citation.article_number,
+    referenceType: citation.link_type
+  }));
 }
 
 /**
  * Crawl regulations for all major local governments
  */
-export async function crawlAllLocalGovRegulations(apiKey: string): Promise<{
+export async function crawlAllLocalGovRegulations(apiKey: string, dbService: DatabaseService): Promise<{
   success: boolean;
   stats: {
     processedGovs: number;
@@ -217,63 +465,72 @@ export async function crawlAllLocalGovRegulations(apiKey: string): Promise<{
   }
 }> {
   console.log('[RegulationCrawler] Starting crawl for all local governments...');
-  
+
   const stats = {
     processedGovs: 0,
     newRegulations: 0,
     updatedRegulations: 0,
     errors: 0
   };
-  
+
   try {
-    // Major local governments (example list)
+    // 광역자치단체 기관코드 (org), as seeded in local_governments
     const localGovCodes = [
-      '11', // 서울특별시
-      '26', // 부산광역시
-      '27', // 대구광역시
-      '28', // 인천광역시
-      '29', // 광주광역시
-      '30', // 대전광역시
-      '31', // 울산광역시
-      '36', // 세종특별자치시
-      '41', // 경기도
-      '42', // 강원도
-      '43', // 충청북도
-      '44', // 충청남도
-      '45', // 전라북도
-      '46', // 전라남도
-      '47', // 경상북도
-      '48', // 경상남도
-      '50', // 제주특별자치도
+      '6110000', // 서울특별시
+      '6260000', // 부산광역시
+      '6270000', // 대구광역시
+      '6280000', // 인천광역시
+      '6290000', // 광주광역시
+      '6300000', // 대전광역시
+      '6310000', // 울산광역시
+      '5690000', // 세종특별자치시
+      '6410000', // 경기도
+      '6530000', // 강원특별자치도
+      '6430000', // 충청북도
+      '6440000', // 충청남도
+      '6540000', // 전북특별자치도
+      '6460000', // 전라남도
+      '6470000', // 경상북도
+      '6480000', // 경상남도
+      '6500000', // 제주특별자치도
     ];
-    
+
     for (const code of localGovCodes) {
       try {
         const response = await fetchRegulationsByLocalGov(apiKey, code);
-        
-        if (response.success && response.data) {
-          const regulations = response.data.regulations || [];
-          stats.newRegulations += regulations.length;
+
+        if (!response.success || !response.data) {
+          stats.errors++;
+          continue;
         }
-        
+
+        // The listing of a province also holds its municipalities' regulations;
+        // it is where local_governments learns which province they belong to
+        const regulations: OrdinListItem[] = response.data.regulations;
+        await dbService.registerMunicipalities(code, regulations.map(r => ({
+          local_gov_code: r.local_gov_code,
+          name: r.local_gov
+        })));
+
+        await syncRegulations(apiKey, dbService, regulations, stats);
         stats.processedGovs++;
-        
-        // Rate limiting - wait 1 second between requests
+
+        // Rate limiting - wait 1 second between local governments
         await new Promise(resolve => setTimeout(resolve, 1000));
-        
+
       } catch (error) {
         console.error('[RegulationCrawler] Error processing local gov:', code, error);
         stats.errors++;
       }
     }
-    
+
     console.log('[RegulationCrawler] Crawl completed:', stats);
-    
+
     return {
       success: true,
       stats
     };
-    
+
   } catch (error) {
     console.error('[RegulationCrawler] Crawl failed:', error);
     stats.errors++;
@@ -287,7 +544,7 @@ export async function crawlAllLocalGovRegulations(apiKey: string): Promise<{
 /**
  * Daily crawler job for regulations
  */
-export async function runDailyRegulationCrawl(apiKey: string): Promise<{
+export async function runDailyRegulationCrawl(apiKey: string, dbService: DatabaseService): Promise<{
   success: boolean;
   stats: {
     newRegulations: number;
@@ -296,54 +553,46 @@ export async function runDailyRegulationCrawl(apiKey: string): Promise<{
   }
 }> {
   console.log('[RegulationCrawler] Starting daily regulation crawl...');
-  
+
   const stats = {
     newRegulations: 0,
     updatedRegulations: 0,
     errors: 0
   };
-  
+
   try {
-    // Fetch regulations updated in the last 7 days
+    // Fetch regulations promulgated in the last 7 days
     const today = new Date();
     const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
     const fromDate = weekAgo.toISOString().split('T')[0];
-    
-    const response = await fetchRegulationList(apiKey, {
-      fromDate
-    });
-    
-    if (!response.success || !response.data) {
-      console.error('[RegulationCrawler] Failed to fetch regulation list');
-      stats.errors++;
-      return { success: false, stats };
-    }
-    
-    const regulations = response.data.regulations || [];
-    
-    for (const regData of regulations) {
-      try {
-        // Fetch detailed regulation information
-        const detailsResponse = await fetchRegulationDetails(apiKey, regData.id);
-        
-        if (detailsResponse.success && detailsResponse.data) {
-          // TODO: Save to database
-          stats.newRegulations++;
-        }
-        
-      } catch (error) {
-        console.error('[RegulationCrawler] Error processing regulation:', regData.id, error);
+
+    const regulations: OrdinListItem[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = await fetchRegulationList(apiKey, { fromDate, page });
+
+      if (!response.success || !response.data) {
+        console.error('[RegulationCrawler] Failed to fetch regulation list');
         stats.errors++;
+        return { success: false, stats };
+      }
+
+      regulations.push(...response.data.regulations);
+
+      if (response.data.regulations.length === 0 || regulations.length >= response.data.total) {
+        break;
       }
     }
-    
+
+    await syncRegulations(apiKey, dbService, regulations, stats);
+
     console.log('[RegulationCrawler] Daily crawl completed:', stats);
-    
+
     return {
       success: true,
       stats
     };
-    
+
   } catch (error) {
     console.error('[RegulationCrawler] Daily crawl failed:', error);
     stats.errors++;
@@ -353,3 +602,132 @@ export async function runDailyRegulationCrawl(apiKey: string): Promise<{
     };
   }
 }
+
+async function syncRegulations(
+  apiKey: string,
+  dbService: DatabaseService,
+  regulations: OrdinListItem[],
+  stats: { newRegulations: number; updatedRegulations: number; errors: number }
+): Promise<void> {
+  for (const item of regulations) {
+    // Only 조례 and 규칙 fit local_regulations
+    if (item.regulation_type !== RegulationType.ORDINANCE && item.regulation_type !== RegulationType.RULE) {
+      continue;
+    }
+
+    try {
+      const result = await syncRegulation(apiKey, dbService, item.serial_number);
+
+      if (!result) {
+        stats.errors++;
+      } else if (result.inserted) {
+        stats.newRegulations++;
+      } else {
+        stats.updatedRegulations++;
+      }
+    } catch (error) {
+      console.error('[RegulationCrawler] Error processing regulation:', item.serial_number, error);
+      stats.errors++;
+    }
+
+    // Rate limiting - wait 200ms between detail requests
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+}
+
+/**
+ * Shared fields of list entries and 자치법규기본정보
+ */
+function parseOrdinInfo(xml: string): OrdinListItem {
+  return {
+    serial_number: extractXMLField(xml, '자치법규일련번호'),
+    ordin_id: extractXMLField(xml, '자치법규ID'),
+    regulation_name: extractXMLField(xml, '자치법규명'),
+    regulation_type: extractXMLField(xml, '자치법규종류'),
+    local_gov: extractXMLField(xml, '지자체기관명'),
+    local_gov_code: extractXMLField(xml, '지자체기관코드'),
+    promulgation_date: extractXMLField(xml, '공포일자'),
+    promulgation_number: extractXMLField(xml, '공포번호'),
+    enforcement_date: extractXMLField(xml, '시행일자'),
+    revision_type: extractXMLField(xml, '제개정구분명') || extractXMLField(xml, '제개정정보')
+  };
+}
+
+/**
+ * Article text: 조내용 followed by its 항/호/목 in document order
+ */
+function collectArticleText(articleXML: string): string {
+  const parts: string[] = [];
+
+  for (const match of articleXML.matchAll(/<(조내용|항내용|호내용|목내용)>(.*?)<\/\1>/gs)) {
+    const text = decodeXMLText(match[2]);
+    if (text) {
+      parts.push(text);
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * 조문번호 "000102" → "1의2"; plain numbers pass through
+ */
+function normalizeArticleNumber(value: string): string {
+  if (/^\d{6}$/.test(value)) {
+    const main = parseInt(value.substring(0, 4));
+    const branch = parseInt(value.substring(4, 6));
+    return branch > 0 ? `${main}의${branch}` : String(main);
+  }
+  return value.replace(/^제|조$/g, '');
+}
+
+function extractXMLBlock(xml: string, tagName: string): string {
+  const match = xml.match(new RegExp(`<${tagName}(?:\\s[^>]*)?>(.*)<\\/${tagName}>`, 's'));
+  return match ? match[1] : '';
+}
+
+/**
+ * Extract field value from XML string (CDATA aware)
+ */
+function extractXMLField(xml: string, fieldName: string): string {
+  const match = xml.match(new RegExp(`<${fieldName}(?:\\s[^>]*)?>(.*?)<\\/${fieldName}>`, 's'));
+  return match ? decodeXMLText(match[1]) : '';
+}
+
+function decodeXMLText(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[(.*)\]\]>\s*$/s);
+  const text = cdata
+    ? cdata[1]
+    : value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+  return text.trim();
+}
+
+function mapRegulationType(apiType: string): RegulationType {
+  return apiType.includes('규칙') ? RegulationType.RULE : RegulationType.ORDINANCE;
+}
+
+function toRegulationId(ordinId: string): string {
+  return `ordin_${ordinId}`;
+}
+
+function toApiDate(value?: string): string {
+  return value ? value.replace(/-/g, '') : '';
+}
+
+/**
+ * Parse date string from API (YYYYMMDD) to Date object
+ */
+function parseDate(dateStr: string): Date {
+  if (!dateStr || dateStr.length < 8) {
+    return new Date();
+  }
+  const year = parseInt(dateStr.substring(0, 4));
+  const month = parseInt(dateStr.substring(4, 6)) - 1;
+  const day = parseInt(dateStr.substring(6, 8));
+  return new Date(year, month, day);
+}
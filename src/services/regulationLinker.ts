@@ -0,0 +1,361 @@
+/**
+ * Regulation Linker Service
+ * Links regulation articles to the law articles they are based on
+ *
+ * Explicit citations such as 「지방자치법」 제13조, 같은 법 시행령 제5조 or
+ * an alias defined with (이하 "법"이라 한다) become 근거법령 / 준용 links
+ * with confidence 1.0. Articles without a resolvable citation fall back to
+ * embedding similarity and get 참조 links scored by cosine similarity.
+ */
+
+import type { LawRegulationLink, LocalRegulation } from '../types/database';
+import { LinkType } from '../types/database';
+import type { DatabaseService, RegulationCursor } from './databaseImpl';
+
+export interface LawCitation {
+  law_name: string;
+  article_number?: string; // "13", "13의2"; absent when the law as a whole is cited
+  link_type: LinkType.BASIS | LinkType.APPLY;
+  text: string;
+}
+
+export interface RegulationLinkResult {
+  regulation_id: string;
+  explicit_links: number;
+  reference_links: number;
+  unresolved_citations: number;
+}
+
+export interface LinkRunSummary {
+  regulations: number;
+  explicit_links: number;
+  reference_links: number;
+  unresolved_citations: number;
+  errors: number;
+  linked_through: string | null; // updated_at of the last regulation processed
+  linked_through_id: string | null; // and its regulation_id
+}
+
+// Regulations relinked per scheduled run
+export const MAX_REGULATIONS_PER_RUN = 200;
+
+// Embedding fallback: minimum cosine similarity and matches per article
+const REFERENCE_SIMILARITY_THRESHOLD = 0.65;
+const REFERENCE_TOP_N = 3;
+
+// "제3조부터 제40조까지" is expanded only up to this many articles
+const MAX_RANGE_ARTICLES = 20;
+
+// (이하 "법"이라 한다) right after a citation
+const ALIAS_DEFINITION = /^\s*\(\s*이하\s*["“'‘]([^"”'’]+)["”'’]\s*(?:이)?라\s*한다\s*\)/;
+// 제13조, 제13조의2, 제13조제1항제2호의2가목
+const ARTICLE_REFERENCE = /^\s*제(\d+)조(?:의(\d+))?(?:\s*제\d+항)?(?:\s*제\d+호(?:의\d+)?)?(?:\s*[가-하]목)?/;
+// Separator between two article references of the same law
+const ARTICLE_SEPARATOR = /^\s*(부터|및|또는|그리고|·|,|、|과|와)\s*(?=제\d+조)/;
+
+interface CitationContext {
+  law?: string; // last cited 법률 (같은 법)
+  decree?: string; // last cited 시행령 (같은 영)
+  rule?: string; // last cited 시행규칙 (같은 규칙)
+  aliases: Map<string, string>;
+}
+
+/**
+ * Citations of the articles of one regulation, in order
+ * 같은 법 and aliases carry over from one article to the next
+ */
+export function extractLawCitations(texts: string[]): LawCitation[][] {
+  const context: CitationContext = { aliases: new Map() };
+  return texts.map(text => extractFromText(text, context));
+}
+
+/**
+ * Link one regulation, replacing its pending links
+ */
+export async function linkRegulation(
+  dbService: DatabaseService,
+  regulation: LocalRegulation
+): Promise<RegulationLinkResult> {
+  const articles = await dbService.getRegulationArticles(regulation.regulation_id);
+  const citations = extractLawCitations(articles.map(a => a.article_content));
+  const allCitations = citations.flat();
+
+  const names = Array.from(new Set(allCitations.map(c => c.law_name)));
+  const laws = names.length > 0 ? await dbService.getLawsByNames(names) : [];
+  const lawByName = new Map(laws.map(law => [compact(law.law_name), law]));
+
+  const numbers = Array.from(new Set(allCitations.flatMap(c => c.article_number ? [c.article_number] : [])));
+  const lawArticles = laws.length > 0 && numbers.length > 0
+    ? await dbService.getLatestArticlesByNumber(laws.map(l => l.law_id), numbers)
+    : [];
+  const articleIds = new Map(lawArticles.map(a => [`${a.law_id}|${a.article_number}`, a.article_id]));
+
+  const links: Array<Omit<LawRegulationLink, 'verification_status' | 'verified' | 'verified_by' | 'verified_at' | 'created_at'>> = [];
+  const seen = new Set<string>();
+  const result: RegulationLinkResult = {
+    regulation_id: regulation.regulation_id,
+    explicit_links: 0,
+    reference_links: 0,
+    unresolved_citations: 0
+  };
+
+  const addLink = (regArticleId: string, lawId: string, articleId: string | undefined, linkType: LinkType, confidence: number) => {
+    const key = `${regArticleId}|${lawId}|${articleId || ''}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+
+    links.push({
+      link_id: `link_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      law_id: lawId,
+      regulation_id: regulation.regulation_id,
+      article_id: articleId,
+      reg_article_id: regArticleId,
+      link_type: linkType,
+      confidence_score: confidence
+    });
+    return true;
+  };
+
+  for (let i = 0; i < articles.length; i++) {
+    const article = articles[i];
+    let cited = false;
+
+    for (const citation of citations[i]) {
+      const law = lawByName.get(compact(citation.law_name));
+      const articleId = law && citation.article_number
+        ? articleIds.get(`${law.law_id}|${citation.article_number}`)
+        : undefined;
+
+      // Laws we do not track, or articles not synced yet
+      if (!law || (citation.article_number && !articleId)) {
+        result.unresolved_citations++;
+        continue;
+      }
+
+      cited = true;
+      if (addLink(article.reg_article_id, law.law_id, articleId, citation.link_type, 1)) {
+        result.explicit_links++;
+      }
+    }
+
+    if (cited) {
+      continue;
+    }
+
+    const similar = await dbService.findLawArticlesSimilarToRegulationArticle(
+      article.reg_article_id,
+      REFERENCE_SIMILARITY_THRESHOLD,
+      REFERENCE_TOP_N
+    );
+
+    for (const match of similar) {
+      // confidence_score is DECIMAL(3, 2)
+      if (addLink(article.reg_article_id, match.law_id, match.article_id, LinkType.REFERENCE, Math.floor(match.similarity * 100) / 100)) {
+        result.reference_links++;
+      }
+    }
+  }
+
+  await dbService.replaceRegulationLinks(regulation.regulation_id, links);
+
+  return result;
+}
+
+/**
+ * Relink the regulations changed after the last one the previous run processed
+ */
+export async function linkUpdatedRegulations(
+  dbService: DatabaseService,
+  after: RegulationCursor | null,
+  limit: number = MAX_REGULATIONS_PER_RUN
+): Promise<LinkRunSummary> {
+  const regulations = await dbService.getRegulationsUpdatedAfter(after, limit);
+  const summary: LinkRunSummary = {
+    regulations: 0,
+    explicit_links: 0,
+    reference_links: 0,
+    unresolved_citations: 0,
+    errors: 0,
+    linked_through: after ? after.updated_at.toISOString() : null,
+    linked_through_id: after ? after.regulation_id : null
+  };
+
+  for (const regulation of regulations) {
+    try {
+      const result = await linkRegulation(dbService, regulation);
+      summary.regulations++;
+      summary.explicit_links += result.explicit_links;
+      summary.reference_links += result.reference_links;
+      summary.unresolved_citations += result.unresolved_citations;
+    } catch (error) {
+      console.error(`[RegulationLinker] Failed to link ${regulation.regulation_id}:`, error);
+      summary.errors++;
+    }
+
+    summary.linked_through = new Date(regulation.updated_at).toISOString();
+    summary.linked_through_id = regulation.regulation_id;
+  }
+
+  console.log(
+    `[RegulationLinker] ${summary.regulations} regulations: ${summary.explicit_links} explicit, ` +
+    `${summary.reference_links} reference links, ${summary.unresolved_citations} unresolved citations`
+  );
+
+  return summary;
+}
+
+function extractFromText(text: string, context: CitationContext): LawCitation[] {
+  const citations: LawCitation[] = [];
+  const seen = new Set<string>();
+  let position = 0;
+
+  while (position < text.length) {
+    const pattern = referencePattern(context);
+    pattern.lastIndex = position;
+
+    const match = pattern.exec(text);
+    if (!match) {
+      break;
+    }
+
+    let end = match.index + match[0].length;
+    const lawName = resolveReference(match, context);
+
+    if (!lawName) {
+      position = end;
+      continue;
+    }
+
+    remember(lawName, context);
+
+    const alias = text.substring(end).match(ALIAS_DEFINITION);
+    if (alias) {
+      context.aliases.set(alias[1].trim(), lawName);
+      end += alias[0].length;
+    }
+
+    const list = parseArticleList(text.substring(end));
+    const sentence = sentenceAround(text, match.index, end + list.length);
+    const linkType = sentence.includes('준용') ? LinkType.APPLY : LinkType.BASIS;
+    const citationText = text.substring(match.index, end + list.length).trim();
+
+    for (const number of list.numbers.length > 0 ? list.numbers : [undefined]) {
+      const key = `${lawName}|${number || ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      citations.push({
+        law_name: lawName,
+        ...(number ? { article_number: number } : {}),
+        link_type: linkType,
+        text: citationText
+      });
+    }
+
+    position = end + list.length;
+  }
+
+  return citations;
+}
+
+/**
+ * 「법령명」 | 같은 법 [시행령|시행규칙] | 같은 영 | 같은 규칙 | alias followed by 제N조
+ */
+function referencePattern(context: CitationContext): RegExp {
+  const alternatives = [
+    '「([^」]+)」',
+    '같은\\s*(법|영|규칙)(\\s*시행령|\\s*시행규칙)?'
+  ];
+
+  const aliases = Array.from(context.aliases.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(alias => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (aliases.length > 0) {
+    alternatives.push(`(?<![가-힣])(${aliases.join('|')})(?=\\s*제\\d+조)`);
+  }
+
+  return new RegExp(alternatives.join('|'), 'g');
+}
+
+function resolveReference(match: RegExpExecArray, context: CitationContext): string | undefined {
+  if (match[1]) {
+    return match[1].replace(/\s+/g, ' ').trim();
+  }
+
+  if (match[2]) {
+    const suffix = match[3]?.trim();
+
+    if (match[2] === '영') return context.decree;
+    if (match[2] === '규칙') return context.rule;
+    if (!context.law) return undefined;
+    return suffix ? `${context.law} ${suffix}` : context.law;
+  }
+
+  return match[4] ? context.aliases.get(match[4]) : undefined;
+}
+
+function remember(lawName: string, context: CitationContext): void {
+  if (/시행령$|령$/.test(lawName)) {
+    context.decree = lawName;
+  } else if (/시행규칙$|규칙$/.test(lawName)) {
+    context.rule = lawName;
+  } else if (/법$|법률$/.test(lawName)) {
+    context.law = lawName;
+  }
+}
+
+/**
+ * Article numbers at the start of the text: "제13조제1항 및 제15조의2",
+ * "제3조부터 제5조까지"
+ */
+function parseArticleList(text: string): { numbers: string[]; length: number } {
+  const numbers: string[] = [];
+  let position = 0;
+  let rangeStart: number | null = null;
+
+  while (true) {
+    const match = text.substring(position).match(ARTICLE_REFERENCE);
+    if (!match) {
+      break;
+    }
+
+    const main = parseInt(match[1], 10);
+
+    if (rangeStart !== null && !match[2]) {
+      for (let n = rangeStart + 1; n < main && n - rangeStart < MAX_RANGE_ARTICLES; n++) {
+        numbers.push(String(n));
+      }
+    }
+
+    numbers.push(match[2] ? `${match[1]}의${match[2]}` : match[1]);
+    position += match[0].length;
+
+    const separator = text.substring(position).match(ARTICLE_SEPARATOR);
+    if (!separator) {
+      break;
+    }
+
+    rangeStart = separator[1] === '부터' ? main : null;
+    position += separator[0].length;
+  }
+
+  return { numbers, length: position };
+}
+
+/**
+ * The sentence (or line) containing text[start, end)
+ */
+function sentenceAround(text: string, start: number, end: number): string {
+  const from = Math.max(text.lastIndexOf('.', start - 1), text.lastIndexOf('\n', start - 1)) + 1;
+  const stops = [text.indexOf('.', end), text.indexOf('\n', end)].filter(i => i >= 0);
+  const to = stops.length > 0 ? Math.min(...stops) : text.length;
+
+  return text.substring(from, to);
+}
+
+function compact(name: string): string {
+  return name.replace(/\s+/g, '');
+}
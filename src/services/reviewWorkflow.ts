@@ -0,0 +1,294 @@
+/**
+ * Review Workflow Service
+ * State machine for the review of impact analyses
+ *
+ * - 검토시작: pending | on_hold → in_review
+ * - 의견입력: in_review | commented → commented
+ * - 개정결정 / 개정불요: commented → approved / rejected (review completed)
+ * - 보류: in_review | commented → on_hold
+ */
+
+import type { ImpactAnalysis, ReviewHistory, TenantScope } from '../types/database';
+import { ReviewAction, ReviewStatus } from '../types/database';
+import type { DatabaseService, ReviewTransition } from './databaseImpl';
+
+interface Transition {
+  from: ReviewStatus[];
+  to: ReviewStatus;
+}
+
+export const REVIEW_TRANSITIONS: Record<ReviewAction, Transition> = {
+  [ReviewAction.START]: {
+    from: [ReviewStatus.PENDING, ReviewStatus.ON_HOLD],
+    to: ReviewStatus.IN_REVIEW
+  },
+  [ReviewAction.COMMENT]: {
+    from: [ReviewStatus.IN_REVIEW, ReviewStatus.COMMENTED],
+    to: ReviewStatus.COMMENTED
+  },
+  [ReviewAction.APPROVE]: {
+    from: [ReviewStatus.COMMENTED],
+    to: ReviewStatus.APPROVED
+  },
+  [ReviewAction.REJECT]: {
+    from: [ReviewStatus.COMMENTED],
+    to: ReviewStatus.REJECTED
+  },
+  [ReviewAction.HOLD]: {
+    from: [ReviewStatus.IN_REVIEW, ReviewStatus.COMMENTED],
+    to: ReviewStatus.ON_HOLD
+  }
+};
+
+// Actions that close the review (reviewed = true)
+export const COMPLETING_ACTIONS: ReviewAction[] = [ReviewAction.APPROVE, ReviewAction.REJECT];
+
+export const MAX_BATCH_REVIEW_SIZE = 200;
+
+export interface BatchReviewItemResult {
+  analysis_id: string;
+  success: boolean;
+  review_status?: ReviewStatus;
+  error?: string;
+}
+
+export interface BatchReviewResult {
+  atomic: boolean;
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BatchReviewItemResult[];
+}
+
+/**
+ * Raised when an action is not allowed from the analysis' current status
+ */
+export class ReviewTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly currentStatus: ReviewStatus,
+    public readonly action: ReviewAction
+  ) {
+    super(message);
+    this.name = 'ReviewTransitionError';
+  }
+}
+
+export function isReviewAction(value: unknown): value is ReviewAction {
+  return (Object.values(ReviewAction) as unknown[]).includes(value);
+}
+
+/**
+ * Resolve the status reached by applying an action, or throw if illegal
+ */
+export function getNextReviewStatus(current: ReviewStatus, action: ReviewAction): ReviewStatus {
+  const transition = REVIEW_TRANSITIONS[action];
+
+  if (!transition.from.includes(current)) {
+    throw new ReviewTransitionError(
+      `Cannot apply '${action}' to an analysis in status '${current}'`,
+      current,
+      action
+    );
+  }
+
+  return transition.to;
+}
+
+/**
+ * Apply a review action to an analysis
+ * Returns null if the analysis does not exist
+ */
+export async function submitReview(
+  dbService: DatabaseService,
+  analysisId: string,
+  userId: string,
+  action: ReviewAction,
+  comment: string
+): Promise<{ analysis: ImpactAnalysis; history: ReviewHistory } | null> {
+  const analysis = await dbService.getAnalysisById(analysisId);
+  if (!analysis) {
+    return null;
+  }
+
+  const transition = planReviewTransition(analysis, userId, action, comment);
+
+  try {
+    const history = await dbService.applyReviewTransition(transition);
+    const complete = transition.complete;
+
+    return {
+      analysis: {
+        ...analysis,
+        review_status: transition.to_status,
+        reviewed: complete,
+        reviewer_id: complete ? userId : analysis.reviewer_id,
+        reviewed_at: complete ? history.created_at : analysis.reviewed_at
+      },
+      history
+    };
+  } catch (error) {
+    // Another reviewer changed the status between our read and write
+    if (isReviewConflict(error)) {
+      throw new ReviewTransitionError(
+        `Analysis ${analysisId} was modified concurrently, please reload`,
+        analysis.review_status,
+        action
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply the same review action to many analyses
+ *
+ * Each item goes through the same transition rules as a single review.
+ * With atomic = true nothing is written unless every item can transition;
+ * otherwise valid items are applied and the rest are reported as failed.
+ * Analyses outside the reviewer's tenant scope are reported as not found;
+ * with a department, analyses of other departments' regulations as failed.
+ */
+export async function submitBatchReview(
+  dbService: DatabaseService,
+  analysisIds: string[],
+  userId: string,
+  action: ReviewAction,
+  comment: string,
+  atomic: boolean,
+  tenant: TenantScope | null,
+  department: string | null
+): Promise<BatchReviewResult> {
+  const ids = Array.from(new Set(analysisIds));
+  const analyses = await dbService.getAnalysesByIds(ids, tenant);
+  const analysisMap = new Map(analyses.map(a => [a.analysis_id, a]));
+  const owners = department !== null
+    ? await dbService.getResourceOwners('analysis', ids)
+    : null;
+
+  const results: BatchReviewItemResult[] = [];
+  const planned: ReviewTransition[] = [];
+
+  for (const id of ids) {
+    const analysis = analysisMap.get(id);
+
+    if (!analysis) {
+      results.push({ analysis_id: id, success: false, error: 'Analysis not found' });
+      continue;
+    }
+
+    if (owners && owners.get(id)?.department !== department) {
+      results.push({
+        analysis_id: id,
+        success: false,
+        review_status: analysis.review_status,
+        error: 'Analysis belongs to another department'
+      });
+      continue;
+    }
+
+    try {
+      planned.push(planReviewTransition(analysis, userId, action, comment));
+      results.push({ analysis_id: id, success: true });
+    } catch (error) {
+      if (!(error instanceof ReviewTransitionError)) {
+        throw error;
+      }
+      results.push({ analysis_id: id, success: false, review_status: analysis.review_status, error: error.message });
+    }
+  }
+
+  if (atomic) {
+    const rejected = results.some(r => !r.success);
+
+    if (!rejected) {
+      try {
+        await dbService.applyReviewTransitions(planned);
+        return summarizeBatch(true, true, applyPlanned(results, planned));
+      } catch (error) {
+        if (!isReviewConflict(error)) {
+          throw error;
+        }
+        const message = (error as Error).message;
+        results.forEach(r => {
+          r.success = false;
+          r.error = `Batch rolled back: ${message}`;
+        });
+        return summarizeBatch(true, false, results);
+      }
+    }
+
+    // Valid items are not applied because another item failed
+    results.forEach(r => {
+      if (r.success) {
+        r.success = false;
+        r.error = 'Not applied: batch aborted because other items failed';
+      }
+    });
+
+    return summarizeBatch(true, false, results);
+  }
+
+  const resultMap = new Map(results.map(r => [r.analysis_id, r]));
+
+  for (const transition of planned) {
+    const item = resultMap.get(transition.analysis_id)!;
+
+    try {
+      await dbService.applyReviewTransition(transition);
+      item.review_status = transition.to_status;
+    } catch (error) {
+      if (!isReviewConflict(error)) {
+        console.error('[ReviewWorkflow] Batch item failed:', transition.analysis_id, error);
+      }
+      item.success = false;
+      item.error = isReviewConflict(error)
+        ? 'Analysis was modified concurrently'
+        : 'Failed to apply review';
+    }
+  }
+
+  return summarizeBatch(false, true, results);
+}
+
+/**
+ * Build the compare-and-set transition for one analysis, or throw if illegal
+ */
+function planReviewTransition(
+  analysis: ImpactAnalysis,
+  userId: string,
+  action: ReviewAction,
+  comment: string
+): ReviewTransition {
+  return {
+    analysis_id: analysis.analysis_id,
+    from_status: analysis.review_status,
+    to_status: getNextReviewStatus(analysis.review_status, action),
+    complete: COMPLETING_ACTIONS.includes(action),
+    history_id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    user_id: userId,
+    action,
+    comment: comment || ''
+  };
+}
+
+function isReviewConflict(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('review_conflict');
+}
+
+function applyPlanned(results: BatchReviewItemResult[], planned: ReviewTransition[]): BatchReviewItemResult[] {
+  const statuses = new Map(planned.map(t => [t.analysis_id, t.to_status]));
+  return results.map(r => ({ ...r, review_status: statuses.get(r.analysis_id) ?? r.review_status }));
+}
+
+function summarizeBatch(atomic: boolean, committed: boolean, results: BatchReviewItemResult[]): BatchReviewResult {
+  const succeeded = results.filter(r => r.success).length;
+
+  return {
+    atomic,
+    committed,
+    succeeded,
+    failed: results.length - succeeded,
+    results
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Scheduler Service
+ * Registry of background jobs run by the Workers cron trigger or manually
+ * by an admin. Every execution is recorded in job_runs.
+ *
+ * Cron expressions are UTC (KST = UTC+9).
+ */
+
+import type { CloudflareBindings } from '../types/bindings';
+import type { JobRun } from '../types/database';
+import { JobRunStatus } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+import { createDatabaseService } from './databaseImpl';
+import { withDb } from '../utils/db';
+import { runLawSync } from './lawSync';
+import { runDailyRegulationCrawl } from './regulationCrawler';
+import { backfillEmbeddings } from './embeddingBackfill';
+import { linkUpdatedRegulations } from './regulationLinker';
+import { sendDailyDigest } from './notification';
+import { sendEnforcementReminders } from './enforcementCalendar';
+import { resolveTenantScope } from './tenantScope';
+
+export type JobName =
+  | 'law_sync'
+  | 'regulation_sync'
+  | 'embedding_backfill'
+  | 'regulation_link'
+  | 'enforcement_reminder'
+  | 'daily_digest';
+
+export interface ScheduledJob {
+  name: JobName;
+  description: string;
+  cron: string;
+  /**
+   * Returns a summary stored in job_runs.result; throws on failure
+   */
+  run(env: CloudflareBindings, dbService: DatabaseService): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Subset of the Workers ScheduledController used here
+ */
+export interface ScheduledEvent {
+  cron: string;
+  scheduledTime: number;
+}
+
+export interface ScheduledContext {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+export const JOB_REGISTRY: Record<JobName, ScheduledJob> = {
+  law_sync: {
+    name: 'law_sync',
+    description: '상위법령 동기화 (03:00 KST)',
+    cron: '0 18 * * *',
+    async run(env, dbService) {
+      if (!env.LAW_API_KEY) {
+        throw new Error('LAW_API_KEY is not configured');
+      }
+
+      const result = await runLawSync(env.LAW_API_KEY, dbService);
+      if (!result.success) {
+        throw new Error(result.error || 'Law sync failed');
+      }
+
+      return { sync_run_id: result.run?.run_id, resumed: result.resumed, ...pickCounters(result.run) };
+    }
+  },
+
+  regulation_sync: {
+    name: 'regulation_sync',
+    description: '자치법규 동기화 (03:30 KST)',
+    cron: '30 18 * * *',
+    async run(env, dbService) {
+      const apiKey = env.REGULATION_API_KEY || env.LAW_API_KEY;
+      if (!apiKey) {
+        throw new Error('REGULATION_API_KEY is not configured');
+      }
+
+      const result = await runDailyRegulationCrawl(apiKey, dbService);
+      if (!result.success) {
+        throw new Error(`Regulation sync failed (${result.stats.errors} errors)`);
+      }
+
+      return result.stats;
+    }
+  },
+
+  embedding_backfill: {
+    name: 'embedding_backfill',
+    description: '조문 임베딩 생성 (05:00 KST)',
+    cron: '0 20 * * *',
+    async run(env, dbService) {
+      if (!env.GEMINI_API_KEY && !env.OPENAI_API_KEY) {
+        throw new Error('No embedding API key configured');
+      }
+
+      return { ...await backfillEmbeddings(dbService, env) };
+    }
+  },
+
+  regulation_link: {
+    name: 'regulation_link',
+    description: '자치법규-상위법령 연계 갱신 (05:30 KST)',
+    cron: '30 20 * * *',
+    async run(env, dbService) {
+      // Continue after the last regulation the last completed run processed;
+      // the first run links everything. Runs recorded without
+      // linked_through_id resume at the start of their timestamp.
+      const runs = await dbService.getJobRuns({ job_name: 'regulation_link', limit: 20 });
+      const last = runs.find(r => r.status === JobRunStatus.COMPLETED)?.result;
+      const after = typeof last?.linked_through === 'string'
+        ? { updated_at: new Date(last.linked_through), regulation_id: String(last.linked_through_id ?? '') }
+        : null;
+
+      return { ...await linkUpdatedRegulations(dbService, after) };
+    }
+  },
+
+  enforcement_reminder: {
+    name: 'enforcement_reminder',
+    description: '시행일 D-30/D-7 알림 (07:00 KST)',
+    cron: '0 22 * * *',
+    async run(env, dbService) {
+      // In-app notifications go out without SendGrid, emails only with it
+      return { ...await sendEnforcementReminders(dbService, env.SENDGRID_API_KEY) };
+    }
+  },
+
+  daily_digest: {
+    name: 'daily_digest',
+    description: '일일 요약 메일 발송 (08:00 KST)',
+    cron: '0 23 * * *',
+    async run(env, dbService) {
+      if (!env.SENDGRID_API_KEY) {
+        throw new Error('SENDGRID_API_KEY is not configured');
+      }
+
+      const summary = { sent: 0, skipped: 0, failed: 0 };
+      const recipients = await dbService.getDigestRecipients();
+
+      for (const user of recipients) {
+        const stats = await dbService.getDigestStats(await resolveTenantScope(dbService, user));
+
+        if (stats.pending_reviews === 0 && stats.new_today === 0) {
+          summary.skipped++;
+          continue;
+        }
+
+        const result = await sendDailyDigest(user, stats, dbService, env.SENDGRID_API_KEY);
+        if (result.success) {
+          summary.sent++;
+        } else {
+          summary.failed++;
+        }
+      }
+
+      return summary;
+    }
+  }
+};
+
+export function isJobName(value: unknown): value is JobName {
+  return typeof value === 'string' && value in JOB_REGISTRY;
+}
+
+export function getJobsForCron(cron: string): ScheduledJob[] {
+  return Object.values(JOB_REGISTRY).filter(job => job.cron === cron);
+}
+
+/**
+ * Record a new run of a job
+ */
+export async function createJobRun(
+  dbService: DatabaseService,
+  name: JobName,
+  trigger: JobRun['trigger'],
+  triggeredBy?: string
+): Promise<JobRun> {
+  return dbService.createJobRun({
+    run_id: `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    job_name: name,
+    trigger,
+    triggered_by: triggeredBy
+  });
+}
+
+/**
+ * Execute a recorded run to completion.
+ * Never throws: failures are recorded on the run.
+ */
+export async function executeJobRun(
+  run: JobRun,
+  env: CloudflareBindings,
+  dbService: DatabaseService
+): Promise<JobRun | null> {
+  const job = JOB_REGISTRY[run.job_name as JobName];
+
+  try {
+    if (!job) {
+      throw new Error(`Unknown job: ${run.job_name}`);
+    }
+
+    console.log('[Scheduler] Starting job:', run.job_name, run.run_id, `(${run.trigger})`);
+
+    const result = await job.run(env, dbService);
+
+    console.log('[Scheduler] Job completed:', run.job_name, run.run_id, result);
+
+    return dbService.updateJobRun(run.run_id, {
+      status: JobRunStatus.COMPLETED,
+      result,
+      completed_at: new Date()
+    });
+
+  } catch (error) {
+    console.error('[Scheduler] Job failed:', run.job_name, run.run_id, error);
+
+    try {
+      return await dbService.updateJobRun(run.run_id, {
+        status: JobRunStatus.FAILED,
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date()
+      });
+    } catch (updateError) {
+      console.error('[Scheduler] Failed to record job failure:', updateError);
+      return null;
+    }
+  }
+}
+
+/**
+ * Workers scheduled() handler: run every job registered for the cron
+ */
+export async function handleScheduled(
+  event: ScheduledEvent,
+  env: CloudflareBindings,
+  ctx: ScheduledContext
+): Promise<void> {
+  const jobs = getJobsForCron(event.cron);
+
+  if (jobs.length === 0) {
+    console.warn('[Scheduler] No job registered for cron:', event.cron);
+    return;
+  }
+
+  for (const job of jobs) {
+    ctx.waitUntil(
+      withDb(env, async (db) => {
+        const dbService = createDatabaseService(db);
+        const run = await createJobRun(dbService, job.name, 'cron');
+        return executeJobRun(run, env, dbService);
+      }).catch(error => {
+        console.error('[Scheduler] Failed to start job:', job.name, error);
+      })
+    );
+  }
+}
+
+function pickCounters(run: { new_laws: number; updated_laws: number; new_revisions: number; new_articles: number; errors: number } | null) {
+  return run
+    ? {
+        new_laws: run.new_laws,
+        updated_laws: run.updated_laws,
+        new_revisions: run.new_revisions,
+        new_articles: run.new_articles,
+        errors: run.errors
+      }
+    : {};
+}
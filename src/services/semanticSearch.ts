@@ -0,0 +1,97 @@
+/**
+ * Semantic Search Service
+ * Vector similarity search over law and regulation articles
+ */
+
+import type { CloudflareBindings } from '../types/bindings';
+import type { SearchHit, SearchSource, TenantScope } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+import { generateEmbedding, type EmbeddingResponse } from './embedding';
+import { generateGeminiEmbedding } from './geminiEmbedding';
+
+const SNIPPET_LENGTH = 200;
+
+export interface SemanticSearchOptions {
+  source: SearchSource;
+  threshold: number;
+  limit: number;
+  tenant: TenantScope | null; // applies to regulation articles
+}
+
+/**
+ * Embed a search query with the same model used for stored embeddings.
+ * Stored vectors come from Gemini (padded to 1536), so Gemini is preferred.
+ */
+export async function embedQuery(
+  query: string,
+  env: Pick<CloudflareBindings, 'GEMINI_API_KEY' | 'OPENAI_API_KEY'>
+): Promise<EmbeddingResponse> {
+  if (env.GEMINI_API_KEY) {
+    return generateGeminiEmbedding(query, env.GEMINI_API_KEY);
+  }
+
+  if (env.OPENAI_API_KEY) {
+    return generateEmbedding(query, env.OPENAI_API_KEY);
+  }
+
+  return {
+    success: false,
+    error: 'No embedding API key configured'
+  };
+}
+
+/**
+ * Search law and/or regulation articles by embedding
+ * Results from both sources are merged and ordered by similarity
+ */
+export async function semanticSearch(
+  dbService: DatabaseService,
+  embedding: number[],
+  options: SemanticSearchOptions
+): Promise<SearchHit[]> {
+  const { source, threshold, limit, tenant } = options;
+  const hits: SearchHit[] = [];
+
+  if (source === 'law' || source === 'all') {
+    const articles = await dbService.searchArticlesByEmbedding(embedding, threshold, limit);
+
+    hits.push(...articles.map(a => ({
+      source: 'law' as const,
+      article_id: a.article_id,
+      parent_id: a.law_id,
+      name: a.law_name,
+      article_number: a.article_number,
+      article_title: a.article_title || '',
+      snippet: buildSnippet(a.article_content),
+      similarity: Number(a.similarity)
+    })));
+  }
+
+  if (source === 'regulation' || source === 'all') {
+    const articles = await dbService.searchRegulationArticlesByEmbedding(embedding, threshold, limit, tenant);
+
+    hits.push(...articles.map(a => ({
+      source: 'regulation' as const,
+      article_id: a.reg_article_id,
+      parent_id: a.regulation_id,
+      name: a.regulation_name,
+      local_gov: a.local_gov,
+      article_number: a.article_number,
+      article_title: a.article_title || '',
+      snippet: buildSnippet(a.article_content),
+      similarity: Number(a.similarity)
+    })));
+  }
+
+  return hits
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Collapse whitespace and cut article text to a short preview
+ */
+export function buildSnippet(content: string, length: number = SNIPPET_LENGTH): string {
+  const text = (content || '').replace(/\s+/g, ' ').trim();
+  return text.length > length ? text.substring(0, length) + '…' : text;
+}
@@ -0,0 +1,50 @@
+/**
+ * Tenant Scope Service
+ * Which local governments' regulations, analyses and links a user may read
+ *
+ * Users read their own local government; admins read all of them, and
+ * province officers (광역) also their municipalities (기초). Local
+ * governments are identified by law.go.kr 지자체기관코드, which carry no
+ * hierarchy, so municipalities are looked up by parent_code in
+ * local_governments.
+ */
+
+import type { TenantScope } from '../types/database';
+import { UserRole } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+
+/**
+ * Scope of a user's own role and local government (null: all)
+ * Users without a local_gov_code match nothing.
+ */
+export async function resolveTenantScope(
+  dbService: Pick<DatabaseService, 'getMunicipalityCodes'>,
+  user: { role: string; local_gov_code?: string | null }
+): Promise<TenantScope | null> {
+  if (user.role === UserRole.ADMIN) {
+    return null;
+  }
+
+  const code = user.local_gov_code;
+  if (!code) {
+    return { local_gov_codes: [] };
+  }
+
+  if (user.role === UserRole.PROVINCE_OFFICER) {
+    return { local_gov_codes: [code, ...await dbService.getMunicipalityCodes(code)] };
+  }
+
+  return { local_gov_codes: [code] };
+}
+
+/**
+ * Whether data of a local government is visible in the scope
+ * Data of no particular local government (null) is visible to admins only.
+ */
+export function isInScope(scope: TenantScope | null, localGovCode: string | null): boolean {
+  if (!scope) {
+    return true;
+  }
+
+  return !!localGovCode && scope.local_gov_codes.includes(localGovCode);
+}
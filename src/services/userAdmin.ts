@@ -0,0 +1,334 @@
+/**
+ * User Administration Service
+ * Invitation-based onboarding and admin user management
+ *
+ * Accounts are created only by accepting an invitation. The admin who
+ * issues it fixes the local government, department and role, so nobody
+ * can choose their own role. Admins manage the users and invitations of
+ * their own local government, by local_gov_code as in tenant isolation;
+ * the one exception is a global admin inviting the first admin of a
+ * registered local government that has none yet.
+ */
+
+import type { JWTPayload } from '../middleware/auth';
+import type { User, UserInvitation } from '../types/database';
+import { ImpactLevel, UserRole, UserStatus } from '../types/database';
+import type { DatabaseService } from './databaseImpl';
+
+export type UserAdminErrorReason = 'invalid' | 'forbidden' | 'conflict';
+
+/**
+ * Raised when a user management action is not allowed
+ */
+export class UserAdminError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: UserAdminErrorReason
+  ) {
+    super(message);
+    this.name = 'UserAdminError';
+  }
+}
+
+// Invitations expire after a week
+export const INVITATION_TTL_DAYS = 7;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * User without the password hash, as returned by the API
+ */
+export type PublicUser = Omit<User, 'password_hash'>;
+
+export function toPublicUser(user: User): PublicUser {
+  const { password_hash, ...rest } = user;
+  return rest;
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return (Object.values(UserRole) as unknown[]).includes(value);
+}
+
+export function isUserStatus(value: unknown): value is UserStatus {
+  return (Object.values(UserStatus) as unknown[]).includes(value);
+}
+
+/**
+ * Whether a user with user:manage may manage users of this local government
+ * Only admins may manage admins or grant the admin role.
+ */
+export function canManageUser(admin: JWTPayload, target: { local_gov_code: string | null }): boolean {
+  return !!admin.local_gov_code && admin.local_gov_code === target.local_gov_code;
+}
+
+/**
+ * SHA-256 hex digest of a token; only digests are stored
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Random URL-safe token (256 bits)
+ */
+export function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Issue an invitation; the token is returned only here
+ */
+export async function inviteUser(
+  dbService: DatabaseService,
+  admin: JWTPayload,
+  input: { email?: string; role?: unknown; department?: string; local_gov_code?: string }
+): Promise<{ invitation: UserInvitation; token: string }> {
+  const email = input.email?.trim().toLowerCase();
+  const requestedCode = input.local_gov_code?.trim();
+
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new UserAdminError('A valid email is required', 'invalid');
+  }
+  if (!isUserRole(input.role)) {
+    throw new UserAdminError(`role must be one of ${Object.values(UserRole).join(', ')}`, 'invalid');
+  }
+
+  if (input.role === UserRole.ADMIN && admin.role !== UserRole.ADMIN) {
+    throw new UserAdminError('Only admins can invite admins', 'forbidden');
+  }
+
+  // The invitee joins the inviter's local government, whose code decides
+  // the tenant scope
+  let localGov = admin.local_gov;
+  let localGovCode = admin.local_gov_code;
+
+  if (requestedCode && !canManageUser(admin, { local_gov_code: requestedCode })) {
+    // Onboarding a new local government: its first admin, by a global admin
+    if (admin.role !== UserRole.ADMIN || input.role !== UserRole.ADMIN) {
+      throw new UserAdminError(`Cannot invite users to ${requestedCode}`, 'forbidden');
+    }
+
+    const localGovernment = await dbService.getLocalGovernment(requestedCode);
+    if (!localGovernment) {
+      throw new UserAdminError(`Unknown local government ${requestedCode}`, 'invalid');
+    }
+
+    const { total } = await dbService.getUsers({ local_gov_code: requestedCode, role: UserRole.ADMIN, limit: 1, offset: 0 });
+    if (total > 0) {
+      throw new UserAdminError(`${localGovernment.name} already has an admin`, 'forbidden');
+    }
+
+    localGov = localGovernment.name;
+    localGovCode = localGovernment.local_gov_code;
+  }
+
+  if (!localGovCode) {
+    throw new UserAdminError('Your account has no local government to invite users to', 'forbidden');
+  }
+
+  if (await dbService.getUserByEmail(email)) {
+    throw new UserAdminError(`User ${email} already exists`, 'conflict');
+  }
+
+  const token = generateToken();
+  const invitation = await dbService.createInvitation({
+    invitation_id: `invite_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    email,
+    local_gov: localGov,
+    local_gov_code: localGovCode,
+    department: input.department?.trim() || null,
+    role: input.role,
+    invited_by: admin.user_id,
+    expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+  }, await hashToken(token));
+
+  return { invitation, token };
+}
+
+/**
+ * Create the account of an invitation
+ * Returns null if the token is unknown, used, revoked or expired
+ */
+export async function acceptInvitation(
+  dbService: DatabaseService,
+  token: string,
+  input: { username?: string; password?: string }
+): Promise<User | null> {
+  const username = input.username?.trim();
+
+  if (!username) {
+    throw new UserAdminError('username is required', 'invalid');
+  }
+  if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserAdminError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 'invalid');
+  }
+
+  const bcrypt = await import('bcryptjs');
+
+  try {
+    return await dbService.acceptInvitation(await hashToken(token), {
+      user_id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      username,
+      password_hash: await bcrypt.hash(input.password, 10),
+      notification_settings: {
+        email_enabled: true,
+        push_enabled: true,
+        impact_levels: [ImpactLevel.HIGH, ImpactLevel.MEDIUM],
+        departments: []
+      }
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new UserAdminError('Username or email is already taken', 'conflict');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Change the role of a user
+ * Returns null if the user does not exist
+ */
+export async function changeUserRole(
+  dbService: DatabaseService,
+  admin: JWTPayload,
+  userId: string,
+  role: unknown
+): Promise<User | null> {
+  if (!isUserRole(role)) {
+    throw new UserAdminError(`role must be one of ${Object.values(UserRole).join(', ')}`, 'invalid');
+  }
+  if (role === UserRole.ADMIN && admin.role !== UserRole.ADMIN) {
+    throw new UserAdminError('Only admins can grant the admin role', 'forbidden');
+  }
+
+  const user = await getManagedUser(dbService, admin, userId);
+  if (!user) {
+    return null;
+  }
+
+  if (user.role === role) {
+    return user;
+  }
+
+  return dbService.updateUser(userId, { role });
+}
+
+/**
+ * Suspend or reactivate a user
+ * Returns null if the user does not exist
+ */
+export async function setUserStatus(
+  dbService: DatabaseService,
+  admin: JWTPayload,
+  userId: string,
+  status: unknown
+): Promise<User | null> {
+  if (!isUserStatus(status)) {
+    throw new UserAdminError(`status must be one of ${Object.values(UserStatus).join(', ')}`, 'invalid');
+  }
+
+  const user = await getManagedUser(dbService, admin, userId);
+  if (!user) {
+    return null;
+  }
+
+  if (user.status === status) {
+    return user;
+  }
+
+  return dbService.updateUser(userId, {
+    status,
+    suspended_at: status === UserStatus.SUSPENDED ? new Date() : null
+  });
+}
+
+/**
+ * Delete a user without review or verification history
+ * Users with history are kept for the audit trail and can be suspended.
+ * Returns false if the user does not exist
+ */
+export async function deleteUser(
+  dbService: DatabaseService,
+  admin: JWTPayload,
+  userId: string
+): Promise<boolean> {
+  const user = await getManagedUser(dbService, admin, userId);
+  if (!user) {
+    return false;
+  }
+
+  try {
+    return await dbService.deleteUser(userId);
+  } catch (error) {
+    if (isForeignKeyViolation(error)) {
+      throw new UserAdminError(`User ${userId} has review history; suspend the account instead`, 'conflict');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Revoke an open invitation
+ * Returns null if the invitation does not exist
+ */
+export async function revokeInvitation(
+  dbService: DatabaseService,
+  admin: JWTPayload,
+  invitationId: string
+): Promise<UserInvitation | null> {
+  const invitation = await dbService.getInvitationById(invitationId);
+  if (!invitation) {
+    return null;
+  }
+
+  if (!canManageUser(admin, invitation)) {
+    throw new UserAdminError(`Invitation ${invitationId} belongs to ${invitation.local_gov}`, 'forbidden');
+  }
+
+  const revoked = await dbService.revokeInvitation(invitationId);
+  if (!revoked) {
+    throw new UserAdminError(`Invitation ${invitationId} was already accepted or revoked`, 'conflict');
+  }
+
+  return revoked;
+}
+
+/**
+ * Target of a management action, checked against the admin's scope
+ * Admins cannot change or delete their own account.
+ */
+async function getManagedUser(
+  dbService: DatabaseService,
+  admin: JWTPayload,
+  userId: string
+): Promise<User | null> {
+  const user = await dbService.getUserById(userId);
+  if (!user) {
+    return null;
+  }
+
+  if (!canManageUser(admin, user)) {
+    throw new UserAdminError(`User ${userId} belongs to ${user.local_gov}`, 'forbidden');
+  }
+  if (user.role === UserRole.ADMIN && admin.role !== UserRole.ADMIN) {
+    throw new UserAdminError('Only admins can manage admins', 'forbidden');
+  }
+  if (user.user_id === admin.user_id) {
+    throw new UserAdminError('Admins cannot change their own account', 'forbidden');
+  }
+
+  return user;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+function isForeignKeyViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23503';
+}
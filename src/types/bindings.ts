@@ -2,6 +2,8 @@
  * Cloudflare Bindings Type Definitions
  */
 
+import type { TenantScope } from './database';
+
 export interface CloudflareBindings {
   // Database binding (if using D1)
   DB?: D1Database;
@@ -14,8 +16,13 @@ export interface CloudflareBindings {
   
   // Environment Variables
   OPENAI_API_KEY: string;
+  GEMINI_API_KEY?: string;
+  AI_PROVIDER?: string; // Comma-separated fallback order: openai, gemini, stub
   DATABASE_URL: string;
   JWT_SECRET: string;
+  ENVIRONMENT?: string; // 'development' allows running without JWT_SECRET and APP_URL
+  APP_URL?: string; // Public origin for emailed and calendar feed links, e.g. https://law.example.go.kr
+  PERMISSION_POLICY?: string; // JSON overrides of the role policy, see services/permissions.ts
   SENDGRID_API_KEY?: string;
   
   // API Keys for external services
@@ -25,4 +32,7 @@ export interface CloudflareBindings {
 
 export type HonoEnv = {
   Bindings: CloudflareBindings;
+  Variables: {
+    tenantScope: TenantScope | null; // set by tenantMiddleware
+  };
 };
@@ -27,6 +27,14 @@ export enum ArticleType {
   APPENDIX = '별표'
 }
 
+export enum ChangeKind {
+  WORDING = '자구수정',
+  CONTENT = '내용변경',
+  NEW = '신설',
+  DELETED = '삭제',
+  MOVED = '이동'
+}
+
 export enum RegulationType {
   ORDINANCE = '조례',
   RULE = '규칙'
@@ -38,6 +46,18 @@ export enum LinkType {
   REFERENCE = '참조'
 }
 
+export enum LinkVerificationStatus {
+  PENDING = 'pending',
+  CONFIRMED = 'confirmed',
+  REJECTED = 'rejected'
+}
+
+export enum LinkVerificationAction {
+  CONFIRM = '확인',
+  REJECT = '거부',
+  RETYPE = '유형변경'
+}
+
 export enum ImpactLevel {
   HIGH = 'HIGH',
   MEDIUM = 'MEDIUM',
@@ -53,11 +73,40 @@ export enum ImpactType {
 
 export enum UserRole {
   ADMIN = 'admin',
+  PROVINCE_OFFICER = 'province_officer', // 광역: also reads its 기초 municipalities
   LAW_OFFICER = 'law_officer',
   DEPT_OFFICER = 'dept_officer',
   VIEWER = 'viewer'
 }
 
+/**
+ * Actions granted to roles by the permission policy
+ */
+export enum Permission {
+  ANALYSIS_TRIGGER = 'analysis:trigger',
+  ANALYSIS_REVIEW = 'analysis:review',
+  DRAFT_EDIT = 'draft:edit',
+  DRAFT_APPROVE = 'draft:approve',
+  LINK_VERIFY = 'link:verify',
+  USER_MANAGE = 'user:manage',
+  JOB_RUN = 'job:run'
+}
+
+/**
+ * Local governments whose data a user may read (null: all, for admins)
+ * Holds the user's own 지자체기관코드 and, for a province officer, the
+ * codes of the municipalities registered under it in local_governments
+ * (경기도 6410000 covers 수원시 3740000). An empty list matches nothing.
+ */
+export interface TenantScope {
+  local_gov_codes: string[];
+}
+
+export enum UserStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended'
+}
+
 export enum NotificationType {
   URGENT = 'urgent',
   NORMAL = 'normal',
@@ -72,6 +121,39 @@ export enum ReviewAction {
   HOLD = '보류'
 }
 
+export enum ReviewStatus {
+  PENDING = 'pending',
+  IN_REVIEW = 'in_review',
+  COMMENTED = 'commented',
+  ON_HOLD = 'on_hold',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
+
+export enum LawSyncStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export enum JobRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export enum AnalysisJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export enum AmendmentDraftStatus {
+  DRAFT = 'draft',
+  APPROVED = 'approved'
+}
+
 // Core Entities
 
 export interface Law {
@@ -101,11 +183,31 @@ export interface LawRevision {
   created_at: Date;
 }
 
+export interface TextDiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// 항/호/목 level change within a changed article
+export interface ParagraphChange {
+  article_number: string; // e.g. '5 제2항 제3호'
+  old_article_number?: string; // Set when renumbered (이동)
+  change_kind: ChangeKind;
+  old_content?: string; // Own text, without sub-items
+  new_content?: string;
+  diff?: TextDiffSegment[];
+}
+
 export interface ChangedArticle {
   article_number: string;
-  change_type: 'added' | 'modified' | 'deleted';
+  old_article_number?: string; // Set when renumbered (이동)
+  change_type: 'added' | 'modified' | 'deleted' | 'moved';
+  change_kind?: ChangeKind; // Absent on revisions stored before the diff engine
+  similarity?: number; // 0-1, for modified and moved articles
   old_content?: string;
   new_content?: string;
+  diff?: TextDiffSegment[];
+  paragraphs?: ParagraphChange[];
 }
 
 export interface Article {
@@ -121,6 +223,18 @@ export interface Article {
   created_at: Date;
 }
 
+/**
+ * Local government by its law.go.kr 지자체기관코드
+ * Municipalities (기초) point to their province (광역) with parent_code.
+ */
+export interface LocalGovernment {
+  local_gov_code: string;
+  name: string;
+  parent_code: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface LocalRegulation {
   regulation_id: string;
   regulation_type: RegulationType;
@@ -155,7 +269,8 @@ export interface LawRegulationLink {
   reg_article_id?: string;
   link_type: LinkType;
   confidence_score: number;
-  verified: boolean;
+  verification_status: LinkVerificationStatus;
+  verified: boolean; // Set by any officer decision, see verification_status
   verified_by?: string;
   verified_at?: Date;
   created_at: Date;
@@ -172,6 +287,7 @@ export interface ImpactAnalysis {
   change_summary: string;
   ai_recommendation: string;
   confidence_score: number;
+  review_status: ReviewStatus;
   reviewed: boolean;
   reviewer_id?: string;
   reviewed_at?: Date;
@@ -184,13 +300,31 @@ export interface User {
   email: string;
   password_hash: string;
   local_gov: string;
+  local_gov_code: string | null;
   department: string;
   role: UserRole;
+  status: UserStatus;
+  suspended_at?: Date | null;
   notification_settings: NotificationSettings;
   created_at: Date;
   last_login?: Date;
 }
 
+export interface UserInvitation {
+  invitation_id: string;
+  email: string;
+  local_gov: string;
+  local_gov_code: string | null;
+  department?: string | null;
+  role: UserRole;
+  invited_by?: string | null;
+  expires_at: Date;
+  accepted_at?: Date | null;
+  accepted_user_id?: string | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
 export interface NotificationSettings {
   email_enabled: boolean;
   push_enabled: boolean;
@@ -219,6 +353,113 @@ export interface ReviewHistory {
   created_at: Date;
 }
 
+export interface LinkVerificationHistory {
+  history_id: string;
+  link_id: string;
+  user_id: string;
+  action: LinkVerificationAction;
+  from_status: LinkVerificationStatus;
+  to_status: LinkVerificationStatus;
+  from_link_type: LinkType;
+  to_link_type: LinkType;
+  comment: string | null;
+  created_at: Date;
+}
+
+export interface AnalysisJob {
+  job_id: string;
+  revision_id: string;
+  target_local_gov?: string;
+  target_local_gov_code?: string | null; // tenant of the job; null: every local government
+  status: AnalysisJobStatus;
+  progress: number;
+  total_items: number;
+  processed_items: number;
+  created_analyses: number;
+  skipped_items: number;
+  failed_items: number;
+  error_message?: string;
+  created_by: string;
+  created_at: Date;
+  started_at?: Date;
+  completed_at?: Date;
+}
+
+export interface LawSyncRun {
+  run_id: string;
+  status: LawSyncStatus;
+  from_date: Date;
+  law_ids: string[];
+  cursor: number;
+  new_laws: number;
+  updated_laws: number;
+  new_revisions: number;
+  new_articles: number;
+  errors: number;
+  error_message?: string | null;
+  started_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+export interface JobRun {
+  run_id: string;
+  job_name: string;
+  trigger: 'cron' | 'manual';
+  status: JobRunStatus;
+  result?: Record<string, unknown> | null;
+  error_message?: string | null;
+  triggered_by?: string | null;
+  started_at: Date;
+  completed_at?: Date;
+}
+
+export interface AmendmentDraft {
+  draft_id: string;
+  analysis_id: string;
+  reg_article_id: string;
+  status: AmendmentDraftStatus;
+  current_version: number;
+  approved_version?: number | null;
+  created_by: string;
+  approved_by?: string | null;
+  approved_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AmendmentDraftVersion {
+  draft_id: string;
+  version: number;
+  source: 'ai' | 'manual';
+  provider?: string | null;
+  old_content: string; // 현행 regulation article text
+  new_content: string; // 개정안 text
+  amendment_text: string; // 개정문, e.g. 제5조제2항 중 "○○"을 "△△"으로 한다.
+  rationale?: string | null;
+  created_by: string;
+  created_at: Date;
+}
+
+export interface AuthSession {
+  session_id: string;
+  user_id: string;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  last_used_at: Date;
+  created_at: Date;
+}
+
+// D-30 / D-7 warning already sent to a user for a revision
+export interface EnforcementReminder {
+  revision_id: string;
+  user_id: string;
+  days_before: number;
+  sent_at: Date;
+}
+
 // API Request/Response Types
 
 export interface CreateLawRequest {
@@ -242,6 +483,7 @@ export interface CreateRevisionRequest {
 export interface TriggerAnalysisRequest {
   revision_id: string;
   target_local_gov?: string;
+  target_local_gov_code?: string;
 }
 
 export interface ReviewAnalysisRequest {
@@ -255,10 +497,13 @@ export interface SearchRequest {
   filters?: Record<string, any>;
 }
 
+export type SearchSource = 'law' | 'regulation' | 'all';
+
 export interface SemanticSearchRequest {
   query: string;
   threshold?: number;
   limit?: number;
+  source?: SearchSource;
 }
 
 export interface AnalysisListQuery {
@@ -330,9 +575,37 @@ export interface AnalysisStatsResponse {
   }>;
 }
 
+export interface SearchHit {
+  source: 'law' | 'regulation';
+  article_id: string;
+  parent_id: string; // law_id or regulation_id
+  name: string; // law_name or regulation_name
+  local_gov?: string;
+  article_number: string;
+  article_title: string;
+  snippet: string;
+  similarity: number;
+}
+
 export interface DashboardStats {
   pending_reviews: number;
   urgent_notifications: number;
   this_month_revisions: number;
   completion_rate: number;
 }
+
+// Upcoming 시행일 of a revision affecting one local government's regulations
+export interface EnforcementCalendarEntry {
+  revision_id: string;
+  law_id: string;
+  law_name: string;
+  law_type: LawType;
+  revision_type: RevisionType;
+  revision_date: string; // YYYY-MM-DD
+  enforcement_date: string; // YYYY-MM-DD
+  days_left: number; // negative once in force
+  affected_regulations: number;
+  unresolved_analyses: number;
+  high_impact_unresolved: number;
+  top_unresolved_analysis_id: string | null; // most severe unreviewed analysis
+}
@@ -0,0 +1,24 @@
+/**
+ * Public App URL
+ * Links that leave the request (reset emails, calendar subscriptions) are
+ * built from APP_URL, never from the Host header the client sends.
+ */
+
+import type { CloudflareBindings } from '../types/bindings';
+
+// Only used when ENVIRONMENT=development, see dev:sandbox
+const DEV_APP_URL = 'http://localhost:3000';
+
+/**
+ * APP_URL without a trailing slash
+ * Throws outside development when APP_URL is not configured.
+ */
+export function getAppUrl(env: CloudflareBindings): string {
+  if (env.APP_URL) {
+    return env.APP_URL.replace(/\/+$/, '');
+  }
+  if (env.ENVIRONMENT === 'development') {
+    return DEV_APP_URL;
+  }
+  throw new Error('APP_URL is not configured');
+}
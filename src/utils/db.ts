@@ -1,24 +1,16 @@
 /**
  * Neon Database Wrapper for Cloudflare Workers
- * Properly converts parameterized queries to Neon template syntax
+ * The only way routes and services reach Postgres, through DatabaseService
  */
 
 import { neon } from '@neondatabase/serverless';
+import type { TenantScope } from '../types/database';
 
 export interface QueryResult<T = any> {
   rows: T[];
   rowCount: number;
 }
 
-/**
- * Create a proper TemplateStringsArray for Neon
- */
-function createTemplateArray(strings: string[]): TemplateStringsArray {
-  const arr = strings as any;
-  arr.raw = strings;
-  return arr as TemplateStringsArray;
-}
-
 /**
  * Create database connection
  */
@@ -26,46 +18,13 @@ export function createDbConnection(connectionString: string) {
   const sql = neon(connectionString);
   
   return {
-    sql, // Expose raw sql for direct use
-    
     /**
      * Execute parameterized query
+     * Values are sent separately from the SQL text, so $n may repeat
      */
     async query<T = any>(text: string, params?: any[]): Promise<QueryResult<T>> {
       try {
-        let rows;
-        
-        if (!params || params.length === 0) {
-          // No parameters
-          rows = await sql(createTemplateArray([text]));
-        } else {
-          // With parameters - split by $1, $2, $3 etc
-          const parts: string[] = [];
-          const values: any[] = [];
-          
-          let remaining = text;
-          for (let i = 0; i < params.length; i++) {
-            const placeholder = `$${i + 1}`;
-            const index = remaining.indexOf(placeholder);
-            
-            if (index === -1) {
-              // No more placeholders
-              break;
-            }
-            
-            // Add text before placeholder
-            parts.push(remaining.substring(0, index));
-            // Add parameter value
-            values.push(params[i]);
-            // Continue with remaining text
-            remaining = remaining.substring(index + placeholder.length);
-          }
-          // Add remaining text
-          parts.push(remaining);
-          
-          // Call sql with proper template array
-          rows = await sql(createTemplateArray(parts), ...values);
-        }
+        const rows = await sql.query(text, params || []);
         
         return {
           rows: rows as T[],
@@ -86,10 +45,29 @@ export function createDbConnection(connectionString: string) {
 
     async transaction<T>(callback: (client: any) => Promise<T>): Promise<T> {
       return callback(this);
+    },
+
+    /**
+     * Execute several parameterized queries as one Postgres transaction
+     * If any statement fails, all of them are rolled back
+     */
+    async batch<T = any>(statements: Array<{ text: string; params?: any[] }>): Promise<T[][]> {
+      try {
+        const results = await sql.transaction(
+          statements.map(s => sql.query(s.text, s.params || []))
+        );
+        return results as T[][];
+      } catch (error) {
+        console.error('[DB] Transaction error:', error);
+        console.error('[DB] Statements:', statements.length);
+        throw error;
+      }
     }
   };
 }
 
+export type Database = ReturnType<typeof createDbConnection>;
+
 /**
  * Get database connection from environment
  */
@@ -111,3 +89,97 @@ export async function withDb<T>(
   const db = getDb(env);
   return callback(db);
 }
+
+/**
+ * Escape LIKE wildcards in user input
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Condition restricting a local_gov_code column to a tenant scope
+ * Returns an empty string without a scope (admins).
+ */
+export function tenantCondition(column: string, scope: TenantScope | null | undefined, params: any[]): string {
+  if (!scope) {
+    return '';
+  }
+
+  params.push(scope.local_gov_codes);
+  return `${column} = ANY($${params.length})`;
+}
+
+/**
+ * Collects the optional filters of a query as parameterized conditions
+ * Column names come from code; values are always bound as $n parameters
+ */
+export function createQueryFilters(params: any[] = []) {
+  const conditions: string[] = [];
+
+  return {
+    params,
+
+    /**
+     * Bind a value and return its placeholder
+     */
+    bind(value: any): string {
+      params.push(value);
+      return `$${params.length}`;
+    },
+
+    /**
+     * Add a condition unless the value is empty
+     * The callback receives the placeholder bound to the value
+     */
+    add(value: unknown, condition: (placeholder: string) => string) {
+      if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+        return this;
+      }
+      conditions.push(condition(this.bind(value)));
+      return this;
+    },
+
+    /**
+     * column = value, or column = ANY(values) for arrays
+     */
+    equals(column: string, value: unknown) {
+      return this.add(value, p => Array.isArray(value) ? `${column} = ANY(${p})` : `${column} = ${p}`);
+    },
+
+    /**
+     * Case-insensitive substring match
+     */
+    contains(column: string, value: string | undefined) {
+      return this.add(value ? `%${escapeLike(value)}%` : undefined, p => `${column} ILIKE ${p}`);
+    },
+
+    /**
+     * Restrict a local_gov_code column to a tenant scope (no-op without one)
+     */
+    tenant(column: string, scope: TenantScope | null | undefined) {
+      const condition = tenantCondition(column, scope, params);
+      if (condition) {
+        conditions.push(condition);
+      }
+      return this;
+    },
+
+    /**
+     * Condition without a value, e.g. "x IS NOT NULL"
+     */
+    where(condition: string) {
+      conditions.push(condition);
+      return this;
+    },
+
+    /**
+     * "WHERE a AND b", or an empty string without conditions
+     */
+    clause(): string {
+      return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    }
+  };
+}
+
+export type QueryFilters = ReturnType<typeof createQueryFilters>;
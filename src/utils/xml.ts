@@ -0,0 +1,186 @@
+/**
+ * Minimal XML Parser
+ * Builds an element tree from the XML returned by the 국가법령정보센터 API.
+ * Workers has no DOMParser; this covers elements, attributes, text, CDATA,
+ * entities and skips comments, processing instructions and DOCTYPE.
+ */
+
+export interface XMLElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+  text: string; // Direct text content (decoded, untrimmed)
+}
+
+export class XMLParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'XMLParseError';
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXML(xml: string): XMLElement {
+  const root: XMLElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XMLElement[] = [root];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const current = stack[stack.length - 1];
+    const lt = xml.indexOf('<', pos);
+
+    if (lt === -1) {
+      current.text += decodeEntities(xml.substring(pos));
+      break;
+    }
+
+    if (lt > pos) {
+      current.text += decodeEntities(xml.substring(pos, lt));
+    }
+
+    if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      if (end === -1) throw new XMLParseError('Unterminated CDATA section', lt);
+      current.text += xml.substring(lt + 9, end);
+      pos = end + 3;
+    } else if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt + 4);
+      if (end === -1) throw new XMLParseError('Unterminated comment', lt);
+      pos = end + 3;
+    } else if (xml.startsWith('<?', lt)) {
+      const end = xml.indexOf('?>', lt + 2);
+      if (end === -1) throw new XMLParseError('Unterminated processing instruction', lt);
+      pos = end + 2;
+    } else if (xml.startsWith('<!', lt)) {
+      const end = xml.indexOf('>', lt + 2);
+      if (end === -1) throw new XMLParseError('Unterminated declaration', lt);
+      pos = end + 1;
+    } else if (xml.startsWith('</', lt)) {
+      const end = xml.indexOf('>', lt + 2);
+      if (end === -1) throw new XMLParseError('Unterminated closing tag', lt);
+      const name = xml.substring(lt + 2, end).trim();
+
+      if (stack.length === 1 || current.name !== name) {
+        throw new XMLParseError(`Unexpected closing tag </${name}>`, lt);
+      }
+
+      stack.pop();
+      pos = end + 1;
+    } else {
+      const end = findTagEnd(xml, lt + 1);
+      if (end === -1) throw new XMLParseError('Unterminated tag', lt);
+
+      const selfClosing = xml[end - 1] === '/';
+      const body = xml.substring(lt + 1, selfClosing ? end - 1 : end);
+      const element = parseTag(body, lt);
+
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new XMLParseError(`Unclosed tag <${stack[stack.length - 1].name}>`, xml.length);
+  }
+
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    throw new XMLParseError('No root element', 0);
+  }
+
+  return documentElement;
+}
+
+/**
+ * First direct child with the given name
+ */
+export function findChild(element: XMLElement | undefined, name: string): XMLElement | undefined {
+  return element?.children.find(child => child.name === name);
+}
+
+/**
+ * All direct children with the given name
+ */
+export function findChildren(element: XMLElement | undefined, name: string): XMLElement[] {
+  return element ? element.children.filter(child => child.name === name) : [];
+}
+
+/**
+ * First descendant (depth-first) with the given name
+ */
+export function findDescendant(element: XMLElement | undefined, name: string): XMLElement | undefined {
+  if (!element) return undefined;
+
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findDescendant(child, name);
+    if (found) return found;
+  }
+
+  return undefined;
+}
+
+/**
+ * Trimmed text of the first direct child with the given name, '' if absent
+ */
+export function childText(element: XMLElement | undefined, name: string): string {
+  return findChild(element, name)?.text.trim() ?? '';
+}
+
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function parseTag(body: string, position: number): XMLElement {
+  const nameMatch = body.match(/^\s*([^\s/>]+)/);
+  if (!nameMatch) {
+    throw new XMLParseError('Missing tag name', position);
+  }
+
+  const attributes: Record<string, string> = {};
+  const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  const rest = body.substring(nameMatch[0].length);
+
+  let match;
+  while ((match = attrPattern.exec(rest)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+
+  return { name: nameMatch[1], attributes, children: [], text: '' };
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+      return isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code] ?? entity;
+  });
+}
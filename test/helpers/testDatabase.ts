@@ -0,0 +1,70 @@
+/// <reference types="node" />
+/**
+ * Postgres for tests: an in-process pglite database with every migration
+ * applied, behind the same Database interface as the Neon connection
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/vector';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import type { Database } from '../../src/utils/db';
+import {
+  ensureMigrationTables,
+  getMigrationStatus,
+  loadMigrations,
+  planUp,
+  runMigrationSteps
+} from '../../src/services/migrationRunner';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../../migrations', import.meta.url));
+
+export interface TestDatabase {
+  db: Database;
+  pg: PGlite;
+}
+
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const pg = await PGlite.create({ extensions: { vector, pg_trgm, uuid_ossp } });
+
+  const db: Database = {
+    async query(text, params) {
+      const result = await pg.query<any>(text, params || []);
+      return { rows: result.rows, rowCount: result.rows.length };
+    },
+
+    async queryOne(text, params) {
+      const result = await this.query(text, params);
+      return result.rows[0] || null;
+    },
+
+    async transaction(callback) {
+      return callback(this);
+    },
+
+    async batch(statements) {
+      return pg.transaction(async (tx) => {
+        const results: any[][] = [];
+        for (const statement of statements) {
+          results.push((await tx.query<any>(statement.text, statement.params || [])).rows);
+        }
+        return results;
+      });
+    }
+  };
+
+  const migrations = await loadMigrations(
+    readdirSync(MIGRATIONS_DIR)
+      .filter(filename => filename.endsWith('.sql'))
+      .map(filename => ({ filename, content: readFileSync(join(MIGRATIONS_DIR, filename), 'utf8') }))
+  );
+
+  await ensureMigrationTables(db);
+  const status = await getMigrationStatus(db, migrations);
+  await runMigrationSteps(db, planUp(status, migrations), () => {});
+
+  return { db, pg };
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { HonoEnv } from '../../src/types/bindings';
+import type { JWTPayload } from '../../src/middleware/auth';
+import { UserRole } from '../../src/types/database';
+import { tenantMiddleware, getTenantScope, requireTenantOf } from '../../src/middleware/tenant';
+import { createDatabaseService } from '../../src/services/databaseImpl';
+import type { Database } from '../../src/utils/db';
+import { createTestDatabase } from '../helpers/testDatabase';
+
+const testDb = vi.hoisted(() => ({ current: null as Database | null }));
+
+// Routes open their connection with withDb; give them the test database
+vi.mock('../../src/utils/db', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/db')>(),
+  withDb: <T>(_env: unknown, callback: (db: Database) => Promise<T>) => callback(testDb.current!)
+}));
+
+// law.go.kr 지자체기관코드; 6410000 and 6430000 share their first digits
+const GYEONGGI = '6410000';
+const SUWON = '3740000';
+const SEONGNAM = '3780000';
+const CHUNGBUK = '6430000';
+const CHEONGJU = '5710000';
+
+const USERS: Record<string, Partial<JWTPayload>> = {
+  admin: { role: UserRole.ADMIN, local_gov: '경기도', local_gov_code: GYEONGGI },
+  officer: { role: UserRole.LAW_OFFICER, local_gov: '경기도 수원시', local_gov_code: SUWON },
+  province: { role: UserRole.PROVINCE_OFFICER, local_gov: '경기도', local_gov_code: GYEONGGI },
+  otherProvince: { role: UserRole.PROVINCE_OFFICER, local_gov: '충청북도', local_gov_code: CHUNGBUK }
+};
+
+function createApp(user: Partial<JWTPayload>) {
+  const app = new Hono<HonoEnv>();
+
+  app.use('*', async (c, next) => {
+    c.set('jwtPayload', { user_id: 'user_1', email: 'user@example.com', department: '건축과', sid: 's', ...user });
+    await next();
+  });
+  app.use('*', tenantMiddleware);
+
+  app.get('/regulations', async (c) => {
+    const { regulations } = await createDatabaseService(testDb.current!).getRegulations({
+      tenant: getTenantScope(c),
+      limit: 20,
+      offset: 0
+    });
+    return c.json(regulations.map(r => r.regulation_id).sort());
+  });
+
+  app.get('/regulations/:id', requireTenantOf('regulation', 'id', 'Regulation'), (c) =>
+    c.json({ regulation_id: c.req.param('id') })
+  );
+
+  return app;
+}
+
+async function regulationIds(user: Partial<JWTPayload>, query = ''): Promise<string[]> {
+  const res = await createApp(user).request(`/regulations${query}`, {}, { DATABASE_URL: '' });
+  expect(res.status).toBe(200);
+  return res.json() as Promise<string[]>;
+}
+
+async function regulationStatus(user: Partial<JWTPayload>, id: string): Promise<number> {
+  return (await createApp(user).request(`/regulations/${id}`, {}, { DATABASE_URL: '' })).status;
+}
+
+beforeAll(async () => {
+  const { db } = await createTestDatabase();
+  testDb.current = db;
+
+  await db.query(
+    `INSERT INTO local_regulations (regulation_id, regulation_type, regulation_name, local_gov, local_gov_code,
+       enactment_date, current_version, department, status)
+     VALUES ('reg_gyeonggi', '조례', '경기도 건축 조례', '경기도', '6410000', '2020-01-01', '1', '건축과', '시행'),
+            ('reg_suwon', '조례', '수원시 건축 조례', '경기도 수원시', '3740000', '2020-01-01', '1', '건축과', '시행'),
+            ('reg_seongnam', '조례', '성남시 건축 조례', '경기도 성남시', '3780000', '2020-01-01', '1', '건축과', '시행'),
+            ('reg_chungbuk', '조례', '충청북도 건축 조례', '충청북도', '6430000', '2020-01-01', '1', '건축과', '시행'),
+            ('reg_cheongju', '조례', '청주시 건축 조례', '충청북도 청주시', '5710000', '2020-01-01', '1', '건축과', '시행')`
+  );
+
+  // As listed by lawSearch.do?org=<province>, the province's own entries included
+  const dbService = createDatabaseService(db);
+  await dbService.registerMunicipalities(GYEONGGI, [
+    { local_gov_code: GYEONGGI, name: '경기도' },
+    { local_gov_code: SUWON, name: '경기도 수원시' },
+    { local_gov_code: SEONGNAM, name: '경기도 성남시' },
+    { local_gov_code: SUWON, name: '경기도 수원시' }
+  ]);
+  await dbService.registerMunicipalities(CHUNGBUK, [{ local_gov_code: CHEONGJU, name: '충청북도 청주시' }]);
+});
+
+describe('tenantMiddleware', () => {
+  it('rejects requests without a user', async () => {
+    const app = new Hono<HonoEnv>();
+    app.use('*', tenantMiddleware);
+    app.get('/', (c) => c.text('ok'));
+
+    expect((await app.request('/')).status).toBe(401);
+  });
+
+  it('lets admins read every local government', async () => {
+    expect(await regulationIds(USERS.admin))
+      .toEqual(['reg_cheongju', 'reg_chungbuk', 'reg_gyeonggi', 'reg_seongnam', 'reg_suwon']);
+  });
+
+  it('limits officers to their own local government', async () => {
+    expect(await regulationIds(USERS.officer)).toEqual(['reg_suwon']);
+  });
+
+  it('lets province officers read their municipalities but not another province', async () => {
+    expect(await regulationIds(USERS.province)).toEqual(['reg_gyeonggi', 'reg_seongnam', 'reg_suwon']);
+    expect(await regulationIds(USERS.otherProvince)).toEqual(['reg_cheongju', 'reg_chungbuk']);
+  });
+
+  it('narrows the scope to one local government with ?local_gov_code=', async () => {
+    expect(await regulationIds(USERS.province, `?local_gov_code=${SEONGNAM}`)).toEqual(['reg_seongnam']);
+  });
+
+  it('forbids narrowing to a local government outside the scope', async () => {
+    const res = await createApp(USERS.officer).request(`/regulations?local_gov_code=${SEONGNAM}`, {}, { DATABASE_URL: '' });
+    expect(res.status).toBe(403);
+
+    const province = await createApp(USERS.province).request(`/regulations?local_gov_code=${CHUNGBUK}`, {}, { DATABASE_URL: '' });
+    expect(province.status).toBe(403);
+  });
+});
+
+describe('requireTenantOf', () => {
+  it('passes resources in the scope', async () => {
+    expect(await regulationStatus(USERS.admin, 'reg_cheongju')).toBe(200);
+    expect(await regulationStatus(USERS.officer, 'reg_suwon')).toBe(200);
+    expect(await regulationStatus(USERS.province, 'reg_seongnam')).toBe(200);
+  });
+
+  it('answers 404 for resources of another tenant', async () => {
+    expect(await regulationStatus(USERS.officer, 'reg_seongnam')).toBe(404);
+    expect(await regulationStatus(USERS.province, 'reg_chungbuk')).toBe(404);
+    expect(await regulationStatus(USERS.province, 'reg_cheongju')).toBe(404);
+    expect(await regulationStatus(USERS.otherProvince, 'reg_suwon')).toBe(404);
+  });
+
+  it('leaves missing resources to the route', async () => {
+    expect(await regulationStatus(USERS.officer, 'reg_missing')).toBe(200);
+  });
+});
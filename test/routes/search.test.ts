@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import type { Context, Next } from 'hono';
+import type { HonoEnv } from '../../src/types/bindings';
+import type { Database } from '../../src/utils/db';
+import { UserRole } from '../../src/types/database';
+import { createTestDatabase } from '../helpers/testDatabase';
+
+const testDb = vi.hoisted(() => ({ current: null as Database | null }));
+
+vi.mock('../../src/utils/db', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/utils/db')>(),
+  withDb: <T>(_env: unknown, callback: (db: Database) => Promise<T>) => callback(testDb.current!)
+}));
+
+// Signed in as an admin without going through the session check
+vi.mock('../../src/middleware/auth', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../src/middleware/auth')>(),
+  authMiddleware: async (c: Context<HonoEnv>, next: Next) => {
+    c.set('jwtPayload', {
+      user_id: 'user_1',
+      email: 'admin@example.go.kr',
+      role: UserRole.ADMIN,
+      local_gov: '경기도 수원시',
+      local_gov_code: '3740000',
+      department: '법무과',
+      sid: 's'
+    });
+    await next();
+  }
+}));
+
+const { default: search } = await import('../../src/routes/search');
+
+beforeAll(async () => {
+  const { db } = await createTestDatabase();
+  testDb.current = db;
+
+  await db.query(
+    `INSERT INTO laws (law_id, law_type, law_name, law_number, enactment_date, current_version, status)
+     VALUES ('law_building', '법률', '건축법', '1', '2020-01-01', '1', '시행')`
+  );
+});
+
+function post(path: string, body: unknown) {
+  return search.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  }, { DATABASE_URL: '' });
+}
+
+describe('POST /laws, /regulations and /articles', () => {
+  it('searches with a well-formed body', async () => {
+    const res = await post('/laws', { query: '건축법', type: '법률', filters: { status: ['시행'] } });
+    expect(res.status).toBe(200);
+    const { data } = await res.json() as { data: { results: Array<{ id: string }> } };
+    expect(data.results.map(r => r.id)).toEqual(['law_building']);
+  });
+
+  it.each([
+    ['a query that is not a string', { query: 42 }],
+    ['a missing query', { filters: {} }],
+    ['null filters', { query: '건축법', filters: null }],
+    ['filters that are an array', { query: '건축법', filters: ['법률'] }],
+    ['a filter that is an object', { query: '건축법', filters: { law_type: { $ne: '' } } }],
+    ['an unknown mode', { query: '건축법', mode: 'fuzzy' }],
+    ['a body that is not an object', ['건축법']]
+  ])('answers 400 for %s', async (_name, body) => {
+    for (const path of ['/laws', '/regulations', '/articles']) {
+      expect((await post(path, body)).status).toBe(400);
+    }
+  });
+
+  it('answers 400 for a type that is not a string', async () => {
+    expect((await post('/laws', { query: '건축법', type: 1 })).status).toBe(400);
+    expect((await post('/regulations', { query: '건축', local_gov: ['경기도 수원시'] })).status).toBe(400);
+  });
+
+  it('answers 400 for a body that is not JSON', async () => {
+    expect((await post('/laws', '{"query":')).status).toBe(400);
+  });
+
+  it('answers 400 for an invalid as_of', async () => {
+    expect((await post('/articles', { query: '건축', as_of: '2024-13-01' })).status).toBe(400);
+    expect((await post('/articles', { query: '건축', as_of: 20240101 })).status).toBe(400);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import { runAnalysisJob } from '../../src/services/analysisPipeline';
+import { createStubAnalyzer } from '../../src/services/impactAnalyzer';
+import type { DatabaseService, LinkedRegulationArticle } from '../../src/services/databaseImpl';
+import {
+  AnalysisJobStatus,
+  ArticleType,
+  ImpactLevel,
+  ImpactType,
+  LawStatus,
+  LawType,
+  LinkType,
+  RevisionType,
+  type AnalysisJob,
+  type Article,
+  type ImpactAnalysis,
+  type Law,
+  type LawRevision
+} from '../../src/types/database';
+
+type PipelineDatabase = Pick<
+  DatabaseService,
+  | 'updateAnalysisJob'
+  | 'getRevisionById'
+  | 'getLawById'
+  | 'getArticlesByRevisionId'
+  | 'getPreviousRevision'
+  | 'getLinkedRegulationArticles'
+  | 'analysisExists'
+  | 'createAnalysis'
+>;
+
+const law: Law = {
+  law_id: 'law_building',
+  law_type: LawType.LAW,
+  law_name: '건축법',
+  law_number: '제1호',
+  enactment_date: new Date('2020-01-01'),
+  current_version: '2',
+  status: LawStatus.ACTIVE,
+  ministry: '국토교통부',
+  category: '건축',
+  created_at: new Date('2020-01-01'),
+  updated_at: new Date('2024-01-01')
+};
+
+function revision(revisionId: string, date: string): LawRevision {
+  return {
+    revision_id: revisionId,
+    law_id: law.law_id,
+    revision_type: RevisionType.PARTIAL,
+    revision_date: new Date(date),
+    enforcement_date: new Date(date),
+    revision_reason: '',
+    previous_version: '',
+    new_version: '',
+    changed_articles: [],
+    created_at: new Date(date)
+  };
+}
+
+function article(revisionId: string, number: string, content: string): Article {
+  return {
+    article_id: `${revisionId}_${number}`,
+    law_id: law.law_id,
+    revision_id: revisionId,
+    article_number: number,
+    article_title: '',
+    article_content: content,
+    article_type: ArticleType.MAIN,
+    created_at: new Date('2024-01-01')
+  };
+}
+
+function linked(regArticleId: string, lawArticleNumber: string | null, content: string): LinkedRegulationArticle {
+  return {
+    reg_article_id: regArticleId,
+    regulation_id: 'reg_building',
+    article_number: regArticleId.replace(/\D/g, ''),
+    article_title: '',
+    article_content: content,
+    article_type: ArticleType.MAIN,
+    created_at: new Date('2024-01-01'),
+    link_id: `link_${regArticleId}`,
+    link_type: LinkType.BASIS,
+    law_article_number: lawArticleNumber,
+    regulation_name: '수원시 건축 조례',
+    local_gov: '경기도 수원시'
+  };
+}
+
+const revisions = [revision('rev_2023', '2023-01-01'), revision('rev_2024', '2024-01-01')];
+
+const articles = [
+  article('rev_2023', '5', '건축물을 건축하려는 자는 허가를 받아야 한다.'),
+  article('rev_2023', '7', '공사감리자를 지정하여야 한다.'),
+  article('rev_2024', '5', '건축물을 건축하려는 자는 허가를 받아야 하며, 착공 30일 전까지 신고하여야 한다.'),
+  article('rev_2024', '8', '건축주는 공사 현장에 안전관리자를 두어야 한다.')
+];
+
+const linkedArticles = [
+  // Cites 제5조, linked to it
+  linked('reg_art_3', '5', '법 제5조에 따른 허가의 신청은 별지 서식에 따른다.'),
+  // Linked to the whole law, shares nothing with the changes
+  linked('reg_art_1', null, '이 조례는 건축에 관하여 위임된 사항을 정한다.')
+];
+
+function createMemoryDatabase() {
+  const jobs = new Map<string, AnalysisJob>();
+  const analyses: ImpactAnalysis[] = [];
+
+  const db: PipelineDatabase = {
+    async updateAnalysisJob(jobId, updates) {
+      const job = { ...jobs.get(jobId)!, ...updates };
+      jobs.set(jobId, job);
+      return job;
+    },
+    async getRevisionById(revisionId) {
+      return revisions.find(r => r.revision_id === revisionId) || null;
+    },
+    async getLawById(lawId) {
+      return lawId === law.law_id ? law : null;
+    },
+    async getArticlesByRevisionId(revisionId) {
+      return articles.filter(a => a.revision_id === revisionId);
+    },
+    async getPreviousRevision(current) {
+      const earlier = revisions.filter(r => r.revision_date < current.revision_date);
+      return earlier[earlier.length - 1] || null;
+    },
+    async getLinkedRegulationArticles() {
+      return linkedArticles;
+    },
+    async analysisExists(revisionId, articleId, regArticleId) {
+      return analyses.some(a =>
+        a.revision_id === revisionId && a.article_id === articleId && a.reg_article_id === regArticleId
+      );
+    },
+    async createAnalysis(analysis) {
+      const created = { ...analysis, created_at: new Date() };
+      analyses.push(created);
+      return created;
+    }
+  };
+
+  return { dbService: db as DatabaseService, jobs, analyses };
+}
+
+function pendingJob(revisionId: string): AnalysisJob {
+  return {
+    job_id: `job_${revisionId}`,
+    revision_id: revisionId,
+    status: AnalysisJobStatus.PENDING,
+    progress: 0,
+    total_items: 0,
+    processed_items: 0,
+    created_analyses: 0,
+    skipped_items: 0,
+    failed_items: 0,
+    created_by: 'user_test',
+    created_at: new Date()
+  };
+}
+
+describe('runAnalysisJob with the stub analyzer', () => {
+  it('analyzes related pairs, skips unrelated ones and completes the job', async () => {
+    const { dbService, jobs, analyses } = createMemoryDatabase();
+    const job = pendingJob('rev_2024');
+    jobs.set(job.job_id, job);
+
+    const result = await runAnalysisJob(job, dbService, createStubAnalyzer());
+
+    // 제5조 (amended), 제7조 (deleted) and 제8조 (new) against both linked
+    // articles, except reg_art_3 which is linked to 제5조 only
+    expect(result).toMatchObject({
+      status: AnalysisJobStatus.COMPLETED,
+      progress: 100,
+      total_items: 4,
+      processed_items: 4,
+      created_analyses: 2,
+      skipped_items: 2,
+      failed_items: 0
+    });
+
+    const byPair = new Map(analyses.map(a => [`${a.article_id}:${a.reg_article_id}`, a]));
+    expect(byPair.size).toBe(2);
+
+    // Amended article cited by the regulation
+    expect(byPair.get('rev_2024_5:reg_art_3')).toMatchObject({
+      impact_level: ImpactLevel.HIGH,
+      impact_type: ImpactType.REQUIRED,
+      regulation_id: 'reg_building',
+      review_status: 'pending',
+      confidence_score: 0.5
+    });
+
+    // New article, not cited
+    expect(byPair.get('rev_2024_8:reg_art_1')).toMatchObject({
+      impact_level: ImpactLevel.MEDIUM,
+      impact_type: ImpactType.RECOMMENDED
+    });
+  });
+
+  it('does not analyze the same pair twice', async () => {
+    const { dbService, jobs, analyses } = createMemoryDatabase();
+    const first = pendingJob('rev_2024');
+    const second = { ...first, job_id: 'job_rerun' };
+    jobs.set(first.job_id, first);
+    jobs.set(second.job_id, second);
+
+    await runAnalysisJob(first, dbService, createStubAnalyzer());
+    const result = await runAnalysisJob(second, dbService, createStubAnalyzer());
+
+    expect(result).toMatchObject({
+      status: AnalysisJobStatus.COMPLETED,
+      created_analyses: 0,
+      skipped_items: 4
+    });
+    expect(analyses).toHaveLength(2);
+  });
+
+  it('records a failure on the job instead of throwing', async () => {
+    const { dbService, jobs, analyses } = createMemoryDatabase();
+    const job = pendingJob('rev_missing');
+    jobs.set(job.job_id, job);
+
+    const result = await runAnalysisJob(job, dbService, createStubAnalyzer());
+
+    expect(result).toMatchObject({
+      status: AnalysisJobStatus.FAILED,
+      error_message: 'Revision not found: rev_missing'
+    });
+    expect(analyses).toHaveLength(0);
+  });
+});
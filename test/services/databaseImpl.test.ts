@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createDatabaseService, type DatabaseService } from '../../src/services/databaseImpl';
+import { createTestDatabase, type TestDatabase } from '../helpers/testDatabase';
+
+// Values that change the query if they ever reach the SQL text
+const HOSTILE = [
+  "' OR '1'='1",
+  "'; DROP TABLE laws; --",
+  "x') UNION SELECT law_id, law_name, law_type, law_number, enactment_date, current_version, status, ministry, category, created_at FROM laws --",
+  '%',
+  '_',
+  '\\'
+];
+
+let database: TestDatabase;
+let dbService: DatabaseService;
+
+beforeAll(async () => {
+  database = await createTestDatabase();
+  dbService = createDatabaseService(database.db);
+
+  await database.db.query(
+    `INSERT INTO laws (law_id, law_type, law_name, law_number, enactment_date, current_version, status, category)
+     VALUES ('law_building', '법률', '건축법', '1', '2020-01-01', '1', '시행', '건축'),
+            ('law_building_decree', '시행령', '건축법 시행령', '2', '2020-01-01', '1', '시행', '건축'),
+            ('law_parking', '법률', '주차장법', '3', '2020-01-01', '1', '시행', '교통'),
+            ('law_old', '법률', '구 도시계획법', '4', '1990-01-01', '1', '폐지', '도시')`
+  );
+
+  await database.db.query(
+    `INSERT INTO local_regulations (regulation_id, regulation_type, regulation_name, local_gov, local_gov_code,
+       enactment_date, current_version, department, status)
+     VALUES ('reg_building', '조례', '수원시 건축 조례', '경기도 수원시', '3740000', '2020-01-01', '1', '건축과', '시행'),
+            ('reg_parking', '조례', '수원시 주차장 조례', '경기도 수원시', '3740000', '2020-01-01', '1', '교통정책과', '시행'),
+            ('reg_rule', '규칙', '수원시 건축 조례 시행규칙', '경기도 수원시', '3740000', '2020-01-01', '1', '건축과', '시행')`
+  );
+});
+
+describe('DatabaseService.getLaws', () => {
+  const page = { limit: 20, offset: 0 };
+
+  it('filters by search, type and status', async () => {
+    const bySearch = await dbService.getLaws({ ...page, search: '건축법' });
+    expect(bySearch.total).toBe(2);
+    expect(bySearch.laws.map(l => l.law_id)).toEqual(['law_building', 'law_building_decree']);
+
+    const byType = await dbService.getLaws({ ...page, law_type: '법률', status: '시행' });
+    expect(byType.laws.map(l => l.law_id)).toEqual(['law_building', 'law_parking']);
+
+    const abolished = await dbService.getLaws({ ...page, status: '폐지' });
+    expect(abolished.laws.map(l => l.law_id)).toEqual(['law_old']);
+  });
+
+  it('pages with limit and offset and counts all matches', async () => {
+    const result = await dbService.getLaws({ limit: 1, offset: 1 });
+    expect(result.total).toBe(4);
+    expect(result.laws.map(l => l.law_id)).toEqual(['law_building_decree']);
+  });
+
+  it.each(HOSTILE)('treats %j as a literal value', async (value) => {
+    for (const filters of [{ search: value }, { law_type: value }, { status: value }, { category: value }]) {
+      const result = await dbService.getLaws({ ...page, ...filters });
+      expect(result).toEqual({ laws: [], total: 0 });
+    }
+  });
+
+  it('leaves the tables intact', async () => {
+    const result = await database.db.queryOne<{ count: string }>('SELECT COUNT(*) as count FROM laws');
+    expect(Number(result?.count)).toBe(4);
+  });
+});
+
+describe('DatabaseService.getRegulations', () => {
+  const page = { limit: 20, offset: 0 };
+
+  it('filters by search, type and department', async () => {
+    const bySearch = await dbService.getRegulations({ ...page, search: '건축' });
+    expect(bySearch.regulations.map(r => r.regulation_id)).toEqual(['reg_building', 'reg_rule']);
+
+    const byType = await dbService.getRegulations({ ...page, search: '건축', regulation_type: '조례' });
+    expect(byType.total).toBe(1);
+    expect(byType.regulations.map(r => r.regulation_id)).toEqual(['reg_building']);
+
+    const byDepartment = await dbService.getRegulations({ ...page, department: '교통' });
+    expect(byDepartment.regulations.map(r => r.regulation_id)).toEqual(['reg_parking']);
+  });
+
+  it.each(HOSTILE)('treats %j as a literal value', async (value) => {
+    for (const filters of [{ search: value }, { regulation_type: value }, { department: value }]) {
+      const result = await dbService.getRegulations({ ...page, ...filters });
+      expect(result).toEqual({ regulations: [], total: 0 });
+    }
+  });
+
+  it('leaves the tables intact', async () => {
+    const result = await database.db.queryOne<{ count: string }>('SELECT COUNT(*) as count FROM local_regulations');
+    expect(Number(result?.count)).toBe(3);
+  });
+});
+
+/**
+ * A 1536-dimension embedding pointing between the first two axes
+ */
+function embeddingAt(x: number, y: number): number[] {
+  const embedding = new Array(1536).fill(0);
+  embedding[0] = x;
+  embedding[1] = y;
+  return embedding;
+}
+
+describe('DatabaseService.vectorSearchDocuments', () => {
+  beforeAll(async () => {
+    await database.db.query(
+      `INSERT INTO local_regulations (regulation_id, regulation_type, regulation_name, local_gov, local_gov_code,
+         enactment_date, current_version, department, status)
+       VALUES ('reg_seongnam', '조례', '성남시 건축 조례', '경기도 성남시', '3780000', '2020-01-01', '1', '건축과', '시행')`
+    );
+
+    // Eleven articles of 성남시 are nearer to the query than any article of 수원시
+    for (let i = 0; i < 11; i++) {
+      await database.db.query(
+        `INSERT INTO regulation_articles (reg_article_id, regulation_id, article_number, article_content, article_type, vector_embedding)
+         VALUES ($1, 'reg_seongnam', $2, '건축물의 높이', '본문', $3)`,
+        [`seongnam_${i}`, `제${i + 1}조`, JSON.stringify(embeddingAt(1, i * 0.01))]
+      );
+    }
+    await database.db.query(
+      `INSERT INTO regulation_articles (reg_article_id, regulation_id, article_number, article_content, article_type, vector_embedding)
+       VALUES ('suwon_1', 'reg_building', '제1조', '건축물의 높이', '본문', $1)`,
+      [JSON.stringify(embeddingAt(1, 1))]
+    );
+  });
+
+  it('filters by tenant before taking the nearest articles', async () => {
+    const rows = await dbService.vectorSearchDocuments('regulation', embeddingAt(1, 0), {}, 1, {
+      local_gov_codes: ['3740000']
+    });
+    expect(rows.map(r => r.id)).toEqual(['reg_building']);
+  });
+
+  it('filters by document columns before taking the nearest articles', async () => {
+    const rows = await dbService.vectorSearchDocuments('regulation', embeddingAt(1, 0), { local_gov: '경기도 수원시' }, 1);
+    expect(rows.map(r => r.id)).toEqual(['reg_building']);
+  });
+});
+
+describe('DatabaseService article search across revisions', () => {
+  beforeAll(async () => {
+    await database.db.query(
+      `INSERT INTO law_revisions (revision_id, law_id, revision_type, revision_date, enforcement_date, new_version)
+       VALUES ('rev_2020', 'law_parking', '신규', '2019-12-01', '2020-01-01', '1'),
+              ('rev_2024', 'law_parking', '일부개정', '2023-12-01', '2024-01-01', '2')`
+    );
+    await database.db.query(
+      `INSERT INTO articles (article_id, law_id, revision_id, article_number, article_content, article_type, vector_embedding)
+       VALUES ('parking_1_2020', 'law_parking', 'rev_2020', '제1조', '노상주차장의 설치는 대통령령으로 정한다', '본문', $1),
+              ('parking_1_2024', 'law_parking', 'rev_2024', '제1조', '노상주차장의 설치는 조례로 정한다', '본문', $2)`,
+      [JSON.stringify(embeddingAt(1, 0)), JSON.stringify(embeddingAt(1, 0.1))]
+    );
+  });
+
+  it('returns law articles of the latest revision only', async () => {
+    const lexical = await dbService.lexicalSearchArticles('law', '노상주차장', {}, 10);
+    expect(lexical.map(r => r.article_id)).toEqual(['parking_1_2024']);
+
+    const vector = await dbService.vectorSearchArticles('law', embeddingAt(1, 0), {}, 10);
+    expect(vector.map(r => r.article_id)).toEqual(['parking_1_2024']);
+  });
+
+  it('returns law articles of the revision in force on as_of', async () => {
+    const lexical = await dbService.lexicalSearchArticles('law', '노상주차장', {}, 10, null, '2022-06-01');
+    expect(lexical.map(r => r.article_id)).toEqual(['parking_1_2020']);
+
+    const vector = await dbService.vectorSearchArticles('law', embeddingAt(1, 0), {}, 10, null, '2022-06-01');
+    expect(vector.map(r => r.article_id)).toEqual(['parking_1_2020']);
+
+    expect(await dbService.lexicalSearchArticles('law', '노상주차장', {}, 10, null, '2019-06-01')).toEqual([]);
+  });
+});
+
+describe('DatabaseService calendar feed tokens', () => {
+  beforeAll(async () => {
+    await database.db.query(
+      `INSERT INTO users (user_id, username, email, password_hash, local_gov, local_gov_code, role)
+       VALUES ('user_feed', 'feed', 'feed@example.com', 'x', '경기도 수원시', '3740000', 'law_officer'),
+              ('user_suspended', 'suspended', 'suspended@example.com', 'x', '경기도 수원시', '3740000', 'law_officer')`
+    );
+    await database.db.query(`UPDATE users SET status = 'suspended' WHERE user_id = 'user_suspended'`);
+  });
+
+  it('finds the owner of the current token only', async () => {
+    await dbService.replaceCalendarFeedToken('user_feed', 'hash_1');
+    expect((await dbService.getUserByCalendarFeedToken('hash_1'))?.user_id).toBe('user_feed');
+
+    await dbService.replaceCalendarFeedToken('user_feed', 'hash_2');
+    expect(await dbService.getUserByCalendarFeedToken('hash_1')).toBeNull();
+    expect((await dbService.getUserByCalendarFeedToken('hash_2'))?.local_gov_code).toBe('3740000');
+  });
+
+  it('rejects tokens of suspended users', async () => {
+    await dbService.replaceCalendarFeedToken('user_suspended', 'hash_suspended');
+    expect(await dbService.getUserByCalendarFeedToken('hash_suspended')).toBeNull();
+  });
+
+  it('revokes the token directly and when logging out everywhere', async () => {
+    await dbService.replaceCalendarFeedToken('user_feed', 'hash_3');
+    expect(await dbService.revokeCalendarFeedToken('user_feed')).toBe(true);
+    expect(await dbService.getUserByCalendarFeedToken('hash_3')).toBeNull();
+    expect(await dbService.revokeCalendarFeedToken('user_feed')).toBe(false);
+
+    await dbService.replaceCalendarFeedToken('user_feed', 'hash_4');
+    await dbService.revokeUserSessions('user_feed');
+    expect(await dbService.getUserByCalendarFeedToken('hash_4')).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { buildLawArticles, parseLawDetailXML } from '../../src/services/lawCrawler';
+import { ArticleType } from '../../src/types/database';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`../../fixtures/law/${name}`, import.meta.url), 'utf8');
+}
+
+const detail = parseLawDetailXML(fixture('detail-259141.xml'))!;
+
+describe('parseLawDetailXML', () => {
+  it('parses the basic information', () => {
+    expect(detail).toMatchObject({
+      law_id: '001366',
+      law_name: '지방자치법',
+      law_number: '19987',
+      law_type: '법률',
+      enactment_date: new Date('2024-01-09T00:00:00Z'),
+      enforcement_date: new Date('2024-07-10T00:00:00Z'),
+      ministry: '행정안전부',
+      revision_type: '일부개정'
+    });
+  });
+
+  it('skips headings and adds 부칙 and 별표 as top-level nodes', () => {
+    expect(detail.articles.map(a => [a.article_number, a.article_title, a.article_type])).toEqual([
+      ['1', '목적', ArticleType.MAIN],
+      ['2', '지방자치단체의 종류', ArticleType.MAIN],
+      ['4의2', '정의', ArticleType.MAIN],
+      ['부칙1', '부칙', ArticleType.ADDENDUM],
+      ['별표1의2', '과태료의 부과기준(제34조 관련)', ArticleType.APPENDIX]
+    ]);
+
+    expect(detail.articles[3].article_content)
+      .toBe('부칙 <제19987호,2024. 1. 9.>\n이 법은 공포 후 6개월이 경과한 날부터 시행한다.');
+  });
+
+  it('keeps the 항/호/목 text in the article content', () => {
+    expect(detail.articles[1].article_content).toBe([
+      '제2조(지방자치단체의 종류)',
+      '① 지방자치단체는 다음의 두 가지 종류로 구분한다.',
+      '1. 특별시, 광역시, 특별자치시, 도, 특별자치도',
+      '2. 시, 군, 구',
+      '② 지방자치단체인 구(이하 "자치구"라 한다)는 특별시와 광역시의 관할 구역의 구만을 말한다.'
+    ].join('\n'));
+  });
+});
+
+describe('buildLawArticles', () => {
+  const rows = buildLawArticles('law_local_autonomy', 'rev_19987', detail.articles);
+
+  it('flattens the tree with parents before their children', () => {
+    expect(rows.map(r => [r.article_id, r.article_number, r.parent_article_id])).toEqual([
+      ['rev_19987_art_1', '1', undefined],
+      ['rev_19987_art_2', '2', undefined],
+      ['rev_19987_art_2_p1', '2 제1항', 'rev_19987_art_2'],
+      ['rev_19987_art_2_p1_i1', '2 제1항 제1호', 'rev_19987_art_2_p1'],
+      ['rev_19987_art_2_p1_i2', '2 제1항 제2호', 'rev_19987_art_2_p1'],
+      ['rev_19987_art_2_p2', '2 제2항', 'rev_19987_art_2'],
+      ['rev_19987_art_4_2', '4의2', undefined],
+      // 호 directly under the 조, without a 항 row
+      ['rev_19987_art_4_2_i1', '4의2 제1호', 'rev_19987_art_4_2'],
+      ['rev_19987_art_4_2_i1_2', '4의2 제1호의2', 'rev_19987_art_4_2'],
+      ['rev_19987_art_4_2_i1_2_s1', '4의2 제1호의2 가목', 'rev_19987_art_4_2_i1_2'],
+      ['rev_19987_art_4_2_i1_2_s2', '4의2 제1호의2 나목', 'rev_19987_art_4_2_i1_2'],
+      ['rev_19987_art_add1', '부칙1', undefined],
+      ['rev_19987_art_app1_2', '별표1의2', undefined]
+    ]);
+  });
+
+  it('fills the law and revision of every row and decodes entities', () => {
+    expect(rows.every(r => r.law_id === 'law_local_autonomy' && r.revision_id === 'rev_19987')).toBe(true);
+    expect(rows.find(r => r.article_number === '4의2 제1호의2 나목')?.article_content)
+      .toBe('나. 지방자치단체의 기관 & 그 소속 기관');
+    expect(rows.find(r => r.article_number === '4의2 제1호의2')?.article_content).toBe([
+      '1의2. "행정기관"이란 다음 각 목의 기관을 말한다.',
+      '가. 중앙행정기관과 그 소속 기관',
+      '나. 지방자치단체의 기관 & 그 소속 기관'
+    ].join('\n'));
+  });
+});
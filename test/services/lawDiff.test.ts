@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { compareArticles, diffPhrases, diffText } from '../../src/services/lawDiff';
+import { ArticleType, ChangeKind, type Article } from '../../src/types/database';
+
+function article(number: string, content: string, parent?: string): Article {
+  return {
+    article_id: `${parent ? `${parent}_` : ''}${number}_${content.length}`,
+    law_id: 'law_building',
+    revision_id: 'rev',
+    article_number: number,
+    article_title: '',
+    article_content: content,
+    article_type: ArticleType.MAIN,
+    parent_article_id: parent,
+    created_at: new Date('2024-01-01')
+  };
+}
+
+/**
+ * A 조 with its 항 rows; the 조's content is its own text followed by theirs
+ */
+function articleWithParagraphs(number: string, heading: string, paragraphs: string[]): Article[] {
+  const parent = article(number, [heading, ...paragraphs].join('\n'));
+  return [
+    parent,
+    ...paragraphs.map((text, i) => article(`${number} 제${i + 1}항`, text, parent.article_id))
+  ];
+}
+
+const PURPOSE = '제1조(목적) 이 법은 건축물의 대지ㆍ구조ㆍ설비 기준 및 용도 등을 정하여 건축물의 안전ㆍ기능ㆍ환경 및 미관을 향상시킴으로써 공공복리의 증진에 이바지하는 것을 목적으로 한다.';
+const MAINTENANCE = '제2조(유지ㆍ관리) 건축물의 소유자나 관리자는 그 건축물을 건축 기준에 적합하도록 유지ㆍ관리하여야 한다.';
+const STANDARDS = '제3조(기준) 건축물의 대지ㆍ높이ㆍ구조ㆍ설비 및 용도에 관한 세부 기준과 그 밖에 건축물의 안전을 확보하기 위하여 필요한 사항은 대통령령으로 정한다.';
+
+const INSPECTION = '제4조(점검) 특별자치시장ㆍ특별자치도지사 또는 시장ㆍ군수ㆍ구청장은 다중이용 건축물의 소유자나 관리자에게 자료 제출을 요청하고';
+const SITE = '제5조(대지) 특별자치시장ㆍ특별자치도지사 또는 시장ㆍ군수ㆍ구청장이 지정ㆍ공고한 구역에서';
+const USE_CHANGE = '제6조(용도변경) 사용승인을 받은 건축물의 용도를 변경하려는 경우로서 시설군 중 상위군으로 변경하는 경우에는';
+
+describe('compareArticles', () => {
+  it('reports nothing for unchanged articles', () => {
+    const articles = [article('제1조', PURPOSE), article('제2조', MAINTENANCE)];
+    expect(compareArticles(articles, articles.map(a => ({ ...a, revision_id: 'rev_new' })))).toEqual([]);
+  });
+
+  it('detects renumbered articles next to a new one', () => {
+    const changes = compareArticles(
+      [article('제1조', PURPOSE), article('제2조', MAINTENANCE)],
+      [
+        article('제1조', PURPOSE),
+        article('제2조', '제2조(정의) 이 법에서 "건축물"이란 토지에 정착하는 공작물 중 지붕과 기둥 또는 벽이 있는 것을 말한다.'),
+        article('제3조', MAINTENANCE.replace('제2조', '제3조'))
+      ]
+    );
+
+    expect(changes.map(c => [c.article_number, c.change_kind, c.old_article_number])).toEqual([
+      ['제2조', ChangeKind.NEW, undefined],
+      ['제3조', ChangeKind.MOVED, '제2조']
+    ]);
+    expect(changes[1].change_type).toBe('moved');
+  });
+
+  it('detects removed articles and articles kept as 삭제', () => {
+    const changes = compareArticles(
+      [article('제1조', PURPOSE), article('제2조', MAINTENANCE), article('제3조', STANDARDS)],
+      [article('제1조', PURPOSE), article('제2조', '제2조 삭제 <2024. 1. 9.>')]
+    );
+
+    expect(changes.map(c => [c.article_number, c.change_type, c.change_kind])).toEqual([
+      ['제2조', 'deleted', ChangeKind.DELETED],
+      ['제3조', 'deleted', ChangeKind.DELETED]
+    ]);
+  });
+
+  it('does not report an article deleted in both revisions', () => {
+    const deleted = article('제2조', '제2조 삭제 <2020. 1. 9.>');
+    expect(compareArticles([deleted], [{ ...deleted }])).toEqual([]);
+  });
+
+  it('classifies a small wording change as 자구수정', () => {
+    const [change] = compareArticles(
+      [article('제2조', MAINTENANCE)],
+      [article('제2조', MAINTENANCE.replace('그 건축물', '해당 건축물'))]
+    );
+
+    expect(change.change_kind).toBe(ChangeKind.WORDING);
+    expect(change.similarity).toBeGreaterThan(0.9);
+    expect(diffPhrases(change.diff!)).toEqual([{ from: '그', to: '해당' }]);
+  });
+
+  it.each([
+    ['the delegated instrument', STANDARDS, STANDARDS.replace('대통령령으로', '조례로')],
+    [
+      'a discretion into a duty',
+      `${INSPECTION} 건축물의 구조 안전과 화재 안전 및 에너지 성능을 점검할 수 있다.`,
+      `${INSPECTION} 건축물의 구조 안전과 화재 안전 및 에너지 성능을 점검하여야 한다.`
+    ],
+    [
+      'a threshold',
+      `${SITE} 연면적의 합계가 2천 제곱미터인 건축물의 대지는 너비 6미터 이상의 도로에 접하여야 한다.`,
+      `${SITE} 연면적의 합계가 2천 제곱미터인 건축물의 대지는 너비 6미터 초과의 도로에 접하여야 한다.`
+    ],
+    [
+      'the kind of approval',
+      `${USE_CHANGE} 건축물의 용도를 변경하려는 자는 특별자치시장ㆍ특별자치도지사 또는 시장ㆍ군수ㆍ구청장의 허가를 받아야 한다.`,
+      `${USE_CHANGE} 건축물의 용도를 변경하려는 자는 특별자치시장ㆍ특별자치도지사 또는 시장ㆍ군수ㆍ구청장에게 신고하여야 한다.`
+    ],
+    [
+      'a period',
+      `${SITE} 건축주는 공사계획을 변경하려면 착공 예정일 30일 전까지 허가권자에게 변경 내용을 알려야 한다.`,
+      `${SITE} 건축주는 공사계획을 변경하려면 착공 예정일 60일 전까지 허가권자에게 변경 내용을 알려야 한다.`
+    ]
+  ])('classifies a change of %s as 내용변경', (_name, oldText, newText) => {
+    const [change] = compareArticles([article('제1조', oldText)], [article('제1조', newText)]);
+    expect(change.change_type).toBe('modified');
+    expect(change.change_kind).toBe(ChangeKind.CONTENT);
+  });
+
+  it('classifies a 조 by its changed 항', () => {
+    const heading = '제8조(신고)';
+    const oldArticles = articleWithParagraphs('제8조', heading, [
+      '① 건축주는 허가를 받았거나 신고를 한 건축물의 건축공사를 완료한 후 그 건축물을 사용하려면 공사감리자가 작성한 감리완료보고서를 첨부하여 사용승인을 신청하여야 한다.',
+      '② 허가권자는 사용승인신청을 받은 경우에는 그 신청서를 받은 날부터 7일 이내에 사용승인을 위한 현장검사를 실시하여야 한다.'
+    ]);
+
+    const wording = compareArticles(oldArticles, articleWithParagraphs('제8조', heading, [
+      '① 건축주는 허가를 받았거나 신고를 한 건축물의 건축공사를 완료한 후 해당 건축물을 사용하려면 공사감리자가 작성한 감리완료보고서를 첨부하여 사용승인을 신청하여야 한다.',
+      '② 허가권자는 사용승인신청을 받은 경우에는 그 신청서를 받은 날부터 7일 이내에 사용승인을 위한 현장검사를 실시하여야 한다.'
+    ]));
+    expect(wording[0].change_kind).toBe(ChangeKind.WORDING);
+    expect(wording[0].paragraphs?.map(p => [p.article_number, p.change_kind]))
+      .toEqual([['제8조 제1항', ChangeKind.WORDING]]);
+
+    const content = compareArticles(oldArticles, articleWithParagraphs('제8조', heading, [
+      '① 건축주는 허가를 받았거나 신고를 한 건축물의 건축공사를 완료한 후 그 건축물을 사용하려면 공사감리자가 작성한 감리완료보고서를 첨부하여 사용승인을 신청하여야 한다.',
+      '② 허가권자는 사용승인신청을 받은 경우에는 그 신청서를 받은 날부터 7일 이내에 사용승인을 위한 현장검사를 실시할 수 있다.'
+    ]));
+    expect(content[0].change_kind).toBe(ChangeKind.CONTENT);
+    expect(content[0].paragraphs?.map(p => [p.article_number, p.change_kind]))
+      .toEqual([['제8조 제2항', ChangeKind.CONTENT]]);
+  });
+});
+
+describe('diffText', () => {
+  it('refines changed words to characters and quotes whole words', () => {
+    const diff = diffText('30일 이내', '60일 이내');
+    expect(diff).toEqual([
+      { op: 'delete', text: '3' },
+      { op: 'insert', text: '6' },
+      { op: 'equal', text: '0일 이내' }
+    ]);
+    expect(diffPhrases(diff)).toEqual([{ from: '30일', to: '60일' }]);
+  });
+});
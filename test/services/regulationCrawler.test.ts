@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { parseOrdinDetailXML, parseOrdinListXML } from '../../src/services/regulationCrawler';
+import { ArticleType } from '../../src/types/database';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`../../fixtures/ordin/${name}`, import.meta.url), 'utf8');
+}
+
+describe('parseOrdinListXML', () => {
+  it('parses the entries and paging of a list page', () => {
+    const { total, page, regulations } = parseOrdinListXML(fixture('list-6110000-page1.xml'));
+
+    expect(total).toBe(3);
+    expect(page).toBe(1);
+    expect(regulations).toEqual([
+      {
+        serial_number: '1718234',
+        ordin_id: '2013517',
+        regulation_name: '서울특별시 주민참여예산제 운영 조례',
+        regulation_type: '조례',
+        local_gov: '서울특별시',
+        local_gov_code: '6110000',
+        promulgation_date: '20240315',
+        promulgation_number: '9123',
+        enforcement_date: '20240315',
+        revision_type: '일부개정'
+      },
+      {
+        serial_number: '1702311',
+        ordin_id: '2011044',
+        regulation_name: '서울특별시 공유재산 및 물품 관리 조례 시행규칙',
+        regulation_type: '규칙',
+        local_gov: '서울특별시',
+        local_gov_code: '6110000',
+        promulgation_date: '20231228',
+        promulgation_number: '4421',
+        enforcement_date: '20240101',
+        revision_type: '일부개정'
+      }
+    ]);
+  });
+
+  it('keeps the type of entries the crawler does not store', () => {
+    const { page, regulations } = parseOrdinListXML(fixture('list-6110000-page2.xml'));
+
+    expect(page).toBe(2);
+    expect(regulations.map(r => [r.serial_number, r.regulation_type, r.revision_type]))
+      .toEqual([['1699870', '훈령', '제정']]);
+  });
+});
+
+describe('parseOrdinDetailXML', () => {
+  const detail = parseOrdinDetailXML(fixture('detail-1718234.xml'))!;
+
+  it('parses the basic information', () => {
+    expect(detail).toMatchObject({
+      serial_number: '1718234',
+      ordin_id: '2013517',
+      regulation_name: '서울특별시 주민참여예산제 운영 조례',
+      regulation_type: '조례',
+      local_gov: '서울특별시',
+      local_gov_code: '6110000',
+      promulgation_date: '20240315',
+      promulgation_number: '9123',
+      enforcement_date: '20240315',
+      revision_type: '일부개정',
+      department: '재정기획관 주민참여예산과'
+    });
+  });
+
+  it('skips 장 headings and numbers branch articles', () => {
+    expect(detail.articles.map(a => [a.article_number, a.article_title, a.article_type])).toEqual([
+      ['1', '목적', ArticleType.MAIN],
+      ['2', '정의', ArticleType.MAIN],
+      ['2의2', '주민의견 수렴', ArticleType.MAIN],
+      ['부칙1', '부칙', ArticleType.ADDENDUM]
+    ]);
+  });
+
+  it('joins the 항/호/목 of an article in document order', () => {
+    expect(detail.articles[1].article_content).toBe([
+      '제2조(정의) 이 조례에서 사용하는 용어의 뜻은 다음과 같다.',
+      '1. "주민참여예산제"란 예산편성 과정에 주민이 참여하는 제도를 말한다.',
+      '2. "주민참여예산위원회"란 제5조에 따라 설치하는 위원회를 말한다.'
+    ].join('\n'));
+
+    expect(detail.articles[2].article_content).toBe([
+      '제2조의2(주민의견 수렴)',
+      '① 시장은 예산편성 전에 주민의견을 수렴하여야 한다.',
+      '② 제1항의 의견수렴 방법은 「지방재정법 시행령」 제46조제1항 각 호와 같다.',
+      '1. 주민 설문조사',
+      '가. 온라인 설문 & 오프라인 설문'
+    ].join('\n'));
+  });
+
+  it('returns null for the not-found page', () => {
+    expect(parseOrdinDetailXML(fixture('detail-not-found.xml'))).toBeNull();
+  });
+});
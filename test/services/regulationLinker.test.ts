@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createDatabaseService, type DatabaseService, type RegulationCursor } from '../../src/services/databaseImpl';
+import { linkUpdatedRegulations } from '../../src/services/regulationLinker';
+import { createTestDatabase } from '../helpers/testDatabase';
+
+let dbService: DatabaseService;
+
+beforeAll(async () => {
+  const { db } = await createTestDatabase();
+  dbService = createDatabaseService(db);
+
+  // A bulk import: five rows written with one updated_at, in microseconds
+  await db.query(
+    `INSERT INTO local_regulations (regulation_id, regulation_type, regulation_name, local_gov, local_gov_code,
+       enactment_date, current_version, status, updated_at)
+     SELECT 'reg_' || n, '조례', '조례 ' || n, '경기도 수원시', '3740000', '2020-01-01', '1', '시행',
+       '2024-03-01 09:00:00.123456'
+     FROM generate_series(1, 5) n`
+  );
+  await db.query(
+    `INSERT INTO local_regulations (regulation_id, regulation_type, regulation_name, local_gov, local_gov_code,
+       enactment_date, current_version, status, updated_at)
+     VALUES ('reg_later', '조례', '나중 조례', '경기도 수원시', '3740000', '2020-01-01', '1', '시행',
+       '2024-03-02 09:00:00')`
+  );
+});
+
+describe('linkUpdatedRegulations', () => {
+  it('moves past regulations sharing one updated_at across runs', async () => {
+    let after: RegulationCursor | null = null;
+    const processed: number[] = [];
+    const cursors: Array<string | null> = [];
+
+    for (let run = 0; run < 5; run++) {
+      const summary = await linkUpdatedRegulations(dbService, after, 2);
+      processed.push(summary.regulations);
+      cursors.push(summary.linked_through_id);
+      after = { updated_at: new Date(summary.linked_through!), regulation_id: summary.linked_through_id! };
+    }
+
+    expect(processed).toEqual([2, 2, 2, 0, 0]);
+    expect(cursors).toEqual(['reg_2', 'reg_4', 'reg_later', 'reg_later', 'reg_later']);
+  });
+});
+
+describe('DatabaseService.getRegulationsUpdatedAfter', () => {
+  it('starts from the beginning without a cursor', async () => {
+    const regulations = await dbService.getRegulationsUpdatedAfter(null, 10);
+    expect(regulations.map(r => r.regulation_id)).toEqual(['reg_1', 'reg_2', 'reg_3', 'reg_4', 'reg_5', 'reg_later']);
+  });
+
+  it('includes every row of the timestamp for a cursor without a regulation_id', async () => {
+    const regulations = await dbService.getRegulationsUpdatedAfter(
+      { updated_at: new Date('2024-03-01T09:00:00.123Z'), regulation_id: '' },
+      10
+    );
+    expect(regulations).toHaveLength(6);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { isInScope, resolveTenantScope } from '../../src/services/tenantScope';
+import { UserRole } from '../../src/types/database';
+
+// law.go.kr 지자체기관코드
+const GYEONGGI = '6410000';
+const SUWON = '3740000';
+const SEONGNAM = '3780000';
+const CHUNGBUK = '6430000';
+const CHEONGJU = '5710000';
+
+// local_governments: 경기도 → 수원시, 성남시; 충청북도 → 청주시
+const MUNICIPALITIES: Record<string, string[]> = {
+  [GYEONGGI]: [SEONGNAM, SUWON],
+  [CHUNGBUK]: [CHEONGJU]
+};
+
+const dbService = {
+  async getMunicipalityCodes(provinceCode: string) {
+    return MUNICIPALITIES[provinceCode] || [];
+  }
+};
+
+describe('resolveTenantScope', () => {
+  it('gives admins every local government', async () => {
+    expect(await resolveTenantScope(dbService, { role: UserRole.ADMIN, local_gov_code: SUWON })).toBeNull();
+  });
+
+  it('limits officers to their own local government', async () => {
+    expect(await resolveTenantScope(dbService, { role: UserRole.LAW_OFFICER, local_gov_code: GYEONGGI }))
+      .toEqual({ local_gov_codes: [GYEONGGI] });
+  });
+
+  it('adds the registered municipalities for province officers', async () => {
+    expect(await resolveTenantScope(dbService, { role: UserRole.PROVINCE_OFFICER, local_gov_code: GYEONGGI }))
+      .toEqual({ local_gov_codes: [GYEONGGI, SEONGNAM, SUWON] });
+  });
+
+  it('matches nothing for users without a code', async () => {
+    const scope = await resolveTenantScope(dbService, { role: UserRole.PROVINCE_OFFICER, local_gov_code: null });
+    expect(scope).toEqual({ local_gov_codes: [] });
+    expect(isInScope(scope, SUWON)).toBe(false);
+  });
+});
+
+describe('isInScope', () => {
+  it('lets admins see everything, including data of no local government', () => {
+    expect(isInScope(null, CHEONGJU)).toBe(true);
+    expect(isInScope(null, null)).toBe(true);
+  });
+
+  it('lets officers see their own local government only', async () => {
+    const scope = await resolveTenantScope(dbService, { role: UserRole.DEPT_OFFICER, local_gov_code: SUWON });
+    expect(isInScope(scope, SUWON)).toBe(true);
+    expect(isInScope(scope, SEONGNAM)).toBe(false);
+    expect(isInScope(scope, null)).toBe(false);
+  });
+
+  it('lets province officers see their municipalities but not another province', async () => {
+    const scope = await resolveTenantScope(dbService, { role: UserRole.PROVINCE_OFFICER, local_gov_code: GYEONGGI });
+    expect(isInScope(scope, GYEONGGI)).toBe(true);
+    expect(isInScope(scope, SUWON)).toBe(true);
+    expect(isInScope(scope, SEONGNAM)).toBe(true);
+    // Sharing the first digits with 6410000 does not make 충청북도 a municipality
+    expect(isInScope(scope, CHUNGBUK)).toBe(false);
+    expect(isInScope(scope, CHEONGJU)).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { JWTPayload } from '../../src/middleware/auth';
+import { createDatabaseService, type DatabaseService } from '../../src/services/databaseImpl';
+import { canManageUser, inviteUser, revokeInvitation } from '../../src/services/userAdmin';
+import { UserRole } from '../../src/types/database';
+import { createTestDatabase } from '../helpers/testDatabase';
+
+const SUWON = '3740000';
+const SEOUL = '6110000';
+const BUSAN = '6260000';
+
+function userOf(role: UserRole, localGov: string, localGovCode: string | null): JWTPayload {
+  return {
+    user_id: `user_${role}_${localGovCode}`,
+    email: `${role}@example.go.kr`,
+    role,
+    local_gov: localGov,
+    local_gov_code: localGovCode,
+    department: '법무과',
+    sid: 'session'
+  };
+}
+
+const suwonAdmin = userOf(UserRole.ADMIN, '경기도 수원시', SUWON);
+// user:manage can be granted to other roles through PERMISSION_POLICY
+const suwonManager = userOf(UserRole.LAW_OFFICER, '경기도 수원시', SUWON);
+
+let dbService: DatabaseService;
+
+beforeAll(async () => {
+  const { db } = await createTestDatabase();
+  dbService = createDatabaseService(db);
+
+  for (const user of [suwonAdmin, suwonManager, userOf(UserRole.ADMIN, '부산광역시', BUSAN)]) {
+    await db.query(
+      `INSERT INTO users (user_id, username, email, password_hash, local_gov, local_gov_code, role)
+       VALUES ($1, $1, $2, 'x', $3, $4, $5)`,
+      [user.user_id, `${user.user_id}@example.go.kr`, user.local_gov, user.local_gov_code, user.role]
+    );
+  }
+});
+
+async function inviteError(admin: JWTPayload, input: Parameters<typeof inviteUser>[2]) {
+  return inviteUser(dbService, admin, input).then(() => null, (err) => err.reason);
+}
+
+describe('inviteUser', () => {
+  it('puts the invitee in the inviter\'s local government', async () => {
+    const { invitation } = await inviteUser(dbService, suwonManager, { email: 'new@suwon.go.kr', role: UserRole.VIEWER });
+    expect(invitation.local_gov_code).toBe(SUWON);
+    expect(invitation.local_gov).toBe('경기도 수원시');
+  });
+
+  it('does not let managers invite into another local government', async () => {
+    expect(await inviteError(suwonManager, { email: 'a@seoul.go.kr', role: UserRole.VIEWER, local_gov_code: SEOUL }))
+      .toBe('forbidden');
+    expect(await inviteError(suwonManager, { email: 'b@seoul.go.kr', role: UserRole.PROVINCE_OFFICER, local_gov_code: SEOUL }))
+      .toBe('forbidden');
+  });
+
+  it('lets admins onboard the first admin of a registered local government', async () => {
+    const { invitation } = await inviteUser(dbService, suwonAdmin, {
+      email: 'admin@seoul.go.kr',
+      role: UserRole.ADMIN,
+      local_gov_code: SEOUL
+    });
+    expect(invitation.local_gov_code).toBe(SEOUL);
+    expect(invitation.local_gov).toBe('서울특별시');
+  });
+
+  it('rejects other invitations into another local government', async () => {
+    // Not an admin role
+    expect(await inviteError(suwonAdmin, { email: 'c@seoul.go.kr', role: UserRole.PROVINCE_OFFICER, local_gov_code: SEOUL }))
+      .toBe('forbidden');
+    // A local government that already has an admin
+    expect(await inviteError(suwonAdmin, { email: 'd@busan.go.kr', role: UserRole.ADMIN, local_gov_code: BUSAN }))
+      .toBe('forbidden');
+    // A code that is not registered
+    expect(await inviteError(suwonAdmin, { email: 'e@example.go.kr', role: UserRole.ADMIN, local_gov_code: '9999999' }))
+      .toBe('invalid');
+  });
+
+  it('rejects inviters without a local government', async () => {
+    expect(await inviteError(userOf(UserRole.LAW_OFFICER, '경기도 수원시', null), { email: 'f@suwon.go.kr', role: UserRole.VIEWER }))
+      .toBe('forbidden');
+  });
+});
+
+describe('canManageUser', () => {
+  it('compares local government codes, not names', () => {
+    expect(canManageUser(suwonManager, { local_gov_code: SUWON })).toBe(true);
+    expect(canManageUser(suwonManager, { local_gov_code: SEOUL })).toBe(false);
+    expect(canManageUser(userOf(UserRole.ADMIN, '경기도 수원시', null), { local_gov_code: null })).toBe(false);
+  });
+});
+
+describe('revokeInvitation', () => {
+  it('lets only the local government with the same code revoke', async () => {
+    const { invitation } = await inviteUser(dbService, suwonManager, { email: 'g@suwon.go.kr', role: UserRole.VIEWER });
+
+    // Same name, other code
+    const impostor = userOf(UserRole.ADMIN, '경기도 수원시', SEOUL);
+    await expect(revokeInvitation(dbService, impostor, invitation.invitation_id))
+      .rejects.toMatchObject({ reason: 'forbidden' });
+
+    expect((await revokeInvitation(dbService, suwonAdmin, invitation.invitation_id))?.revoked_at).toBeTruthy();
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import type { CloudflareBindings } from '../../src/types/bindings';
+import { getAppUrl } from '../../src/utils/appUrl';
+
+function envOf(vars: Partial<CloudflareBindings>): CloudflareBindings {
+  return { DATABASE_URL: '', JWT_SECRET: '', OPENAI_API_KEY: '', ...vars };
+}
+
+describe('getAppUrl', () => {
+  it('returns APP_URL without a trailing slash', () => {
+    expect(getAppUrl(envOf({ APP_URL: 'https://law.example.go.kr/' }))).toBe('https://law.example.go.kr');
+  });
+
+  it('falls back to the local server in development only', () => {
+    expect(getAppUrl(envOf({ ENVIRONMENT: 'development' }))).toBe('http://localhost:3000');
+    expect(() => getAppUrl(envOf({}))).toThrow('APP_URL is not configured');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createQueryFilters, escapeLike, tenantCondition } from '../../src/utils/db';
+import { createTestDatabase, type TestDatabase } from '../helpers/testDatabase';
+
+describe('escapeLike', () => {
+  it('escapes LIKE wildcards and the escape character', () => {
+    expect(escapeLike('100%_a\\b')).toBe('100\\%\\_a\\\\b');
+  });
+});
+
+describe('createQueryFilters', () => {
+  it('binds every value as a numbered parameter', () => {
+    const where = createQueryFilters()
+      .equals('law_type', '법률')
+      .contains('law_name', '건축')
+      .equals('status', ['시행', '폐지']);
+
+    expect(where.clause()).toBe(
+      'WHERE law_type = $1 AND law_name ILIKE $2 AND status = ANY($3)'
+    );
+    expect(where.params).toEqual(['법률', '%건축%', ['시행', '폐지']]);
+  });
+
+  it('skips empty values', () => {
+    const where = createQueryFilters()
+      .equals('law_type', undefined)
+      .equals('status', '')
+      .equals('category', [])
+      .contains('law_name', undefined);
+
+    expect(where.clause()).toBe('');
+    expect(where.params).toEqual([]);
+  });
+
+  it('continues numbering after existing parameters', () => {
+    const where = createQueryFilters(['law_1']).equals('status', '시행');
+
+    expect(where.clause()).toBe('WHERE status = $2');
+    expect(where.bind(10)).toBe('$3');
+    expect(where.params).toEqual(['law_1', '시행', 10]);
+  });
+
+  it('never puts values into the SQL text', () => {
+    const hostile = "x' OR '1'='1'; DROP TABLE laws; --";
+    const where = createQueryFilters().equals('law_type', hostile).contains('law_name', hostile);
+
+    expect(where.clause()).not.toContain('DROP');
+    expect(where.params).toContain(hostile);
+  });
+});
+
+describe('tenantCondition', () => {
+  it('adds nothing for admins', () => {
+    const params: any[] = [];
+    expect(tenantCondition('local_gov_code', null, params)).toBe('');
+    expect(params).toEqual([]);
+  });
+
+  it('binds the codes of the scope as one array', () => {
+    const params: any[] = ['law_1'];
+    expect(tenantCondition('lr.local_gov_code', { local_gov_codes: ['6410000', '3740000'] }, params))
+      .toBe('lr.local_gov_code = ANY($2)');
+    expect(params).toEqual(['law_1', ['6410000', '3740000']]);
+  });
+});
+
+describe('createQueryFilters against Postgres', () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    await database.db.query(
+      `INSERT INTO laws (law_id, law_type, law_name, law_number, enactment_date, current_version, status)
+       VALUES ('law_1', '법률', '건축법', '1', '2020-01-01', '1', '시행'),
+              ('law_2', '시행령', '건축법 시행령', '2', '2020-01-01', '1', '시행')`
+    );
+  });
+
+  async function lawIds(where: ReturnType<typeof createQueryFilters>): Promise<string[]> {
+    const result = await database.db.query<{ law_id: string }>(
+      `SELECT law_id FROM laws ${where.clause()} ORDER BY law_id`,
+      where.params
+    );
+    return result.rows.map(r => r.law_id);
+  }
+
+  it('matches wildcards in search terms literally', async () => {
+    expect(await lawIds(createQueryFilters().contains('law_name', '%'))).toEqual([]);
+    expect(await lawIds(createQueryFilters().contains('law_name', '_'))).toEqual([]);
+    expect(await lawIds(createQueryFilters().contains('law_name', '\\'))).toEqual([]);
+    expect(await lawIds(createQueryFilters().contains('law_name', '시행령'))).toEqual(['law_2']);
+  });
+
+  it('compares hostile values as plain strings', async () => {
+    expect(await lawIds(createQueryFilters().equals('law_type', "법률' OR '1'='1"))).toEqual([]);
+    expect(await lawIds(createQueryFilters().equals('law_id', ['law_1', "' OR 1=1 --"]))).toEqual(['law_1']);
+  });
+});
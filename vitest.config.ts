@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so tests run without the Pages build and
+// dev server plugins
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts']
+  }
+})